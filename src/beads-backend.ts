@@ -0,0 +1,83 @@
+/**
+ * Beads write backends
+ *
+ * Sync and undo write to beads through a backend: `bd` shells out to the beads
+ * CLI, `jsonl` edits .beads/issues.jsonl directly for environments without bd
+ * (CI containers, sandboxes). Reads always go through loadBeadsIssues().
+ */
+
+import { createIssue, updateIssue, closeIssue } from 'beads-workflows'
+import type { CreateOptions, UpdateOptions, CommandResult } from 'beads-workflows'
+import {
+  addDependency,
+  removeDependency,
+  reopenIssue,
+  deleteIssue,
+  isBdAvailable,
+  updateSkippedFields,
+} from './beads.js'
+import type { DependencyType } from './beads.js'
+import { jsonlBackend } from './beads-jsonl.js'
+import type { TodoConfig } from './types.js'
+
+/**
+ * CreateOptions with the optional id field
+ * The beads CLI supports --id but the beads-workflows type doesn't include it
+ */
+export interface CreateIssueOptions extends CreateOptions {
+  id?: string
+}
+
+/**
+ * Operations sync and undo need to write to beads
+ * Every operation takes the directory to find .beads from (defaults to cwd)
+ */
+export interface BeadsBackend {
+  /** Backend name, for messages */
+  name: 'bd' | 'jsonl'
+  createIssue(options: CreateIssueOptions, cwd?: string): Promise<CommandResult>
+  /** Update an issue; undefined fields are unchanged, '' and [] clear them */
+  updateIssue(issueId: string, options: UpdateOptions, cwd?: string): Promise<CommandResult>
+  /** Close an issue; the result data carries `closed_at` */
+  closeIssue(issueId: string, reason?: string, cwd?: string): Promise<CommandResult>
+  reopenIssue(issueId: string, cwd?: string): Promise<CommandResult>
+  deleteIssue(issueId: string, cwd?: string): Promise<CommandResult>
+  addDependency(issueId: string, dependsOnId: string, type?: DependencyType, cwd?: string): Promise<CommandResult>
+  removeDependency(issueId: string, dependsOnId: string, cwd?: string): Promise<CommandResult>
+}
+
+/**
+ * Backend that runs the bd CLI
+ */
+export const bdBackend: BeadsBackend = {
+  name: 'bd',
+  createIssue: (options, cwd) => createIssue(options, { cwd }),
+  async updateIssue(issueId, options, cwd) {
+    const updateResult = await updateIssue(issueId, options, { cwd })
+    if (!updateResult.success) return updateResult
+    const skippedResult = await updateSkippedFields(issueId, options, cwd)
+    return skippedResult.success ? updateResult : skippedResult
+  },
+  closeIssue: (issueId, reason, cwd) => closeIssue(issueId, reason, { cwd }),
+  reopenIssue: (issueId, cwd) => reopenIssue(issueId, cwd),
+  deleteIssue: (issueId, cwd) => deleteIssue(issueId, cwd),
+  addDependency: (issueId, dependsOnId, type, cwd) => addDependency(issueId, dependsOnId, type, cwd),
+  removeDependency: (issueId, dependsOnId, cwd) => removeDependency(issueId, dependsOnId, cwd),
+}
+
+/**
+ * Pick the beads backend for a config
+ *
+ * @param backend - 'bd', 'jsonl', or 'auto' (default) to use bd when it's on the PATH
+ * @returns The backend to write through
+ */
+export async function resolveBeadsBackend(
+  backend: TodoConfig['beadsBackend'] = 'auto'
+): Promise<BeadsBackend> {
+  if (backend === 'bd') return bdBackend
+  if (backend === 'jsonl') return jsonlBackend
+  if (backend !== 'auto') {
+    throw new Error(`Invalid beads backend: ${backend}. Must be one of: auto, bd, jsonl`)
+  }
+  return (await isBdAvailable()) ? bdBackend : jsonlBackend
+}
@@ -0,0 +1,422 @@
+/**
+ * Native JSONL beads backend
+ *
+ * Writes .beads/issues.jsonl directly instead of shelling out to bd. Every write
+ * holds a lock file and replaces issues.jsonl by atomic rename. Lines that aren't
+ * touched are written back byte for byte, in their original order; touched issues
+ * keep every field this module doesn't know about.
+ */
+
+import { promises as fs } from 'node:fs'
+import { join, basename, dirname } from 'node:path'
+import { randomBytes } from 'node:crypto'
+import { findBeadsDir } from 'beads-workflows'
+import type { CommandResult, UpdateOptions } from 'beads-workflows'
+import type { BeadsBackend, CreateIssueOptions } from './beads-backend.js'
+import type { DependencyType } from './beads.js'
+
+/** Issues file, relative to the .beads directory */
+const ISSUES_FILE = 'issues.jsonl'
+
+/** How long to wait for another writer's lock before giving up */
+const LOCK_TIMEOUT_MS = 10_000
+
+/** Locks older than this are assumed abandoned by a crashed writer */
+const LOCK_STALE_MS = 30_000
+
+/** Delay between lock attempts */
+const LOCK_RETRY_MS = 25
+
+/**
+ * An issue record as stored in issues.jsonl
+ * Only the fields written here are typed; the rest are carried through as-is.
+ */
+interface BeadsRecord extends Record<string, unknown> {
+  id: string
+  dependencies?: Array<Record<string, unknown> & { issue_id?: string; depends_on_id?: string }>
+}
+
+/**
+ * A line of issues.jsonl
+ * `record` is absent for blank or malformed lines, which are kept verbatim.
+ */
+interface JsonlLine {
+  text: string
+  record?: BeadsRecord
+}
+
+/**
+ * Parse issues.jsonl into lines (an empty list if the file doesn't exist yet)
+ */
+async function readLines(path: string): Promise<JsonlLine[]> {
+  let content: string
+  try {
+    content = await fs.readFile(path, 'utf-8')
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return []
+    throw error
+  }
+
+  const texts = content.split('\n')
+  if (texts[texts.length - 1] === '') texts.pop()
+
+  return texts.map((text) => {
+    try {
+      const record = JSON.parse(text) as unknown
+      if (record && typeof record === 'object' && typeof (record as BeadsRecord).id === 'string') {
+        return { text, record: record as BeadsRecord }
+      }
+    } catch {
+      // Kept verbatim below
+    }
+    return { text }
+  })
+}
+
+/**
+ * Replace issues.jsonl with the given lines by writing a temp file and renaming it
+ */
+async function writeLines(path: string, lines: JsonlLine[]): Promise<void> {
+  const tempPath = `${path}.${process.pid}.tmp`
+  const content = lines.map((line) => line.text).join('\n') + (lines.length > 0 ? '\n' : '')
+
+  try {
+    await fs.writeFile(tempPath, content, 'utf-8')
+    await fs.rename(tempPath, path)
+  } catch (error) {
+    await fs.rm(tempPath, { force: true })
+    throw error
+  }
+}
+
+/**
+ * Run a function while holding the issues.jsonl lock
+ */
+async function withLock<T>(beadsDir: string, fn: () => Promise<T>): Promise<T> {
+  const lockPath = join(beadsDir, `${ISSUES_FILE}.lock`)
+  const deadline = Date.now() + LOCK_TIMEOUT_MS
+
+  for (;;) {
+    try {
+      await fs.writeFile(lockPath, String(process.pid), { encoding: 'utf-8', flag: 'wx' })
+      break
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error
+    }
+
+    // Take over a lock left behind by a writer that died
+    try {
+      const { mtimeMs } = await fs.stat(lockPath)
+      if (Date.now() - mtimeMs > LOCK_STALE_MS) {
+        await fs.rm(lockPath, { force: true })
+        continue
+      }
+    } catch {
+      continue
+    }
+
+    if (Date.now() > deadline) {
+      throw new Error(`Timed out waiting for ${lockPath}`)
+    }
+    await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_MS))
+  }
+
+  try {
+    return await fn()
+  } finally {
+    await fs.rm(lockPath, { force: true })
+  }
+}
+
+/**
+ * Find the .beads directory, lock issues.jsonl, and apply a change to its lines
+ *
+ * The change returns the command result; the file is only rewritten when it succeeds.
+ */
+async function modifyIssues(
+  cwd: string | undefined,
+  change: (lines: JsonlLine[], beadsDir: string) => CommandResult | Promise<CommandResult>
+): Promise<CommandResult> {
+  try {
+    const beadsDir = await findBeadsDir(cwd || process.cwd())
+    if (!beadsDir) {
+      return { success: false, error: 'No .beads directory found' }
+    }
+
+    const path = join(beadsDir, ISSUES_FILE)
+    return await withLock(beadsDir, async () => {
+      const lines = await readLines(path)
+      const result = await change(lines, beadsDir)
+      if (result.success) {
+        await writeLines(path, lines)
+      }
+      return result
+    })
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : String(error) }
+  }
+}
+
+/**
+ * Find the line holding an issue
+ */
+function findLine(lines: JsonlLine[], issueId: string): (JsonlLine & { record: BeadsRecord }) | undefined {
+  return lines.find((line): line is JsonlLine & { record: BeadsRecord } => line.record?.id === issueId)
+}
+
+/**
+ * Set a field, removing it when cleared (undefined, empty string or empty list)
+ */
+function setField(record: BeadsRecord, key: string, value: unknown): void {
+  if (value === undefined || value === '' || (Array.isArray(value) && value.length === 0)) {
+    delete record[key]
+  } else {
+    record[key] = value
+  }
+}
+
+/**
+ * Apply edits to an issue's record, bump updated_at, and re-serialize its line
+ */
+function editRecord(
+  lines: JsonlLine[],
+  issueId: string,
+  edit: (record: BeadsRecord, now: string) => string | void
+): CommandResult {
+  const line = findLine(lines, issueId)
+  if (!line) {
+    return { success: false, error: `Issue ${issueId} not found` }
+  }
+
+  const now = new Date().toISOString()
+  const error = edit(line.record, now)
+  if (error) {
+    return { success: false, error }
+  }
+
+  line.record.updated_at = now
+  line.text = JSON.stringify(line.record)
+  return { success: true, data: { ...line.record } }
+}
+
+/**
+ * Issue ID prefix: `issue-prefix` from .beads/config.yaml, else the most common
+ * prefix of existing issue IDs, else the project directory name
+ *
+ * @param ids - Existing issue IDs
+ * @param beadsDir - The .beads directory, if there is one
+ * @param projectDir - Project directory (default: the parent of beadsDir, else cwd)
+ * @returns The prefix, without the trailing dash
+ */
+export async function issuePrefix(
+  ids: string[],
+  beadsDir?: string,
+  projectDir: string = beadsDir ? dirname(beadsDir) : process.cwd()
+): Promise<string> {
+  if (beadsDir) {
+    try {
+      const config = await fs.readFile(join(beadsDir, 'config.yaml'), 'utf-8')
+      const match = config.match(/^issue-prefix:\s*["']?([\w.-]+)["']?\s*$/m)
+      if (match) return match[1]
+    } catch {
+      // No config - fall through
+    }
+  }
+
+  const counts = new Map<string, number>()
+  for (const id of ids) {
+    const prefix = id.replace(/-[^-]*$/, '')
+    if (prefix !== id) counts.set(prefix, (counts.get(prefix) ?? 0) + 1)
+  }
+  const [mostCommon] = [...counts].sort((a, b) => b[1] - a[1])
+
+  return mostCommon?.[0] ?? basename(projectDir).toLowerCase().replace(/[^\w.]+/g, '-')
+}
+
+/**
+ * Generate an issue ID with a prefix and a random suffix, like bd does
+ *
+ * @param prefix - ID prefix (see issuePrefix)
+ * @param taken - IDs already in use
+ * @returns A new ID not in `taken`
+ */
+export function newIssueId(prefix: string, taken: Set<string>): string {
+  let id: string
+  do {
+    id = `${prefix}-${randomBytes(2).toString('hex')}`
+  } while (taken.has(id))
+  return id
+}
+
+/**
+ * Create an issue, with the given ID or a new one
+ */
+function createIssue(options: CreateIssueOptions, cwd?: string): Promise<CommandResult> {
+  return modifyIssues(cwd, async (lines, beadsDir) => {
+    let id = options.id
+    if (id && findLine(lines, id)) {
+      return { success: false, error: `Issue ${id} already exists` }
+    }
+    if (!id) {
+      const ids = lines.flatMap((line) => (line.record ? [line.record.id] : []))
+      id = newIssueId(await issuePrefix(ids, beadsDir), new Set(ids))
+    }
+
+    const now = new Date().toISOString()
+    const record: BeadsRecord = {
+      id,
+      title: options.title,
+      status: 'open',
+      priority: options.priority,
+      issue_type: options.type,
+      created_at: now,
+      updated_at: now,
+    }
+    setField(record, 'description', options.description)
+    setField(record, 'assignee', options.assignee)
+    setField(record, 'labels', options.labels)
+
+    lines.push({ text: JSON.stringify(record), record })
+    return { success: true, data: { ...record } }
+  })
+}
+
+/**
+ * Update an issue's fields; fields left undefined are unchanged
+ */
+function updateIssue(issueId: string, options: UpdateOptions, cwd?: string): Promise<CommandResult> {
+  return modifyIssues(cwd, (lines) =>
+    editRecord(lines, issueId, (record, now) => {
+      if (options.title !== undefined) setField(record, 'title', options.title)
+      if (options.description !== undefined) setField(record, 'description', options.description)
+      if (options.priority !== undefined) record.priority = options.priority
+      if (options.assignee !== undefined) setField(record, 'assignee', options.assignee)
+      if (options.labels !== undefined) setField(record, 'labels', options.labels)
+
+      if (options.status !== undefined && options.status !== record.status) {
+        record.status = options.status
+        if (options.status === 'closed') {
+          record.closed_at = now
+        } else {
+          delete record.closed_at
+          delete record.close_reason
+        }
+      }
+    })
+  )
+}
+
+/**
+ * Close an issue, recording closed_at and the reason
+ */
+function closeIssue(issueId: string, reason?: string, cwd?: string): Promise<CommandResult> {
+  return modifyIssues(cwd, (lines) =>
+    editRecord(lines, issueId, (record, now) => {
+      record.status = 'closed'
+      record.closed_at = now
+      setField(record, 'close_reason', reason)
+    })
+  )
+}
+
+/**
+ * Reopen a closed issue, clearing closed_at and the reason
+ */
+function reopenIssue(issueId: string, cwd?: string): Promise<CommandResult> {
+  return modifyIssues(cwd, (lines) =>
+    editRecord(lines, issueId, (record) => {
+      record.status = 'open'
+      delete record.closed_at
+      delete record.close_reason
+    })
+  )
+}
+
+/**
+ * Delete an issue and every dependency edge pointing at it
+ */
+function deleteIssue(issueId: string, cwd?: string): Promise<CommandResult> {
+  return modifyIssues(cwd, (lines) => {
+    const index = lines.findIndex((line) => line.record?.id === issueId)
+    if (index === -1) {
+      return { success: false, error: `Issue ${issueId} not found` }
+    }
+    const [{ record }] = lines.splice(index, 1)
+
+    for (const line of lines) {
+      const dependencies = line.record?.dependencies
+      if (!line.record || !Array.isArray(dependencies)) continue
+      const kept = dependencies.filter((dep) => dep.depends_on_id !== issueId)
+      if (kept.length !== dependencies.length) {
+        setField(line.record, 'dependencies', kept)
+        line.text = JSON.stringify(line.record)
+      }
+    }
+
+    return { success: true, data: { ...record } }
+  })
+}
+
+/**
+ * Add a dependency edge (replacing the type of an existing edge between the same issues)
+ */
+function addDependency(
+  issueId: string,
+  dependsOnId: string,
+  type: DependencyType = 'blocks',
+  cwd?: string
+): Promise<CommandResult> {
+  return modifyIssues(cwd, (lines) => {
+    if (!findLine(lines, dependsOnId)) {
+      return { success: false, error: `Issue ${dependsOnId} not found` }
+    }
+
+    return editRecord(lines, issueId, (record, now) => {
+      const dependencies = Array.isArray(record.dependencies) ? record.dependencies : []
+      const existing = dependencies.find((dep) => dep.depends_on_id === dependsOnId)
+      if (existing) {
+        existing.type = type
+      } else {
+        dependencies.push({
+          issue_id: issueId,
+          depends_on_id: dependsOnId,
+          type,
+          created_at: now,
+          created_by: 'todo.mdx',
+          metadata: '{}',
+        })
+      }
+      record.dependencies = dependencies
+    })
+  })
+}
+
+/**
+ * Remove a dependency edge
+ */
+function removeDependency(issueId: string, dependsOnId: string, cwd?: string): Promise<CommandResult> {
+  return modifyIssues(cwd, (lines) =>
+    editRecord(lines, issueId, (record) => {
+      const dependencies = Array.isArray(record.dependencies) ? record.dependencies : []
+      const kept = dependencies.filter((dep) => dep.depends_on_id !== dependsOnId)
+      if (kept.length === dependencies.length) {
+        return `No dependency ${issueId} -> ${dependsOnId}`
+      }
+      setField(record, 'dependencies', kept)
+    })
+  )
+}
+
+/**
+ * Backend that edits .beads/issues.jsonl directly
+ */
+export const jsonlBackend: BeadsBackend = {
+  name: 'jsonl',
+  createIssue,
+  updateIssue,
+  closeIssue,
+  reopenIssue,
+  deleteIssue,
+  addDependency,
+  removeDependency,
+}
@@ -3,14 +3,23 @@
  * Loads issues from .beads/issues.jsonl and converts to TodoIssue format
  */
 
-import { readIssuesFromJsonl, findBeadsDir, type Issue } from 'beads-workflows'
+import { promises as fs, constants as fsConstants } from 'node:fs'
+import { join, delimiter } from 'node:path'
+import {
+  readIssuesFromJsonl,
+  findBeadsDir,
+  execBd,
+  type Issue,
+  type CommandResult,
+  type UpdateOptions,
+} from 'beads-workflows'
 import type { TodoIssue } from './types'
 
 /**
  * Convert beads-workflows Issue to TodoIssue
  * Maps Date objects to ISO strings and adjusts field names
  */
-function convertIssueToTodoIssue(issue: Issue): TodoIssue {
+function convertIssueToTodoIssue(issue: Issue, closeReason?: string): TodoIssue {
   return {
     id: issue.id,
     title: issue.title,
@@ -23,6 +32,7 @@ function convertIssueToTodoIssue(issue: Issue): TodoIssue {
     createdAt: issue.created.toISOString(),
     updatedAt: issue.updated.toISOString(),
     closedAt: issue.closed?.toISOString(),
+    closeReason: issue.status === 'closed' ? closeReason : undefined,
     dependsOn: issue.dependsOn.length > 0 ? issue.dependsOn : undefined,
     blocks: issue.blocks.length > 0 ? issue.blocks : undefined,
     parent: issue.parent,
@@ -31,6 +41,35 @@ function convertIssueToTodoIssue(issue: Issue): TodoIssue {
   }
 }
 
+/**
+ * Read close reasons from issues.jsonl
+ * beads-workflows' reader doesn't expose `close_reason`, so it's read from the raw lines
+ */
+async function readCloseReasons(beadsDir: string): Promise<Map<string, string>> {
+  const reasons = new Map<string, string>()
+
+  let content: string
+  try {
+    content = await fs.readFile(join(beadsDir, 'issues.jsonl'), 'utf-8')
+  } catch {
+    return reasons
+  }
+
+  for (const line of content.split('\n')) {
+    if (!line.trim()) continue
+    try {
+      const raw = JSON.parse(line) as { id?: unknown; close_reason?: unknown }
+      if (typeof raw.id === 'string' && typeof raw.close_reason === 'string' && raw.close_reason) {
+        reasons.set(raw.id, raw.close_reason)
+      }
+    } catch {
+      // Malformed lines are skipped, as readIssuesFromJsonl does
+    }
+  }
+
+  return reasons
+}
+
 /**
  * Load issues from .beads directory
  *
@@ -56,8 +95,10 @@ export async function loadBeadsIssues(startPath?: string): Promise<TodoIssue[]>
     // Read issues from JSONL
     const issues = await readIssuesFromJsonl(beadsDir)
 
+    const closeReasons = await readCloseReasons(beadsDir)
+
     // Convert to TodoIssue format
-    return issues.map(convertIssueToTodoIssue)
+    return issues.map((issue) => convertIssueToTodoIssue(issue, closeReasons.get(issue.id)))
   } catch (error) {
     // Handle errors gracefully - log but don't throw
     if (error instanceof Error) {
@@ -83,3 +124,123 @@ export async function hasBeadsDirectory(startPath?: string): Promise<boolean> {
     return false
   }
 }
+
+/**
+ * Beads dependency types used for issue relationships
+ * `blocks` for dependsOn/blocks, `parent-child` for parent/children
+ */
+export type DependencyType = 'blocks' | 'parent-child'
+
+/**
+ * Add a dependency edge in beads (`bd dep add`)
+ *
+ * @param issueId - The dependent issue
+ * @param dependsOnId - The issue it depends on (or its parent)
+ * @param type - Dependency type
+ * @param cwd - Directory to run bd in (defaults to cwd)
+ */
+export async function addDependency(
+  issueId: string,
+  dependsOnId: string,
+  type: DependencyType = 'blocks',
+  cwd?: string
+): Promise<CommandResult> {
+  return execBd(['dep', 'add', issueId, dependsOnId, '--type', type, '--json'], { cwd })
+}
+
+/**
+ * Remove a dependency edge from beads (`bd dep remove`)
+ *
+ * @param issueId - The dependent issue
+ * @param dependsOnId - The issue it depends on (or its parent)
+ * @param cwd - Directory to run bd in (defaults to cwd)
+ */
+export async function removeDependency(
+  issueId: string,
+  dependsOnId: string,
+  cwd?: string
+): Promise<CommandResult> {
+  return execBd(['dep', 'remove', issueId, dependsOnId, '--json'], { cwd })
+}
+
+/**
+ * Apply the parts of an update beads-workflows' updateIssue skips: clearing the
+ * assignee or description (`bd update --assignee=`) and setting the labels
+ * (`bd label add/remove`)
+ *
+ * @param issueId - The issue to update
+ * @param options - The options passed to updateIssue
+ * @param cwd - Directory to run bd in (defaults to cwd)
+ */
+export async function updateSkippedFields(
+  issueId: string,
+  options: UpdateOptions,
+  cwd?: string
+): Promise<CommandResult> {
+  const clears = (['assignee', 'description'] as const)
+    .filter((field) => options[field] === '')
+    .map((field) => `--${field}=`)
+  if (clears.length > 0) {
+    const clearResult = await execBd(['update', issueId, ...clears, '--json'], { cwd })
+    if (!clearResult.success) return clearResult
+  }
+
+  const labels = options.labels
+  if (labels) {
+    const current = (await loadBeadsIssues(cwd)).find((issue) => issue.id === issueId)?.labels ?? []
+    const changes = [
+      ...current.filter((label) => !labels.includes(label)).map((label) => ['remove', label]),
+      ...labels.filter((label) => !current.includes(label)).map((label) => ['add', label]),
+    ]
+    for (const [change, label] of changes) {
+      const labelResult = await execBd(['label', change, issueId, label, '--json'], { cwd })
+      if (!labelResult.success) return labelResult
+    }
+  }
+
+  return { success: true }
+}
+
+/**
+ * Reopen a closed issue in beads (`bd reopen`)
+ * Clears the issue's closedAt and close reason
+ *
+ * @param issueId - The issue to reopen
+ * @param cwd - Directory to run bd in (defaults to cwd)
+ */
+export async function reopenIssue(issueId: string, cwd?: string): Promise<CommandResult> {
+  return execBd(['reopen', issueId, '--json'], { cwd })
+}
+
+/**
+ * Delete an issue from beads (`bd delete`)
+ *
+ * @param issueId - The issue to delete
+ * @param cwd - Directory to run bd in (defaults to cwd)
+ */
+export async function deleteIssue(issueId: string, cwd?: string): Promise<CommandResult> {
+  return execBd(['delete', issueId, '--force', '--json'], { cwd })
+}
+
+/**
+ * Check if the bd CLI is on the PATH
+ *
+ * @returns true if a `bd` executable was found
+ */
+export async function isBdAvailable(): Promise<boolean> {
+  const names = process.platform === 'win32' ? ['bd.exe', 'bd.cmd'] : ['bd']
+
+  for (const dir of (process.env.PATH ?? '').split(delimiter)) {
+    if (!dir) continue
+    for (const name of names) {
+      try {
+        await fs.access(join(dir, name), fsConstants.X_OK)
+        return true
+      } catch {
+        // Not in this directory
+      }
+    }
+  }
+
+  return false
+}
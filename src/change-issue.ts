@@ -0,0 +1,172 @@
+/**
+ * Change an issue's status, assignee or labels in its .todo file and in beads at once
+ *
+ * Each side gets the same change applied to its own copy of the issue, so edits that
+ * haven't been synced yet survive, and the sync base is updated too, so the next sync
+ * sees nothing to reconcile. Closing and reopening move the file between the todo
+ * directory and `closedSubdir`.
+ */
+
+import { findBeadsDir } from 'beads-workflows'
+import { planTodoFiles, writeTodoFiles } from './generator.js'
+import type { GeneratorOptions } from './generator.js'
+import { createBeadsStore, createTodoStore } from './stores.js'
+import { withoutCloseFields } from './issue-changes.js'
+import { loadSyncState, saveSyncState } from './sync-state.js'
+import type { TodoConfig, TodoFileMove, TodoIssue } from './types.js'
+
+/**
+ * A change to apply to an issue
+ */
+export interface IssueChange {
+  /** New status; 'closed' stamps closedAt, leaving 'closed' clears closedAt and closeReason */
+  status?: 'open' | 'in_progress' | 'closed'
+  /** Reason recorded when closing */
+  closeReason?: string
+  /** New assignee */
+  assignee?: string
+  /** Labels to add */
+  addLabels?: string[]
+  /** Labels to remove */
+  removeLabels?: string[]
+}
+
+/**
+ * Options for changeIssue
+ */
+export interface ChangeIssueOptions extends TodoConfig {
+  /** Filename pattern (default: `filePattern`, else the issue template's $pattern) */
+  pattern?: string
+}
+
+/**
+ * Result of changeIssue
+ */
+export interface ChangeIssueResult {
+  /** The issue as written to its .todo file */
+  issue: TodoIssue
+  /** Path of the .todo file written */
+  path: string
+  /** The file's move, if its path changed (e.g. into `closedSubdir` on close) */
+  moved?: TodoFileMove
+  /** Whether the issue was updated in beads */
+  beads: boolean
+}
+
+/**
+ * Apply a change to one copy of an issue
+ */
+function applyChange(issue: TodoIssue, change: IssueChange, now: string): TodoIssue {
+  let next: TodoIssue = { ...issue, updatedAt: now }
+
+  if (change.status && change.status !== issue.status) {
+    next =
+      change.status === 'closed'
+        ? { ...next, status: 'closed', closedAt: now, closeReason: change.closeReason }
+        : { ...withoutCloseFields(next), status: change.status }
+  }
+
+  if (change.assignee !== undefined) {
+    next.assignee = change.assignee
+  }
+
+  if (change.addLabels?.length || change.removeLabels?.length) {
+    const labels = new Set([...(issue.labels ?? []), ...(change.addLabels ?? [])])
+    change.removeLabels?.forEach((label) => labels.delete(label))
+    // An empty list (rather than undefined) so the beads update clears the labels
+    next.labels = [...labels]
+  }
+
+  return next
+}
+
+/**
+ * Check that a status change makes sense for the issue's current status
+ */
+function checkTransition(issue: TodoIssue, change: IssueChange): void {
+  if (change.status === 'closed' && issue.status === 'closed') {
+    throw new Error(`Issue ${issue.id} is already closed`)
+  }
+  if (change.status === 'open' && issue.status !== 'closed') {
+    throw new Error(`Issue ${issue.id} is not closed`)
+  }
+  if (change.status === 'in_progress' && issue.status === 'closed') {
+    throw new Error(`Issue ${issue.id} is closed; reopen it first`)
+  }
+}
+
+/**
+ * Change an issue in its .todo file and in beads together
+ *
+ * Beads (or `stores.beads`) is updated first, when beads is enabled and has the issue,
+ * so the file gets the closedAt beads recorded. An issue that only exists in beads
+ * gets a .todo file.
+ *
+ * @param id - Issue ID
+ * @param change - Status, assignee and label changes
+ * @param options - Config
+ * @returns The issue as written, its file, and whether beads was updated
+ * @throws If the issue doesn't exist, the status change doesn't apply, or beads rejects the update
+ *
+ * @example
+ * ```ts
+ * await changeIssue('todo-12', { status: 'closed', closeReason: 'Fixed in #40' })
+ * await changeIssue('todo-13', { addLabels: ['api'], removeLabels: ['triage'] })
+ * ```
+ */
+export async function changeIssue(
+  id: string,
+  change: IssueChange,
+  options: ChangeIssueOptions = {}
+): Promise<ChangeIssueResult> {
+  const { todoDir = '.todo', templateDir = '.mdx' } = options
+  const generatorOptions: GeneratorOptions = {
+    pattern: options.pattern ?? options.filePattern,
+    closedSubdir: options.closedSubdir,
+    separateClosed: options.separateClosed,
+    templateDir,
+    preset: options.preset,
+    filters: options.filters,
+  }
+
+  const beadsDir = options.beads === false ? null : await findBeadsDir(options.beadsDir || process.cwd())
+  const beadsStore = options.stores?.beads ?? (beadsDir ? createBeadsStore(options) : undefined)
+  const fileStore = createTodoStore({ todoDir, templateDir, preset: options.preset, filters: options.filters })
+
+  const fileIssue = await fileStore.get(id)
+  const beadsIssue = await beadsStore?.get(id)
+  const current = beadsIssue ?? fileIssue
+  if (!current) {
+    throw new Error(`Issue ${id} not found`)
+  }
+  checkTransition(current, change)
+
+  const now = new Date().toISOString()
+  let closedAt: string | undefined
+
+  if (beadsStore && beadsIssue) {
+    const stored = await beadsStore.update(applyChange(beadsIssue, change, now), beadsIssue)
+    closedAt = stored.status === 'closed' ? stored.closedAt : undefined
+  }
+
+  // Every copy gets the closedAt beads recorded, so the sides agree
+  const changed = (issue: TodoIssue): TodoIssue => {
+    const next = applyChange(issue, change, now)
+    return change.status === 'closed' && closedAt ? { ...next, closedAt } : next
+  }
+
+  // The file's own copy: a body that didn't read back through the template was parsed as
+  // the description, and writeTodoFiles() writes it back as it is
+  const issue = changed(fileIssue ?? current)
+  const plan = await planTodoFiles([issue], [], todoDir, generatorOptions)
+  const [path] = await writeTodoFiles([issue], todoDir, generatorOptions)
+
+  // Apply the same change to the sync base, so the next sync doesn't see a one-sided edit
+  const state = await loadSyncState(todoDir)
+  const base = state.issues[id]
+  if (base) {
+    await saveSyncState(todoDir, { ...state.issues, [id]: changed(base) })
+  }
+
+  return { issue, path, moved: plan.moved[0], beads: Boolean(beadsStore && beadsIssue) }
+}
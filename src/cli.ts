@@ -6,11 +6,40 @@
 
 import { parseArgs } from 'node:util'
 import { promises as fs } from 'node:fs'
-import { join, resolve, sep } from 'node:path'
-import { compile } from './compiler.js'
+import { join, relative, resolve, sep } from 'node:path'
+import { compile, loadIssues } from './compiler.js'
+import {
+  filterIssues,
+  sortIssues,
+  readyIssues,
+  blockedIssues,
+  dependencyTree,
+  ISSUE_SORT_KEYS,
+} from './query.js'
+import type { DependencyTreeNode, IssueFilter, IssueSortKey } from './query.js'
+import { createDependencyGraph } from './dependency-graph.js'
 import { sync } from './sync.js'
+import { undo } from './undo.js'
+import { newIssue, ISSUE_TYPES } from './new-issue.js'
+import type { NewIssueOptions } from './new-issue.js'
+import { changeIssue } from './change-issue.js'
+import type { IssueChange } from './change-issue.js'
+import { lintTodoFiles } from './lint.js'
+import type { LintResult } from './lint.js'
+import { loadConfig } from './config.js'
 import type { SyncOptions } from './sync.js'
+import { createInteractiveResolver, formatFieldValue } from './interactive.js'
+import type {
+  SyncConflict,
+  SyncError,
+  SyncIssueChange,
+  SyncPlan,
+  SyncResult,
+  TodoConfig,
+  TodoIssue,
+} from './types.js'
 import { createRequire } from 'node:module'
+import { createInterface } from 'node:readline/promises'
 
 const require = createRequire(import.meta.url)
 const pkg = require('../package.json')
@@ -24,8 +53,20 @@ USAGE:
 
 COMMANDS:
   build                Compile to TODO.md
+  new <title>          Create an issue (.todo file and beads issue)
+  start <id>           Mark an issue in progress
+  close <id>           Close an issue (moves its file to the closed subfolder)
+  reopen <id>          Reopen a closed issue
+  assign <id> <user>   Assign an issue
+  label <id> +a -b     Add and remove labels
+  list                 List issues (open, in progress and blocked by default)
+  show <id>            Show an issue with its dependency tree
+  ready                List open issues with nothing blocking them
+  blocked              List blocked issues and what blocks them
+  lint                 Check .todo files and templates for problems
   sync                 Run bi-directional sync
   watch                Watch mode for live sync
+  undo                 Revert the last applied sync
   init                 Initialize TODO.mdx in project
   help                 Show this help message
   version              Show version
@@ -33,33 +74,110 @@ COMMANDS:
 OPTIONS:
   --help               Show help for command
   --version            Show version
+  --config <path>      Config file (default: nearest todo.config.ts/.js or .todorc.json/.yaml)
+  --todo-dir <dir>     Directory for .todo/*.md files
+  --beads-dir <dir>    Path to the .beads directory
+  --template-dir <dir> Template directory
+  --preset <name>      Template preset: minimal, detailed, github, linear
   --output <path>      Custom output path (build command)
   --dry-run            Preview changes without applying (sync command)
   --direction <dir>    Sync direction: beads-to-files, files-to-beads, bidirectional (sync command)
+  --interactive        Resolve conflicts field by field (sync command)
+  --resolve <side>     Resolve conflicts with beads or file values (sync command)
+  --delete             Delete files of issues removed from beads (sync command)
+  --steps <n>          Number of syncs to revert (undo command, default: 1)
+  --type <type>        Issue type: task, bug, feature, epic (new command, default: task; list filter)
+  --priority <n>       Priority 0-4 (new command, default: 2; list filter)
+  --label <label>      Add a label, repeatable (new command; list filter, matching all)
+  --depends-on <id>    Add a dependency, repeatable (new command)
+  --parent <id>        Parent issue (new command)
+  --assignee <name>    Assignee (new command; list filter)
+  --description <text> Description (new command)
+  --id <id>            Use this ID instead of allocating one (new command)
+  --edit               Open the new file in $EDITOR before creating the beads issue (new command)
+  --reason <text>      Close reason (close command)
+  --fix                Fix status/type spellings and misnamed files (lint command)
+  --status <status>    Filter by status: open, in_progress, blocked, closed (list command)
+  --all                Include closed issues (list command)
+  --sort <key>         Sort by priority, id, title, status, type, created, updated (list, ready, blocked)
+  --reverse            Reverse the sort order (list, ready, blocked)
+  --json               Print one JSON document instead of text (all commands; watch prints one per line)
 
 EXAMPLES:
   todo.mdx build
   todo.mdx build --output ./README.md
+  todo.mdx new "Fix login redirect" --type bug --priority 1 --label api --depends-on todo-12
+  todo.mdx new "Write release notes" --edit
+  todo.mdx start todo-12
+  todo.mdx close todo-12 --reason "Fixed in #40"
+  todo.mdx assign todo-13 alice
+  todo.mdx label todo-13 +api -triage
   todo.mdx sync
   todo.mdx sync --dry-run
   todo.mdx sync --direction beads-to-files
+  todo.mdx sync --interactive
+  todo.mdx sync --resolve=beads
+  todo.mdx sync --delete --dry-run
+  todo.mdx list --type bug --priority 0,1
+  todo.mdx list --label api --sort updated --reverse
+  todo.mdx show todo-12
+  todo.mdx ready --json
+  todo.mdx blocked
+  todo.mdx lint --fix
+  todo.mdx undo
+  todo.mdx undo --steps 3
   todo.mdx watch
   todo.mdx init
+  todo.mdx build --config ./config/todo.config.js
+  todo.mdx sync --todo-dir issues
+
+EXIT CODES:
+  0  Success
+  1  Failure (invalid arguments, a failed step, lint errors)
+  2  Sync finished but left conflicts: markers written or files skipped
+
+CONFIG:
+  Options are read from the config file, then TODO_MDX_* environment variables
+  (e.g. TODO_MDX_TODO_DIR), then flags; later sources win.
 `
 
+/** Process exit codes */
+const EXIT_CODES = {
+  success: 0,
+  failure: 1,
+  /** Sync left conflicts for the user: markers written, conflicts left unsynced or files skipped */
+  conflicts: 2,
+} as const
+
+/** Print JSON documents instead of text (--json) */
+let jsonOutput = false
+
 /**
- * Print message with icon prefix
+ * Print message with icon prefix (nothing in JSON mode)
  */
 function log(icon: string, message: string): void {
+  if (jsonOutput) return
   console.log(`${icon} ${message}`)
 }
 
+/**
+ * Print a command's JSON document
+ */
+function printJson(value: unknown): void {
+  console.log(JSON.stringify(value, null, 2))
+}
+
 /**
  * Print error and exit
+ * In JSON mode the error is printed to stdout as `{ "error": message }`.
  */
 function error(message: string): never {
-  console.error(`✗ Error: ${message}`)
-  process.exit(1)
+  if (jsonOutput) {
+    printJson({ error: message })
+  } else {
+    console.error(`✗ Error: ${message}`)
+  }
+  process.exit(EXIT_CODES.failure)
 }
 
 /**
@@ -83,10 +201,30 @@ function validateOutputPath(outputPath: string): string {
   return resolvedPath
 }
 
+/**
+ * Load the project config, with the config flags taking precedence
+ */
+async function loadCliConfig(args: { values: Record<string, unknown> }): Promise<TodoConfig> {
+  try {
+    const { config } = await loadConfig({
+      configFile: args.values.config as string | undefined,
+      overrides: {
+        todoDir: args.values['todo-dir'] as string | undefined,
+        beadsDir: args.values['beads-dir'] as string | undefined,
+        templateDir: args.values['template-dir'] as string | undefined,
+        preset: args.values.preset as TodoConfig['preset'],
+      },
+    })
+    return config
+  } catch (err) {
+    error(`Failed to load config: ${err instanceof Error ? err.message : String(err)}`)
+  }
+}
+
 /**
  * Build command: compile to TODO.md
  */
-async function buildCommand(args: { values: Record<string, unknown> }): Promise<void> {
+async function buildCommand(args: { values: Record<string, unknown> }, config: TodoConfig): Promise<void> {
   const outputPath = (args.values.output as string) || 'TODO.md'
 
   // Validate output path to prevent path traversal
@@ -94,14 +232,19 @@ async function buildCommand(args: { values: Record<string, unknown> }): Promise<
 
   try {
     log('→', `Compiling ${outputPath}...`)
-    const result = await compile()
+    const result = await compile(config)
 
     await fs.writeFile(validatedPath, result.output, 'utf-8')
 
     log('✓', `Compiled ${result.issues.length} issues to ${outputPath}`)
-    log('✓', `  - In Progress: ${result.issues.filter(i => i.status === 'in_progress').length}`)
-    log('✓', `  - Open: ${result.issues.filter(i => i.status === 'open').length}`)
-    log('✓', `  - Closed: ${result.issues.filter(i => i.status === 'closed').length}`)
+    log('✓', `  - In Progress: ${result.stats.inProgress}`)
+    log('✓', `  - Open: ${result.stats.open}`)
+    log('✓', `  - Blocked: ${result.stats.blocked}`)
+    log('✓', `  - Closed: ${result.stats.closed}`)
+
+    if (jsonOutput) {
+      printJson({ output: validatedPath, issues: result.issues.length, stats: result.stats, files: result.files })
+    }
   } catch (err) {
     error(`Failed to compile: ${err instanceof Error ? err.message : String(err)}`)
   }
@@ -110,78 +253,642 @@ async function buildCommand(args: { values: Record<string, unknown> }): Promise<
 /**
  * Sync command: bi-directional sync
  */
-async function syncCommand(args: { values: Record<string, unknown> }): Promise<void> {
+async function syncCommand(args: { values: Record<string, unknown> }, config: TodoConfig): Promise<void> {
   const dryRun = Boolean(args.values['dry-run'])
   const direction = (args.values.direction as SyncOptions['direction']) || 'bidirectional'
 
+  const interactive = Boolean(args.values.interactive)
+  const resolve = args.values.resolve as string | undefined
+
   // Validate direction
   const validDirections = ['beads-to-files', 'files-to-beads', 'bidirectional']
   if (!validDirections.includes(direction)) {
     error(`Invalid direction: ${direction}. Must be one of: ${validDirections.join(', ')}`)
   }
 
+  // Validate conflict resolution flags
+  if (resolve !== undefined && resolve !== 'beads' && resolve !== 'file') {
+    error(`Invalid resolve value: ${resolve}. Must be one of: beads, file`)
+  }
+  if (interactive && jsonOutput) {
+    error('--interactive cannot be combined with --json. Use --resolve=beads|file')
+  }
+  if (interactive && !process.stdin.isTTY) {
+    error('--interactive requires a terminal. Use --resolve=beads|file in non-interactive environments')
+  }
+
+  const options: SyncOptions = { ...config, dryRun, direction, handleDeletions: Boolean(args.values.delete) }
+  if (resolve) {
+    options.conflictStrategy = resolve === 'beads' ? 'beads-wins' : 'file-wins'
+  }
+
+  const rl = interactive ? createInterface({ input: process.stdin, output: process.stdout }) : undefined
+  if (rl) {
+    options.onConflict = createInteractiveResolver({
+      ask: (question) => rl.question(question),
+      print: (message) => console.log(message),
+    })
+  }
+
+  let result: SyncResult
   try {
     log('→', `Syncing (${direction})${dryRun ? ' [dry-run]' : ''}...`)
 
-    const result = await sync({ dryRun, direction })
+    result = await sync(options)
+  } catch (err) {
+    error(`Failed to sync: ${err instanceof Error ? err.message : String(err)}`)
+  } finally {
+    rl?.close()
+  }
 
-    // Print summary
-    if (dryRun) {
-      log('→', 'Changes that would be made:')
+  if (jsonOutput) {
+    // The snapshot only matters to the journal; the plan is only news on a dry run
+    const { plan, ...summary } = result
+    if (dryRun && plan) {
+      const { snapshot: _snapshot, ...planSummary } = plan
+      printJson({ ...summary, plan: planSummary })
     } else {
-      log('✓', 'Sync complete:')
+      printJson(summary)
     }
+  } else if (dryRun && result.plan) {
+    log('→', 'Changes that would be made:')
+    printSyncPlan(result.plan)
+    printSyncErrors(result.errors)
+  } else {
+    printSyncSummary(result)
+  }
 
-    if (result.created.length > 0) {
-      log('✓', `  Created: ${result.created.length} issues`)
-      result.created.forEach(id => log('  ', `    - ${id}`))
+  if (result.errors.length > 0) {
+    process.exit(EXIT_CODES.failure)
+  }
+  // Markers written and conflicts left unsynced both need the user
+  const leftConflicts = result.conflicts.some(
+    (conflict) => conflict.resolution === 'markers' || conflict.resolution === 'manual'
+  )
+  if (result.unresolved.length > 0 || leftConflicts) {
+    process.exit(EXIT_CODES.conflicts)
+  }
+}
+
+/**
+ * Print what an applied sync did
+ */
+function printSyncSummary(result: SyncResult): void {
+  log('✓', 'Sync complete:')
+
+  if (result.filesMoved.length > 0) {
+    log('→', `  Files renamed: ${result.filesMoved.length}`)
+    result.filesMoved.forEach(move => log('  ', `    - ${move.from} -> ${move.to}`))
+  }
+
+  if (result.filesDeleted.length > 0) {
+    log('→', `  Files deleted: ${result.filesDeleted.length}`)
+    result.filesDeleted.forEach(path => log('  ', `    - ${path}`))
+  }
+
+  if (result.created.length > 0) {
+    log('✓', `  Created: ${result.created.length} issues`)
+    result.created.forEach(id => log('  ', `    - ${id}`))
+  }
+
+  if (result.updated.length > 0) {
+    log('✓', `  Updated: ${result.updated.length} issues`)
+    result.updated.forEach(id => log('  ', `    - ${id}`))
+  }
+
+  if (result.filesWritten.length > 0) {
+    log('✓', `  Files written: ${result.filesWritten.length}`)
+    result.filesWritten.forEach(path => log('  ', `    - ${path}`))
+  }
+
+  printConflicts(result.conflicts, result.unresolved)
+  printSyncErrors(result.errors)
+
+  if (
+    result.created.length === 0 &&
+    result.updated.length === 0 &&
+    result.filesWritten.length === 0 &&
+    result.filesMoved.length === 0 &&
+    result.filesDeleted.length === 0 &&
+    result.conflicts.length === 0 &&
+    result.unresolved.length === 0 &&
+    result.errors.length === 0
+  ) {
+    log('✓', '  No changes needed')
+  }
+}
+
+/**
+ * Print the sync steps that failed
+ */
+function printSyncErrors(errors: SyncError[]): void {
+  if (errors.length > 0) {
+    log('✗', `  Errors: ${errors.length}`)
+    errors.forEach(syncError => log('  ', `    - ${syncError.message}`))
+  }
+}
+
+/**
+ * Print conflicts and issues skipped because of conflict markers
+ */
+function printConflicts(conflicts: SyncConflict[], unresolved: string[]): void {
+  if (conflicts.length > 0) {
+    log('→', `  Conflicts: ${conflicts.length}`)
+    conflicts.forEach(conflict => {
+      const fields = conflict.fields.map(f => f.field).join(', ')
+      log('  ', `    - ${conflict.issueId}: ${fields} (${conflict.resolution})`)
+    })
+  }
+
+  if (unresolved.length > 0) {
+    log('→', `  Unresolved conflict markers: ${unresolved.length} (skipped)`)
+    unresolved.forEach(id => log('  ', `    - ${id}`))
+  }
+}
+
+/** Longest field value shown in a plan diff before it's shortened */
+const MAX_DIFF_VALUE_LENGTH = 80
+
+/**
+ * Format a field value for a plan diff, shortening long values (e.g. descriptions)
+ */
+function formatDiffValue(value: unknown): string {
+  const formatted = formatFieldValue(value)
+  return formatted.length > MAX_DIFF_VALUE_LENGTH
+    ? `${formatted.slice(0, MAX_DIFF_VALUE_LENGTH - 3)}...`
+    : formatted
+}
+
+/**
+ * Print the field changes of a planned write as a diff
+ */
+function printFieldChanges(change: SyncIssueChange): void {
+  for (const { field, before, after } of change.changes) {
+    if (before !== undefined) {
+      log('  ', `      - ${field}: ${formatDiffValue(before)}`)
+    }
+    if (after !== undefined) {
+      log('  ', `      + ${field}: ${formatDiffValue(after)}`)
+    }
+  }
+}
+
+/**
+ * Print a sync plan as a readable diff
+ * File renames and deletes come first, so it's clear which files will change.
+ */
+function printSyncPlan(plan: SyncPlan): void {
+  plan.fileMoves.forEach(move => log('→', `  Rename ${move.from} -> ${move.to}`))
+  plan.fileDeletes.forEach(file => log('→', `  Delete ${file.path} (${file.id})`))
+
+  plan.creates.forEach(change => {
+    log('✓', `  Create in beads: ${change.issueId}`)
+    printFieldChanges(change)
+  })
+
+  plan.updates.forEach(change => {
+    log('✓', `  Update in beads: ${change.issueId}`)
+    printFieldChanges(change)
+  })
+
+  plan.fileWrites.forEach(change => {
+    log('✓', `  Write ${change.path ?? 'file'} (${change.issueId})`)
+    printFieldChanges(change)
+  })
+
+  printConflicts(plan.conflicts, plan.unresolved)
+
+  if (
+    plan.fileMoves.length === 0 &&
+    plan.fileDeletes.length === 0 &&
+    plan.creates.length === 0 &&
+    plan.updates.length === 0 &&
+    plan.fileWrites.length === 0 &&
+    plan.conflicts.length === 0 &&
+    plan.unresolved.length === 0
+  ) {
+    log('✓', '  No changes needed')
+  }
+}
+
+/**
+ * Split repeated and comma-separated flag values into a list
+ */
+function listFlag(value: unknown): string[] {
+  const values = Array.isArray(value) ? value : value === undefined ? [] : [value]
+  return values.flatMap((item) => String(item).split(',')).map((item) => item.trim()).filter(Boolean)
+}
+
+/**
+ * New command: create an issue
+ */
+async function newCommand(
+  args: { values: Record<string, unknown>; positionals: string[] },
+  config: TodoConfig
+): Promise<void> {
+  const title = args.positionals.slice(1).join(' ').trim()
+  if (!title) {
+    error('Missing title. Usage: todo.mdx new "Title" [--type bug] [--priority 1]')
+  }
+
+  const priorityValue = args.values.priority as string | undefined
+  if (priorityValue !== undefined && !/^[0-4]$/.test(priorityValue)) {
+    error(`Invalid priority: ${priorityValue}. Must be an integer from 0 to 4`)
+  }
+
+  let editor: string | undefined
+  if (args.values.edit) {
+    editor = process.env.VISUAL || process.env.EDITOR
+    if (!editor) {
+      error('--edit requires $EDITOR or $VISUAL to be set')
     }
+  }
 
-    if (result.updated.length > 0) {
-      log('✓', `  Updated: ${result.updated.length} issues`)
-      result.updated.forEach(id => log('  ', `    - ${id}`))
+  try {
+    const result = await newIssue({
+      ...config,
+      title,
+      id: args.values.id as string | undefined,
+      type: args.values.type as NewIssueOptions['type'],
+      priority: priorityValue === undefined ? undefined : (Number(priorityValue) as NewIssueOptions['priority']),
+      labels: listFlag(args.values.label),
+      dependsOn: listFlag(args.values['depends-on']),
+      parent: args.values.parent as string | undefined,
+      assignee: args.values.assignee as string | undefined,
+      description: args.values.description as string | undefined,
+      editor,
+    })
+
+    log('✓', `Created ${result.issue.id}: ${result.issue.title}`)
+    log('→', `  File: ${relative(process.cwd(), result.path)}`)
+    log('→', result.beads ? '  Beads: created' : '  Beads: skipped (no .beads directory)')
+
+    if (jsonOutput) {
+      printJson(result)
     }
+  } catch (err) {
+    error(`Failed to create issue: ${err instanceof Error ? err.message : String(err)}`)
+  }
+}
+
+/** Past tense of each change command, for its summary line */
+const CHANGE_VERBS: Record<string, string> = {
+  start: 'Started',
+  close: 'Closed',
+  reopen: 'Reopened',
+  assign: 'Assigned',
+  label: 'Labeled',
+}
+
+/**
+ * Start, close, reopen, assign and label commands: change an issue in its .todo file and beads
+ *
+ * @param labelEdits - `+label`/`-label` arguments of the label command, taken out before
+ *   parsing since `-label` would be read as a flag
+ */
+async function changeCommand(
+  args: { values: Record<string, unknown>; positionals: string[] },
+  config: TodoConfig,
+  labelEdits: string[]
+): Promise<void> {
+  const [command, id, ...rest] = args.positionals
+  if (!id) {
+    error(`Missing issue ID. Usage: todo.mdx ${command} <id>${command === 'assign' ? ' <user>' : ''}`)
+  }
 
-    if (result.filesWritten.length > 0) {
-      log('✓', `  Files written: ${result.filesWritten.length}`)
-      result.filesWritten.forEach(path => log('  ', `    - ${path}`))
+  let change: IssueChange
+  switch (command) {
+    case 'start':
+      change = { status: 'in_progress' }
+      break
+    case 'close':
+      change = { status: 'closed', closeReason: args.values.reason as string | undefined }
+      break
+    case 'reopen':
+      change = { status: 'open' }
+      break
+    case 'assign':
+      if (!rest[0]) {
+        error('Missing assignee. Usage: todo.mdx assign <id> <user>')
+      }
+      change = { assignee: rest[0] }
+      break
+    default: {
+      const edits = [...rest, ...labelEdits]
+      if (edits.length === 0) {
+        error('Missing labels. Usage: todo.mdx label <id> +add -remove')
+      }
+      change = {
+        addLabels: edits.filter((edit) => !edit.startsWith('-')).map((edit) => edit.replace(/^\+/, '')),
+        removeLabels: edits.filter((edit) => edit.startsWith('-')).map((edit) => edit.slice(1)),
+      }
     }
+  }
+
+  try {
+    const result = await changeIssue(id, change, config)
 
-    if (result.conflicts.length > 0) {
-      log('→', `  Conflicts: ${result.conflicts.length}`)
-      result.conflicts.forEach(conflict => {
-        log('  ', `    - ${conflict.issueId}: ${conflict.field} (${conflict.resolution})`)
-      })
+    log('✓', `${CHANGE_VERBS[command]} ${result.issue.id}: ${result.issue.title}`)
+    if (result.moved) {
+      log('→', `  File: ${relative(process.cwd(), result.moved.from)} → ${relative(process.cwd(), result.moved.to)}`)
+    } else {
+      log('→', `  File: ${relative(process.cwd(), result.path)}`)
     }
+    log('→', result.beads ? '  Beads: updated' : '  Beads: skipped (issue not in beads)')
 
-    if (
-      result.created.length === 0 &&
-      result.updated.length === 0 &&
-      result.filesWritten.length === 0 &&
-      result.conflicts.length === 0
-    ) {
-      log('✓', '  No changes needed')
+    if (jsonOutput) {
+      printJson(result)
     }
   } catch (err) {
-    error(`Failed to sync: ${err instanceof Error ? err.message : String(err)}`)
+    error(`Failed to ${command} issue: ${err instanceof Error ? err.message : String(err)}`)
+  }
+}
+
+/** Issue statuses accepted by --status */
+const ISSUE_STATUSES: TodoIssue['status'][] = ['open', 'in_progress', 'blocked', 'closed']
+
+/**
+ * Check list flag values against the allowed ones
+ */
+function validateValues<T extends string>(flag: string, values: string[], allowed: readonly T[]): T[] {
+  for (const value of values) {
+    if (!allowed.includes(value as T)) {
+      error(`Invalid ${flag}: ${value}. Must be one of: ${allowed.join(', ')}`)
+    }
+  }
+  return values as T[]
+}
+
+/**
+ * Read the sort flags, shared by the query commands
+ */
+function sortFlags(args: { values: Record<string, unknown> }): { key: IssueSortKey; reverse: boolean } {
+  const [key = 'priority'] = validateValues('sort', listFlag(args.values.sort), ISSUE_SORT_KEYS)
+  return { key, reverse: Boolean(args.values.reverse) }
+}
+
+/**
+ * Load the merged issue set the query commands work on
+ */
+async function loadQueryIssues(config: TodoConfig): Promise<TodoIssue[]> {
+  try {
+    return await loadIssues(config)
+  } catch (err) {
+    error(`Failed to load issues: ${err instanceof Error ? err.message : String(err)}`)
+  }
+}
+
+/**
+ * Print issues one per line, with aligned columns
+ */
+function printIssueLines(issues: TodoIssue[], details: (issue: TodoIssue) => string = () => ''): void {
+  if (issues.length === 0) {
+    log('→', 'No issues')
+    return
+  }
+
+  const idWidth = Math.max(...issues.map((issue) => issue.id.length))
+  for (const issue of issues) {
+    const labels = issue.labels?.length ? ` [${issue.labels.join(', ')}]` : ''
+    console.log(
+      `${issue.id.padEnd(idWidth)}  P${issue.priority}  ${issue.type.padEnd(7)}  ${issue.status.padEnd(11)}  ${issue.title}${labels}${details(issue)}`
+    )
+  }
+}
+
+/**
+ * List command: filter and sort issues
+ */
+async function listCommand(args: { values: Record<string, unknown> }, config: TodoConfig): Promise<void> {
+  const filter: IssueFilter = {
+    status: validateValues('status', listFlag(args.values.status), ISSUE_STATUSES),
+    type: validateValues('type', listFlag(args.values.type), ISSUE_TYPES),
+    priority: validateValues('priority', listFlag(args.values.priority), ['0', '1', '2', '3', '4']).map(
+      (priority) => Number(priority) as TodoIssue['priority']
+    ),
+    assignee: listFlag(args.values.assignee),
+    label: listFlag(args.values.label),
+  }
+  // Closed issues are left out unless asked for
+  if (!filter.status?.length && !args.values.all) {
+    filter.status = ISSUE_STATUSES.filter((status) => status !== 'closed')
+  }
+  const { key, reverse } = sortFlags(args)
+
+  const issues = sortIssues(filterIssues(await loadQueryIssues(config), filter), key, reverse)
+
+  if (jsonOutput) {
+    printJson(issues)
+    return
+  }
+  printIssueLines(issues)
+}
+
+/**
+ * Print a dependency tree below an issue, indented by depth
+ */
+function printDependencyTree(nodes: DependencyTreeNode[], depth = 1): void {
+  for (const node of nodes) {
+    const indent = '  '.repeat(depth)
+    const description = node.issue ? `${node.issue.title} (${node.issue.status})` : '(not found)'
+    console.log(`${indent}${node.id}  ${description}${node.cycle ? ' [cycle]' : ''}`)
+    printDependencyTree(node.dependsOn, depth + 1)
+  }
+}
+
+/**
+ * Show command: one issue in full, with its resolved dependency tree and every issue blocking it
+ */
+async function showCommand(
+  args: { values: Record<string, unknown>; positionals: string[] },
+  config: TodoConfig
+): Promise<void> {
+  const id = args.positionals[1]
+  if (!id) {
+    error('Missing issue ID. Usage: todo.mdx show <id>')
+  }
+
+  const issues = await loadQueryIssues(config)
+  const issue = issues.find((i) => i.id === id)
+  if (!issue) {
+    error(`Issue not found: ${id}`)
+  }
+  const tree = dependencyTree(id, issues)
+  const blockedBy = createDependencyGraph(issues).transitiveBlockersOf(id)
+
+  if (jsonOutput) {
+    printJson({ issue, dependencies: tree.dependsOn, blockedBy })
+    return
+  }
+
+  console.log(`${issue.id}: ${issue.title}`)
+  const fields: Array<[string, unknown]> = [
+    ['Status', issue.status],
+    ['Type', issue.type],
+    ['Priority', `P${issue.priority}`],
+    ['Assignee', issue.assignee],
+    ['Labels', issue.labels?.join(', ')],
+    ['Parent', issue.parent],
+    ['Children', issue.children?.join(', ')],
+    ['Blocks', issue.blocks?.join(', ')],
+    ['Blocked by', blockedBy.join(', ')],
+    ['Created', issue.createdAt],
+    ['Updated', issue.updatedAt],
+    ['Closed', issue.closedAt],
+    ['Close reason', issue.closeReason],
+  ]
+  for (const [label, value] of fields) {
+    if (value) console.log(`  ${label}: ${value}`)
+  }
+
+  if (issue.description) {
+    console.log(`\n${issue.description}`)
+  }
+
+  if (tree.dependsOn.length > 0) {
+    console.log('\nDependencies:')
+    printDependencyTree(tree.dependsOn)
+  }
+}
+
+/**
+ * Ready command: open issues with nothing blocking them
+ */
+async function readyCommand(args: { values: Record<string, unknown> }, config: TodoConfig): Promise<void> {
+  const { key, reverse } = sortFlags(args)
+  const issues = sortIssues(readyIssues(await loadQueryIssues(config)), key, reverse)
+
+  if (jsonOutput) {
+    printJson(issues)
+    return
+  }
+  printIssueLines(issues)
+}
+
+/**
+ * Blocked command: blocked issues and the issues blocking them
+ */
+async function blockedCommand(args: { values: Record<string, unknown> }, config: TodoConfig): Promise<void> {
+  const { key, reverse } = sortFlags(args)
+  const blocked = blockedIssues(await loadQueryIssues(config))
+  const blockers = new Map(blocked.map(({ issue, blockedBy }) => [issue.id, blockedBy]))
+  const issues = sortIssues(blocked.map(({ issue }) => issue), key, reverse)
+
+  if (jsonOutput) {
+    printJson(issues.map((issue) => ({ issue, blockedBy: blockers.get(issue.id) })))
+    return
+  }
+  printIssueLines(issues, (issue) => {
+    const blockedBy = blockers.get(issue.id) ?? []
+    return blockedBy.length > 0 ? `  (blocked by ${blockedBy.join(', ')})` : '  (marked blocked)'
+  })
+}
+
+/**
+ * Lint command: report problems in .todo files and templates, optionally fixing them
+ * Exits with the failure code when errors are left.
+ */
+async function lintCommand(args: { values: Record<string, unknown> }, config: TodoConfig): Promise<void> {
+  let result: LintResult
+  try {
+    result = await lintTodoFiles({ ...config, fix: Boolean(args.values.fix) })
+  } catch (err) {
+    error(`Failed to lint: ${err instanceof Error ? err.message : String(err)}`)
+  }
+
+  const errors = result.diagnostics.filter((diagnostic) => diagnostic.severity === 'error').length
+  if (jsonOutput) {
+    printJson(result)
+  } else {
+    for (const diagnostic of result.diagnostics) {
+      const location = `${relative(process.cwd(), diagnostic.path)}:${diagnostic.line}`
+      console.log(`${location}: ${diagnostic.severity}: ${diagnostic.message} (${diagnostic.rule})`)
+    }
+
+    if (result.fixed.length > 0) {
+      log('✓', `Fixed ${result.fixed.length} problem${result.fixed.length === 1 ? '' : 's'}`)
+    }
+
+    const warnings = result.diagnostics.length - errors
+    const fixable = result.diagnostics.filter((diagnostic) => diagnostic.fixable).length
+    if (result.diagnostics.length === 0) {
+      log('✓', `No problems in ${result.files} file${result.files === 1 ? '' : 's'}`)
+    } else {
+      log(
+        errors > 0 ? '✗' : '→',
+        `${errors} error${errors === 1 ? '' : 's'}, ${warnings} warning${warnings === 1 ? '' : 's'}` +
+          (fixable > 0 ? ` (${fixable} fixable with --fix)` : '')
+      )
+    }
+  }
+
+  if (errors > 0) {
+    process.exit(EXIT_CODES.failure)
+  }
+}
+
+/**
+ * Undo command: revert applied syncs from the journal
+ */
+async function undoCommand(args: { values: Record<string, unknown> }, config: TodoConfig): Promise<void> {
+  const stepsValue = (args.values.steps as string | undefined) ?? '1'
+  const steps = Number(stepsValue)
+
+  // Validate steps
+  if (!/^\d+$/.test(stepsValue) || steps < 1) {
+    error(`Invalid steps: ${stepsValue}. Must be a positive integer`)
+  }
+
+  try {
+    log('→', `Undoing ${steps} sync${steps === 1 ? '' : 's'}...`)
+
+    const result = await undo({
+      todoDir: config.todoDir,
+      beadsDir: config.beadsDir,
+      beadsBackend: config.beadsBackend,
+      stores: config.stores,
+      steps,
+    })
+
+    log('✓', `Undo complete (${result.entries.length} sync${result.entries.length === 1 ? '' : 's'}):`)
+
+    if (result.issues.length > 0) {
+      log('✓', `  Issues restored: ${result.issues.length}`)
+      result.issues.forEach(id => log('  ', `    - ${id}`))
+    }
+
+    if (result.files.length > 0) {
+      log('✓', `  Files restored: ${result.files.length}`)
+      result.files.forEach(path => log('  ', `    - ${path}`))
+    }
+
+    if (jsonOutput) {
+      printJson(result)
+    }
+  } catch (err) {
+    error(`Failed to undo: ${err instanceof Error ? err.message : String(err)}`)
   }
 }
 
 /**
  * Watch command: watch mode for live sync
+ * In JSON mode each change event is printed as one line of JSON.
  */
-async function watchCommand(): Promise<void> {
+async function watchCommand(config: TodoConfig): Promise<void> {
   try {
     // Try to dynamically import watcher (may not exist yet)
     const { watch } = await import('./watcher.js')
 
     log('→', 'Starting watch mode...')
-    log('→', 'Watching .beads/ and .todo/ for changes')
+    log('→', `Watching .beads/ and ${config.todoDir ?? '.todo'}/ for changes`)
     log('→', 'Press Ctrl+C to stop')
 
     const watcher = await watch({
+      ...config,
       onChange: (event) => {
-        if (event.type === 'file-change') {
+        if (jsonOutput) {
+          console.log(JSON.stringify(event))
+        } else if (event.type === 'file-change') {
           log('→', `File changed: ${event.path}`)
         } else if (event.type === 'beads-change') {
           log('→', `Beads changed: ${event.issueId || 'unknown'}`)
@@ -196,7 +903,7 @@ async function watchCommand(): Promise<void> {
       log('→', 'Stopping watcher...')
       await watcher.close()
       log('✓', 'Watcher stopped')
-      process.exit(0)
+      process.exit(EXIT_CODES.success)
     })
   } catch (err) {
     if (err instanceof Error && 'code' in err && err.code === 'ERR_MODULE_NOT_FOUND') {
@@ -209,19 +916,24 @@ async function watchCommand(): Promise<void> {
 /**
  * Init command: initialize TODO.mdx in project
  */
-async function initCommand(): Promise<void> {
+async function initCommand(config: TodoConfig): Promise<void> {
+  const created: string[] = []
+  const skipped: string[] = []
+
   try {
     log('→', 'Initializing todo.mdx...')
 
     // Create .todo directory
-    const todoDir = '.todo'
+    const todoDir = config.todoDir ?? '.todo'
     await fs.mkdir(todoDir, { recursive: true })
+    created.push(`${todoDir}/`)
     log('✓', `Created ${todoDir}/ directory`)
 
     // Create TODO.mdx template if it doesn't exist
     const todoMdxPath = '.beads/TODO.mdx'
     try {
       await fs.access(todoMdxPath)
+      skipped.push(todoMdxPath)
       log('→', `${todoMdxPath} already exists, skipping`)
     } catch {
       const template = `# TODO
@@ -231,6 +943,7 @@ This file is auto-generated from .todo/*.md files and beads.
 Run \`todo.mdx build\` to regenerate this file.
 `
       await fs.writeFile(todoMdxPath, template, 'utf-8')
+      created.push(todoMdxPath)
       log('✓', `Created ${todoMdxPath}`)
     }
 
@@ -247,8 +960,10 @@ Run \`todo.mdx build\` to regenerate this file.
       if (!gitignore.includes('TODO.md')) {
         const entry = '\n# todo.mdx generated file\nTODO.md\n'
         await fs.appendFile(gitignorePath, entry, 'utf-8')
+        created.push('.gitignore: TODO.md')
         log('✓', 'Added TODO.md to .gitignore')
       } else {
+        skipped.push('.gitignore: TODO.md')
         log('→', 'TODO.md already in .gitignore')
       }
     } catch (err) {
@@ -260,36 +975,98 @@ Run \`todo.mdx build\` to regenerate this file.
     log('  ', '  1. Create .todo/*.md files for your issues')
     log('  ', '  2. Run `todo.mdx sync` to sync with beads')
     log('  ', '  3. Run `todo.mdx build` to generate TODO.md')
+
+    if (jsonOutput) {
+      printJson({ created, skipped })
+    }
   } catch (err) {
     error(`Failed to initialize: ${err instanceof Error ? err.message : String(err)}`)
   }
 }
 
+/** Flags accepted by every command */
+const CLI_OPTIONS = {
+  help: { type: 'boolean', short: 'h' },
+  version: { type: 'boolean', short: 'v' },
+  output: { type: 'string', short: 'o' },
+  'dry-run': { type: 'boolean' },
+  direction: { type: 'string' },
+  interactive: { type: 'boolean' },
+  resolve: { type: 'string' },
+  delete: { type: 'boolean' },
+  steps: { type: 'string' },
+  config: { type: 'string' },
+  'todo-dir': { type: 'string' },
+  'beads-dir': { type: 'string' },
+  'template-dir': { type: 'string' },
+  preset: { type: 'string' },
+  type: { type: 'string' },
+  priority: { type: 'string' },
+  label: { type: 'string', multiple: true },
+  'depends-on': { type: 'string', multiple: true },
+  parent: { type: 'string' },
+  assignee: { type: 'string' },
+  description: { type: 'string' },
+  id: { type: 'string' },
+  edit: { type: 'boolean' },
+  reason: { type: 'string' },
+  fix: { type: 'boolean' },
+  status: { type: 'string' },
+  all: { type: 'boolean' },
+  sort: { type: 'string' },
+  reverse: { type: 'boolean' },
+  json: { type: 'boolean' },
+} as const
+
+/**
+ * Print the version
+ */
+function printVersion(): void {
+  if (jsonOutput) {
+    printJson({ version: VERSION })
+  } else {
+    console.log(`todo.mdx v${VERSION}`)
+  }
+}
+
 /**
  * Main CLI entry point
  */
 async function main(): Promise<void> {
+  const argv = process.argv.slice(2)
+
+  // `label <id> +x -y`: label edits after the ID aren't flags, even when they start with -
+  const { tokens } = parseArgs({
+    args: argv,
+    options: CLI_OPTIONS,
+    strict: false,
+    allowPositionals: true,
+    tokens: true,
+  })
+  // Set before the strict parse, so its errors are JSON too
+  jsonOutput = tokens.some((token) => token.kind === 'option' && token.name === 'json')
+
+  const commandToken = tokens.find((token) => token.kind === 'positional')
+  const labelEdits =
+    commandToken?.kind === 'positional' && commandToken.value === 'label'
+      ? argv.slice(commandToken.index + 2).filter((arg) => /^[+-][^-]/.test(arg))
+      : []
+
   const args = parseArgs({
-    args: process.argv.slice(2),
-    options: {
-      help: { type: 'boolean', short: 'h' },
-      version: { type: 'boolean', short: 'v' },
-      output: { type: 'string', short: 'o' },
-      'dry-run': { type: 'boolean' },
-      direction: { type: 'string' },
-    },
+    args: argv.filter((arg) => !labelEdits.includes(arg)),
+    options: CLI_OPTIONS,
     allowPositionals: true,
   })
 
   // Handle global flags
   if (args.values.version) {
-    console.log(`todo.mdx v${VERSION}`)
-    process.exit(0)
+    printVersion()
+    process.exit(EXIT_CODES.success)
   }
 
   if (args.values.help && args.positionals.length === 0) {
     console.log(HELP_TEXT)
-    process.exit(0)
+    process.exit(EXIT_CODES.success)
   }
 
   // Get command
@@ -297,25 +1074,61 @@ async function main(): Promise<void> {
 
   if (!command) {
     console.log(HELP_TEXT)
-    process.exit(1)
+    process.exit(EXIT_CODES.failure)
   }
 
   // Route to command handlers
   switch (command) {
     case 'build':
-      await buildCommand(args)
+      await buildCommand(args, await loadCliConfig(args))
       break
 
     case 'sync':
-      await syncCommand(args)
+      await syncCommand(args, await loadCliConfig(args))
+      break
+
+    case 'new':
+      await newCommand(args, await loadCliConfig(args))
+      break
+
+    case 'start':
+    case 'close':
+    case 'reopen':
+    case 'assign':
+    case 'label':
+      await changeCommand(args, await loadCliConfig(args), labelEdits)
+      break
+
+    case 'list':
+      await listCommand(args, await loadCliConfig(args))
+      break
+
+    case 'show':
+      await showCommand(args, await loadCliConfig(args))
+      break
+
+    case 'ready':
+      await readyCommand(args, await loadCliConfig(args))
+      break
+
+    case 'blocked':
+      await blockedCommand(args, await loadCliConfig(args))
+      break
+
+    case 'lint':
+      await lintCommand(args, await loadCliConfig(args))
+      break
+
+    case 'undo':
+      await undoCommand(args, await loadCliConfig(args))
       break
 
     case 'watch':
-      await watchCommand()
+      await watchCommand(await loadCliConfig(args))
       break
 
     case 'init':
-      await initCommand()
+      await initCommand(await loadCliConfig(args))
       break
 
     case 'help':
@@ -323,11 +1136,11 @@ async function main(): Promise<void> {
       break
 
     case 'version':
-      console.log(`todo.mdx v${VERSION}`)
+      printVersion()
       break
 
     default:
-      error(`Unknown command: ${command}\n${HELP_TEXT}`)
+      error(`Unknown command: ${command}${jsonOutput ? '' : `\n${HELP_TEXT}`}`)
   }
 }
 
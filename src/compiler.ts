@@ -1,16 +1,19 @@
 /**
  * Compiler for todo.mdx
- * Loads issues from beads and .todo/*.md files, merges them, and generates TODO.md
+ * Loads issues from beads and .todo/*.md files, merges them, and renders
+ * the TODO template (.mdx/TODO.mdx or a built-in preset) to TODO.md
  */
 
-import { loadBeadsIssues } from './beads.js'
-import { loadTodoFiles } from './parser.js'
-import type { TodoIssue, TodoConfig, CompileResult } from './types.js'
+import { createBeadsStore, createTodoStore } from './stores.js'
+import { render, resolveTemplate, parseTemplateFrontmatter } from './templates.js'
+import { createTodoComponents } from './components/issues.js'
+import { createDependencyGraph } from './dependency-graph.js'
+import type { TodoIssue, TodoConfig, TodoStats, CompileResult, TemplateFilters } from './types.js'
 
 export interface CompileOptions extends TodoConfig {
-  /** Include completed issues in output (default: true) */
+  /** Include completed issues in output (default: true, compileToString only) */
   includeCompleted?: boolean
-  /** Maximum number of completed issues to show (default: 10) */
+  /** Maximum number of completed issues to show (default: 10, compileToString only) */
   completedLimit?: number
 }
 
@@ -218,26 +221,104 @@ export function compileToString(issues: TodoIssue[], options?: CompileOptions):
 }
 
 /**
- * Compile TODO.md from beads and .todo/*.md files
+ * Compute the issue counts exposed to TODO templates as {stats.*}
  */
-export async function compile(options?: CompileOptions): Promise<CompileResult> {
+export function computeStats(issues: TodoIssue[]): TodoStats {
+  const graph = createDependencyGraph(issues)
+
+  return {
+    total: issues.length,
+    open: issues.filter(i => i.status === 'open').length,
+    inProgress: issues.filter(i => i.status === 'in_progress').length,
+    blocked: graph.blocked().length,
+    closed: issues.filter(i => i.status === 'closed').length,
+    ready: graph.ready().length,
+  }
+}
+
+/**
+ * Render a TODO template against a set of issues
+ *
+ * The template has access to `{stats.*}`, `{timestamp}` and the `<Issues>`
+ * component family, which is bound to the given issues.
+ *
+ * @example
+ * ```ts
+ * const output = compileTemplate('# TODO\n\n{stats.open} open\n\n<Issues.Ready limit={5} />', issues)
+ * ```
+ *
+ * @param template - TODO template content (frontmatter is ignored)
+ * @param issues - Issues to render
+ * @param filters - Custom slot filters
+ * @returns Rendered markdown
+ */
+export function compileTemplate(template: string, issues: TodoIssue[], filters?: TemplateFilters): string {
+  // Frontmatter configures the template itself and is not part of the output
+  const { body } = parseTemplateFrontmatter(template)
+
+  const output = render(body, {
+    issues,
+    stats: computeStats(issues),
+    timestamp: new Date().toISOString(),
+    components: createTodoComponents(issues),
+    filters,
+  })
+
+  return output.trim()
+}
+
+/**
+ * Load the merged issue set that compile() renders
+ *
+ * Issues come from beads and .todo/*.md files (or the issue stores given in
+ * `stores`); an issue in both is picked by `conflictStrategy` (default: beads wins).
+ *
+ * @param options - Config: directories, beads toggle, stores, conflict strategy
+ * @returns Merged issues
+ */
+export async function loadIssues(options?: TodoConfig): Promise<TodoIssue[]> {
   const beadsEnabled = options?.beads !== false
   const todoDir = options?.todoDir || '.todo'
-  const conflictStrategy = options?.conflictStrategy || 'beads-wins'
+  // Conflict markers only apply to sync; beads is shown until they are resolved
+  const conflictStrategy =
+    options?.conflictStrategy === 'markers' ? 'beads-wins' : options?.conflictStrategy || 'beads-wins'
+
+  // Load issues from the stores (beads and .todo files unless others are given)
+  const beadsStore = options?.stores?.beads ?? createBeadsStore({ beadsDir: options?.beadsDir })
+  const fileStore =
+    options?.stores?.files ??
+    createTodoStore({
+      todoDir,
+      templateDir: options?.templateDir || '.mdx',
+      preset: options?.preset,
+      filters: options?.filters,
+    })
+  const beadsIssues = beadsEnabled ? await beadsStore.list() : []
+  const fileIssues = await fileStore.list()
 
-  // Load issues from sources
-  const beadsIssues = beadsEnabled ? await loadBeadsIssues() : []
-  const fileIssues = await loadTodoFiles(todoDir)
+  return mergeIssues(beadsIssues, fileIssues, conflictStrategy)
+}
 
-  // Merge issues
-  const mergedIssues = mergeIssues(beadsIssues, fileIssues, conflictStrategy)
+/**
+ * Compile TODO.md from beads and .todo/*.md files (or the issue stores given in `stores`)
+ *
+ * Resolves the TODO template via resolveTemplate('todo', ...) so a custom
+ * .mdx/TODO.mdx shapes the output; otherwise the configured preset is used.
+ */
+export async function compile(options?: CompileOptions): Promise<CompileResult> {
+  const mergedIssues = await loadIssues(options)
 
-  // Compile to string
-  const output = compileToString(mergedIssues, options)
+  // Render the resolved TODO template
+  const template = await resolveTemplate('todo', {
+    templateDir: options?.templateDir,
+    preset: options?.preset,
+  })
+  const output = compileTemplate(template, mergedIssues, options?.filters)
 
   return {
     output,
     files: [], // For future: could write output files here
     issues: mergedIssues,
+    stats: computeStats(mergedIssues),
   }
 }
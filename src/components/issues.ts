@@ -10,6 +10,9 @@ import {
   renderMarkdownList,
   type ComponentExtractor,
 } from '@mdxld/extract'
+import { createDependencyGraph } from '../dependency-graph.js'
+import { filterIssues, parseWhere, sortIssues } from '../query.js'
+import type { IssueSortKey } from '../query.js'
 import type { TodoIssue } from '../types.js'
 
 /**
@@ -99,14 +102,36 @@ function entityToIssue(entity: Record<string, unknown>): Partial<TodoIssue> {
   return issue
 }
 
+/** Keys issues can be grouped by with `groupBy` */
+export const ISSUE_GROUP_KEYS = ['status', 'type', 'priority', 'assignee', 'label', 'parent'] as const
+
+export type IssueGroupKey = (typeof ISSUE_GROUP_KEYS)[number]
+
 /**
- * Props for Issues component
+ * Props shared by Issues and its sub-components
+ * Filters match issues with any of their values, except `label`, which needs all.
  */
-export interface IssuesProps extends Record<string, unknown> {
+export interface IssueListProps extends Record<string, unknown> {
   /** Issues to display */
   issues?: TodoIssue[]
-  /** Filter by status */
-  status?: 'open' | 'in_progress' | 'blocked' | 'closed'
+  /** Filter by type */
+  type?: TodoIssue['type'] | TodoIssue['type'][]
+  /** Filter by priority: one, a list, or a range like "0-1" */
+  priority?: number | number[] | string
+  /** Filter by assignee (a leading @ is ignored) */
+  assignee?: string | string[]
+  /** Filter by label */
+  label?: string | string[]
+  /** Filter by parent issue ID */
+  parent?: string | string[]
+  /** Filter expression, e.g. "priority <= 1 && labels == api" (see parseWhere) */
+  where?: string
+  /** Sort key (default: the order issues are given in) */
+  sortBy?: IssueSortKey
+  /** Sort order (default: 'asc'; for priority, most urgent first) */
+  order?: 'asc' | 'desc'
+  /** Render a sub-heading and table per group */
+  groupBy?: IssueGroupKey
   /** Columns to display */
   columns?: string[]
   /** Max number of issues to show */
@@ -116,19 +141,18 @@ export interface IssuesProps extends Record<string, unknown> {
 }
 
 /**
- * Props for filtered Issues components (without status prop)
+ * Props for Issues component
  */
-interface FilteredIssuesProps extends Record<string, unknown> {
-  /** Issues to display */
-  issues?: TodoIssue[]
-  /** Columns to display */
-  columns?: string[]
-  /** Max number of issues to show */
-  limit?: number
-  /** Render format */
-  format?: 'table' | 'list'
+export interface IssuesProps extends IssueListProps {
+  /** Filter by status */
+  status?: TodoIssue['status'] | TodoIssue['status'][]
 }
 
+/**
+ * Props for filtered Issues components (without status prop)
+ */
+type FilteredIssuesProps = IssueListProps
+
 /**
  * Type for Issues component with sub-components
  */
@@ -140,150 +164,257 @@ type IssuesComponent = ReturnType<typeof roundTripComponent<IssuesProps>> & {
 }
 
 /**
- * Generic Issues component - Render and extract issue tables/lists
- *
- * @example
- * ```tsx
- * <Issues issues={allIssues} columns={['id', 'title', 'status']} />
- * <Issues issues={allIssues} status="open" />
- * <Issues issues={allIssues} limit={10} format="list" />
- * ```
+ * A prop that takes one value or a list, as a list
  */
-const IssuesBase = roundTripComponent<IssuesProps>({
-  render: (props) => {
-    let issues = props.issues || []
+function listProp<T>(value: T | T[] | undefined): T[] | undefined {
+  if (value === undefined) return undefined
+  return Array.isArray(value) ? value : [value]
+}
+
+/**
+ * Priorities selected by a priority prop: a number, a list, or a range like "0-1"
+ */
+function priorityProp(value: IssueListProps['priority']): TodoIssue['priority'][] | undefined {
+  if (typeof value === 'string') {
+    const range = value.match(/^\s*(\d)\s*(?:-|\.\.)\s*(\d)\s*$/)
+    if (range) {
+      const [from, to] = [Number(range[1]), Number(range[2])].sort()
+      return Array.from({ length: to - from + 1 }, (_, i) => (from + i) as TodoIssue['priority'])
+    }
+    return value.split(',').map((priority) => Number(priority.trim()) as TodoIssue['priority'])
+  }
+  return listProp(value) as TodoIssue['priority'][] | undefined
+}
 
-    // Apply status filter
-    if (props.status) {
-      issues = issues.filter((i) => i.status === props.status)
+/**
+ * Apply the filter, where, sort and limit props
+ */
+function selectIssues(props: IssuesProps): TodoIssue[] {
+  let issues = filterIssues(props.issues || [], {
+    status: listProp(props.status),
+    type: listProp(props.type),
+    priority: priorityProp(props.priority),
+    assignee: listProp(props.assignee)?.map((assignee) => assignee.replace(/^@/, '')),
+    label: listProp(props.label),
+    parent: listProp(props.parent),
+  })
+
+  if (props.where) {
+    issues = issues.filter(parseWhere(props.where))
+  }
+
+  if (props.sortBy || props.order) {
+    issues = sortIssues(issues, props.sortBy ?? 'priority', props.order === 'desc')
+  }
+
+  // Apply limit
+  if (props.limit && props.limit > 0) {
+    issues = issues.slice(0, props.limit)
+  }
+
+  return issues
+}
+
+/**
+ * Split issues into groups by a key, in order of each group's first issue
+ * An issue with several labels is listed under each of them.
+ */
+function groupIssues(issues: TodoIssue[], key: IssueGroupKey): Array<[string, TodoIssue[]]> {
+  const headings = (issue: TodoIssue): string[] => {
+    switch (key) {
+      case 'priority':
+        return [`P${issue.priority}`]
+      case 'assignee':
+        return [issue.assignee ? `@${issue.assignee}` : 'Unassigned']
+      case 'label':
+        return issue.labels?.length ? issue.labels : ['No label']
+      case 'parent':
+        return [issue.parent ?? 'No parent']
+      default:
+        return [String(issue[key])]
     }
+  }
 
-    // Apply limit
-    if (props.limit && props.limit > 0) {
-      issues = issues.slice(0, props.limit)
+  const groups = new Map<string, TodoIssue[]>()
+  for (const issue of issues) {
+    for (const heading of headings(issue)) {
+      groups.set(heading, [...(groups.get(heading) ?? []), issue])
     }
+  }
+  return [...groups]
+}
 
+/**
+ * Render issues as a table or list, applying the filter, sort, limit and group props
+ *
+ * @param computed - Extra columns computed for each issue (e.g. blockedBy)
+ */
+function renderIssues(
+  props: IssuesProps,
+  computed?: (issue: TodoIssue) => Record<string, unknown>
+): string {
+  const issues = selectIssues(props)
+
+  // Determine columns
+  const columns =
+    props.columns || ['id', 'title', 'status', 'priority', 'type']
+
+  const renderGroup = (group: TodoIssue[]): string => {
     // Convert to entity format
-    const entities = issues.map(issueToEntity) as Array<
+    const entities = group.map((issue) => ({ ...issueToEntity(issue), ...computed?.(issue) })) as Array<
       Record<string, unknown> & { $id: string }
     >
 
-    // Determine columns
-    const columns =
-      props.columns || ['id', 'title', 'status', 'priority', 'type']
-
     // Render based on format
     if (props.format === 'list') {
       return renderMarkdownList(entities, { linkPattern: './{$id}.md' })
     }
 
     return renderMarkdownTable(entities, columns)
-  },
+  }
+
+  if (props.groupBy && issues.length > 0) {
+    return groupIssues(issues, props.groupBy)
+      .map(([heading, group]) => `### ${heading}\n\n${renderGroup(group)}`)
+      .join('\n\n')
+  }
+
+  return renderGroup(issues)
+}
+
+/**
+ * Generic Issues component - Render and extract issue tables/lists
+ *
+ * @example
+ * ```tsx
+ * <Issues issues={allIssues} columns={['id', 'title', 'status']} />
+ * <Issues issues={allIssues} status="open" />
+ * <Issues issues={allIssues} limit={10} format="list" />
+ * ```
+ */
+const IssuesBase = roundTripComponent<IssuesProps>({
+  render: (props) => renderIssues(props),
 
   extract: (content) => {
-    // Try to parse as table first
-    try {
-      const { headers, rows } = parseMarkdownTable(content)
+    // Grouped output: a table or list under each sub-heading; an issue listed in
+    // several groups (e.g. by label) is kept once
+    const heading = /^#{1,6} .*$/gm
+    if (heading.test(content)) {
+      const sections = content.split(heading).filter((section) => section.trim())
+      const extracted = sections.map(extractIssueSection)
+      const issues = new Map<string, TodoIssue>()
+      for (const section of extracted) {
+        section.issues.forEach((issue) => issues.has(issue.id) || issues.set(issue.id, issue))
+      }
+      return { issues: [...issues.values()], columns: extracted[0]?.columns ?? ['id', 'title'] }
+    }
 
-      // Check if it's actually a table (has rows)
-      if (rows.length > 0) {
-        const issues = rows.map((row) => entityToIssue(row))
+    return extractIssueSection(content)
+  },
+})
 
-        return {
-          issues: issues as TodoIssue[],
-          columns: headers,
-        }
+/**
+ * Extract issues from one table or list
+ */
+function extractIssueSection(content: string): { issues: TodoIssue[]; columns: string[] } {
+  // Try to parse as table first
+  try {
+    const { headers, rows } = parseMarkdownTable(content)
+
+    // Check if it's actually a table (has rows)
+    if (rows.length > 0) {
+      const issues = rows.map((row) => entityToIssue(row))
+
+      return {
+        issues: issues as TodoIssue[],
+        columns: headers,
       }
-    } catch {
-      // Fall through to list parsing
     }
+  } catch {
+    // Fall through to list parsing
+  }
 
-    // If table parsing fails or has no rows, try to extract as list
-    const lines = content.split('\n').filter((l) => l.trim().startsWith('-'))
+  // If table parsing fails or has no rows, try to extract as list
+  const lines = content.split('\n').filter((l) => l.trim().startsWith('-'))
 
-    const issues = lines.map((line) => {
-      // Extract from markdown link: - [Title](./ID.md)
-      const linkMatch = line.match(/\[([^\]]+)\]\(\.\/([^)]+)\.md\)/)
-      if (linkMatch) {
-        const title = linkMatch[1]
-        const id = linkMatch[2]
-        return {
-          id,
-          title,
-          status: 'open' as const,
-          priority: 2 as const,
-          type: 'task' as const,
-        }
+  const issues = lines.map((line) => {
+    // Extract from markdown link: - [Title](./ID.md)
+    const linkMatch = line.match(/\[([^\]]+)\]\(\.\/([^)]+)\.md\)/)
+    if (linkMatch) {
+      const title = linkMatch[1]
+      const id = linkMatch[2]
+      return {
+        id,
+        title,
+        status: 'open' as const,
+        priority: 2 as const,
+        type: 'task' as const,
       }
+    }
 
-      // Extract from plain text: - ID: Title or - Title
-      const plainMatch = line.match(/^-\s*(.*)$/)
-      if (plainMatch) {
-        const text = plainMatch[1].trim()
-        const colonSplit = text.split(':')
-        if (colonSplit.length >= 2) {
-          return {
-            id: colonSplit[0].trim(),
-            title: colonSplit.slice(1).join(':').trim(),
-            status: 'open' as const,
-            priority: 2 as const,
-            type: 'task' as const,
-          }
-        }
-        // Just use the text as both id and title
+    // Extract from plain text: - ID: Title or - Title
+    const plainMatch = line.match(/^-\s*(.*)$/)
+    if (plainMatch) {
+      const text = plainMatch[1].trim()
+      const colonSplit = text.split(':')
+      if (colonSplit.length >= 2) {
         return {
-          id: text,
-          title: text,
+          id: colonSplit[0].trim(),
+          title: colonSplit.slice(1).join(':').trim(),
           status: 'open' as const,
           priority: 2 as const,
           type: 'task' as const,
         }
       }
-
-      // Fallback
+      // Just use the text as both id and title
       return {
-        id: '',
-        title: '',
+        id: text,
+        title: text,
         status: 'open' as const,
         priority: 2 as const,
         type: 'task' as const,
       }
-    })
+    }
 
+    // Fallback
     return {
-      issues: issues.filter((i) => i.id) as TodoIssue[],
-      columns: ['id', 'title'],
+      id: '',
+      title: '',
+      status: 'open' as const,
+      priority: 2 as const,
+      type: 'task' as const,
     }
-  },
-})
+  })
+
+  return {
+    issues: issues.filter((i) => i.id) as TodoIssue[],
+    columns: ['id', 'title'],
+  }
+}
 
 /**
  * Blocked issues component
+ * Lists unclosed issues waiting on unclosed issues, or marked blocked; the
+ * `blockedBy` column holds the IDs they wait on.
  */
 const IssuesBlocked = roundTripComponent<FilteredIssuesProps>({
   render: (props) => {
-    const blockedIssues = (props.issues || []).filter(
-      (i) => i.status === 'blocked'
-    )
-    return IssuesBase.render({ ...props, issues: blockedIssues })
+    const blocked = createDependencyGraph(props.issues || []).blocked()
+    const blockers = new Map(blocked.map(({ issue, blockedBy }) => [issue.id, blockedBy.join(', ')]))
+    return renderIssues({ ...props, issues: blocked.map(({ issue }) => issue) }, (issue) => ({
+      blockedBy: blockers.get(issue.id) ?? '',
+    }))
   },
   extract: (content) => IssuesBase.extract(content),
 })
 
 /**
  * Ready (unblocked) issues component
+ * Lists open issues whose dependencies are all closed.
  */
 const IssuesReady = roundTripComponent<FilteredIssuesProps>({
   render: (props) => {
-    // Ready = open issues with no dependencies blocking them
-    const readyIssues = (props.issues || []).filter((i) => {
-      if (i.status !== 'open') return false
-      // If no dependsOn, it's ready
-      if (!i.dependsOn || i.dependsOn.length === 0) return true
-      // Check if any dependencies are not closed (assuming we'd need to check this)
-      // For now, we'll consider issues with dependsOn as potentially blocked
-      return false
-    })
+    const readyIssues = createDependencyGraph(props.issues || []).ready()
     return IssuesBase.render({ ...props, issues: readyIssues })
   },
   extract: (content) => IssuesBase.extract(content),
@@ -389,6 +520,45 @@ export const IssueLabels = roundTripComponent<IssueLabelsProps>({
 type IssueComponent = {
   Labels: typeof IssueLabels
   Dependencies: typeof IssueDependencies
+  Dependents: typeof IssueDependents
+  Children: typeof IssueChildren
+  Subtasks: typeof IssueChildren
+  Parent: typeof IssueParent
+  Timeline: typeof IssueTimeline
+}
+
+/**
+ * Render issue IDs as a markdown list of links or plain IDs
+ */
+function renderIdList(ids: string[], format?: 'links' | 'list'): string {
+  if (format === 'links') {
+    // Render as markdown links
+    return ids.map((id) => `- [${id}](./${id}.md)`).join('\n')
+  }
+
+  // Default: plain list
+  return ids.map((id) => `- ${id}`).join('\n')
+}
+
+/**
+ * Extract issue IDs from a markdown list rendered by renderIdList()
+ */
+function extractIdList(content: string): { ids: string[]; format: 'links' | 'list' } {
+  const lines = content.split('\n').filter((l) => l.trim().startsWith('-'))
+
+  // Check if links format
+  const hasLinks = lines.some((l) => l.includes('['))
+
+  const ids = lines.map((line) => {
+    // Try to extract from link: [id](...)
+    const linkMatch = line.match(/\[([^\]]+)\]/)
+    if (linkMatch) return linkMatch[1]
+
+    // Otherwise extract from plain text: - id
+    return line.replace(/^-\s*/, '').trim()
+  })
+
+  return { ids: ids.filter(Boolean), format: hasLinks ? 'links' : 'list' }
 }
 
 /**
@@ -411,43 +581,235 @@ export interface IssueDependenciesProps extends Record<string, unknown> {
  * ```
  */
 export const IssueDependencies = roundTripComponent<IssueDependenciesProps>({
+  render: (props) => renderIdList(props.dependencies || [], props.format),
+
+  extract: (content) => {
+    if (!content.trim()) {
+      return { dependencies: [] }
+    }
+
+    const { ids, format } = extractIdList(content)
+    return { dependencies: ids, format }
+  },
+})
+
+/**
+ * Props for Issue.Dependents component
+ */
+export interface IssueDependentsProps extends Record<string, unknown> {
+  /** IDs of the issues depending on this one */
+  dependents?: string[]
+  /** Render as links or plain list */
+  format?: 'links' | 'list'
+}
+
+/**
+ * Issue.Dependents - Render the issues that depend on this one
+ *
+ * In an issue template it lists the issue's `blocks` plus, when the issue set is
+ * known, every issue with this one in its `dependsOn`.
+ *
+ * @example
+ * ```tsx
+ * <Issue.Dependents />
+ * <Issue.Dependents dependents={['todo-789']} format="links" />
+ * ```
+ */
+export const IssueDependents = roundTripComponent<IssueDependentsProps>({
+  render: (props) => renderIdList(props.dependents || [], props.format),
+
+  extract: (content) => {
+    if (!content.trim()) {
+      return { dependents: [] }
+    }
+
+    const { ids, format } = extractIdList(content)
+    return { dependents: ids, format }
+  },
+})
+
+/**
+ * A child issue as listed by Issue.Children
+ */
+export interface IssueChildItem {
+  id: string
+  title?: string
+  /** Whether the child is closed (a checked box) */
+  done?: boolean
+}
+
+/**
+ * Props for Issue.Children component
+ */
+export interface IssueChildrenProps extends Record<string, unknown> {
+  /** Child issues, or their IDs */
+  children?: Array<IssueChildItem | string>
+}
+
+/**
+ * Issue.Children (alias Issue.Subtasks) - Render child issues as a task list
+ *
+ * Closed children are checked. In an issue template, titles and statuses are
+ * looked up in the issue set when it's known.
+ *
+ * @example
+ * ```tsx
+ * <Issue.Children />
+ * <Issue.Subtasks children={[{ id: 'todo-2', title: 'Write docs', done: true }]} />
+ * ```
+ */
+export const IssueChildren = roundTripComponent<IssueChildrenProps>({
   render: (props) => {
-    const deps = props.dependencies || []
+    const children = (props.children || []).map((child) => (typeof child === 'string' ? { id: child } : child))
 
-    if (deps.length === 0) return ''
+    return children
+      .map((child) => `- [${child.done ? 'x' : ' '}] ${child.id}${child.title ? `: ${child.title}` : ''}`)
+      .join('\n')
+  },
+
+  extract: (content) => {
+    const children: IssueChildItem[] = []
+
+    for (const line of content.split('\n')) {
+      // - [x] id: Title
+      const match = line.match(/^\s*-\s*\[([ xX])\]\s*([^:\s]+)(?::\s*(.*))?$/)
+      if (!match) continue
+
+      const [, checkbox, id, title] = match
+      const child: IssueChildItem = { id, done: checkbox !== ' ' }
+      if (title?.trim()) child.title = title.trim()
+      children.push(child)
+    }
+
+    return { children }
+  },
+})
+
+/**
+ * An ancestor issue in an Issue.Parent breadcrumb
+ */
+export interface IssueParentItem {
+  id: string
+  title?: string
+}
+
+/**
+ * Props for Issue.Parent component
+ */
+export interface IssueParentProps extends Record<string, unknown> {
+  /** Ancestors from the top-level issue down to the direct parent, or their IDs */
+  parents?: Array<IssueParentItem | string>
+  /** Render as links or plain IDs */
+  format?: 'links' | 'list'
+}
+
+/** Separator between the issues of a breadcrumb */
+const BREADCRUMB_SEPARATOR = ' › '
+
+/**
+ * Issue.Parent - Render the parent chain as a breadcrumb
+ *
+ * In an issue template it shows the issue's `parent` and, when the issue set is
+ * known, that parent's ancestors with their titles.
+ *
+ * @example
+ * ```tsx
+ * <Issue.Parent />
+ * <Issue.Parent parents={['todo-1', 'todo-5']} />  // todo-1 › todo-5
+ * ```
+ */
+export const IssueParent = roundTripComponent<IssueParentProps>({
+  render: (props) => {
+    const parents = (props.parents || []).map((parent) => (typeof parent === 'string' ? { id: parent } : parent))
 
     if (props.format === 'links') {
-      // Render as markdown links
-      return deps.map((id) => `- [${id}](./${id}.md)`).join('\n')
+      return parents.map((parent) => `[${parent.title || parent.id}](./${parent.id}.md)`).join(BREADCRUMB_SEPARATOR)
     }
 
-    // Default: plain list
-    return deps.map((id) => `- ${id}`).join('\n')
+    return parents.map((parent) => parent.id).join(BREADCRUMB_SEPARATOR)
   },
 
   extract: (content) => {
     if (!content.trim()) {
-      return { dependencies: [] }
+      return { parents: [] }
     }
 
-    const lines = content.split('\n').filter((l) => l.trim().startsWith('-'))
-
-    // Check if links format
-    const hasLinks = lines.some((l) => l.includes('['))
+    const parts = content.trim().split(BREADCRUMB_SEPARATOR)
+    const hasLinks = parts.some((part) => part.startsWith('['))
 
-    const dependencies = lines.map((line) => {
-      // Try to extract from link: [id](...)
-      const linkMatch = line.match(/\[([^\]]+)\]/)
-      if (linkMatch) return linkMatch[1]
+    const parents = parts.map((part): IssueParentItem => {
+      // [Title](./id.md)
+      const linkMatch = part.match(/^\[([^\]]*)\]\(\.\/([^)]+)\.md\)$/)
+      if (!linkMatch) return { id: part.trim() }
 
-      // Otherwise extract from plain text: - id
-      return line.replace(/^-\s*/, '').trim()
+      const [, title, id] = linkMatch
+      return title && title !== id ? { id, title } : { id }
     })
 
-    return {
-      dependencies: dependencies.filter(Boolean),
-      format: hasLinks ? ('links' as const) : ('list' as const),
+    return { parents: parents.filter((parent) => parent.id), format: hasLinks ? ('links' as const) : ('list' as const) }
+  },
+})
+
+/**
+ * An event in an Issue.Timeline
+ */
+export interface IssueTimelineEvent {
+  event: 'created' | 'updated' | 'closed'
+  /** ISO timestamp */
+  at: string
+  /** Close reason, for the closed event */
+  note?: string
+}
+
+/**
+ * Props for Issue.Timeline component
+ */
+export interface IssueTimelineProps extends Record<string, unknown> {
+  /** Events, oldest first */
+  events?: IssueTimelineEvent[]
+}
+
+/** Timeline labels of each event */
+const TIMELINE_LABELS: Record<IssueTimelineEvent['event'], string> = {
+  created: 'Created',
+  updated: 'Updated',
+  closed: 'Closed',
+}
+
+/**
+ * Issue.Timeline - Render when the issue was created, last updated and closed
+ *
+ * @example
+ * ```tsx
+ * <Issue.Timeline />
+ * ```
+ * renders
+ * ```md
+ * - Created: 2025-01-01T09:00:00Z
+ * - Closed: 2025-01-03T17:30:00Z — Fixed in #40
+ * ```
+ */
+export const IssueTimeline = roundTripComponent<IssueTimelineProps>({
+  render: (props) => {
+    return (props.events || [])
+      .map((event) => `- ${TIMELINE_LABELS[event.event]}: ${event.at}${event.note ? ` — ${event.note}` : ''}`)
+      .join('\n')
+  },
+
+  extract: (content) => {
+    const events: IssueTimelineEvent[] = []
+
+    for (const line of content.split('\n')) {
+      const match = line.match(/^\s*-\s*(Created|Updated|Closed):\s*(\S+)(?:\s+—\s+(.*))?$/)
+      if (!match) continue
+
+      const [, label, at, note] = match
+      const event: IssueTimelineEvent = { event: label.toLowerCase() as IssueTimelineEvent['event'], at }
+      if (note?.trim()) event.note = note.trim()
+      events.push(event)
     }
+
+    return { events }
   },
 })
 
@@ -458,11 +820,20 @@ export const IssueDependencies = roundTripComponent<IssueDependenciesProps>({
  * ```tsx
  * <Issue.Labels labels={['bug', 'urgent']} />
  * <Issue.Dependencies dependencies={['todo-123']} format="links" />
+ * <Issue.Dependents dependents={['todo-789']} />
+ * <Issue.Children children={['todo-2', 'todo-3']} />
+ * <Issue.Parent parents={['todo-1']} />
+ * <Issue.Timeline events={[{ event: 'created', at: '2025-01-01T09:00:00Z' }]} />
  * ```
  */
 export const Issue: IssueComponent = {
   Labels: IssueLabels,
   Dependencies: IssueDependencies,
+  Dependents: IssueDependents,
+  Children: IssueChildren,
+  Subtasks: IssueChildren,
+  Parent: IssueParent,
+  Timeline: IssueTimeline,
 }
 
 /**
@@ -477,5 +848,168 @@ export function createIssueExtractors(): Record<string, ComponentExtractor<unkno
     'Issues.Closed': Issues.Closed.extractor as ComponentExtractor<unknown>,
     'Issue.Labels': IssueLabels.extractor as ComponentExtractor<unknown>,
     'Issue.Dependencies': IssueDependencies.extractor as ComponentExtractor<unknown>,
+    'Issue.Dependents': IssueDependents.extractor as ComponentExtractor<unknown>,
+    'Issue.Children': IssueChildren.extractor as ComponentExtractor<unknown>,
+    'Issue.Subtasks': IssueChildren.extractor as ComponentExtractor<unknown>,
+    'Issue.Parent': IssueParent.extractor as ComponentExtractor<unknown>,
+    'Issue.Timeline': IssueTimeline.extractor as ComponentExtractor<unknown>,
   }
 }
+
+/**
+ * Create Issues components bound to an issue set, for rendering TODO templates
+ *
+ * Each component receives `issues` by default, so template tags like
+ * `<Issues.Ready limit={10} />` don't need to pass the issue list explicitly.
+ *
+ * @param issues - The merged issue set to render
+ */
+export function createTodoComponents(issues: TodoIssue[]): { Issues: IssuesComponent } {
+  const bind = <P extends { issues?: TodoIssue[] }>(component: { render: (props: P) => string }) => ({
+    ...component,
+    render: (props: P) => component.render({ issues, ...props }),
+  })
+
+  return {
+    Issues: Object.assign(bind(IssuesBase), {
+      Blocked: bind(IssuesBlocked),
+      Ready: bind(IssuesReady),
+      Open: bind(IssuesOpen),
+      Closed: bind(IssuesClosed),
+    }) as IssuesComponent,
+  }
+}
+
+/**
+ * Create Issue components bound to a single issue, for rendering issue templates
+ *
+ * Template tags like `<Issue.Labels />` default to the issue's own fields,
+ * while explicit props still take precedence. With the issue set, the
+ * components that show other issues look them up in it: dependents, child
+ * titles and statuses, and the parent's ancestors.
+ *
+ * @param issue - The issue being rendered
+ * @param issues - The issue set the issue belongs to, if known
+ */
+export function createIssueComponents(issue: TodoIssue, issues: TodoIssue[] = []): { Issue: IssueComponent } {
+  const byId = new Map(issues.map((i) => [i.id, i]))
+
+  const graph = createDependencyGraph(byId.has(issue.id) ? issues : [...issues, issue])
+  // Only the issue's own blocks are read back from this list; see issueFieldsFromComponents()
+  const dependents = [...new Set([...(issue.blocks ?? []), ...graph.dependentsOf(issue.id)])]
+  const children = (issue.children ?? []).map((id): IssueChildItem => {
+    const child = byId.get(id)
+    return child ? { id, title: child.title, done: child.status === 'closed' } : { id }
+  })
+
+  // Walk up from the direct parent, stopping at unknown issues and cycles
+  const parents: IssueParentItem[] = []
+  for (let id = issue.parent; id && id !== issue.id && !parents.some((p) => p.id === id); id = byId.get(id)?.parent) {
+    const parent = byId.get(id)
+    parents.unshift(parent ? { id, title: parent.title } : { id })
+  }
+
+  const events: IssueTimelineEvent[] = []
+  if (issue.createdAt) events.push({ event: 'created', at: issue.createdAt })
+  if (issue.updatedAt) events.push({ event: 'updated', at: issue.updatedAt })
+  if (issue.closedAt) {
+    events.push(
+      issue.closeReason
+        ? { event: 'closed', at: issue.closedAt, note: issue.closeReason }
+        : { event: 'closed', at: issue.closedAt }
+    )
+  }
+
+  const boundChildren = {
+    ...IssueChildren,
+    render: (props: IssueChildrenProps) => IssueChildren.render({ children, ...props }),
+  }
+
+  return {
+    Issue: {
+      Labels: {
+        ...IssueLabels,
+        render: (props: IssueLabelsProps) =>
+          IssueLabels.render({ labels: issue.labels, ...props }),
+      },
+      Dependencies: {
+        ...IssueDependencies,
+        render: (props: IssueDependenciesProps) =>
+          IssueDependencies.render({ dependencies: issue.dependsOn, ...props }),
+      },
+      Dependents: {
+        ...IssueDependents,
+        render: (props: IssueDependentsProps) =>
+          IssueDependents.render({ dependents, ...props }),
+      },
+      Children: boundChildren,
+      Subtasks: boundChildren,
+      Parent: {
+        ...IssueParent,
+        render: (props: IssueParentProps) => IssueParent.render({ parents, ...props }),
+      },
+      Timeline: {
+        ...IssueTimeline,
+        render: (props: IssueTimelineProps) => IssueTimeline.render({ events, ...props }),
+      },
+    },
+  }
+}
+
+/**
+ * Map props extracted from Issue.* component tags back onto issue fields
+ *
+ * Issue.Dependents also lists issues that name this one in their `dependsOn`,
+ * and those edges belong to the other issue. So only the IDs already in the
+ * issue's own `blocks` are read back: removing one there removes it, and the
+ * rest of the list is left to the issues it came from.
+ *
+ * @param components - Component props keyed by tag name, as returned by extractFromMarkdown()
+ * @param stored - The issue as stored (e.g. its frontmatter), whose `blocks` Issue.Dependents is read against
+ * @returns Partial issue with the fields those components render
+ */
+export function issueFieldsFromComponents(
+  components: Record<string, Record<string, unknown>>,
+  stored: Partial<TodoIssue> = {}
+): Partial<TodoIssue> {
+  const fields: Partial<TodoIssue> = {}
+
+  const labels = components['Issue.Labels'] as IssueLabelsProps | undefined
+  if (labels?.labels) {
+    fields.labels = labels.labels
+  }
+
+  const dependencies = components['Issue.Dependencies'] as IssueDependenciesProps | undefined
+  if (dependencies?.dependencies) {
+    fields.dependsOn = dependencies.dependencies
+  }
+
+  const dependents = components['Issue.Dependents'] as IssueDependentsProps | undefined
+  if (dependents?.dependents) {
+    fields.blocks = dependents.dependents.filter((id) => stored.blocks?.includes(id))
+  }
+
+  const children = (components['Issue.Children'] ?? components['Issue.Subtasks']) as IssueChildrenProps | undefined
+  if (children?.children) {
+    fields.children = children.children.map((child) => (typeof child === 'string' ? child : child.id))
+  }
+
+  // The breadcrumb ends at the direct parent
+  const parent = components['Issue.Parent'] as IssueParentProps | undefined
+  if (parent?.parents) {
+    const direct = parent.parents[parent.parents.length - 1]
+    fields.parent = typeof direct === 'string' ? direct : direct?.id
+  }
+
+  const timeline = components['Issue.Timeline'] as IssueTimelineProps | undefined
+  for (const event of timeline?.events ?? []) {
+    if (event.event === 'created') fields.createdAt = event.at
+    if (event.event === 'updated') fields.updatedAt = event.at
+    if (event.event === 'closed') {
+      fields.closedAt = event.at
+      if (event.note) fields.closeReason = event.note
+    }
+  }
+
+  return fields
+}
@@ -0,0 +1,253 @@
+/**
+ * Project configuration file
+ *
+ * Finds todo.config.ts/.js or .todorc.json/.yaml from the working directory
+ * upwards, validates it, and merges it with TODO_MDX_* environment variables and
+ * explicit options (e.g. CLI flags). Later sources win: file, then env, then options.
+ *
+ * @example
+ * ```ts
+ * // todo.config.ts
+ * import { defineConfig } from 'todo.mdx'
+ *
+ * export default defineConfig({
+ *   todoDir: 'issues',
+ *   conflictStrategy: 'markers',
+ * })
+ * ```
+ */
+
+import { promises as fs } from 'node:fs'
+import { dirname, extname, isAbsolute, join, resolve } from 'node:path'
+import { pathToFileURL } from 'node:url'
+import { parse as parseYaml } from 'yaml'
+import type { TodoConfig } from './types.js'
+
+/** Config file names, in order of precedence within a directory */
+export const CONFIG_FILES = [
+  'todo.config.ts',
+  'todo.config.mts',
+  'todo.config.js',
+  'todo.config.mjs',
+  '.todorc.json',
+  '.todorc.yaml',
+  '.todorc.yml',
+]
+
+/** Environment variables and the option each one sets */
+export const CONFIG_ENV_VARS: Record<string, keyof TodoConfig> = {
+  TODO_MDX_BEADS: 'beads',
+  TODO_MDX_BEADS_DIR: 'beadsDir',
+  TODO_MDX_BEADS_BACKEND: 'beadsBackend',
+  TODO_MDX_TODO_DIR: 'todoDir',
+  TODO_MDX_TEMPLATE_DIR: 'templateDir',
+  TODO_MDX_PRESET: 'preset',
+  TODO_MDX_FILE_PATTERN: 'filePattern',
+  TODO_MDX_CLOSED_SUBDIR: 'closedSubdir',
+  TODO_MDX_SEPARATE_CLOSED: 'separateClosed',
+  TODO_MDX_CONFLICT_STRATEGY: 'conflictStrategy',
+}
+
+/** Options holding paths, resolved against the config file's directory */
+const PATH_OPTIONS = ['beadsDir', 'todoDir', 'templateDir'] as const
+
+/**
+ * Expected type of each option: a primitive type name, or the allowed values
+ */
+const OPTION_TYPES: Record<keyof TodoConfig, 'string' | 'boolean' | 'object' | readonly string[]> = {
+  beads: 'boolean',
+  beadsDir: 'string',
+  beadsBackend: ['auto', 'bd', 'jsonl'],
+  todoDir: 'string',
+  templateDir: 'string',
+  preset: ['minimal', 'detailed', 'github', 'linear'],
+  filePattern: 'string',
+  closedSubdir: 'string',
+  separateClosed: 'boolean',
+  watch: 'boolean',
+  conflictStrategy: ['beads-wins', 'file-wins', 'newest-wins', 'markers'],
+  stores: 'object',
+  filters: 'object',
+}
+
+/**
+ * A loaded configuration and where it came from
+ */
+export interface LoadedConfig {
+  /** The merged configuration */
+  config: TodoConfig
+  /** Path of the config file used, if one was found */
+  path?: string
+}
+
+/**
+ * Options for loadConfig
+ */
+export interface LoadConfigOptions {
+  /** Directory to search from (default: cwd) */
+  cwd?: string
+  /** Config file to use instead of searching for one */
+  configFile?: string
+  /** Environment to read TODO_MDX_* variables from (default: process.env) */
+  env?: Record<string, string | undefined>
+  /** Options that override the file and env, e.g. CLI flags (undefined values are ignored) */
+  overrides?: TodoConfig
+}
+
+/**
+ * Type a config object, for todo.config.ts/.js
+ *
+ * @param config - Project configuration
+ * @returns The same configuration
+ */
+export function defineConfig(config: TodoConfig): TodoConfig {
+  return config
+}
+
+/**
+ * Check a config object and return it typed
+ *
+ * @param value - Parsed config (e.g. from JSON)
+ * @param source - Where the config came from, for error messages
+ * @returns The config
+ * @throws Listing every unknown option and invalid value
+ */
+export function validateConfig(value: unknown, source: string): TodoConfig {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error(`Invalid config in ${source}: expected an object`)
+  }
+
+  const problems: string[] = []
+  for (const [key, optionValue] of Object.entries(value)) {
+    const expected = OPTION_TYPES[key as keyof TodoConfig]
+    if (!expected) {
+      problems.push(`Unknown option "${key}". Known options: ${Object.keys(OPTION_TYPES).join(', ')}`)
+    } else if (optionValue === undefined) {
+      continue
+    } else if (Array.isArray(expected)) {
+      if (!expected.includes(optionValue as string)) {
+        problems.push(`"${key}" must be one of: ${expected.join(', ')} (got ${JSON.stringify(optionValue)})`)
+      }
+    } else if (typeof optionValue !== expected || optionValue === null) {
+      problems.push(`"${key}" must be a ${expected} (got ${JSON.stringify(optionValue)})`)
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid config in ${source}:\n  ${problems.join('\n  ')}`)
+  }
+  return value as TodoConfig
+}
+
+/**
+ * Find the nearest config file, searching from a directory upwards
+ *
+ * @param cwd - Directory to start from (default: cwd)
+ * @returns Absolute path of the config file, or undefined if there is none
+ */
+export async function findConfigFile(cwd: string = process.cwd()): Promise<string | undefined> {
+  let dir = resolve(cwd)
+
+  for (;;) {
+    for (const name of CONFIG_FILES) {
+      const path = join(dir, name)
+      try {
+        if ((await fs.stat(path)).isFile()) return path
+      } catch {
+        // Not in this directory
+      }
+    }
+
+    const parent = dirname(dir)
+    if (parent === dir) return undefined
+    dir = parent
+  }
+}
+
+/**
+ * Load and validate a config file
+ * Relative paths in the file are resolved against the file's directory.
+ *
+ * @param path - JSON, YAML, or a JS/TS module whose default export is the config
+ * @returns The config
+ */
+export async function loadConfigFile(path: string): Promise<TodoConfig> {
+  const extension = extname(path)
+  let value: unknown
+
+  if (extension === '.json' || extension === '.yaml' || extension === '.yml') {
+    const content = await fs.readFile(path, 'utf-8')
+    try {
+      value = extension === '.json' ? JSON.parse(content) : parseYaml(content)
+    } catch (error) {
+      throw new Error(`Failed to parse ${path}: ${error instanceof Error ? error.message : String(error)}`)
+    }
+  } else {
+    try {
+      const module = await import(pathToFileURL(resolve(path)).href)
+      value = module.default ?? module.config
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ERR_UNKNOWN_FILE_EXTENSION') {
+        throw new Error(
+          `Cannot load ${path}: this Node.js version can't import TypeScript. ` +
+            'Use todo.config.js (defineConfig still types it through JSDoc) or run with a TypeScript loader such as tsx'
+        )
+      }
+      throw new Error(`Failed to load ${path}: ${error instanceof Error ? error.message : String(error)}`)
+    }
+  }
+
+  const config = { ...validateConfig(value ?? {}, path) }
+  for (const option of PATH_OPTIONS) {
+    const optionPath = config[option]
+    if (optionPath && !isAbsolute(optionPath)) {
+      config[option] = resolve(dirname(path), optionPath)
+    }
+  }
+  return config
+}
+
+/**
+ * Read config options from TODO_MDX_* environment variables
+ *
+ * @param env - Environment (default: process.env)
+ * @returns The options set in the environment, validated
+ */
+export function configFromEnv(env: Record<string, string | undefined> = process.env): TodoConfig {
+  const config: Record<string, unknown> = {}
+
+  for (const [name, option] of Object.entries(CONFIG_ENV_VARS)) {
+    const value = env[name]
+    if (value === undefined || value === '') continue
+    config[option] =
+      OPTION_TYPES[option] === 'boolean' ? !['0', 'false', 'no', 'off'].includes(value.toLowerCase()) : value
+  }
+
+  return validateConfig(config, 'environment variables')
+}
+
+/**
+ * Load the project configuration: the config file, TODO_MDX_* env vars, and overrides
+ *
+ * @param options - Where to search, and options that take precedence
+ * @returns The merged config and the config file it came from
+ *
+ * @example
+ * ```ts
+ * const { config } = await loadConfig({ overrides: { todoDir: flags.todoDir } })
+ * await sync(config)
+ * ```
+ */
+export async function loadConfig(options: LoadConfigOptions = {}): Promise<LoadedConfig> {
+  const env = options.env ?? process.env
+  const configFile = options.configFile ?? env.TODO_MDX_CONFIG
+  const path = configFile ? resolve(options.cwd ?? process.cwd(), configFile) : await findConfigFile(options.cwd)
+
+  const fileConfig = path ? await loadConfigFile(path) : {}
+  const overrides = Object.fromEntries(
+    Object.entries(options.overrides ?? {}).filter(([, value]) => value !== undefined)
+  )
+
+  const config = { ...fileConfig, ...configFromEnv(env), ...validateConfig(overrides, 'options') }
+  return path ? { config, path } : { config }
+}
@@ -0,0 +1,197 @@
+/**
+ * Dependency graph of an issue set
+ *
+ * Indexes the issues once, with an edge from each issue to every issue it waits
+ * for: the issues in its `dependsOn` and the issues listing it in `blocks`. IDs that
+ * aren't in the set are ignored, so an issue set loaded without its closed issues
+ * doesn't report them as blockers. Readiness, blocked issues, cycles, topological
+ * order and the critical path are all computed from these edges.
+ *
+ * @example
+ * ```ts
+ * import { createDependencyGraph, loadIssues } from 'todo.mdx'
+ *
+ * const graph = createDependencyGraph(await loadIssues())
+ * for (const issue of graph.criticalPath()) {
+ *   console.log(issue.id, issue.title)
+ * }
+ * ```
+ */
+
+import type { TodoIssue } from './types.js'
+
+/**
+ * An issue that can't be worked on yet, and what it waits for
+ */
+export interface BlockedIssue {
+  issue: TodoIssue
+  /** IDs of the unclosed issues blocking it (empty if it's only marked blocked) */
+  blockedBy: string[]
+}
+
+/**
+ * Dependency graph of an issue set, from createDependencyGraph()
+ */
+export interface DependencyGraph {
+  /** The indexed issues, in their original order */
+  issues: TodoIssue[]
+  /** Look up an issue by ID */
+  get(id: string): TodoIssue | undefined
+  /** IDs of the issues an issue waits for, closed or not */
+  dependenciesOf(id: string): string[]
+  /** IDs of the issues waiting for an issue, closed or not */
+  dependentsOf(id: string): string[]
+  /** IDs of the unclosed issues an issue waits for directly */
+  blockersOf(id: string): string[]
+  /** IDs of every unclosed issue an issue waits for, directly or through other unclosed issues */
+  transitiveBlockersOf(id: string): string[]
+  /** Whether an issue is open with nothing blocking it */
+  isReady(id: string): boolean
+  /** Open issues with nothing blocking them, in their original order */
+  ready(): TodoIssue[]
+  /** Unclosed issues blocked by unclosed issues or marked blocked, in their original order */
+  blocked(): BlockedIssue[]
+  /** Dependency cycles, each reported once as its path back to the start (e.g. a → b → a) */
+  cycles(): string[][]
+  /** All issues, each after the issues it waits for; a cycle is cut where it's entered */
+  topologicalOrder(): TodoIssue[]
+  /** The longest chain of unclosed issues waiting on each other, in the order they can be done */
+  criticalPath(): TodoIssue[]
+}
+
+/**
+ * Index an issue set as a dependency graph
+ *
+ * @param issues - The issue set, typically the merged set from loadIssues()
+ * @returns The graph
+ *
+ * @example
+ * ```ts
+ * const graph = createDependencyGraph(issues)
+ * graph.isReady('todo-12')              // false while todo-10 is open
+ * graph.transitiveBlockersOf('todo-12') // ['todo-10', 'todo-4']
+ * ```
+ */
+export function createDependencyGraph(issues: TodoIssue[]): DependencyGraph {
+  const byId = new Map(issues.map((issue) => [issue.id, issue]))
+
+  // Edges in both directions; dependsOn comes first, then the issues listing it in blocks
+  const dependencies = new Map<string, Set<string>>(issues.map((issue) => [issue.id, new Set()]))
+  const dependents = new Map<string, Set<string>>(issues.map((issue) => [issue.id, new Set()]))
+  const addEdge = (id: string, dependencyId: string) => {
+    if (!byId.has(id) || !byId.has(dependencyId)) return
+    dependencies.get(id)!.add(dependencyId)
+    dependents.get(dependencyId)!.add(id)
+  }
+  for (const issue of issues) {
+    issue.dependsOn?.forEach((dependencyId) => addEdge(issue.id, dependencyId))
+  }
+  for (const issue of issues) {
+    issue.blocks?.forEach((blockedId) => addEdge(blockedId, issue.id))
+  }
+
+  const isClosed = (id: string) => byId.get(id)?.status === 'closed'
+  const dependenciesOf = (id: string) => [...(dependencies.get(id) ?? [])]
+  const blockersOf = (id: string) => dependenciesOf(id).filter((dependencyId) => !isClosed(dependencyId))
+  const isReady = (id: string) => byId.get(id)?.status === 'open' && blockersOf(id).length === 0
+
+  const transitiveBlockersOf = (id: string): string[] => {
+    const found = new Set<string>()
+    const queue = blockersOf(id)
+    while (queue.length > 0) {
+      const blockerId = queue.shift()!
+      if (blockerId === id || found.has(blockerId)) continue
+      found.add(blockerId)
+      queue.push(...blockersOf(blockerId))
+    }
+    return [...found]
+  }
+
+  const cycles = (): string[][] => {
+    const found = new Map<string, string[]>()
+    const explored = new Set<string>()
+
+    const visit = (id: string, path: string[]): void => {
+      const start = path.indexOf(id)
+      if (start !== -1) {
+        const cycle = path.slice(start)
+        const key = [...cycle].sort().join('\0')
+        if (!found.has(key)) found.set(key, [...cycle, id])
+        return
+      }
+      if (explored.has(id)) return
+
+      for (const dependencyId of dependenciesOf(id)) {
+        visit(dependencyId, [...path, id])
+      }
+      explored.add(id)
+    }
+
+    for (const issue of issues) {
+      visit(issue.id, [])
+    }
+    return [...found.values()]
+  }
+
+  const topologicalOrder = (): TodoIssue[] => {
+    const order: TodoIssue[] = []
+    const visited = new Set<string>()
+
+    const visit = (id: string): void => {
+      if (visited.has(id)) return
+      visited.add(id)
+      dependenciesOf(id).forEach(visit)
+      order.push(byId.get(id)!)
+    }
+
+    issues.forEach((issue) => visit(issue.id))
+    return order
+  }
+
+  const criticalPath = (): TodoIssue[] => {
+    // Longest chain ending at each unclosed issue; a dependency that comes later in the
+    // order closes a cycle, so that edge is left out
+    const length = new Map<string, number>()
+    const previous = new Map<string, string>()
+    let end: string | undefined
+
+    for (const issue of topologicalOrder()) {
+      if (issue.status === 'closed') continue
+      let best = 0
+      for (const blockerId of blockersOf(issue.id)) {
+        const blockerLength = length.get(blockerId) ?? 0
+        if (blockerLength > best) {
+          best = blockerLength
+          previous.set(issue.id, blockerId)
+        }
+      }
+      length.set(issue.id, best + 1)
+      if (end === undefined || best + 1 > length.get(end)!) end = issue.id
+    }
+
+    const path: TodoIssue[] = []
+    for (let id = end; id !== undefined; id = previous.get(id)) {
+      path.unshift(byId.get(id)!)
+    }
+    return path
+  }
+
+  return {
+    issues,
+    get: (id) => byId.get(id),
+    dependenciesOf,
+    dependentsOf: (id) => [...(dependents.get(id) ?? [])],
+    blockersOf,
+    transitiveBlockersOf,
+    isReady,
+    ready: () => issues.filter((issue) => isReady(issue.id)),
+    blocked: () =>
+      issues
+        .filter((issue) => issue.status !== 'closed')
+        .map((issue) => ({ issue, blockedBy: blockersOf(issue.id) }))
+        .filter(({ issue, blockedBy }) => blockedBy.length > 0 || issue.status === 'blocked'),
+    cycles,
+    topologicalOrder,
+    criticalPath,
+  }
+}
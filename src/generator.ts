@@ -4,8 +4,12 @@
  */
 import { promises as fs } from 'node:fs'
 import { join, resolve, dirname } from 'node:path'
-import type { TodoIssue } from './types.js'
+import { stringify as stringifyYaml } from 'yaml'
+import type { TemplateFilters, TodoIssue, TodoFileMove } from './types.js'
 import { applyPattern } from './patterns.js'
+import { indexTodoFiles, parseTodoFile } from './parser.js'
+import { renderTemplate, resolveIssueTemplate, parseTemplateFrontmatter } from './templates.js'
+import type { TemplateConfig } from './templates.js'
 
 /** Default filename pattern: date + title with spaces preserved */
 export const DEFAULT_PATTERN = '[yyyy-mm-dd] [Title].md'
@@ -17,6 +21,19 @@ export interface GeneratorOptions {
   closedSubdir?: string
   /** Whether to organize closed issues into subdirectory (default: true) */
   separateClosed?: boolean
+  /**
+   * Issue template content to render file bodies with.
+   * Its `$pattern` frontmatter key is used when `pattern` is not set.
+   */
+  template?: string
+  /** Template directory to resolve [Issue].mdx from; enables template rendering */
+  templateDir?: string
+  /** Preset used when no custom [Issue].mdx exists; enables template rendering */
+  preset?: TemplateConfig['preset']
+  /** Issue set that `<Issue.Dependents />`, `<Issue.Children />` and `<Issue.Parent />` look issues up in */
+  issues?: TodoIssue[]
+  /** Custom template slot filters */
+  filters?: TemplateFilters
 }
 
 /**
@@ -49,7 +66,8 @@ function serializeYamlValue(value: unknown): string {
 
   if (typeof value === 'string') {
     // Always quote strings for consistency and safety
-    return `"${value.replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`
+    // JSON strings are valid double-quoted YAML scalars (escapes included)
+    return JSON.stringify(value)
   }
 
   if (typeof value === 'number' || typeof value === 'boolean') {
@@ -100,6 +118,10 @@ function generateFrontmatter(issue: TodoIssue): string {
     lines.push(`closedAt: ${serializeYamlValue(issue.closedAt)}`)
   }
 
+  if (issue.closeReason) {
+    lines.push(`closeReason: ${serializeYamlValue(issue.closeReason)}`)
+  }
+
   if (issue.parent) {
     lines.push(`parent: ${serializeYamlValue(issue.parent)}`)
   }
@@ -121,6 +143,11 @@ function generateFrontmatter(issue: TodoIssue): string {
     lines.push(`children: ${serializeYamlValue(issue.children)}`)
   }
 
+  // Custom fields keep their original YAML shape (block lists, nested maps, ...)
+  if (issue.custom && Object.keys(issue.custom).length > 0) {
+    lines.push(stringifyYaml(issue.custom).trimEnd())
+  }
+
   lines.push('---')
 
   return lines.join('\n')
@@ -181,15 +208,150 @@ function generateBody(issue: TodoIssue): string {
 
 /**
  * Generate a complete .todo/*.md file from a TodoIssue
- * Uses manual generation for full control over output format
  * Output is compatible with @mdxld/markdown fromMarkdown() parser
  *
+ * Without a template the body is generated manually. With a template, the
+ * body is rendered through it (slots and `<Issue.* />` components), while
+ * the frontmatter is always generated from the issue so it round-trips.
+ *
  * @param issue - The issue to generate markdown for
+ * @param template - Optional issue template (e.g. from resolveTemplate('issue'))
+ * @param issues - Optional issue set the template's components look related issues up in
+ * @param filters - Optional custom slot filters for the template
  * @returns The complete markdown content with frontmatter and body
  */
-export function generateTodoFile(issue: TodoIssue): string {
+export function generateTodoFile(
+  issue: TodoIssue,
+  template?: string,
+  issues?: TodoIssue[],
+  filters?: TemplateFilters
+): string {
   const frontmatter = generateFrontmatter(issue)
-  const body = generateBody(issue)
+  const body = generateFileBody(issue, template, issues, filters)
+
+  return `${frontmatter}\n\n${body}`
+}
+
+/**
+ * Generate the body through the template, or manually without one
+ */
+function generateFileBody(
+  issue: TodoIssue,
+  template?: string,
+  issues?: TodoIssue[],
+  filters?: TemplateFilters
+): string {
+  return template
+    ? renderTemplate(parseTemplateFrontmatter(template).body, { issue, issues, filters }).trim()
+    : generateBody(issue)
+}
+
+/**
+ * Generate a file whose body is the issue's description as it stands, without the template
+ */
+function generateUntemplatedFile(issue: TodoIssue): string {
+  return `${generateFrontmatter(issue)}\n\n${issue.description?.trim() ?? ''}`
+}
+
+/**
+ * Check whether an existing file's body reads back through the issue template
+ * A body that doesn't (hand-written, or edited past recognition) was parsed as the
+ * description, so re-rendering it would bury or lose what the file says.
+ */
+function readsBack(content: string, template: string, filters?: TemplateFilters): boolean {
+  try {
+    return parseTodoFile(content, { template, filters }).extraction?.applied ?? false
+  } catch {
+    // Files with conflict markers are replaced whole
+    return true
+  }
+}
+
+/** Git-style conflict markers written by generateConflictFile() */
+const CONFLICT_START = '<<<<<<< beads'
+const CONFLICT_SEPARATOR = '======='
+const CONFLICT_END = '>>>>>>> file'
+
+/**
+ * Merge two versions of a block of lines, wrapping each differing run in conflict markers
+ * Uses a longest-common-subsequence line diff, so unchanged lines stay outside the markers
+ */
+function markConflictingLines(beadsLines: string[], fileLines: string[]): string[] {
+  const n = beadsLines.length
+  const m = fileLines.length
+
+  // lcs[i][j] = length of the common subsequence of beadsLines[i:] and fileLines[j:]
+  const lcs = Array.from({ length: n + 1 }, () => new Array<number>(m + 1).fill(0))
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] =
+        beadsLines[i] === fileLines[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1])
+    }
+  }
+
+  const output: string[] = []
+  let beadsRun: string[] = []
+  let fileRun: string[] = []
+
+  const flush = () => {
+    if (beadsRun.length > 0 || fileRun.length > 0) {
+      output.push(CONFLICT_START, ...beadsRun, CONFLICT_SEPARATOR, ...fileRun, CONFLICT_END)
+      beadsRun = []
+      fileRun = []
+    }
+  }
+
+  let i = 0
+  let j = 0
+  while (i < n || j < m) {
+    if (i < n && j < m && beadsLines[i] === fileLines[j]) {
+      flush()
+      output.push(beadsLines[i])
+      i++
+      j++
+    } else if (j >= m || (i < n && lcs[i + 1][j] >= lcs[i][j + 1])) {
+      beadsRun.push(beadsLines[i++])
+    } else {
+      fileRun.push(fileLines[j++])
+    }
+  }
+  flush()
+
+  return output
+}
+
+/**
+ * Generate a .todo/*.md file with git-style conflict markers
+ *
+ * Both versions are generated in full; lines that differ are wrapped in
+ * `<<<<<<< beads` / `=======` / `>>>>>>> file` blocks, separately in the
+ * frontmatter and the body so the `---` delimiters stay intact.
+ * parseTodoFile() refuses files with markers until they are resolved.
+ *
+ * @param beadsIssue - The issue with the beads values for conflicting fields
+ * @param fileIssue - The issue with the file values for conflicting fields
+ * @param template - Optional issue template (e.g. from resolveTemplate('issue'))
+ * @param filters - Optional custom slot filters for the template
+ * @returns The complete markdown content with conflict markers
+ */
+export function generateConflictFile(
+  beadsIssue: TodoIssue,
+  fileIssue: TodoIssue,
+  template?: string,
+  filters?: TemplateFilters
+): string {
+  // Frontmatter without its --- delimiters
+  const frontmatterLines = (issue: TodoIssue) => generateFrontmatter(issue).split('\n').slice(1, -1)
+
+  const frontmatter = [
+    '---',
+    ...markConflictingLines(frontmatterLines(beadsIssue), frontmatterLines(fileIssue)),
+    '---',
+  ].join('\n')
+  const body = markConflictingLines(
+    generateFileBody(beadsIssue, template, undefined, filters).split('\n'),
+    generateFileBody(fileIssue, template, undefined, filters).split('\n')
+  ).join('\n')
 
   return `${frontmatter}\n\n${body}`
 }
@@ -220,6 +382,8 @@ function validatePathSafety(filepath: string, targetDir: string): void {
 
 /**
  * Write TodoIssue objects to .todo/*.md files
+ * An existing file whose body doesn't read back through the issue template keeps
+ * its description as the body instead of being re-rendered.
  * @param issues - Array of issues to write
  * @param todoDir - Path to .todo directory (default: '.todo')
  * @param options - Generator options for pattern and closed subfolder
@@ -229,10 +393,69 @@ export async function writeTodoFiles(
   issues: TodoIssue[],
   todoDir: string = '.todo',
   options: GeneratorOptions = {}
+): Promise<string[]> {
+  return writeFiles(issues, todoDir, options, (issue, template, previous) =>
+    template && previous !== undefined && !readsBack(previous, template, options.filters)
+      ? generateUntemplatedFile(issue)
+      : generateTodoFile(issue, template, options.issues, options.filters)
+  )
+}
+
+/**
+ * Write conflicting issues to .todo/*.md files with git-style conflict markers
+ * Files are named after the file version, so they replace the existing files.
+ *
+ * @param conflicts - Beads and file versions of each conflicting issue
+ * @param todoDir - Path to .todo directory (default: '.todo')
+ * @param options - Generator options for pattern and closed subfolder
+ * @returns Array of written file paths (absolute paths)
+ */
+export async function writeConflictFiles(
+  conflicts: Array<{ beads: TodoIssue; file: TodoIssue }>,
+  todoDir: string = '.todo',
+  options: GeneratorOptions = {}
+): Promise<string[]> {
+  const beadsById = new Map(conflicts.map((c) => [c.file.id, c.beads]))
+
+  return writeFiles(
+    conflicts.map((c) => c.file),
+    todoDir,
+    options,
+    (issue, template) => generateConflictFile(beadsById.get(issue.id) ?? issue, issue, template, options.filters)
+  )
+}
+
+/**
+ * Resolve the issue template and the filename options it implies
+ * An explicit pattern wins over the template's $pattern
+ */
+async function resolveFilenameOptions(
+  options: GeneratorOptions
+): Promise<{ template: string | undefined; filenameOptions: GeneratorOptions }> {
+  const template = await resolveIssueTemplate(options)
+  const filenameOptions: GeneratorOptions = {
+    ...options,
+    pattern: options.pattern || (template && parseTemplateFrontmatter(template).config.$pattern) || undefined,
+  }
+  return { template, filenameOptions }
+}
+
+/**
+ * Write one file per issue, named by the filename pattern
+ * An issue whose existing file has a different path (title or status changed)
+ * is moved: the new file is written and the old one removed.
+ */
+async function writeFiles(
+  issues: TodoIssue[],
+  todoDir: string,
+  options: GeneratorOptions,
+  generate: (issue: TodoIssue, template: string | undefined, previous: string | undefined) => string
 ): Promise<string[]> {
   // Resolve todoDir to absolute path for consistent validation
   const resolvedTodoDir = resolve(todoDir)
 
+  const { template, filenameOptions } = await resolveFilenameOptions(options)
+
   // Create .todo directory if it doesn't exist
   await fs.mkdir(resolvedTodoDir, { recursive: true })
 
@@ -246,10 +469,12 @@ export async function writeTodoFiles(
     await fs.mkdir(closedPath, { recursive: true })
   }
 
+  // Where each issue lives now, so renamed or moved issues don't leave their old file behind
+  const index = await indexTodoFiles(resolvedTodoDir)
   const writtenPaths: string[] = []
 
   for (const issue of issues) {
-    const filename = generateFilename(issue, options)
+    const filename = generateFilename(issue, filenameOptions)
     const filepath = join(resolvedTodoDir, filename)
 
     // Security: Validate BEFORE creating any directories or files
@@ -263,10 +488,94 @@ export async function writeTodoFiles(
       await fs.mkdir(fileDir, { recursive: true })
     }
 
-    const content = generateTodoFile(issue)
+    const previousPath = index.get(issue.id)
+    const previous = previousPath === undefined ? undefined : await fs.readFile(previousPath, 'utf-8')
+    const content = generate(issue, template, previous)
     await fs.writeFile(filepath, content, 'utf-8')
     writtenPaths.push(filepath)
+
+    if (previousPath && previousPath !== filepath) {
+      await removeFile(previousPath, resolvedTodoDir)
+    }
+    index.set(issue.id, filepath)
   }
 
   return writtenPaths
 }
+
+/**
+ * Work out the paths writeTodoFiles() would write and move, and the files deleteTodoFile() would remove
+ * Nothing is written; used to plan syncs.
+ *
+ * @param issues - Issues that will be written
+ * @param deletedIds - IDs of issues whose files will be deleted
+ * @param todoDir - Path to .todo directory (default: '.todo')
+ * @param options - Generator options for pattern and closed subfolder
+ * @returns Files to write, moved files, and files to delete (absolute paths)
+ */
+export async function planTodoFiles(
+  issues: TodoIssue[],
+  deletedIds: string[],
+  todoDir: string = '.todo',
+  options: GeneratorOptions = {}
+): Promise<{
+  written: Array<{ id: string; path: string }>
+  moved: TodoFileMove[]
+  deleted: Array<{ id: string; path: string }>
+}> {
+  const resolvedTodoDir = resolve(todoDir)
+  const { filenameOptions } = await resolveFilenameOptions(options)
+  const index = await indexTodoFiles(resolvedTodoDir)
+
+  const written: Array<{ id: string; path: string }> = []
+  const moved: TodoFileMove[] = []
+  for (const issue of issues) {
+    const from = index.get(issue.id)
+    const to = join(resolvedTodoDir, generateFilename(issue, filenameOptions))
+    written.push({ id: issue.id, path: to })
+    if (from && from !== to) {
+      moved.push({ id: issue.id, from, to })
+    }
+  }
+
+  const deleted = deletedIds.flatMap((id) => {
+    const path = index.get(id)
+    return path ? [{ id, path }] : []
+  })
+
+  return { written, moved, deleted }
+}
+
+/**
+ * Delete the .todo/*.md file of an issue, wherever it lives in the todo directory
+ *
+ * @param issueId - ID of the issue whose file to delete
+ * @param todoDir - Path to .todo directory (default: '.todo')
+ * @returns true if a file was deleted, false if the issue has no file
+ */
+export async function deleteTodoFile(issueId: string, todoDir: string = '.todo'): Promise<boolean> {
+  const resolvedTodoDir = resolve(todoDir)
+  const filepath = (await indexTodoFiles(resolvedTodoDir)).get(issueId)
+
+  if (!filepath) {
+    return false
+  }
+
+  await removeFile(filepath, resolvedTodoDir)
+  return true
+}
+
+/**
+ * Remove a file inside the todo directory, ignoring files that are already gone
+ */
+async function removeFile(filepath: string, todoDir: string): Promise<void> {
+  validatePathSafety(filepath, todoDir)
+
+  try {
+    await fs.unlink(filepath)
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+      throw err
+    }
+  }
+}
@@ -8,12 +8,23 @@
 export type {
   TodoConfig,
   ParsedTodoFile,
+  TemplateExtraction,
   TodoIssue,
   TemplateFrontmatter,
+  TodoStats,
   CompileResult,
   SyncResult,
+  SyncError,
   SyncConflict,
+  SyncFieldConflict,
+  TodoFileMove,
+  SyncPlan,
+  SyncIssueChange,
+  SyncFieldChange,
   WatchEvent,
+  IssueStore,
+  TemplateFilter,
+  TemplateFilters,
 } from './types.js'
 
 // Re-export beads-workflows types (renamed to avoid conflict with components)
@@ -25,22 +36,111 @@ export type {
 } from 'beads-workflows'
 
 // Beads integration
-export { loadBeadsIssues, hasBeadsDirectory } from './beads.js'
+export {
+  loadBeadsIssues,
+  hasBeadsDirectory,
+  isBdAvailable,
+  addDependency,
+  removeDependency,
+  reopenIssue,
+  deleteIssue,
+} from './beads.js'
+export type { DependencyType } from './beads.js'
+export { bdBackend, resolveBeadsBackend } from './beads-backend.js'
+export type { BeadsBackend, CreateIssueOptions } from './beads-backend.js'
+export { jsonlBackend, issuePrefix, newIssueId } from './beads-jsonl.js'
+
+// Config
+export {
+  defineConfig,
+  loadConfig,
+  loadConfigFile,
+  findConfigFile,
+  validateConfig,
+  configFromEnv,
+  CONFIG_FILES,
+  CONFIG_ENV_VARS,
+} from './config.js'
+export type { LoadConfigOptions, LoadedConfig } from './config.js'
+
+// Issue stores
+export { createBeadsStore, createTodoStore, createMemoryStore } from './stores.js'
+export type { BeadsStoreOptions, TodoStoreOptions } from './stores.js'
 
 // Parser
-export { parseTodoFile, loadTodoFiles } from './parser.js'
+export {
+  parseTodoFile,
+  loadTodoFiles,
+  hasConflictMarkers,
+  findConflictedFiles,
+  indexTodoFiles,
+  DEFAULT_MIN_CONFIDENCE,
+} from './parser.js'
+export type { ParseOptions, LoadOptions, ConflictedFile } from './parser.js'
 
 // Generator
-export { generateTodoFile, writeTodoFiles, DEFAULT_PATTERN } from './generator.js'
+export {
+  generateTodoFile,
+  writeTodoFiles,
+  generateConflictFile,
+  writeConflictFiles,
+  planTodoFiles,
+  deleteTodoFile,
+  DEFAULT_PATTERN,
+} from './generator.js'
 export type { GeneratorOptions } from './generator.js'
 
 // Compiler
-export { compile, compileToString } from './compiler.js'
+export { compile, compileToString, compileTemplate, computeStats, loadIssues } from './compiler.js'
 export type { CompileOptions } from './compiler.js'
 
 // Sync
-export { sync, detectChanges } from './sync.js'
-export type { SyncOptions } from './sync.js'
+export { sync, planSync, detectChanges, mergeIssue, changedFields } from './sync.js'
+export type { SyncOptions, IssueMergeResult, ConflictResolver } from './sync.js'
+export { diffDependencies } from './issue-changes.js'
+export type { DependencyEdge } from './issue-changes.js'
+export { createInteractiveResolver, parseFieldValue, formatFieldValue, validateFieldValue } from './interactive.js'
+export type { PromptIO } from './interactive.js'
+export { loadSyncState, saveSyncState, SYNC_STATE_FILE } from './sync-state.js'
+export type { SyncState } from './sync-state.js'
+export {
+  appendJournalEntry,
+  loadJournal,
+  removeJournalEntry,
+  readFileContents,
+  restoreFileContent,
+  JOURNAL_DIR,
+} from './journal.js'
+export type { JournalEntry, JournalIssueChange, JournalFileChange } from './journal.js'
+export { undo } from './undo.js'
+export type { UndoOptions, UndoResult } from './undo.js'
+
+// Issue queries
+export {
+  filterIssues,
+  parseWhere,
+  sortIssues,
+  blockersOf,
+  readyIssues,
+  blockedIssues,
+  dependencyTree,
+  ISSUE_SORT_KEYS,
+} from './query.js'
+export type { IssueFilter, IssueSortKey, BlockedIssue, DependencyTreeNode } from './query.js'
+
+// Dependency graph
+export { createDependencyGraph } from './dependency-graph.js'
+export type { DependencyGraph } from './dependency-graph.js'
+
+// Issue commands
+export { newIssue, ISSUE_TYPES } from './new-issue.js'
+export type { NewIssueOptions, NewIssueResult } from './new-issue.js'
+export { changeIssue } from './change-issue.js'
+export type { IssueChange, ChangeIssueOptions, ChangeIssueResult } from './change-issue.js'
+
+// Lint
+export { lintTodoFiles, LINT_RULES } from './lint.js'
+export type { LintDiagnostic, LintOptions, LintResult, LintRule } from './lint.js'
 
 // Watcher
 export { watch } from './watcher.js'
@@ -51,6 +151,8 @@ export {
   render,
   renderTemplate,
   resolveTemplate,
+  parseTemplateFrontmatter,
+  resolveIssueTemplate,
   extractFromMarkdown,
   diff,
   applyExtract,
@@ -58,10 +160,12 @@ export {
 export type {
   TemplateContext,
   TemplateConfig,
+  TemplateExtractResult,
   ExtractResult,
   ExtractDiff,
   ComponentExtractor,
 } from './templates.js'
+export { BUILTIN_FILTERS, resolveFilters } from './template-filters.js'
 
 // Components
 export {
@@ -69,10 +173,27 @@ export {
   Issue,
   IssueLabels,
   IssueDependencies,
+  IssueDependents,
+  IssueChildren,
+  IssueParent,
+  IssueTimeline,
   createIssueExtractors,
+  createTodoComponents,
+  createIssueComponents,
+  issueFieldsFromComponents,
+  ISSUE_GROUP_KEYS,
 } from './components/issues.js'
 export type {
   IssuesProps,
+  IssueListProps,
+  IssueGroupKey,
   IssueLabelsProps,
   IssueDependenciesProps,
+  IssueDependentsProps,
+  IssueChildrenProps,
+  IssueChildItem,
+  IssueParentProps,
+  IssueParentItem,
+  IssueTimelineProps,
+  IssueTimelineEvent,
 } from './components/issues.js'
@@ -0,0 +1,155 @@
+/**
+ * Interactive conflict resolution for `todo.mdx sync --interactive`
+ * Walks each conflicting issue field by field and asks which value to keep
+ */
+
+import type { SyncConflict, SyncFieldConflict, TodoIssue } from './types.js'
+import type { ConflictResolver } from './sync.js'
+import { ISSUE_TYPES } from './new-issue.js'
+
+/**
+ * Minimal prompt interface (readline in the CLI, a fake in tests)
+ */
+export interface PromptIO {
+  /** Ask a question and return the answer */
+  ask(question: string): Promise<string>
+  /** Print a line */
+  print(message: string): void
+}
+
+const CHOICES_PROMPT = '    Keep [b]eads, [f]ile, b[a]se, [n]ew value, or [s]kip issue? '
+
+/** Statuses a typed status can take */
+const ISSUE_STATUSES: TodoIssue['status'][] = ['open', 'in_progress', 'blocked', 'closed']
+
+/**
+ * Format a field value for display
+ */
+export function formatFieldValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') {
+    return '(empty)'
+  }
+  return JSON.stringify(value)
+}
+
+/**
+ * Parse a typed value, using an existing value of the field as a type hint
+ *
+ * JSON input (`[...]`, `{...}`, `"..."`) is parsed as-is. Otherwise lists are
+ * comma-separated, numbers are converted, and anything else is a string.
+ * Empty input clears the field.
+ */
+export function parseFieldValue(input: string, example: unknown): unknown {
+  const trimmed = input.trim()
+
+  if (trimmed === '') {
+    return undefined
+  }
+
+  if (/^[[{"]/.test(trimmed)) {
+    try {
+      return JSON.parse(trimmed)
+    } catch {
+      // Not JSON - treat as plain text below
+    }
+  }
+
+  if (Array.isArray(example)) {
+    return trimmed
+      .split(',')
+      .map((item) => item.trim())
+      .filter(Boolean)
+  }
+
+  if (typeof example === 'number') {
+    const num = Number(trimmed)
+    return Number.isFinite(num) ? num : trimmed
+  }
+
+  return trimmed
+}
+
+/**
+ * Check a typed value for a field beads constrains (status, type, priority)
+ *
+ * @returns Why the value is invalid, or undefined if it's valid
+ */
+export function validateFieldValue(field: string, value: unknown): string | undefined {
+  if (field === 'status' && !ISSUE_STATUSES.includes(value as TodoIssue['status'])) {
+    return `Invalid status: ${formatFieldValue(value)}. Must be one of: ${ISSUE_STATUSES.join(', ')}`
+  }
+  if (field === 'type' && !ISSUE_TYPES.includes(value as TodoIssue['type'])) {
+    return `Invalid type: ${formatFieldValue(value)}. Must be one of: ${ISSUE_TYPES.join(', ')}`
+  }
+  if (field === 'priority' && !(Number.isInteger(value) && (value as number) >= 0 && (value as number) <= 4)) {
+    return `Invalid priority: ${formatFieldValue(value)}. Must be an integer from 0 to 4`
+  }
+  return undefined
+}
+
+/**
+ * Ask for a new value of a field until it's a valid one
+ */
+async function askFieldValue(io: PromptIO, field: SyncFieldConflict): Promise<unknown> {
+  for (;;) {
+    const value = parseFieldValue(await io.ask('    New value: '), field.beadsValue ?? field.fileValue)
+    const problem = validateFieldValue(field.field, value)
+    if (!problem) {
+      return value
+    }
+    io.print(`    ${problem}`)
+  }
+}
+
+/**
+ * Print the three versions of a conflicting field
+ */
+function printField(io: PromptIO, field: SyncFieldConflict): void {
+  io.print(`  ${field.field}`)
+  io.print(`    base:  ${formatFieldValue(field.baseValue)}`)
+  io.print(`    beads: ${formatFieldValue(field.beadsValue)}`)
+  io.print(`    file:  ${formatFieldValue(field.fileValue)}`)
+}
+
+/**
+ * Create a sync conflict resolver that prompts for every conflicting field
+ *
+ * Skipping an issue returns null, leaving it to `conflictStrategy`.
+ *
+ * @param io - Prompt input/output
+ * @returns Resolver for `sync({ onConflict })`
+ */
+export function createInteractiveResolver(io: PromptIO): ConflictResolver {
+  return async (conflict: SyncConflict) => {
+    const count = conflict.fields.length
+    io.print(`Conflict in ${conflict.issueId} (${count} field${count === 1 ? '' : 's'})`)
+
+    const values: Record<string, unknown> = {}
+
+    for (const field of conflict.fields) {
+      printField(io, field)
+
+      for (;;) {
+        const answer = (await io.ask(CHOICES_PROMPT)).trim().toLowerCase()
+
+        if (answer === 'b' || answer === 'beads') {
+          values[field.field] = field.beadsValue
+        } else if (answer === 'f' || answer === 'file') {
+          values[field.field] = field.fileValue
+        } else if (answer === 'a' || answer === 'base') {
+          values[field.field] = field.baseValue
+        } else if (answer === 'n' || answer === 'new') {
+          values[field.field] = await askFieldValue(io, field)
+        } else if (answer === 's' || answer === 'skip') {
+          return null
+        } else {
+          io.print('    Please answer b, f, a, n or s')
+          continue
+        }
+        break
+      }
+    }
+
+    return values
+  }
+}
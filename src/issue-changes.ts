@@ -0,0 +1,85 @@
+/**
+ * Changes to a single issue, shared by sync(), the issue stores and the issue commands
+ *
+ * Relationship fields are diffed as dependency edges, since that's how beads
+ * stores them, and reopening an issue drops its close fields. This module only
+ * depends on the issue types, so every module writing issues can use it.
+ *
+ * @example
+ * ```ts
+ * import { diffDependencies } from 'todo.mdx'
+ *
+ * const { add, remove } = diffDependencies(fileIssue, beadsIssue)
+ * ```
+ */
+
+import type { DependencyType } from './beads.js'
+import type { TodoIssue } from './types.js'
+
+/**
+ * A dependency edge between two issues
+ */
+export interface DependencyEdge {
+  /** The dependent issue (or child) */
+  issueId: string
+  /** The issue it depends on (or parent) */
+  dependsOnId: string
+  type: DependencyType
+}
+
+/**
+ * Dependency edges described by an issue's relationship fields
+ * dependsOn/parent are outgoing edges; blocks/children are incoming edges.
+ */
+export function relationshipEdges(issue: TodoIssue): DependencyEdge[] {
+  return [
+    ...(issue.dependsOn ?? []).map((id) => ({ issueId: issue.id, dependsOnId: id, type: 'blocks' as const })),
+    ...(issue.blocks ?? []).map((id) => ({ issueId: id, dependsOnId: issue.id, type: 'blocks' as const })),
+    ...(issue.parent
+      ? [{ issueId: issue.id, dependsOnId: issue.parent, type: 'parent-child' as const }]
+      : []),
+    ...(issue.children ?? []).map((id) => ({
+      issueId: id,
+      dependsOnId: issue.id,
+      type: 'parent-child' as const,
+    })),
+  ]
+}
+
+/**
+ * Key identifying an edge regardless of its type
+ * beads reports parent-child edges in dependsOn/blocks, so edges are matched by endpoints only.
+ */
+export function edgeKey(edge: DependencyEdge): string {
+  return `${edge.issueId}->${edge.dependsOnId}`
+}
+
+/**
+ * Diff the relationship fields of an issue against its beads version
+ *
+ * @param issue - The issue as it should be (e.g. from a .todo file)
+ * @param original - The current beads version (undefined for new issues)
+ * @returns Dependency edges to add to and remove from beads
+ */
+export function diffDependencies(
+  issue: TodoIssue,
+  original?: TodoIssue
+): { add: DependencyEdge[]; remove: DependencyEdge[] } {
+  const desired = new Map(relationshipEdges(issue).map((edge) => [edgeKey(edge), edge]))
+  const current = new Map(
+    (original ? relationshipEdges(original) : []).map((edge) => [edgeKey(edge), edge])
+  )
+
+  return {
+    add: [...desired].filter(([key]) => !current.has(key)).map(([, edge]) => edge),
+    remove: [...current].filter(([key]) => !desired.has(key)).map(([, edge]) => edge),
+  }
+}
+
+/**
+ * Drop the close fields of an issue being reopened
+ */
+export function withoutCloseFields(issue: TodoIssue): TodoIssue {
+  const { closedAt: _closedAt, closeReason: _closeReason, ...reopened } = issue
+  return reopened
+}
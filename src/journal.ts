@@ -0,0 +1,195 @@
+/**
+ * Sync journal for `todo.mdx undo`
+ *
+ * Every applied sync appends an entry to `.todo/.journal/` recording, for each
+ * touched issue, its beads state before and after the sync, and the content of
+ * each touched file before and after. undo() uses the entries to revert syncs.
+ */
+
+import { promises as fs } from 'node:fs'
+import { join, dirname } from 'node:path'
+import type { TodoIssue } from './types.js'
+
+/** Journal directory, relative to the todo directory */
+export const JOURNAL_DIR = '.journal'
+
+/** Current journal entry format version */
+const JOURNAL_VERSION = 1
+
+/** Entries kept in the journal; older ones are pruned */
+const MAX_JOURNAL_ENTRIES = 50
+
+/**
+ * A beads issue touched by a sync
+ */
+export interface JournalIssueChange {
+  /** Issue ID */
+  issueId: string
+  /** Beads state before the sync (absent if the sync created it) */
+  before?: TodoIssue
+  /** Beads state after the sync */
+  after: TodoIssue
+}
+
+/**
+ * A file touched by a sync
+ */
+export interface JournalFileChange {
+  /** Absolute path of the file */
+  path: string
+  /** Content before the sync (null if the sync created the file) */
+  before: string | null
+  /** Content after the sync (null if the sync deleted or moved the file) */
+  after: string | null
+}
+
+/**
+ * One applied sync
+ */
+export interface JournalEntry {
+  /** Format version */
+  version: number
+  /** Entry ID (also its filename, without .json) */
+  id: string
+  /** When the sync was applied (ISO string) */
+  createdAt: string
+  /** Beads issues the sync created or updated */
+  issues: JournalIssueChange[]
+  /** Files the sync wrote, moved or deleted */
+  files: JournalFileChange[]
+  /** Sync state (merge base) before the sync */
+  syncState: Record<string, TodoIssue>
+}
+
+/**
+ * Read the current content of files
+ *
+ * @param paths - Files to read
+ * @returns Content by path, null for files that don't exist
+ */
+export async function readFileContents(paths: string[]): Promise<Record<string, string | null>> {
+  const contents: Record<string, string | null> = {}
+
+  for (const path of paths) {
+    try {
+      contents[path] = await fs.readFile(path, 'utf-8')
+    } catch {
+      contents[path] = null
+    }
+  }
+
+  return contents
+}
+
+/**
+ * Append an entry to the journal
+ *
+ * @param todoDir - Directory containing .todo/*.md files
+ * @param changes - Issues and files the sync touched, and the sync state before it
+ * @returns Path of the written entry
+ */
+export async function appendJournalEntry(
+  todoDir: string,
+  changes: Pick<JournalEntry, 'issues' | 'files' | 'syncState'>
+): Promise<string> {
+  const journalDir = join(todoDir, JOURNAL_DIR)
+  const createdAt = new Date().toISOString()
+  const baseId = createdAt.replace(/[:.]/g, '-')
+
+  await fs.mkdir(journalDir, { recursive: true })
+
+  // Entry IDs sort chronologically; suffix the rare same-millisecond entry
+  for (let attempt = 0; ; attempt++) {
+    const id = attempt === 0 ? baseId : `${baseId}-${attempt}`
+    const entryPath = join(journalDir, `${id}.json`)
+    const entry: JournalEntry = { version: JOURNAL_VERSION, id, createdAt, ...changes }
+
+    try {
+      await fs.writeFile(entryPath, JSON.stringify(entry, null, 2) + '\n', { encoding: 'utf-8', flag: 'wx' })
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'EEXIST') continue
+      throw error
+    }
+
+    await pruneJournal(journalDir)
+    return entryPath
+  }
+}
+
+/**
+ * List journal entry filenames, oldest first
+ * Sorted by entry ID, so a suffixed ID comes after the one it collided with
+ */
+async function listEntryFiles(journalDir: string): Promise<string[]> {
+  try {
+    const names = await fs.readdir(journalDir)
+    const ids = names.filter((name) => name.endsWith('.json')).map((name) => name.slice(0, -'.json'.length))
+    return ids.sort().map((id) => `${id}.json`)
+  } catch {
+    return []
+  }
+}
+
+/**
+ * Remove the oldest entries beyond MAX_JOURNAL_ENTRIES
+ */
+async function pruneJournal(journalDir: string): Promise<void> {
+  const names = await listEntryFiles(journalDir)
+
+  for (const name of names.slice(0, Math.max(0, names.length - MAX_JOURNAL_ENTRIES))) {
+    await fs.rm(join(journalDir, name), { force: true })
+  }
+}
+
+/**
+ * Load the journal
+ *
+ * @param todoDir - Directory containing .todo/*.md files
+ * @returns Journal entries, oldest first (unreadable entries are skipped with a warning)
+ */
+export async function loadJournal(todoDir: string): Promise<JournalEntry[]> {
+  const journalDir = join(todoDir, JOURNAL_DIR)
+  const entries: JournalEntry[] = []
+
+  for (const name of await listEntryFiles(journalDir)) {
+    const entryPath = join(journalDir, name)
+    try {
+      const entry = JSON.parse(await fs.readFile(entryPath, 'utf-8')) as JournalEntry
+      if (!Array.isArray(entry.issues) || !Array.isArray(entry.files)) {
+        throw new Error('missing issues or files')
+      }
+      entries.push(entry)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      console.warn(`Ignoring invalid journal entry at ${entryPath}: ${message}`)
+    }
+  }
+
+  return entries
+}
+
+/**
+ * Remove an entry from the journal (after it has been undone)
+ *
+ * @param todoDir - Directory containing .todo/*.md files
+ * @param id - Entry ID
+ */
+export async function removeJournalEntry(todoDir: string, id: string): Promise<void> {
+  await fs.rm(join(todoDir, JOURNAL_DIR, `${id}.json`), { force: true })
+}
+
+/**
+ * Write or delete a file to restore journaled content
+ *
+ * @param path - File path
+ * @param content - Content to write, or null to delete the file
+ */
+export async function restoreFileContent(path: string, content: string | null): Promise<void> {
+  if (content === null) {
+    await fs.rm(path, { force: true })
+    return
+  }
+
+  await fs.mkdir(dirname(path), { recursive: true })
+  await fs.writeFile(path, content, 'utf-8')
+}
@@ -0,0 +1,557 @@
+/**
+ * Lint .todo files and templates
+ *
+ * loadTodoFiles() skips files it can't parse and quietly coerces values it doesn't
+ * know, so a broken issue just drops out of (or changes in) TODO.md. lintTodoFiles()
+ * reports those problems with file and line numbers instead, and can fix the
+ * mechanical ones: status/type spellings and filenames that don't match the pattern.
+ *
+ * @example
+ * ```ts
+ * import { lintTodoFiles } from 'todo.mdx'
+ *
+ * const { diagnostics } = await lintTodoFiles({ fix: true })
+ * for (const d of diagnostics) {
+ *   console.log(`${d.path}:${d.line}: ${d.message}`)
+ * }
+ * ```
+ */
+
+import { promises as fs } from 'node:fs'
+import { dirname, join, relative, resolve } from 'node:path'
+import { parseTemplateSlots } from '@mdxld/extract'
+import { findBeadsDir } from 'beads-workflows'
+import { parse as parseYaml } from 'yaml'
+import { createDependencyGraph } from './dependency-graph.js'
+import { DEFAULT_PATTERN, planTodoFiles } from './generator.js'
+import type { GeneratorOptions } from './generator.js'
+import {
+  hasConflictMarkers,
+  mapStateToStatus,
+  normalizePriority,
+  normalizeType,
+  parseTodoFile,
+  scanTodoFiles,
+} from './parser.js'
+import { createBeadsStore } from './stores.js'
+import { parseSlotFilters, resolveFilters } from './template-filters.js'
+import { parseTemplateFrontmatter, resolveIssueTemplate } from './templates.js'
+import type { TemplateFilter, TodoConfig, TodoIssue } from './types.js'
+
+/** Lint rules */
+export const LINT_RULES = [
+  'parse-error',
+  'invalid-yaml',
+  'missing-id',
+  'duplicate-id',
+  'unknown-status',
+  'status-alias',
+  'unknown-type',
+  'type-alias',
+  'invalid-priority',
+  'unknown-reference',
+  'dependency-cycle',
+  'filename-mismatch',
+  'unknown-slot',
+] as const
+
+export type LintRule = (typeof LINT_RULES)[number]
+
+/**
+ * A problem found by lintTodoFiles
+ */
+export interface LintDiagnostic {
+  /** File the problem is in */
+  path: string
+  /** 1-based line number (1 when the problem isn't tied to a line) */
+  line: number
+  rule: LintRule
+  /** Errors change or lose data; warnings are only untidy */
+  severity: 'error' | 'warning'
+  message: string
+  /** Whether `fix` can fix it */
+  fixable: boolean
+}
+
+/**
+ * Options for lintTodoFiles
+ */
+export interface LintOptions extends TodoConfig {
+  /** Fix mechanical problems in place (default: false) */
+  fix?: boolean
+  /** Filename pattern (default: `filePattern`, else the issue template's $pattern) */
+  pattern?: string
+}
+
+/**
+ * Result of lintTodoFiles
+ */
+export interface LintResult {
+  /** Problems found; with `fix`, the ones left unfixed */
+  diagnostics: LintDiagnostic[]
+  /** Problems fixed (empty without `fix`) */
+  fixed: LintDiagnostic[]
+  /** Number of .todo files and templates checked */
+  files: number
+}
+
+/** Fields issue template slots can use, as `{issue.<field>}` */
+const ISSUE_FIELDS = [
+  'id',
+  'title',
+  'description',
+  'status',
+  'type',
+  'priority',
+  'assignee',
+  'labels',
+  'createdAt',
+  'updatedAt',
+  'closedAt',
+  'closeReason',
+  'dependsOn',
+  'blocks',
+  'parent',
+  'children',
+  'source',
+  'custom',
+]
+
+/** Fields of `{stats.*}` in TODO templates */
+const STATS_FIELDS = ['total', 'open', 'inProgress', 'blocked', 'closed', 'ready']
+
+/** Relationship fields whose IDs must exist */
+const REFERENCE_FIELDS = ['dependsOn', 'blocks', 'parent', 'children'] as const
+
+/**
+ * A .todo file as read for linting
+ */
+interface LintedFile {
+  path: string
+  content: string
+  frontmatter: Record<string, unknown>
+  /** The issue, or undefined if the file couldn't be parsed */
+  issue?: TodoIssue
+  /** Line edits made by fixes, by line number */
+  edits: Map<number, string>
+}
+
+/** A .todo file that parsed */
+type ParsedFile = LintedFile & { issue: TodoIssue }
+
+/**
+ * Line number of a frontmatter key, or 1 if the key isn't there
+ */
+function keyLine(content: string, key: string): number {
+  const lines = content.split('\n')
+  if (lines[0]?.trim() !== '---') return 1
+
+  for (let i = 1; i < lines.length && lines[i].trim() !== '---'; i++) {
+    if (new RegExp(`^${key}\\s*:`).test(lines[i])) return i + 1
+  }
+  return 1
+}
+
+/**
+ * Line number of a character offset
+ */
+function offsetLine(content: string, offset: number): number {
+  return content.slice(0, offset).split('\n').length
+}
+
+/**
+ * Check that the frontmatter is valid YAML; the parser falls back to reading key/value lines
+ */
+function checkYaml(file: LintedFile): LintDiagnostic[] {
+  const match = file.content.match(/^---\s*\n([\s\S]*?)\n---\s*\n/m)
+  if (!match) return []
+
+  try {
+    parseYaml(match[1])
+    return []
+  } catch (error) {
+    const line = (error as { linePos?: Array<{ line: number }> }).linePos?.[0]?.line
+    const reason = error instanceof Error ? error.message.split('\n')[0] : String(error)
+    return [
+      {
+        path: file.path,
+        line: line ? line + 1 : 1,
+        rule: 'invalid-yaml',
+        severity: 'warning',
+        message: `Frontmatter is not valid YAML and is read line by line instead: ${reason}`,
+        fixable: false,
+      },
+    ]
+  }
+}
+
+/**
+ * Check the status, type and priority values the parser would coerce
+ */
+function checkValues(file: LintedFile): LintDiagnostic[] {
+  const diagnostics: LintDiagnostic[] = []
+  const { frontmatter, path, content } = file
+
+  const statusKey = frontmatter.state !== undefined ? 'state' : 'status'
+  const status = frontmatter[statusKey]
+  if (status !== undefined && status !== null) {
+    const mapped = mapStateToStatus(status)
+    const line = keyLine(content, statusKey)
+    if (status !== mapped) {
+      const known = mapped !== 'open' || (typeof status === 'string' && status.toLowerCase() === 'open')
+      diagnostics.push(
+        known
+          ? {
+              path,
+              line,
+              rule: 'status-alias',
+              severity: 'warning',
+              message: `Status "${status}" is an alias of "${mapped}"`,
+              fixable: true,
+            }
+          : {
+              path,
+              line,
+              rule: 'unknown-status',
+              severity: 'error',
+              message: `Unknown status ${JSON.stringify(status)} is read as "open"`,
+              fixable: false,
+            }
+      )
+    }
+  }
+
+  const type = frontmatter.type
+  if (type !== undefined && type !== null) {
+    const normalized = normalizeType(type)
+    const line = keyLine(content, 'type')
+    if (type !== normalized) {
+      diagnostics.push(
+        typeof type === 'string' && type.toLowerCase() === normalized
+          ? {
+              path,
+              line,
+              rule: 'type-alias',
+              severity: 'warning',
+              message: `Type "${type}" should be written "${normalized}"`,
+              fixable: true,
+            }
+          : {
+              path,
+              line,
+              rule: 'unknown-type',
+              severity: 'error',
+              message: `Unknown type ${JSON.stringify(type)} is read as "task"`,
+              fixable: false,
+            }
+      )
+    }
+  }
+
+  const priority = frontmatter.priority
+  if (priority !== undefined && priority !== null && priority !== normalizePriority(priority)) {
+    diagnostics.push({
+      path,
+      line: keyLine(content, 'priority'),
+      rule: 'invalid-priority',
+      severity: 'error',
+      message: `Priority ${JSON.stringify(priority)} is read as ${normalizePriority(priority)}; use an integer from 0 to 4`,
+      fixable: false,
+    })
+  }
+
+  return diagnostics
+}
+
+/**
+ * Check the `{...}` slots of a template against the fields its render context has,
+ * and their filters against the known filters
+ *
+ * @param fields - Known fields under each root (null: any field)
+ * @param filters - Built-in and custom filters
+ */
+function lintTemplate(
+  path: string,
+  content: string,
+  fields: Record<string, string[] | null>,
+  filters: Record<string, TemplateFilter>
+): LintDiagnostic[] {
+  // Escaped braces ({{literal}}) aren't slots; blank them out, keeping offsets
+  const template = content.replace(/\{\{[^}]*\}\}/g, (escaped) => ' '.repeat(escaped.length))
+
+  // {#each list as item} makes `item` a slot root, with any fields
+  const loopFields: Record<string, null> = {}
+  for (const [, name] of template.matchAll(/\{#each\s+[\w.]+\s+as\s+([A-Za-z_]\w*)\s*\}/g)) {
+    loopFields[name] = null
+  }
+  const known = { ...fields, ...loopFields }
+
+  return parseTemplateSlots(template)
+    .filter((slot) => slot.type === 'expression' && !/^(:else|\/if|\/each)$/.test(slot.path))
+    .flatMap((slot) => {
+      // Block tags are checked by the path they test or loop over
+      const tested = slot.path.replace(/^#if\s+!?\s*/, '').replace(/^#each\s+([\w.]+)\s+as\s+.*$/, '$1')
+      const { path: slotPath, filters: calls } = parseSlotFilters(tested)
+      const [root, field] = slotPath.split('.')
+      const rootFields = known[root]
+      const unknownFilter = calls.find(({ name }) => !filters[name])
+      if (
+        !unknownFilter &&
+        rootFields !== undefined &&
+        (rootFields === null || field === undefined || rootFields.includes(field))
+      ) {
+        return []
+      }
+
+      const message = unknownFilter
+        ? `Unknown filter "${unknownFilter.name}" in {${slot.path}}; available: ${Object.keys(filters).join(', ')}`
+        : rootFields === undefined
+          ? `Unknown slot {${slot.path}}; available: ${Object.keys(fields).join(', ')}`
+          : `Unknown field "${field}" in {${slot.path}}; ${root} has: ${rootFields!.join(', ')}`
+      return [
+        {
+          path,
+          line: offsetLine(template, slot.start),
+          rule: 'unknown-slot' as const,
+          severity: 'error' as const,
+          message,
+          fixable: false,
+        },
+      ]
+    })
+}
+
+/**
+ * Lint the custom templates in the template directory
+ */
+async function lintTemplates(
+  templateDir: string,
+  filters: Record<string, TemplateFilter>
+): Promise<{ diagnostics: LintDiagnostic[]; files: number }> {
+  const templates: Array<[string, Record<string, string[] | null>]> = [
+    ['[Issue].mdx', { issue: ISSUE_FIELDS }],
+    ['TODO.mdx', { stats: STATS_FIELDS, issues: null, timestamp: null }],
+  ]
+
+  const diagnostics: LintDiagnostic[] = []
+  let files = 0
+  for (const [name, fields] of templates) {
+    const path = join(templateDir, name)
+    let content: string
+    try {
+      content = await fs.readFile(path, 'utf-8')
+    } catch {
+      continue
+    }
+    files++
+    diagnostics.push(...lintTemplate(path, content, fields, filters))
+  }
+
+  return { diagnostics, files }
+}
+
+/**
+ * Lint .todo files and templates
+ *
+ * Reports files that can't be parsed, missing and duplicate IDs, status/type/priority
+ * values the parser would coerce, references to unknown issues (known to the .todo
+ * files or, when enabled, beads), dependency cycles, filenames that don't match the
+ * configured pattern, and template slots referencing unknown fields.
+ *
+ * With `fix`, status and type aliases are rewritten to their canonical value and
+ * misnamed files are renamed; diagnostics then lists only what's left.
+ *
+ * @param options - Config and fix mode
+ * @returns Diagnostics, fixed problems, and the number of files checked
+ */
+export async function lintTodoFiles(options: LintOptions = {}): Promise<LintResult> {
+  const { todoDir = '.todo', templateDir = '.mdx' } = options
+  const generatorOptions: GeneratorOptions = {
+    pattern: options.pattern ?? options.filePattern,
+    closedSubdir: options.closedSubdir,
+    separateClosed: options.separateClosed,
+    templateDir,
+    preset: options.preset,
+    filters: options.filters,
+  }
+  const template = await resolveIssueTemplate({ templateDir, preset: options.preset })
+
+  const files: LintedFile[] = []
+  await scanTodoFiles(todoDir, (path, content) => {
+    files.push({ path, content, frontmatter: {}, edits: new Map() })
+  })
+  files.sort((a, b) => a.path.localeCompare(b.path))
+
+  const diagnostics: LintDiagnostic[] = []
+  for (const file of files) {
+    if (hasConflictMarkers(file.content)) {
+      diagnostics.push({
+        path: file.path,
+        line: offsetLine(file.content, file.content.search(/^<{7} /m)),
+        rule: 'parse-error',
+        severity: 'error',
+        message: 'Unresolved conflict markers; the issue is skipped until they are resolved',
+        fixable: false,
+      })
+      continue
+    }
+
+    diagnostics.push(...checkYaml(file))
+    try {
+      const parsed = parseTodoFile(file.content, { template, filters: options.filters })
+      file.frontmatter = parsed.frontmatter
+      file.issue = parsed.issue
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      diagnostics.push({
+        path: file.path,
+        line: keyLine(file.content, 'id'),
+        rule: /\bID\b/.test(message) ? 'missing-id' : 'parse-error',
+        severity: 'error',
+        message: `${message}; the file is skipped`,
+        fixable: false,
+      })
+      continue
+    }
+    diagnostics.push(...checkValues(file))
+  }
+
+  const parsed = files.filter((file): file is ParsedFile => file.issue !== undefined)
+
+  // Duplicate IDs: only one of the files ends up in TODO.md
+  const byId = new Map<string, ParsedFile[]>()
+  for (const file of parsed) {
+    byId.set(file.issue.id, [...(byId.get(file.issue.id) ?? []), file])
+  }
+  for (const [id, copies] of byId) {
+    if (copies.length < 2) continue
+    for (const file of copies) {
+      const others = copies.filter((other) => other !== file).map((other) => relative(todoDir, other.path))
+      diagnostics.push({
+        path: file.path,
+        line: keyLine(file.content, 'id'),
+        rule: 'duplicate-id',
+        severity: 'error',
+        message: `Duplicate id "${id}" (also in ${others.join(', ')})`,
+        fixable: false,
+      })
+    }
+  }
+
+  // References must point at issues in the .todo files or beads
+  const knownIds = new Set(byId.keys())
+  const beadsDir = options.beads === false ? null : await findBeadsDir(options.beadsDir || process.cwd())
+  const beadsStore = options.stores?.beads ?? (beadsDir ? createBeadsStore(options) : undefined)
+  for (const issue of (await beadsStore?.list()) ?? []) {
+    knownIds.add(issue.id)
+  }
+  for (const file of parsed) {
+    for (const field of REFERENCE_FIELDS) {
+      const value = file.issue[field]
+      const ids = Array.isArray(value) ? value : value ? [value] : []
+      for (const id of ids.filter((ref) => !knownIds.has(ref))) {
+        diagnostics.push({
+          path: file.path,
+          line: keyLine(file.content, field),
+          rule: 'unknown-reference',
+          severity: 'error',
+          message: `${field} references unknown issue "${id}"`,
+          fixable: false,
+        })
+      }
+    }
+  }
+
+  const unique = [...byId.values()].filter((copies) => copies.length === 1).map(([file]) => file)
+  for (const cycle of createDependencyGraph(unique.map((file) => file.issue)).cycles()) {
+    const file = byId.get(cycle[0])![0]
+    diagnostics.push({
+      path: file.path,
+      line: keyLine(file.content, 'dependsOn'),
+      rule: 'dependency-cycle',
+      severity: 'error',
+      message: `Dependency cycle: ${cycle.join(' → ')}`,
+      fixable: false,
+    })
+  }
+
+  // Filenames: where writeTodoFiles() would put each issue
+  const pattern =
+    generatorOptions.pattern || (template && parseTemplateFrontmatter(template).config.$pattern) || DEFAULT_PATTERN
+  const plan = await planTodoFiles(unique.map((file) => file.issue), [], todoDir, generatorOptions)
+  const expectedPaths = new Map(plan.written.map((file) => [file.id, file.path]))
+  const renames = new Map<LintDiagnostic, { from: string; to: string }>()
+  for (const file of unique) {
+    // Without createdAt the date token is today's date, so there's no stable name to expect
+    if (pattern.includes('[yyyy-mm-dd]') && !file.issue.createdAt) continue
+
+    const expected = expectedPaths.get(file.issue.id)
+    if (!expected || expected === resolve(file.path)) continue
+    const diagnostic: LintDiagnostic = {
+      path: file.path,
+      line: 1,
+      rule: 'filename-mismatch',
+      severity: 'warning',
+      message: `Filename doesn't match the pattern "${pattern}"; expected ${relative(resolve(todoDir), expected)}`,
+      fixable: true,
+    }
+    diagnostics.push(diagnostic)
+    renames.set(diagnostic, { from: resolve(file.path), to: expected })
+  }
+
+  const templates = await lintTemplates(templateDir, resolveFilters(options.filters))
+  diagnostics.push(...templates.diagnostics)
+
+  const fixed = options.fix ? await applyFixes(diagnostics, files, renames) : []
+  return {
+    diagnostics: diagnostics.filter((diagnostic) => !fixed.includes(diagnostic)),
+    fixed,
+    files: files.length + templates.files,
+  }
+}
+
+/**
+ * Fix the fixable diagnostics: rewrite alias values, then rename misnamed files
+ *
+ * @returns The diagnostics fixed
+ */
+async function applyFixes(
+  diagnostics: LintDiagnostic[],
+  files: LintedFile[],
+  renames: Map<LintDiagnostic, { from: string; to: string }>
+): Promise<LintDiagnostic[]> {
+  const fixed: LintDiagnostic[] = []
+  const byPath = new Map(files.map((file) => [file.path, file]))
+
+  for (const diagnostic of diagnostics) {
+    const file = byPath.get(diagnostic.path)
+    if (!file || (diagnostic.rule !== 'status-alias' && diagnostic.rule !== 'type-alias')) continue
+
+    const line = file.content.split('\n')[diagnostic.line - 1]
+    const key = line.slice(0, line.indexOf(':')).trim()
+    const value =
+      diagnostic.rule === 'status-alias' ? mapStateToStatus(file.frontmatter[key]) : normalizeType(file.frontmatter[key])
+    file.edits.set(diagnostic.line, `${key}: ${value}`)
+    fixed.push(diagnostic)
+  }
+
+  for (const file of files) {
+    if (file.edits.size === 0) continue
+    const lines = file.content.split('\n').map((line, index) => file.edits.get(index + 1) ?? line)
+    await fs.writeFile(file.path, lines.join('\n'), 'utf-8')
+  }
+
+  for (const [diagnostic, { from, to }] of renames) {
+    try {
+      await fs.access(to)
+      continue // Don't overwrite another file
+    } catch {
+      // Target is free
+    }
+    await fs.mkdir(dirname(to), { recursive: true })
+    await fs.rename(from, to)
+    fixed.push(diagnostic)
+  }
+
+  return fixed
+}
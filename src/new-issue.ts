@@ -0,0 +1,178 @@
+/**
+ * Create new issues: allocate an ID, write the .todo file, and create the beads issue
+ *
+ * IDs follow the beads convention (`<prefix>-<random hex>`, with the prefix from
+ * .beads/config.yaml or the existing issues), so they can't collide with issues
+ * created by bd or by another checkout.
+ */
+
+import { spawn } from 'node:child_process'
+import { dirname, resolve } from 'node:path'
+import { findBeadsDir } from 'beads-workflows'
+import { issuePrefix, newIssueId } from './beads-jsonl.js'
+import { writeTodoFiles } from './generator.js'
+import { createBeadsStore, createTodoStore } from './stores.js'
+import { loadSyncState, saveSyncState } from './sync-state.js'
+import type { TodoConfig, TodoIssue } from './types.js'
+
+/** Issue types accepted by newIssue */
+export const ISSUE_TYPES: TodoIssue['type'][] = ['task', 'bug', 'feature', 'epic']
+
+/**
+ * Options for newIssue
+ */
+export interface NewIssueOptions extends TodoConfig {
+  /** Issue title */
+  title: string
+  /** Issue ID (default: allocated with the beads prefix) */
+  id?: string
+  /** Issue type (default: 'task') */
+  type?: TodoIssue['type']
+  /** Priority 0-4 (default: 2) */
+  priority?: TodoIssue['priority']
+  description?: string
+  assignee?: string
+  labels?: string[]
+  /** IDs of issues this one depends on; they must exist */
+  dependsOn?: string[]
+  /** Parent issue ID; it must exist */
+  parent?: string
+  /** Filename pattern (default: `filePattern`, else the issue template's $pattern) */
+  pattern?: string
+  /**
+   * Editor command to open the new file in (e.g. $EDITOR) before the beads issue
+   * is created; the issue is re-read from the file once the editor exits
+   */
+  editor?: string
+}
+
+/**
+ * Result of newIssue
+ */
+export interface NewIssueResult {
+  /** The issue as created */
+  issue: TodoIssue
+  /** Path of the .todo file written */
+  path: string
+  /** Whether the issue was created in beads */
+  beads: boolean
+}
+
+/**
+ * Open a file in an editor and wait for it to exit
+ * The editor is run through the shell, so commands like `code --wait` work.
+ */
+function openInEditor(editor: string, path: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const child = spawn('sh', ['-c', `${editor} "$1"`, 'sh', path], { stdio: 'inherit' })
+    child.on('error', reject)
+    child.on('exit', (code) => {
+      if (code === 0) {
+        resolve()
+      } else {
+        reject(new Error(`Editor exited with code ${code}`))
+      }
+    })
+  })
+}
+
+/**
+ * Create an issue from the terminal or code
+ *
+ * Writes the .todo file through the issue template and filename pattern, optionally
+ * opens it in an editor, then creates the issue in beads (or `stores.beads`) when
+ * beads is enabled and a .beads directory exists.
+ *
+ * @param options - Issue fields and config
+ * @returns The created issue, its file, and whether beads has it
+ * @throws If the title, type, priority or ID is invalid, or a dependency doesn't exist
+ *
+ * @example
+ * ```ts
+ * const { issue, path } = await newIssue({ title: 'Fix login', type: 'bug', priority: 1 })
+ * ```
+ */
+export async function newIssue(options: NewIssueOptions): Promise<NewIssueResult> {
+  const {
+    todoDir = '.todo',
+    templateDir = '.mdx',
+    type = 'task',
+    priority = 2,
+    dependsOn = [],
+  } = options
+
+  const title = options.title.trim()
+  if (!title) {
+    throw new Error('Title cannot be empty')
+  }
+  if (!ISSUE_TYPES.includes(type)) {
+    throw new Error(`Invalid type: ${type}. Must be one of: ${ISSUE_TYPES.join(', ')}`)
+  }
+  if (!Number.isInteger(priority) || priority < 0 || priority > 4) {
+    throw new Error(`Invalid priority: ${priority}. Must be an integer from 0 to 4`)
+  }
+
+  const beadsDir = options.beads === false ? null : await findBeadsDir(options.beadsDir || process.cwd())
+  const beadsStore = options.stores?.beads ?? (beadsDir ? createBeadsStore(options) : undefined)
+  const fileStore = createTodoStore({ todoDir, templateDir, preset: options.preset, filters: options.filters })
+
+  // Every known issue, so the ID can't collide and dependencies can be checked
+  const existing = [...(await fileStore.list()), ...((await beadsStore?.list()) ?? [])]
+  const ids = new Set(existing.map((issue) => issue.id))
+
+  if (options.id && ids.has(options.id)) {
+    throw new Error(`Issue ${options.id} already exists`)
+  }
+  const missing = [...dependsOn, ...(options.parent ? [options.parent] : [])].filter((id) => !ids.has(id))
+  if (missing.length > 0) {
+    throw new Error(`Unknown issue: ${missing.join(', ')}`)
+  }
+
+  // Without beads or existing issues, the prefix comes from the project the .todo directory is in
+  const prefix = await issuePrefix([...ids], beadsDir ?? undefined, dirname(resolve(todoDir)))
+  const id = options.id ?? newIssueId(prefix, ids)
+  const now = new Date().toISOString()
+  let issue: TodoIssue = {
+    id,
+    title,
+    status: 'open',
+    type,
+    priority,
+    description: options.description,
+    assignee: options.assignee,
+    labels: options.labels?.length ? options.labels : undefined,
+    dependsOn: dependsOn.length > 0 ? dependsOn : undefined,
+    parent: options.parent,
+    createdAt: now,
+    updatedAt: now,
+  }
+
+  const [path] = await writeTodoFiles([issue], todoDir, {
+    pattern: options.pattern ?? options.filePattern,
+    closedSubdir: options.closedSubdir,
+    separateClosed: options.separateClosed,
+    templateDir,
+    preset: options.preset,
+    filters: options.filters,
+  })
+
+  if (options.editor) {
+    await openInEditor(options.editor, path)
+    const edited = await fileStore.get(id)
+    if (!edited) {
+      throw new Error(`${path} no longer describes issue ${id}`)
+    }
+    issue = edited
+  }
+
+  if (beadsStore) {
+    issue = await beadsStore.create(issue)
+
+    // Both sides now hold the issue; record it as synced so the next sync has a merge base
+    const state = await loadSyncState(todoDir)
+    const { source: _source, custom: _custom, ...synced } = issue
+    await saveSyncState(todoDir, { ...state.issues, [id]: synced })
+  }
+
+  return { issue, path, beads: Boolean(beadsStore) }
+}
@@ -1,16 +1,66 @@
 /**
  * Parser for .todo/*.md files
- * Uses @mdxld/markdown for robust frontmatter extraction
+ * Parses frontmatter as YAML (falling back to @mdxld/markdown's lenient
+ * key/value extraction for malformed YAML), and uses the issue template
+ * (when given) to extract edits made to the rendered body
  */
 
 import { readdir, readFile } from 'fs/promises'
 import { join } from 'path'
 import { Markdown } from '@mdxld/markdown'
-import type { ParsedTodoFile, TodoIssue } from './types.js'
+import { parse as parseYaml } from 'yaml'
+import { extractFromMarkdown, parseTemplateFrontmatter, resolveIssueTemplate } from './templates.js'
+import type { TemplateConfig } from './templates.js'
+import { createIssueExtractors, issueFieldsFromComponents } from './components/issues.js'
+import type { ParsedTodoFile, TemplateExtraction, TemplateFilters, TodoIssue } from './types.js'
+
+/** Default minimum extraction confidence for trusting a templated body */
+export const DEFAULT_MIN_CONFIDENCE = 0.75
+
+/**
+ * Options for parsing a single .todo/*.md file
+ */
+export interface ParseOptions {
+  /** Issue template the file was rendered from; enables body extraction */
+  template?: string
+  /** Minimum extraction confidence to apply extracted fields (default: 0.75) */
+  minConfidence?: number
+  /** Custom slot filters the template uses; their `parse` reverses them */
+  filters?: TemplateFilters
+}
+
+/**
+ * Options for loading a .todo directory
+ */
+export interface LoadOptions extends ParseOptions, TemplateConfig {}
+
+/**
+ * Frontmatter keys mapped onto TodoIssue fields; all other keys are custom fields
+ */
+const KNOWN_FRONTMATTER_KEYS = new Set([
+  'id',
+  'title',
+  'state',
+  'status',
+  'type',
+  'priority',
+  'assignee',
+  'labels',
+  'createdAt',
+  'updatedAt',
+  'closedAt',
+  'closeReason',
+  'dependsOn',
+  'blocks',
+  'parent',
+  'children',
+  'source',
+])
 
 /**
  * Parse a value from YAML-like string format
  * Handles: strings, numbers, booleans, arrays, null
+ * Only used as a fallback when the frontmatter is not valid YAML
  */
 function parseYamlValue(value: string): unknown {
   const trimmed = value.trim()
@@ -59,8 +109,9 @@ function parseYamlValue(value: string): unknown {
 
 /**
  * Map frontmatter state to TodoIssue status
+ * Aliases like `done` are mapped; anything unrecognised becomes 'open'
  */
-function mapStateToStatus(state: unknown): 'open' | 'in_progress' | 'closed' {
+export function mapStateToStatus(state: unknown): 'open' | 'in_progress' | 'closed' {
   if (typeof state !== 'string') return 'open'
 
   const normalized = state.toLowerCase()
@@ -75,8 +126,9 @@ function mapStateToStatus(state: unknown): 'open' | 'in_progress' | 'closed' {
 
 /**
  * Normalize issue type
+ * Matching is case-insensitive; anything unrecognised becomes 'task'
  */
-function normalizeType(type: unknown): 'task' | 'bug' | 'feature' | 'epic' {
+export function normalizeType(type: unknown): 'task' | 'bug' | 'feature' | 'epic' {
   if (typeof type !== 'string') return 'task'
 
   const normalized = type.toLowerCase()
@@ -90,7 +142,7 @@ function normalizeType(type: unknown): 'task' | 'bug' | 'feature' | 'epic' {
  * Normalize priority (0-4)
  * Clamps values to the valid range and floors non-integers
  */
-function normalizePriority(priority: unknown): 0 | 1 | 2 | 3 | 4 {
+export function normalizePriority(priority: unknown): 0 | 1 | 2 | 3 | 4 {
   if (typeof priority === 'number' && !Number.isNaN(priority)) {
     // Floor non-integers and clamp to 0-4 range
     const clamped = Math.max(0, Math.min(4, Math.floor(priority)))
@@ -121,13 +173,107 @@ function validateId(id: unknown): string {
 }
 
 /**
- * Parse a single .todo/*.md file
- * Uses Markdown.extractMeta() from @mdxld/markdown for robust frontmatter parsing
- * @param content - The file content to parse
- * @returns ParsedTodoFile with frontmatter, content, and extracted issue
+ * Split a comma-separated slot value into a list
+ */
+function parseList(value: string): string[] {
+  return value
+    .split(',')
+    .map(item => item.trim())
+    .filter(Boolean)
+}
+
+/**
+ * Convert extracted {issue.*} slot values to typed issue fields
+ * Unknown fields (e.g. {issue.project}) are ignored; lists read back from
+ * {#each} loops are kept as lists
+ */
+function issueFieldsFromSlots(values: Record<string, unknown>): Partial<TodoIssue> {
+  const fields: Partial<TodoIssue> = {}
+
+  for (const [key, raw] of Object.entries(values)) {
+    if (Array.isArray(raw) && ['labels', 'dependsOn', 'blocks', 'children'].includes(key)) {
+      fields[key as 'labels'] = raw.map((item) => String(item).trim()).filter(Boolean)
+      continue
+    }
+    if (typeof raw !== 'string') continue
+    const value = raw.trim()
+
+    // An empty slot clears an optional field; required fields keep their frontmatter value
+    switch (key) {
+      case 'title':
+        if (value) fields.title = value
+        break
+      case 'description':
+      case 'assignee':
+      case 'parent':
+      case 'createdAt':
+      case 'updatedAt':
+      case 'closedAt':
+      case 'closeReason':
+        fields[key] = value || undefined
+        break
+      case 'status':
+        if (value) fields.status = mapStateToStatus(value)
+        break
+      case 'type':
+        if (value) fields.type = normalizeType(value)
+        break
+      case 'priority':
+        if (value) fields.priority = normalizePriority(Number(value))
+        break
+      case 'labels':
+      case 'dependsOn':
+      case 'blocks':
+      case 'children':
+        fields[key] = parseList(value)
+        break
+    }
+  }
+
+  return fields
+}
+
+/**
+ * Extract issue fields from a templated body
+ */
+function extractIssueFromBody(
+  body: string,
+  template: string,
+  minConfidence: number,
+  stored: TodoIssue,
+  filters?: TemplateFilters
+): { fields: Partial<TodoIssue>; extraction: TemplateExtraction } {
+  const templateBody = parseTemplateFrontmatter(template).body.trim()
+  const result = extractFromMarkdown<{ issue?: Record<string, unknown> }>(
+    templateBody,
+    body,
+    createIssueExtractors(),
+    filters
+  )
+
+  const applied = result.confidence >= minConfidence
+  const fields = applied
+    ? {
+        ...issueFieldsFromSlots(result.data.issue || {}),
+        ...issueFieldsFromComponents(result.components, stored),
+      }
+    : {}
+
+  return {
+    fields,
+    extraction: {
+      confidence: result.confidence,
+      unmatched: result.unmatched,
+      applied,
+    },
+  }
+}
+
+/**
+ * Lenient frontmatter parser for malformed YAML
+ * Uses Markdown.extractMeta() from @mdxld/markdown to read key/value lines
  */
-export function parseTodoFile(content: string): ParsedTodoFile {
-  // Use Markdown.extractMeta() to extract frontmatter as strings
+function parseLenientFrontmatter(content: string): Record<string, unknown> {
   const extractMeta = Markdown.extractMeta
   if (!extractMeta) {
     throw new Error('Markdown.extractMeta is not available - check @mdxld/markdown version')
@@ -140,9 +286,79 @@ export function parseTodoFile(content: string): ParsedTodoFile {
     frontmatter[key] = parseYamlValue(String(value))
   }
 
-  // Extract body content (everything after frontmatter)
-  const frontmatterMatch = content.match(/^---\s*\n[\s\S]*?\n---\s*\n/m)
+  return frontmatter
+}
+
+/**
+ * Parse the frontmatter block as YAML
+ * Supports block lists, multi-line strings, nested maps and comments.
+ * Falls back to the lenient line-based parser if the block isn't valid YAML.
+ */
+function parseFrontmatter(content: string, yamlText: string | undefined): Record<string, unknown> {
+  if (yamlText !== undefined) {
+    try {
+      const parsed = parseYaml(yamlText)
+      if (parsed === null || parsed === undefined) {
+        return {}
+      }
+      if (typeof parsed === 'object' && !Array.isArray(parsed)) {
+        return parsed as Record<string, unknown>
+      }
+    } catch {
+      // Malformed YAML - fall through to the lenient parser
+    }
+  }
+
+  return parseLenientFrontmatter(content)
+}
+
+/**
+ * Collect frontmatter keys that don't map onto TodoIssue fields
+ */
+function extractCustomFields(frontmatter: Record<string, unknown>): Record<string, unknown> | undefined {
+  const custom: Record<string, unknown> = {}
+
+  for (const [key, value] of Object.entries(frontmatter)) {
+    if (!KNOWN_FRONTMATTER_KEYS.has(key)) {
+      custom[key] = value
+    }
+  }
+
+  return Object.keys(custom).length > 0 ? custom : undefined
+}
+
+/**
+ * Check whether file content still contains git-style conflict markers
+ */
+export function hasConflictMarkers(content: string): boolean {
+  return /^<{7} /m.test(content) && /^>{7} /m.test(content)
+}
+
+/**
+ * Parse a single .todo/*.md file
+ * Frontmatter is parsed as YAML; keys that aren't issue fields are kept in `issue.custom`
+ *
+ * When the issue template is given, fields rendered into the body (title,
+ * description, `<Issue.Labels />`, ...) are extracted back out and take
+ * precedence over the frontmatter, so the body can be edited directly.
+ * If extraction confidence is below `minConfidence` (a hand-written body, or
+ * one edited past recognition), the plain frontmatter parse is used and the
+ * whole body becomes the description, as it does without a template.
+ *
+ * @param content - The file content to parse
+ * @param options - Parse options (issue template, confidence threshold)
+ * @returns ParsedTodoFile with frontmatter, content, extracted issue and extraction report
+ */
+export function parseTodoFile(content: string, options: ParseOptions = {}): ParsedTodoFile {
+  // Refuse files with unresolved conflict markers (written by conflictStrategy: 'markers' or git)
+  if (hasConflictMarkers(content)) {
+    throw new Error('Unresolved conflict markers - resolve the <<<<<<< / >>>>>>> blocks before syncing')
+  }
+
+  // Split frontmatter from body content (everything after frontmatter)
+  const frontmatterMatch = content.match(/^---\s*\n([\s\S]*?)\n---\s*\n/m)
   const body = frontmatterMatch ? content.slice(frontmatterMatch[0].length).trim() : content.trim()
+  const frontmatter = parseFrontmatter(content, frontmatterMatch?.[1])
 
   // Validate and extract ID
   const id = validateId(frontmatter.id)
@@ -160,28 +376,65 @@ export function parseTodoFile(content: string): ParsedTodoFile {
     createdAt: frontmatter.createdAt as string | undefined,
     updatedAt: frontmatter.updatedAt as string | undefined,
     closedAt: frontmatter.closedAt as string | undefined,
+    closeReason: frontmatter.closeReason as string | undefined,
     dependsOn: Array.isArray(frontmatter.dependsOn) ? frontmatter.dependsOn as string[] : undefined,
     blocks: Array.isArray(frontmatter.blocks) ? frontmatter.blocks as string[] : undefined,
     parent: frontmatter.parent as string | undefined,
     children: Array.isArray(frontmatter.children) ? frontmatter.children as string[] : undefined,
     source: (frontmatter.source as 'beads' | 'file') || 'file',
+    custom: extractCustomFields(frontmatter),
+  }
+
+  if (!issue.custom) {
+    delete issue.custom
+  }
+
+  if (!options.template) {
+    return {
+      frontmatter,
+      content: body,
+      issue,
+    }
+  }
+
+  const { fields, extraction } = extractIssueFromBody(
+    body,
+    options.template,
+    options.minConfidence ?? DEFAULT_MIN_CONFIDENCE,
+    issue,
+    options.filters
+  )
+
+  if (extraction.applied) {
+    // The description only exists in the body, so never fall back to the raw body here
+    Object.assign(issue, fields, { description: fields.description || undefined })
   }
 
   return {
     frontmatter,
     content: body,
     issue,
+    extraction,
   }
 }
 
 /**
- * Load all .todo/*.md files from a directory (including subdirectories)
- * @param todoDir - Path to the .todo directory
- * @returns Array of TodoIssue objects
+ * A .todo/*.md file with unresolved conflict markers
  */
-export async function loadTodoFiles(todoDir: string): Promise<TodoIssue[]> {
-  const issues: TodoIssue[] = []
+export interface ConflictedFile {
+  /** Issue ID from the frontmatter, if readable */
+  id?: string
+  /** Path of the file */
+  path: string
+}
 
+/**
+ * Visit every .md file in a directory (including subdirectories)
+ */
+export async function scanTodoFiles(
+  todoDir: string,
+  visit: (path: string, content: string) => void
+): Promise<void> {
   async function scanDirectory(dir: string): Promise<void> {
     try {
       const entries = await readdir(dir, { withFileTypes: true })
@@ -193,14 +446,7 @@ export async function loadTodoFiles(todoDir: string): Promise<TodoIssue[]> {
           // Recursively scan subdirectories
           await scanDirectory(fullPath)
         } else if (entry.isFile() && entry.name.endsWith('.md')) {
-          try {
-            const content = await readFile(fullPath, 'utf-8')
-            const parsed = parseTodoFile(content)
-            issues.push(parsed.issue)
-          } catch (err) {
-            // Skip files that can't be parsed, but log error
-            console.warn(`Failed to parse ${fullPath}:`, err)
-          }
+          visit(fullPath, await readFile(fullPath, 'utf-8'))
         }
       }
     } catch (err) {
@@ -212,5 +458,76 @@ export async function loadTodoFiles(todoDir: string): Promise<TodoIssue[]> {
   }
 
   await scanDirectory(todoDir)
+}
+
+/**
+ * Load all .todo/*.md files from a directory (including subdirectories)
+ * Files that can't be parsed (including files with conflict markers) are skipped with a warning.
+ * @param todoDir - Path to the .todo directory
+ * @param options - Template options; when a template, templateDir or preset is
+ *   given, files are parsed with the resolved issue template
+ * @returns Array of TodoIssue objects
+ */
+export async function loadTodoFiles(todoDir: string, options: LoadOptions = {}): Promise<TodoIssue[]> {
+  const issues: TodoIssue[] = []
+  const template = await resolveIssueTemplate(options)
+  const parseOptions: ParseOptions = { template, minConfidence: options.minConfidence, filters: options.filters }
+
+  await scanTodoFiles(todoDir, (path, content) => {
+    try {
+      const parsed = parseTodoFile(content, parseOptions)
+      issues.push(parsed.issue)
+    } catch (err) {
+      // Skip files that can't be parsed, but log error
+      console.warn(`Failed to parse ${path}:`, err)
+    }
+  })
+
   return issues
 }
+
+/**
+ * Read the issue ID from a file's `id:` line without parsing the whole file
+ * Works on files that can't be parsed, e.g. with conflict markers outside the id line
+ */
+function readFileId(content: string): string | undefined {
+  return content.match(/^id:\s*["']?([^"'\n]+?)["']?\s*$/m)?.[1]
+}
+
+/**
+ * Find .todo/*.md files that still contain conflict markers
+ * sync() skips these issues until the markers are resolved.
+ * @param todoDir - Path to the .todo directory
+ * @returns Conflicted files, with the issue ID when the id line is outside the markers
+ */
+export async function findConflictedFiles(todoDir: string): Promise<ConflictedFile[]> {
+  const conflicted: ConflictedFile[] = []
+
+  await scanTodoFiles(todoDir, (path, content) => {
+    if (hasConflictMarkers(content)) {
+      conflicted.push({ id: readFileId(content), path })
+    }
+  })
+
+  return conflicted
+}
+
+/**
+ * Map issue IDs to the .todo/*.md files that hold them
+ * Used to find an issue's current file when its computed filename changes.
+ * If an ID appears in several files, the first one found wins.
+ * @param todoDir - Path to the .todo directory
+ * @returns File path by issue ID
+ */
+export async function indexTodoFiles(todoDir: string): Promise<Map<string, string>> {
+  const index = new Map<string, string>()
+
+  await scanTodoFiles(todoDir, (path, content) => {
+    const id = readFileId(content)
+    if (id && !index.has(id)) {
+      index.set(id, path)
+    }
+  })
+
+  return index
+}
@@ -86,7 +86,9 @@ $pattern: "[id]-[title].md"
 - **Status:** \`{issue.status}\`
 - **Priority:** \`{issue.priority}\`
 - **Type:** \`{issue.type}\`
+{#if issue.assignee}
 - **Assignee:** @{issue.assignee}
+{/if}
 
 ## Related Issues
 
@@ -0,0 +1,298 @@
+/**
+ * Issue queries: filtering, sorting, ready/blocked work and dependency trees
+ *
+ * These work on any issue list, typically the merged set from loadIssues(), which
+ * is what compile() renders and what the list/show/ready/blocked commands query.
+ * Ready and blocked issues come from the set's dependency graph; build one with
+ * createDependencyGraph() to run several queries on the same set.
+ *
+ * @example
+ * ```ts
+ * import { loadIssues, readyIssues, sortIssues } from 'todo.mdx'
+ *
+ * const issues = await loadIssues()
+ * for (const issue of sortIssues(readyIssues(issues))) {
+ *   console.log(issue.id, issue.title)
+ * }
+ * ```
+ */
+
+import { createDependencyGraph } from './dependency-graph.js'
+import type { BlockedIssue } from './dependency-graph.js'
+import type { TodoIssue } from './types.js'
+
+export type { BlockedIssue }
+
+/**
+ * Issue filter
+ * Each field matches issues with any of its values, except `label`, which needs all
+ * of them. Unset fields match every issue.
+ */
+export interface IssueFilter {
+  status?: TodoIssue['status'][]
+  type?: TodoIssue['type'][]
+  assignee?: string[]
+  label?: string[]
+  priority?: TodoIssue['priority'][]
+  /** Parent issue IDs */
+  parent?: string[]
+}
+
+/** Keys issues can be sorted by */
+export const ISSUE_SORT_KEYS = ['priority', 'id', 'title', 'status', 'type', 'created', 'updated'] as const
+
+export type IssueSortKey = (typeof ISSUE_SORT_KEYS)[number]
+
+/**
+ * A node of a resolved dependency tree
+ */
+export interface DependencyTreeNode {
+  id: string
+  /** The issue, or undefined if the ID isn't in the issue set */
+  issue?: TodoIssue
+  /** Dependencies of this issue (empty for a repeated node, see `cycle`) */
+  dependsOn: DependencyTreeNode[]
+  /** True if this issue already appears above it in the tree */
+  cycle?: boolean
+}
+
+/** Order of statuses when sorting by status */
+const STATUS_ORDER: TodoIssue['status'][] = ['in_progress', 'open', 'blocked', 'closed']
+
+/**
+ * Filter issues
+ *
+ * @param issues - Issues to filter
+ * @param filter - Values to match
+ * @returns Matching issues, in their original order
+ */
+export function filterIssues(issues: TodoIssue[], filter: IssueFilter): TodoIssue[] {
+  const matches = <T>(values: T[] | undefined, value: T) => !values?.length || values.includes(value)
+
+  return issues.filter(
+    (issue) =>
+      matches(filter.status, issue.status) &&
+      matches(filter.type, issue.type) &&
+      matches(filter.priority, issue.priority) &&
+      (!filter.assignee?.length || (issue.assignee !== undefined && filter.assignee.includes(issue.assignee))) &&
+      (!filter.parent?.length || (issue.parent !== undefined && filter.parent.includes(issue.parent))) &&
+      (filter.label ?? []).every((label) => issue.labels?.includes(label))
+  )
+}
+
+/** Comparison operators of a where expression */
+const WHERE_OPERATORS = ['==', '!=', '<=', '>=', '<', '>'] as const
+
+/** Word forms of the comparison operators, for use inside template tags where `>` ends the tag */
+const WHERE_OPERATOR_WORDS: Record<string, (typeof WHERE_OPERATORS)[number]> = {
+  eq: '==',
+  ne: '!=',
+  lt: '<',
+  lte: '<=',
+  gt: '>',
+  gte: '>=',
+}
+
+/**
+ * Tokens of a where expression: quoted strings, operators and words
+ */
+const WHERE_TOKEN = /\s*('(?:[^'\\]|\\.)*'|"(?:[^"\\]|\\.)*"|&&|\|\||==|!=|<=|>=|<|>|!|[^\s!<>=&|'"]+)/y
+
+/**
+ * Compile a where expression into an issue predicate
+ *
+ * An expression is a list of comparisons joined by `&&`/`and` and `||`/`or` (`&&`
+ * binds tighter; there are no parentheses). A comparison is `field op value` with
+ * `==`, `!=`, `<`, `<=`, `>` or `>=` (or `eq`, `ne`, `lt`, `lte`, `gt`, `gte`), or a
+ * bare field (`!field`) testing that it's set. Values are quoted strings, numbers or
+ * bare words; on list fields like `labels`, `==` and `!=` test membership.
+ *
+ * @param expression - e.g. `type == bug && priority <= 1 || labels == urgent`
+ * @returns Predicate matching issues
+ * @throws If the expression can't be parsed
+ *
+ * @example
+ * ```ts
+ * issues.filter(parseWhere("assignee == alice && status != 'closed'"))
+ * ```
+ */
+export function parseWhere(expression: string): (issue: TodoIssue) => boolean {
+  const tokens: string[] = []
+  let end = 0
+  WHERE_TOKEN.lastIndex = 0
+  for (let match = WHERE_TOKEN.exec(expression); match; match = WHERE_TOKEN.exec(expression)) {
+    tokens.push(match[1])
+    end = WHERE_TOKEN.lastIndex
+  }
+  if (expression.slice(end).trim() || tokens.length === 0) {
+    throw new Error(`Invalid where expression: ${expression}`)
+  }
+
+  const unquote = (token: string) =>
+    /^['"]/.test(token) ? token.slice(1, -1).replace(/\\(.)/g, '$1') : token
+  const compare = (value: unknown, operator: string, expected: string): boolean => {
+    if (Array.isArray(value)) {
+      const found = value.map(String).includes(expected)
+      if (operator === '==') return found
+      if (operator === '!=') return !found
+      throw new Error(`Invalid where expression: ${operator} can't compare a list`)
+    }
+    const numeric = typeof value === 'number' && expected !== '' && !Number.isNaN(Number(expected))
+    const [a, b] = numeric ? [value as number, Number(expected)] : [String(value ?? ''), expected]
+    switch (operator) {
+      case '==':
+        return a === b
+      case '!=':
+        return a !== b
+      case '<':
+        return a < b
+      case '<=':
+        return a <= b
+      case '>':
+        return a > b
+      default:
+        return a >= b
+    }
+  }
+
+  // Each comparison is compiled into a predicate; || separates groups of && comparisons
+  const groups: Array<Array<(issue: TodoIssue) => boolean>> = [[]]
+  let index = 0
+  while (index < tokens.length) {
+    const negate = tokens[index] === '!'
+    if (negate) index++
+    const field = tokens[index++]
+    if (!field || !/^[A-Za-z]\w*$/.test(field)) {
+      throw new Error(`Invalid where expression: expected a field name in ${expression}`)
+    }
+
+    const operator = WHERE_OPERATOR_WORDS[tokens[index]] ?? tokens[index]
+    const read = (issue: TodoIssue) => (issue as unknown as Record<string, unknown>)[field]
+    if ((WHERE_OPERATORS as readonly string[]).includes(operator)) {
+      const value = tokens[index + 1]
+      if (value === undefined || /^(&&|\|\||and|or)$/.test(value)) {
+        throw new Error(`Invalid where expression: expected a value after ${operator} in ${expression}`)
+      }
+      const expected = unquote(value)
+      const test = (issue: TodoIssue) => compare(read(issue), operator, expected)
+      groups[groups.length - 1].push(negate ? (issue) => !test(issue) : test)
+      index += 2
+    } else {
+      const isSet = (issue: TodoIssue) => {
+        const value = read(issue)
+        return Array.isArray(value) ? value.length > 0 : value !== undefined && value !== null && value !== ''
+      }
+      groups[groups.length - 1].push(negate ? (issue) => !isSet(issue) : isSet)
+    }
+
+    const joiner = tokens[index]
+    if (joiner === undefined) break
+    if (joiner === '||' || joiner === 'or') {
+      groups.push([])
+    } else if (joiner !== '&&' && joiner !== 'and') {
+      throw new Error(`Invalid where expression: unexpected ${joiner} in ${expression}`)
+    }
+    index++
+    if (index === tokens.length) {
+      throw new Error(`Invalid where expression: ${expression} ends with ${joiner}`)
+    }
+  }
+
+  return (issue) => groups.some((group) => group.every((test) => test(issue)))
+}
+
+/**
+ * Sort issues, breaking ties by ID
+ *
+ * @param issues - Issues to sort (not modified)
+ * @param key - Sort key (default: 'priority', most urgent first)
+ * @param reverse - Reverse the order
+ * @returns Sorted copy
+ */
+export function sortIssues(issues: TodoIssue[], key: IssueSortKey = 'priority', reverse = false): TodoIssue[] {
+  const value = (issue: TodoIssue): string | number => {
+    switch (key) {
+      case 'priority':
+        return issue.priority
+      case 'title':
+        return issue.title.toLowerCase()
+      case 'status':
+        return STATUS_ORDER.indexOf(issue.status)
+      case 'type':
+        return issue.type
+      case 'created':
+        return issue.createdAt ?? ''
+      case 'updated':
+        return issue.updatedAt ?? ''
+      default:
+        return issue.id
+    }
+  }
+
+  const sorted = [...issues].sort((a, b) => {
+    const [valueA, valueB] = [value(a), value(b)]
+    if (valueA !== valueB) return valueA < valueB ? -1 : 1
+    return a.id.localeCompare(b.id, undefined, { numeric: true })
+  })
+  return reverse ? sorted.reverse() : sorted
+}
+
+/**
+ * IDs of the unclosed issues blocking an issue
+ * An issue is blocked by the issues in its `dependsOn` and the issues listing it in
+ * `blocks`. IDs not in the issue set are ignored (see createDependencyGraph()).
+ *
+ * @param issue - The issue
+ * @param issues - The issue set to resolve IDs in
+ * @returns Blocking issue IDs
+ */
+export function blockersOf(issue: TodoIssue, issues: TodoIssue[]): string[] {
+  return createDependencyGraph(issues.includes(issue) ? issues : [...issues, issue]).blockersOf(issue.id)
+}
+
+/**
+ * Open issues with nothing blocking them
+ *
+ * @param issues - The issue set
+ * @returns Ready issues, in their original order
+ */
+export function readyIssues(issues: TodoIssue[]): TodoIssue[] {
+  return createDependencyGraph(issues).ready()
+}
+
+/**
+ * Unclosed issues that are blocked: by unclosed dependencies, or marked blocked
+ *
+ * @param issues - The issue set
+ * @returns Blocked issues with their blockers, in their original order
+ */
+export function blockedIssues(issues: TodoIssue[]): BlockedIssue[] {
+  return createDependencyGraph(issues).blocked()
+}
+
+/**
+ * Resolve an issue's dependencies, recursively
+ *
+ * @param id - Issue ID
+ * @param issues - The issue set
+ * @returns The dependency tree rooted at the issue (cycles are cut and flagged)
+ */
+export function dependencyTree(id: string, issues: TodoIssue[]): DependencyTreeNode {
+  const byId = new Map(issues.map((issue) => [issue.id, issue]))
+
+  const resolveNode = (nodeId: string, ancestors: Set<string>): DependencyTreeNode => {
+    const issue = byId.get(nodeId)
+    if (ancestors.has(nodeId)) {
+      return { id: nodeId, issue, dependsOn: [], cycle: true }
+    }
+
+    const path = new Set(ancestors).add(nodeId)
+    return {
+      id: nodeId,
+      issue,
+      dependsOn: (issue?.dependsOn ?? []).map((depId) => resolveNode(depId, path)),
+    }
+  }
+
+  return resolveNode(id, new Set())
+}
@@ -0,0 +1,392 @@
+/**
+ * Issue stores: beads, the .todo directory, and memory
+ *
+ * Each store implements IssueStore, so sync() can reconcile any two of them and
+ * compile() and watch() can read from any of them.
+ *
+ * @example
+ * ```ts
+ * import { sync, createMemoryStore, createTodoStore } from 'todo.mdx'
+ *
+ * // Sync .todo files with another tracker instead of beads
+ * await sync({ stores: { beads: createMemoryStore(issues) } })
+ * ```
+ */
+
+import chokidar from 'chokidar'
+import { resolve } from 'node:path'
+import { findBeadsDir } from 'beads-workflows'
+import type { UpdateOptions, CommandResult } from 'beads-workflows'
+import { applyExtract } from '@mdxld/markdown'
+import { loadBeadsIssues } from './beads.js'
+import { resolveBeadsBackend } from './beads-backend.js'
+import type { BeadsBackend, CreateIssueOptions } from './beads-backend.js'
+import { loadTodoFiles } from './parser.js'
+import { writeTodoFiles, deleteTodoFile } from './generator.js'
+import type { GeneratorOptions } from './generator.js'
+import { diffDependencies, withoutCloseFields } from './issue-changes.js'
+import type { DependencyEdge } from './issue-changes.js'
+import type { IssueStore, TodoConfig, TodoIssue } from './types.js'
+
+/** chokidar options shared by the store watchers */
+const WATCH_OPTIONS = {
+  persistent: true,
+  ignoreInitial: true,
+  awaitWriteFinish: {
+    stabilityThreshold: 100,
+    pollInterval: 50,
+  },
+}
+
+/**
+ * Options for the beads store
+ */
+export interface BeadsStoreOptions {
+  /** Directory to find .beads from (defaults to cwd) */
+  beadsDir?: string
+  /** How to write to beads (default: 'auto') */
+  beadsBackend?: TodoConfig['beadsBackend']
+}
+
+/**
+ * Options for the .todo directory store
+ */
+export interface TodoStoreOptions extends GeneratorOptions {
+  /** Directory containing .todo/*.md files (default: '.todo') */
+  todoDir?: string
+}
+
+/**
+ * Convert TodoIssue to CreateOptions for beads-workflows
+ */
+function toCreateOptions(issue: TodoIssue): CreateIssueOptions {
+  return {
+    id: issue.id,
+    title: issue.title,
+    type: issue.type,
+    priority: issue.priority,
+    description: issue.description,
+    assignee: issue.assignee,
+    labels: issue.labels,
+  }
+}
+
+/**
+ * Convert TodoIssue to UpdateOptions for beads-workflows, optionally merging with original issue
+ * Cleared fields are sent as '' and [], since beads leaves undefined fields unchanged.
+ */
+function toUpdateOptions(issue: TodoIssue, originalIssue?: TodoIssue): UpdateOptions {
+  let mergedIssue = issue
+
+  // If we have an original issue, use applyExtract to merge changes
+  if (originalIssue) {
+    mergedIssue = applyExtract(originalIssue, issue)
+  }
+
+  return {
+    title: mergedIssue.title,
+    // Map 'blocked' to 'open' since beads doesn't support blocked status
+    status: mergedIssue.status === 'blocked' ? 'open' : mergedIssue.status,
+    priority: mergedIssue.priority,
+    description: mergedIssue.description ?? '',
+    assignee: mergedIssue.assignee ?? '',
+    labels: mergedIssue.labels ?? [],
+  }
+}
+
+/**
+ * Read closed_at from the JSON output of bd close (a single issue or an array)
+ */
+function closedAtFrom(commandResult: CommandResult): string | undefined {
+  const data = Array.isArray(commandResult.data) ? commandResult.data[0] : commandResult.data
+  const closedAt = (data as { closed_at?: unknown } | undefined)?.closed_at
+  return typeof closedAt === 'string' ? closedAt : undefined
+}
+
+/**
+ * Close an issue in beads with its close reason
+ *
+ * @returns The issue stamped with the closedAt reported by beads (or now)
+ * @throws If beads rejects the close
+ */
+async function closeInBeads(
+  issue: TodoIssue,
+  backend: BeadsBackend,
+  beadsDir: string | undefined
+): Promise<TodoIssue> {
+  const closeResult = await backend.closeIssue(issue.id, issue.closeReason, beadsDir)
+  if (!closeResult.success) {
+    throw new Error(`Failed to close issue ${issue.id} in beads: ${closeResult.error}`)
+  }
+
+  return { ...issue, closedAt: closedAtFrom(closeResult) ?? issue.closedAt ?? new Date().toISOString() }
+}
+
+/**
+ * Add or remove a dependency edge in beads
+ *
+ * @returns A message saying why the change failed, or undefined if it was applied
+ */
+async function applyDependencyChange(
+  edge: DependencyEdge,
+  change: 'add' | 'remove',
+  backend: BeadsBackend,
+  beadsDir: string | undefined
+): Promise<string | undefined> {
+  const failure = `Failed to ${change} dependency ${edge.issueId} -> ${edge.dependsOnId}`
+  try {
+    const commandResult =
+      change === 'add'
+        ? await backend.addDependency(edge.issueId, edge.dependsOnId, edge.type, beadsDir)
+        : await backend.removeDependency(edge.issueId, edge.dependsOnId, beadsDir)
+
+    return commandResult.success ? undefined : `${failure}: ${commandResult.error}`
+  } catch (error) {
+    return `${failure}: ${error instanceof Error ? error.message : String(error)}`
+  }
+}
+
+/**
+ * Apply the relationship edges that differ between two versions of an issue
+ * Every edge is tried, even after one fails.
+ *
+ * @throws Listing the edges beads rejected
+ */
+async function syncDependencies(
+  issue: TodoIssue,
+  original: TodoIssue | undefined,
+  backend: BeadsBackend,
+  beadsDir: string | undefined
+): Promise<void> {
+  const { add, remove } = diffDependencies(issue, original)
+  const failures: string[] = []
+
+  for (const edge of remove) {
+    const failure = await applyDependencyChange(edge, 'remove', backend, beadsDir)
+    if (failure) failures.push(failure)
+  }
+  for (const edge of add) {
+    const failure = await applyDependencyChange(edge, 'add', backend, beadsDir)
+    if (failure) failures.push(failure)
+  }
+
+  if (failures.length > 0) {
+    throw new Error(failures.join('; '))
+  }
+}
+
+/**
+ * Create a store backed by beads
+ *
+ * Reads with loadBeadsIssues() and writes through the configured beads backend.
+ * Closing and reopening go through close/reopen, and relationship fields become
+ * dependency edges (both endpoints must exist). A write that beads rejects, edges
+ * and closing included, throws.
+ *
+ * @param options - beads directory and backend
+ * @returns Beads issue store
+ */
+export function createBeadsStore(options: BeadsStoreOptions = {}): IssueStore {
+  const { beadsDir } = options
+  let backend: Promise<BeadsBackend> | undefined
+  const getBackend = () => (backend ??= resolveBeadsBackend(options.beadsBackend))
+
+  const list = () => loadBeadsIssues(beadsDir)
+  const get = async (id: string) => (await list()).find((issue) => issue.id === id)
+
+  return {
+    name: 'beads',
+    list,
+    get,
+
+    async create(issue) {
+      const beads = await getBackend()
+      const createResult = await beads.createIssue(toCreateOptions(issue), beadsDir)
+      if (!createResult.success) {
+        throw new Error(`Failed to create issue ${issue.id} in beads: ${createResult.error}`)
+      }
+
+      // Close it if the issue says it's closed
+      const stored = issue.status === 'closed' ? await closeInBeads(issue, beads, beadsDir) : issue
+      await syncDependencies(issue, undefined, beads, beadsDir)
+      return stored
+    },
+
+    async update(issue, original) {
+      original ??= await get(issue.id)
+      if (!original) {
+        throw new Error(`Issue ${issue.id} not found in beads`)
+      }
+
+      const beads = await getBackend()
+      const wasClosed = original.status === 'closed'
+      const isClosed = issue.status === 'closed'
+      let stored = issue
+
+      // Reopen before updating, since bd reopen resets the status to open
+      if (wasClosed && !isClosed) {
+        const reopenResult = await beads.reopenIssue(issue.id, beadsDir)
+        if (!reopenResult.success) {
+          throw new Error(`Failed to reopen issue ${issue.id} in beads: ${reopenResult.error}`)
+        }
+        stored = withoutCloseFields(issue)
+      }
+
+      // Use applyExtract to merge the changes into the beads issue
+      const updateOptions = toUpdateOptions(issue, original)
+      if (isClosed && !wasClosed) {
+        // Closing goes through bd close below, which records closedAt and the reason
+        delete updateOptions.status
+      }
+
+      const updateResult = await beads.updateIssue(issue.id, updateOptions, beadsDir)
+      if (!updateResult.success) {
+        throw new Error(`Failed to update issue ${issue.id} in beads: ${updateResult.error}`)
+      }
+
+      if (isClosed && !wasClosed) {
+        stored = await closeInBeads(issue, beads, beadsDir)
+      }
+
+      await syncDependencies(issue, original, beads, beadsDir)
+      return stored
+    },
+
+    async delete(id) {
+      if (!(await get(id))) return false
+
+      const deleteResult = await (await getBackend()).deleteIssue(id, beadsDir)
+      if (!deleteResult.success) {
+        throw new Error(`Failed to delete issue ${id} from beads: ${deleteResult.error}`)
+      }
+      return true
+    },
+
+    async watch(onChange) {
+      const foundDir = await findBeadsDir(beadsDir || process.cwd())
+      if (!foundDir) {
+        throw new Error('No .beads directory found. Run "bd init" first.')
+      }
+
+      const watcher = chokidar.watch(resolve(foundDir, 'issues.jsonl'), WATCH_OPTIONS)
+      watcher.on('change', (path: string) => onChange(path))
+      watcher.on('error', (error: unknown) => {
+        console.error('Beads watcher error:', error)
+      })
+
+      await new Promise<void>((ready) => watcher.on('ready', () => ready()))
+      return { close: () => watcher.close() }
+    },
+  }
+}
+
+/**
+ * Create a store backed by the .todo directory
+ *
+ * Reads with loadTodoFiles() and writes with writeTodoFiles(), so files are
+ * rendered through the issue template and renamed when their path changes.
+ *
+ * @param options - todo directory and generator options
+ * @returns .todo file issue store
+ */
+export function createTodoStore(options: TodoStoreOptions = {}): IssueStore {
+  const { todoDir = '.todo', ...generatorOptions } = options
+  const templateDir = generatorOptions.templateDir ?? '.mdx'
+
+  const list = () =>
+    loadTodoFiles(todoDir, { templateDir, preset: generatorOptions.preset, filters: generatorOptions.filters })
+  const get = async (id: string) => (await list()).find((issue) => issue.id === id)
+
+  // Custom frontmatter fields only live in files; keep them when rewriting one
+  const write = async (issue: TodoIssue, original?: TodoIssue) => {
+    const custom = issue.custom ?? original?.custom
+    const stored = custom ? { ...issue, custom } : issue
+    await writeTodoFiles([stored], todoDir, { ...generatorOptions, templateDir })
+    return stored
+  }
+
+  return {
+    name: 'files',
+    list,
+    get,
+    create: (issue) => write(issue),
+    async update(issue, original) {
+      return write(issue, original ?? (await get(issue.id)))
+    },
+    delete: (id) => deleteTodoFile(id, todoDir),
+
+    async watch(onChange) {
+      const watcher = chokidar.watch(resolve(todoDir, '*.md'), WATCH_OPTIONS)
+      watcher.on('add', (path: string) => onChange(path))
+      watcher.on('change', (path: string) => onChange(path))
+      watcher.on('unlink', (path: string) => onChange(path))
+      watcher.on('error', (error: unknown) => {
+        console.error('Todo watcher error:', error)
+      })
+
+      await new Promise<void>((ready) => watcher.on('ready', () => ready()))
+      return { close: () => watcher.close() }
+    },
+  }
+}
+
+/**
+ * Create an in-memory store, e.g. for tests or as a staging area
+ *
+ * Issues are copied in and out, so callers can't change stored issues by accident.
+ *
+ * @param issues - Initial issues
+ * @param name - Store name (default: 'memory')
+ * @returns In-memory issue store
+ */
+export function createMemoryStore(issues: TodoIssue[] = [], name = 'memory'): IssueStore {
+  const stored = new Map(issues.map((issue) => [issue.id, structuredClone(issue)]))
+  const listeners = new Set<(path?: string) => void>()
+  const changed = () => listeners.forEach((listener) => listener())
+
+  return {
+    name,
+
+    async list() {
+      return [...stored.values()].map((issue) => structuredClone(issue))
+    },
+
+    async get(id) {
+      const issue = stored.get(id)
+      return issue && structuredClone(issue)
+    },
+
+    async create(issue) {
+      if (stored.has(issue.id)) {
+        throw new Error(`Issue ${issue.id} already exists in ${name}`)
+      }
+      stored.set(issue.id, structuredClone(issue))
+      changed()
+      return structuredClone(issue)
+    },
+
+    async update(issue) {
+      if (!stored.has(issue.id)) {
+        throw new Error(`Issue ${issue.id} not found in ${name}`)
+      }
+      stored.set(issue.id, structuredClone(issue))
+      changed()
+      return structuredClone(issue)
+    },
+
+    async delete(id) {
+      const existed = stored.delete(id)
+      if (existed) changed()
+      return existed
+    },
+
+    async watch(onChange) {
+      listeners.add(onChange)
+      return {
+        close: async () => {
+          listeners.delete(onChange)
+        },
+      }
+    },
+  }
+}
@@ -0,0 +1,94 @@
+/**
+ * Persisted sync state for three-way merges
+ *
+ * After every sync, the last-synced version of each issue is written to
+ * `.todo/.sync-state.json`. The next sync uses it as the common base, so it
+ * can tell which side changed a field instead of guessing from timestamps.
+ */
+
+import { promises as fs } from 'node:fs'
+import { join, dirname } from 'node:path'
+import type { TodoIssue } from './types.js'
+
+/** Sync state filename, relative to the todo directory */
+export const SYNC_STATE_FILE = '.sync-state.json'
+
+/** Current sync state format version */
+const SYNC_STATE_VERSION = 1
+
+/**
+ * Last-synced state of every issue
+ */
+export interface SyncState {
+  /** Format version */
+  version: number
+  /** When the state was last written (ISO string) */
+  syncedAt?: string
+  /** Last-synced issue by ID */
+  issues: Record<string, TodoIssue>
+}
+
+/**
+ * Create an empty sync state (used before the first sync)
+ */
+export function emptySyncState(): SyncState {
+  return { version: SYNC_STATE_VERSION, issues: {} }
+}
+
+/**
+ * Load the sync state from a todo directory
+ *
+ * @param todoDir - Directory containing .todo/*.md files
+ * @returns The persisted state, or an empty state if missing or unreadable
+ */
+export async function loadSyncState(todoDir: string): Promise<SyncState> {
+  const statePath = join(todoDir, SYNC_STATE_FILE)
+
+  let content: string
+  try {
+    content = await fs.readFile(statePath, 'utf-8')
+  } catch {
+    // No state yet - first sync
+    return emptySyncState()
+  }
+
+  try {
+    const parsed = JSON.parse(content) as Partial<SyncState>
+    if (!parsed || typeof parsed.issues !== 'object' || parsed.issues === null) {
+      throw new Error('missing issues map')
+    }
+    return {
+      version: parsed.version ?? SYNC_STATE_VERSION,
+      syncedAt: parsed.syncedAt,
+      issues: parsed.issues,
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    console.warn(`Ignoring invalid sync state at ${statePath}: ${message}`)
+    return emptySyncState()
+  }
+}
+
+/**
+ * Write the sync state to a todo directory
+ *
+ * @param todoDir - Directory containing .todo/*.md files
+ * @param issues - Last-synced issue by ID
+ * @returns Path of the written state file
+ */
+export async function saveSyncState(
+  todoDir: string,
+  issues: Record<string, TodoIssue>
+): Promise<string> {
+  const statePath = join(todoDir, SYNC_STATE_FILE)
+  const state: SyncState = {
+    version: SYNC_STATE_VERSION,
+    syncedAt: new Date().toISOString(),
+    issues,
+  }
+
+  await fs.mkdir(dirname(statePath), { recursive: true })
+  await fs.writeFile(statePath, JSON.stringify(state, null, 2) + '\n', 'utf-8')
+
+  return statePath
+}
@@ -7,6 +7,7 @@
  *
  * Features:
  * - Detects new, updated, and deleted issues in both sources
+ * - Three-way, field-level merge against the last-synced state (.todo/.sync-state.json)
  * - Resolves conflicts based on configurable strategies (beads-wins, file-wins, newest-wins)
  * - Supports dry-run mode for previewing changes
  * - Supports directional sync (beads-to-files, files-to-beads, or bidirectional)
@@ -46,14 +47,33 @@
  * ```
  */
 
-import { createIssue, updateIssue, closeIssue } from 'beads-workflows'
-import type { CreateOptions, UpdateOptions } from 'beads-workflows'
-import { diff, applyExtract } from '@mdxld/markdown'
-import { loadBeadsIssues } from './beads.js'
-import { loadTodoFiles } from './parser.js'
-import { writeTodoFiles, DEFAULT_PATTERN } from './generator.js'
+import { diff } from '@mdxld/markdown'
+import { findConflictedFiles } from './parser.js'
+import {
+  writeTodoFiles,
+  writeConflictFiles,
+  planTodoFiles,
+  deleteTodoFile,
+  DEFAULT_PATTERN,
+} from './generator.js'
 import type { GeneratorOptions } from './generator.js'
-import type { TodoConfig, TodoIssue, SyncResult, SyncConflict } from './types.js'
+import { loadSyncState, saveSyncState } from './sync-state.js'
+import { createBeadsStore, createTodoStore } from './stores.js'
+import { diffDependencies, edgeKey, relationshipEdges, withoutCloseFields } from './issue-changes.js'
+import type { DependencyEdge } from './issue-changes.js'
+import { appendJournalEntry, readFileContents } from './journal.js'
+import type { JournalIssueChange, JournalFileChange } from './journal.js'
+import type {
+  TodoConfig,
+  TodoIssue,
+  SyncResult,
+  SyncConflict,
+  SyncFieldConflict,
+  SyncFieldChange,
+  SyncIssueChange,
+  SyncPlan,
+  IssueStore,
+} from './types.js'
 
 /**
  * Options for sync operation
@@ -63,12 +83,8 @@ export interface SyncOptions extends TodoConfig {
   dryRun?: boolean
   /** Sync direction */
   direction?: 'beads-to-files' | 'files-to-beads' | 'bidirectional'
-  /** Filename pattern for generated files (default: '[yyyy-mm-dd] [Title].md') */
+  /** Filename pattern for generated files (default: `filePattern`, else the issue template's $pattern, else '[yyyy-mm-dd] [Title].md') */
   pattern?: string
-  /** Subdirectory for closed issues (default: 'closed') */
-  closedSubdir?: string
-  /** Whether to separate closed issues into subdirectory (default: true) */
-  separateClosed?: boolean
   /**
    * Handle deletions during sync (default: false)
    * When true:
@@ -78,8 +94,29 @@ export interface SyncOptions extends TodoConfig {
    * When false (default): missing items are recreated, not deleted
    */
   handleDeletions?: boolean
+  /**
+   * Resolve conflicts field by field (e.g. interactively)
+   * Called once per conflicting issue, before `conflictStrategy` applies. Return
+   * the value to keep for each conflicting field, or null to fall back to the
+   * strategy. Not called on dry runs.
+   */
+  onConflict?: ConflictResolver
+  /**
+   * A plan from planSync() to apply as-is, instead of planning again
+   * Change detection and conflict resolution are skipped. Both stores and the merge
+   * base are reloaded, and sync throws if they no longer match the plan's snapshot.
+   */
+  plan?: SyncPlan
 }
 
+/**
+ * Resolver for a conflicting issue
+ * Returns the chosen value per conflicting field, or null to skip
+ */
+export type ConflictResolver = (
+  conflict: SyncConflict
+) => Promise<Record<string, unknown> | null> | Record<string, unknown> | null
+
 /**
  * Result of change detection
  */
@@ -97,12 +134,13 @@ export interface ChangeDetectionResult {
 }
 
 /**
- * Check if two issues have the same content (ignoring updatedAt and source)
+ * Check if two issues have the same content (ignoring updatedAt, source and custom)
+ * Custom frontmatter fields only live in files, so they never differ from beads
  */
 function issuesAreEqual(a: TodoIssue, b: TodoIssue): boolean {
-  // Create normalized versions without updatedAt and source for comparison
-  const { updatedAt: _aUpdatedAt, source: _aSource, ...aNormalized } = a
-  const { updatedAt: _bUpdatedAt, source: _bSource, ...bNormalized } = b
+  // Create normalized versions without updatedAt, source and custom for comparison
+  const { updatedAt: _aUpdatedAt, source: _aSource, custom: _aCustom, ...aNormalized } = a
+  const { updatedAt: _bUpdatedAt, source: _bSource, custom: _bCustom, ...bNormalized } = b
 
   const diffResult = diff(aNormalized, bNormalized)
   return !diffResult.hasChanges
@@ -112,9 +150,15 @@ function issuesAreEqual(a: TodoIssue, b: TodoIssue): boolean {
  * Detect which fields differ between two issues using diff()
  */
 function detectDifferentFields(beadsIssue: TodoIssue, fileIssue: TodoIssue): string[] {
-  // Create normalized versions without updatedAt and source for comparison
-  const { updatedAt: _beadsUpdatedAt, source: _beadsSource, ...beadsNormalized } = beadsIssue
-  const { updatedAt: _fileUpdatedAt, source: _fileSource, ...fileNormalized } = fileIssue
+  // Create normalized versions without updatedAt, source and custom for comparison
+  const {
+    updatedAt: _beadsUpdatedAt,
+    source: _beadsSource,
+    custom: _beadsCustom,
+    ...beadsNormalized
+  } = beadsIssue
+  const { updatedAt: _fileUpdatedAt, source: _fileSource, custom: _fileCustom, ...fileNormalized } =
+    fileIssue
 
   const diffResult = diff(beadsNormalized, fileNormalized)
 
@@ -129,36 +173,170 @@ function detectDifferentFields(beadsIssue: TodoIssue, fileIssue: TodoIssue): str
 }
 
 /**
- * Create a conflict object for two different versions of an issue
+ * Fields never merged: the identity, bookkeeping fields, and file-only custom fields
  */
-function createConflict(
+const UNMERGED_FIELDS = new Set(['id', 'updatedAt', 'source', 'custom'])
+
+/**
+ * Read a field from an issue by name
+ */
+function fieldValue(issue: TodoIssue | undefined, field: string): unknown {
+  return issue ? (issue as unknown as Record<string, unknown>)[field] : undefined
+}
+
+/**
+ * Normalize empty values so that a missing field, null, '' and [] compare equal
+ */
+function normalizeValue(value: unknown): unknown {
+  if (value === null || value === '' || (Array.isArray(value) && value.length === 0)) {
+    return undefined
+  }
+  return value
+}
+
+/**
+ * Compare two field values structurally
+ */
+function valuesEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(normalizeValue(a)) === JSON.stringify(normalizeValue(b))
+}
+
+/**
+ * List the mergeable fields that differ between two versions of an issue
+ */
+export function changedFields(a: TodoIssue, b: TodoIssue): string[] {
+  const fields = new Set([...Object.keys(a), ...Object.keys(b)])
+  return Array.from(fields).filter(
+    (field) => !UNMERGED_FIELDS.has(field) && !valuesEqual(fieldValue(a, field), fieldValue(b, field))
+  )
+}
+
+/**
+ * Result of a three-way merge of a single issue
+ */
+export interface IssueMergeResult {
+  /** Merged issue; conflicting fields keep the beads value */
+  merged: TodoIssue
+  /** Fields changed differently on both sides */
+  conflicts: SyncFieldConflict[]
+}
+
+/**
+ * Three-way, field-level merge of an issue against its last-synced base
+ *
+ * A field changed on only one side takes that side's value; a field changed
+ * identically on both sides is not a conflict. Custom frontmatter fields
+ * always come from the file.
+ *
+ * @param base - Last-synced version of the issue
+ * @param beadsIssue - Current beads version
+ * @param fileIssue - Current file version
+ * @returns Merged issue and the fields that conflict
+ */
+export function mergeIssue(
+  base: TodoIssue,
   beadsIssue: TodoIssue,
-  fileIssue: TodoIssue,
-  field: string,
+  fileIssue: TodoIssue
+): IssueMergeResult {
+  const merged: Record<string, unknown> = { ...beadsIssue }
+  const conflicts: SyncFieldConflict[] = []
+
+  if (fileIssue.custom) {
+    merged.custom = fileIssue.custom
+  }
+
+  const fields = new Set([...Object.keys(base), ...Object.keys(beadsIssue), ...Object.keys(fileIssue)])
+  for (const field of fields) {
+    if (UNMERGED_FIELDS.has(field)) continue
+
+    const baseValue = fieldValue(base, field)
+    const beadsValue = fieldValue(beadsIssue, field)
+    const fileValue = fieldValue(fileIssue, field)
+
+    if (valuesEqual(beadsValue, fileValue) || valuesEqual(baseValue, fileValue)) {
+      // Same on both sides, or only beads changed - keep the beads value
+      continue
+    }
+
+    if (valuesEqual(baseValue, beadsValue)) {
+      // Only the file changed
+      merged[field] = fileValue
+      continue
+    }
+
+    conflicts.push({ field, baseValue, beadsValue, fileValue })
+  }
+
+  return { merged: merged as unknown as TodoIssue, conflicts }
+}
+
+/**
+ * Create a conflict object listing every conflicting field of an issue
+ */
+function createConflict(
+  issueId: string,
+  fields: SyncFieldConflict[],
   resolution: 'beads-wins' | 'file-wins' | 'manual'
 ): SyncConflict {
-  const beadsValue = (beadsIssue as unknown as Record<string, unknown>)[field]
-  const fileValue = (fileIssue as unknown as Record<string, unknown>)[field]
-
   return {
-    issueId: beadsIssue.id,
-    field,
-    beadsValue,
-    fileValue,
+    issueId,
+    field: fields[0].field,
+    beadsValue: fields[0].beadsValue,
+    fileValue: fields[0].fileValue,
+    fields,
     resolution,
   }
 }
 
+/**
+ * Take one side's value for every conflicting field
+ */
+function sideValues(conflict: SyncConflict, side: 'beads' | 'file'): Record<string, unknown> {
+  return Object.fromEntries(
+    conflict.fields.map((f) => [f.field, side === 'beads' ? f.beadsValue : f.fileValue])
+  )
+}
+
+/**
+ * Resolve a conflicting issue with chosen values for its conflicting fields
+ *
+ * With a base, non-conflicting edits from both sides are kept. Without one,
+ * the beads version (plus the file's custom fields) is the starting point.
+ */
+function resolveConflict(
+  beadsIssue: TodoIssue,
+  fileIssue: TodoIssue,
+  base: TodoIssue | undefined,
+  values: Record<string, unknown>
+): TodoIssue {
+  const resolved: Record<string, unknown> = base
+    ? { ...mergeIssue(base, beadsIssue, fileIssue).merged }
+    : { ...beadsIssue }
+
+  if (!base && fileIssue.custom) {
+    resolved.custom = fileIssue.custom
+  }
+
+  return { ...resolved, ...values } as unknown as TodoIssue
+}
+
 /**
  * Detect changes between beads issues and file issues
  *
+ * Issues with a last-synced base are merged three-way, field by field: edits
+ * to different fields merge automatically and only fields changed differently
+ * on both sides are reported as conflicts. Issues without a base (first sync)
+ * fall back to comparing `updatedAt` timestamps.
+ *
  * @param beadsIssues - Issues loaded from beads
  * @param fileIssues - Issues loaded from .todo/*.md files
+ * @param baseIssues - Last-synced issues by ID (from the sync state)
  * @returns Object containing issues to push to beads, issues to write to files, and conflicts
  */
 export function detectChanges(
   beadsIssues: TodoIssue[],
-  fileIssues: TodoIssue[]
+  fileIssues: TodoIssue[],
+  baseIssues: Record<string, TodoIssue> = {}
 ): ChangeDetectionResult {
   const toBeads: TodoIssue[] = []
   const toFiles: TodoIssue[] = []
@@ -170,6 +348,11 @@ export function detectChanges(
   const beadsMap = new Map(beadsIssues.map((issue) => [issue.id, issue]))
   const fileMap = new Map(fileIssues.map((issue) => [issue.id, issue]))
 
+  // With a merge base, an issue missing from one side was only deleted there if it was synced
+  // before; otherwise it's new. Without one, every missing issue might have been deleted.
+  const hasBase = Object.keys(baseIssues).length > 0
+  const mayBeDeleted = (id: string) => !hasBase || id in baseIssues
+
   // Check for issues in files
   for (const fileIssue of fileIssues) {
     const beadsIssue = beadsMap.get(fileIssue.id)
@@ -179,11 +362,32 @@ export function detectChanges(
       // This could be: 1) new issue created in file, or 2) issue was deleted from beads
       // We track both: add to toBeads (to recreate) AND track as deletedFromBeads
       toBeads.push(fileIssue)
-      deletedFromBeads.push(fileIssue.id)
+      if (mayBeDeleted(fileIssue.id)) {
+        deletedFromBeads.push(fileIssue.id)
+      }
+      continue
+    }
+
+    // Issue exists in both - merge against the last-synced base when there is one
+    const baseIssue = baseIssues[fileIssue.id]
+    if (baseIssue) {
+      const { merged, conflicts: fieldConflicts } = mergeIssue(baseIssue, beadsIssue, fileIssue)
+
+      if (fieldConflicts.length > 0) {
+        conflicts.push(createConflict(fileIssue.id, fieldConflicts, 'manual'))
+        continue
+      }
+
+      if (changedFields(merged, beadsIssue).length > 0) {
+        toBeads.push(merged)
+      }
+      if (changedFields(merged, fileIssue).length > 0) {
+        toFiles.push(merged)
+      }
       continue
     }
 
-    // Issue exists in both - check for conflicts
+    // No base - compare the two versions directly
     if (!issuesAreEqual(beadsIssue, fileIssue)) {
       // Issues differ - determine which is newer
       const beadsTime = beadsIssue.updatedAt ? new Date(beadsIssue.updatedAt).getTime() : 0
@@ -202,9 +406,19 @@ export function detectChanges(
         // Same timestamp, both missing, or within same day - this is a conflict
         const fields = detectDifferentFields(beadsIssue, fileIssue)
         if (fields.length > 0) {
-          // Create a single conflict for the issue with the first differing field
-          // (or we could create one per field, but test expects one per issue)
-          conflicts.push(createConflict(beadsIssue, fileIssue, fields[0], 'manual'))
+          // One conflict per issue, listing every differing field
+          conflicts.push(
+            createConflict(
+              beadsIssue.id,
+              fields.map((field) => ({
+                field,
+                baseValue: undefined,
+                beadsValue: fieldValue(beadsIssue, field),
+                fileValue: fieldValue(fileIssue, field),
+              })),
+              'manual'
+            )
+          )
         }
       } else if (fileTime > beadsTime) {
         // File is newer, push to beads
@@ -223,164 +437,247 @@ export function detectChanges(
       // This could be: 1) new issue in beads, or 2) file was deleted
       // We track both: add to toFiles (to recreate) AND track as deletedFiles
       toFiles.push(beadsIssue)
-      deletedFiles.push(beadsIssue.id)
+      if (mayBeDeleted(beadsIssue.id)) {
+        deletedFiles.push(beadsIssue.id)
+      }
     }
   }
 
   return { toBeads, toFiles, conflicts, deletedFiles, deletedFromBeads }
 }
 
+/** Relationship fields, carried by dependency edges */
+const RELATIONSHIP_FIELDS = ['dependsOn', 'blocks', 'parent', 'children'] as const
+
+/** Fields set when an issue is closed */
+const CLOSE_FIELDS = new Set(['closedAt', 'closeReason'])
+
 /**
- * Extended CreateOptions that includes the optional id field
- * The beads CLI supports --id but the beads-workflows type doesn't include it
+ * An issue with its relationship fields removed
  */
-interface CreateOptionsWithId extends CreateOptions {
-  id?: string
+function withoutRelationships(issue: TodoIssue): TodoIssue {
+  const { dependsOn: _dependsOn, blocks: _blocks, parent: _parent, children: _children, ...rest } = issue
+  return rest
 }
 
 /**
- * Convert TodoIssue to CreateOptions for beads-workflows
+ * Just the relationship fields of an issue
  */
-function toCreateOptions(issue: TodoIssue): CreateOptionsWithId {
-  return {
-    id: issue.id,
-    title: issue.title,
-    type: issue.type,
-    priority: issue.priority,
-    description: issue.description,
-    assignee: issue.assignee,
-    labels: issue.labels,
+function relationshipsOf(issue: TodoIssue): Partial<TodoIssue> {
+  const relationships: Partial<TodoIssue> = {}
+  for (const field of RELATIONSHIP_FIELDS) {
+    if (issue[field] !== undefined) Object.assign(relationships, { [field]: issue[field] })
   }
+  return relationships
 }
 
 /**
- * Convert TodoIssue to UpdateOptions for beads-workflows, optionally merging with original issue
+ * Add or remove an edge in an issue's relationship fields
  */
-function toUpdateOptions(issue: TodoIssue, originalIssue?: TodoIssue): UpdateOptions {
-  let mergedIssue = issue
+function setEdge(issue: TodoIssue, edge: DependencyEdge, present: boolean): TodoIssue {
+  const outgoing = edge.issueId === issue.id
+  const other = outgoing ? edge.dependsOnId : edge.issueId
+  const without = (ids?: string[]) => ids?.filter((id) => id !== other)
 
-  // If we have an original issue, use applyExtract to merge changes
-  if (originalIssue) {
-    mergedIssue = applyExtract(originalIssue, issue)
+  if (!present) {
+    return outgoing
+      ? { ...issue, dependsOn: without(issue.dependsOn), parent: issue.parent === other ? undefined : issue.parent }
+      : { ...issue, blocks: without(issue.blocks), children: without(issue.children) }
   }
+  if (edge.type === 'parent-child') {
+    return outgoing ? { ...issue, parent: other } : { ...issue, children: [...(issue.children ?? []), other] }
+  }
+  return outgoing
+    ? { ...issue, dependsOn: [...(issue.dependsOn ?? []), other] }
+    : { ...issue, blocks: [...(issue.blocks ?? []), other] }
+}
 
+/**
+ * The original of an issue, adjusted for edges already written to beads in this sync
+ * through their other endpoint, so that each edge is written once
+ */
+function withAppliedEdges(issue: TodoIssue, original: TodoIssue, applied: Map<string, 'add' | 'remove'>): TodoIssue {
+  const { add, remove } = diffDependencies(issue, original)
+  let adjusted = original
+  for (const edge of add) {
+    if (applied.get(edgeKey(edge)) === 'add') adjusted = setEdge(adjusted, edge, true)
+  }
+  for (const edge of remove) {
+    if (applied.get(edgeKey(edge)) === 'remove') adjusted = setEdge(adjusted, edge, false)
+  }
+  return adjusted
+}
+
+/**
+ * Build generator options from sync options (files are rendered through the resolved issue template)
+ */
+function toGeneratorOptions(options: SyncOptions): GeneratorOptions {
   return {
-    title: mergedIssue.title,
-    // Map 'blocked' to 'open' since beads doesn't support blocked status
-    status: mergedIssue.status === 'blocked' ? 'open' : mergedIssue.status,
-    priority: mergedIssue.priority,
-    description: mergedIssue.description,
-    assignee: mergedIssue.assignee,
-    labels: mergedIssue.labels,
+    pattern: options.pattern ?? options.filePattern,
+    closedSubdir: options.closedSubdir,
+    separateClosed: options.separateClosed,
+    templateDir: options.templateDir ?? '.mdx',
+    preset: options.preset,
+    filters: options.filters,
   }
 }
 
 /**
- * Perform bi-directional sync between beads and .todo/*.md files
+ * List the fields a planned write changes, with before/after values
+ * Without an original (a create), every non-empty field is listed.
+ */
+function fieldChanges(issue: TodoIssue, original?: TodoIssue): SyncFieldChange[] {
+  const fields = original
+    ? changedFields(issue, original)
+    : Object.keys(issue).filter(
+        (field) => !UNMERGED_FIELDS.has(field) && normalizeValue(fieldValue(issue, field)) !== undefined
+      )
+
+  return fields.map((field) => ({
+    field,
+    before: fieldValue(original, field),
+    after: fieldValue(issue, field),
+  }))
+}
+
+/**
+ * Compute everything a sync would do, without changing anything
+ *
+ * The plan lists every beads create and update, file write, rename and delete,
+ * and conflict, with per-field before/after values. Review it, then pass it to
+ * `sync({ plan })` to apply exactly those changes. `onConflict` is called while
+ * planning, except on dry runs.
  *
  * @param options - Sync options including config and flags
- * @returns Sync result with created, updated, deleted issues and files written
+ * @returns The sync plan
  */
-export async function sync(options: SyncOptions = {}): Promise<SyncResult> {
+export async function planSync(options: SyncOptions = {}): Promise<SyncPlan> {
   const {
     beadsDir,
     todoDir = '.todo',
     dryRun = false,
     direction = 'bidirectional',
     conflictStrategy = 'newest-wins',
-    pattern,
-    closedSubdir,
-    separateClosed,
     handleDeletions = false,
+    templateDir = '.mdx',
+    preset,
+    onConflict,
   } = options
 
-  // Build generator options
-  const generatorOptions: GeneratorOptions = {
-    pattern,
-    closedSubdir,
-    separateClosed,
-  }
+  // The .todo directory, unless another files store is given, also gets renames, markers and conflict checks
+  const todoFiles = !options.stores?.files
+  const beadsStore = options.stores?.beads ?? createBeadsStore(options)
+  const fileStore = options.stores?.files ?? createTodoStore({ todoDir, templateDir, preset, filters: options.filters })
 
-  const result: SyncResult = {
-    created: [],
-    updated: [],
-    deleted: [],
-    filesWritten: [],
-    conflicts: [],
-  }
+  // Load issues from both stores, plus the last-synced state as the merge base
+  const beadsIssues = await beadsStore.list()
+  const fileIssues = await fileStore.list()
+  const syncState = await loadSyncState(todoDir)
 
-  // Load issues from both sources
-  const beadsIssues = await loadBeadsIssues(beadsDir)
-  const fileIssues = await loadTodoFiles(todoDir)
+  // Files with unresolved conflict markers aren't loaded; leave their issues alone entirely
+  const conflictedFiles = todoFiles ? await findConflictedFiles(todoDir) : []
+  const conflictedIds = new Set(conflictedFiles.map((file) => file.id))
+  const unresolved = conflictedFiles.map((file) => file.id ?? file.path)
 
   // Detect changes
   let { toBeads, toFiles, conflicts, deletedFiles, deletedFromBeads } = detectChanges(
-    beadsIssues,
-    fileIssues
+    beadsIssues.filter((issue) => !conflictedIds.has(issue.id)),
+    fileIssues,
+    syncState.issues
   )
 
+  const beadsMap = new Map(beadsIssues.map((issue) => [issue.id, issue]))
+  const fileMap = new Map(fileIssues.map((issue) => [issue.id, issue]))
+
+  // Beads and file versions of conflicts to write with conflict markers
+  const markerConflicts: Array<{ beads: TodoIssue; file: TodoIssue }> = []
+  const resolvedConflicts: SyncConflict[] = []
+
   // Handle conflicts based on strategy
-  if (conflicts.length > 0) {
-    const beadsMap = new Map(beadsIssues.map((issue) => [issue.id, issue]))
-    const fileMap = new Map(fileIssues.map((issue) => [issue.id, issue]))
+  for (const conflict of conflicts) {
+    const beadsIssue = beadsMap.get(conflict.issueId)
+    const fileIssue = fileMap.get(conflict.issueId)
 
-    for (const conflict of conflicts) {
-      const beadsIssue = beadsMap.get(conflict.issueId)
-      const fileIssue = fileMap.get(conflict.issueId)
+    if (!beadsIssue || !fileIssue) continue
 
-      if (!beadsIssue || !fileIssue) continue
+    let resolution: SyncConflict['resolution']
+    let values: Record<string, unknown> | null | undefined
 
-      let resolution: 'beads-wins' | 'file-wins' | 'manual'
+    // An explicit resolver (e.g. the interactive CLI) takes precedence over the strategy
+    if (onConflict && !dryRun) {
+      values = await onConflict(conflict)
+    }
 
-      if (conflictStrategy === 'beads-wins') {
-        resolution = 'beads-wins'
-        // Add to toFiles if not already there
-        if (!toFiles.find((i) => i.id === beadsIssue.id)) {
-          toFiles.push(beadsIssue)
-        }
-      } else if (conflictStrategy === 'file-wins') {
-        resolution = 'file-wins'
-        // Add to toBeads if not already there
-        if (!toBeads.find((i) => i.id === fileIssue.id)) {
-          toBeads.push(fileIssue)
-        }
-      } else {
-        // newest-wins - already handled in detectChanges
-        // Mark as manual since we don't override the automatic resolution
-        resolution = 'manual'
+    if (values) {
+      resolution = 'resolved'
+    } else if (conflictStrategy === 'beads-wins' || conflictStrategy === 'file-wins') {
+      resolution = conflictStrategy
+      values = sideValues(conflict, conflictStrategy === 'beads-wins' ? 'beads' : 'file')
+    } else if (conflictStrategy === 'markers' && todoFiles) {
+      resolution = 'markers'
+      const baseIssue = syncState.issues[conflict.issueId]
+      const beadsSide = resolveConflict(beadsIssue, fileIssue, baseIssue, sideValues(conflict, 'beads'))
+      markerConflicts.push({
+        beads: beadsSide,
+        file: resolveConflict(beadsIssue, fileIssue, baseIssue, sideValues(conflict, 'file')),
+      })
+
+      // Non-conflicting file edits still go to beads; conflicting fields keep their beads values
+      if (changedFields(beadsSide, beadsIssue).length > 0 && !toBeads.find((i) => i.id === beadsSide.id)) {
+        toBeads.push(beadsSide)
       }
+    } else {
+      // newest-wins - already handled in detectChanges
+      // Mark as manual since we don't override the automatic resolution
+      resolution = 'manual'
+    }
+
+    if (values) {
+      const resolved = resolveConflict(
+        beadsIssue,
+        fileIssue,
+        syncState.issues[conflict.issueId],
+        values
+      )
 
-      // Update conflict resolution and add to result
-      const resolvedConflict: SyncConflict = {
-        ...conflict,
-        resolution,
+      // Push the resolved issue to whichever side differs from it
+      if (changedFields(resolved, fileIssue).length > 0 && !toFiles.find((i) => i.id === resolved.id)) {
+        toFiles.push(resolved)
+      }
+      if (changedFields(resolved, beadsIssue).length > 0 && !toBeads.find((i) => i.id === resolved.id)) {
+        toBeads.push(resolved)
       }
-      result.conflicts.push(resolvedConflict)
     }
+
+    resolvedConflicts.push({ ...conflict, resolution })
   }
 
-  // Handle deletions if enabled
-  // When handleDeletions is true, we delete instead of recreating
+  // Handle deletions if enabled: delete instead of recreating
+  const deleted: string[] = []
+  // Issues whose files are deleted because the issue is gone from beads
+  let filesToDelete: string[] = []
+
   if (handleDeletions) {
     if (direction === 'files-to-beads') {
       // Files are source of truth - delete from beads if file was deleted
       // Remove from toFiles since we're deleting, not recreating
       toFiles = toFiles.filter((issue) => !deletedFiles.includes(issue.id))
       // Track deleted issues
-      result.deleted.push(...deletedFiles)
+      deleted.push(...deletedFiles)
     } else if (direction === 'beads-to-files') {
       // Beads is source of truth - delete files if issue was deleted from beads
       // Remove from toBeads since we're deleting files, not recreating in beads
       toBeads = toBeads.filter((issue) => !deletedFromBeads.includes(issue.id))
-      // Track deleted files (we'd need a deleteTodoFile function, for now just track)
-      result.deleted.push(...deletedFromBeads)
+      filesToDelete = deletedFromBeads
+      deleted.push(...deletedFromBeads)
     } else {
       // Bidirectional with handleDeletions:
       // - If file exists but issue is gone from beads -> delete the file (beads is authoritative)
       // - If issue exists in beads but file is gone -> recreate the file (beads is authoritative)
       // This means: delete orphan files, but don't delete from beads
       toBeads = toBeads.filter((issue) => !deletedFromBeads.includes(issue.id))
-      result.deleted.push(...deletedFromBeads)
+      filesToDelete = deletedFromBeads
+      deleted.push(...deletedFromBeads)
     }
   }
 
@@ -391,46 +688,492 @@ export async function sync(options: SyncOptions = {}): Promise<SyncResult> {
     toFiles = []
   }
 
-  // If dry run, just return what would be done
-  if (dryRun) {
-    return result
+  // Closing or reopening in beads also moves the file in or out of closedSubdir
+  const statusRewrites = toBeads
+    .filter((issue) => {
+      const wasClosed = beadsMap.get(issue.id)?.status === 'closed'
+      return wasClosed !== (issue.status === 'closed') && !toFiles.some((i) => i.id === issue.id)
+    })
+    .map((issue) => (issue.status === 'closed' ? issue : withoutCloseFields(issue)))
+
+  // Another files store has no paths; its deletes are listed by issue ID
+  let filePlan: Awaited<ReturnType<typeof planTodoFiles>> = {
+    written: [],
+    moved: [],
+    deleted: todoFiles ? [] : filesToDelete.map((id) => ({ id, path: id })),
   }
+  if (todoFiles) {
+    try {
+      filePlan = await planTodoFiles(
+        [...toFiles, ...statusRewrites],
+        filesToDelete,
+        todoDir,
+        toGeneratorOptions(options)
+      )
+    } catch (error) {
+      console.warn('Failed to plan file changes:', error)
+    }
+  }
+  const filePaths = new Map(filePlan.written.map((file) => [file.id, file.path]))
 
-  // Push changes to beads
+  const creates: SyncIssueChange[] = []
+  const updates: SyncIssueChange[] = []
   for (const issue of toBeads) {
-    const beadsIssue = beadsIssues.find((i) => i.id === issue.id)
+    const original = beadsMap.get(issue.id)
+    const change: SyncIssueChange = { issueId: issue.id, issue, original, changes: fieldChanges(issue, original) }
+    if (original) {
+      updates.push(change)
+    } else {
+      delete change.original
+      creates.push(change)
+    }
+  }
+
+  const fileWrites: SyncIssueChange[] = toFiles.map((issue) => {
+    const original = fileMap.get(issue.id)
+    const change: SyncIssueChange = {
+      issueId: issue.id,
+      issue,
+      changes: fieldChanges(issue, original),
+      path: todoFiles ? filePaths.get(issue.id) : issue.id,
+    }
+    if (original) change.original = original
+    return change
+  })
+
+  return {
+    creates,
+    updates,
+    fileWrites,
+    fileMoves: filePlan.moved,
+    fileDeletes: filePlan.deleted,
+    conflicts: resolvedConflicts,
+    markerConflicts,
+    deleted,
+    unresolved,
+    snapshot: { beads: beadsIssues, files: fileIssues, base: syncState.issues },
+  }
+}
+
+/**
+ * List the IDs of issues added, removed or changed between two lists
+ */
+function changedIssueIds(before: TodoIssue[], after: TodoIssue[]): string[] {
+  const afterMap = new Map(after.map((issue) => [issue.id, issue]))
+  const ids = new Set([...before.map((issue) => issue.id), ...afterMap.keys()])
+  const beforeMap = new Map(before.map((issue) => [issue.id, issue]))
+  return Array.from(ids).filter((id) => {
+    const a = beforeMap.get(id)
+    const b = afterMap.get(id)
+    return !a || !b || changedFields(a, b).length > 0
+  })
+}
+
+/**
+ * Describe what changed in beads, the files and the merge base since a plan was made
+ */
+async function findStalePlanChanges(plan: SyncPlan, options: SyncOptions): Promise<string[]> {
+  const { todoDir = '.todo', templateDir = '.mdx', preset } = options
+  const beadsStore = options.stores?.beads ?? createBeadsStore(options)
+  const fileStore = options.stores?.files ?? createTodoStore({ todoDir, templateDir, preset, filters: options.filters })
+
+  const syncState = await loadSyncState(todoDir)
+  return [
+    ...changedIssueIds(plan.snapshot.beads, await beadsStore.list()).map((id) => `beads issue ${id}`),
+    ...changedIssueIds(plan.snapshot.files, await fileStore.list()).map((id) => `file for ${id}`),
+    ...changedIssueIds(Object.values(plan.snapshot.base), Object.values(syncState.issues)).map(
+      (id) => `merge base of ${id}`
+    ),
+  ]
+}
+
+/**
+ * Perform bi-directional sync between beads and .todo/*.md files
+ *
+ * Plans the sync with planSync() and applies it, or applies `options.plan` when
+ * given. Dry runs return what the plan would do without applying it.
+ *
+ * @param options - Sync options including config and flags
+ * @returns Sync result with created, updated, deleted issues and files written
+ * @throws If `options.plan` is applied after beads, the files or the merge base changed
+ *   since it was made
+ */
+export async function sync(options: SyncOptions = {}): Promise<SyncResult> {
+  const plan = options.plan ?? (await planSync(options))
+
+  // A reviewed plan is only applied to the issues it was computed from
+  if (options.plan && !options.dryRun) {
+    const changes = await findStalePlanChanges(plan, options)
+    if (changes.length > 0) {
+      throw new Error(
+        `Sync plan is out of date; plan again. Changed since it was made:\n  ${changes.join('\n  ')}`
+      )
+    }
+  }
+
+  // If dry run, just return what would be done
+  if (options.dryRun) {
+    return {
+      created: plan.creates.map((change) => change.issueId),
+      updated: plan.updates.map((change) => change.issueId),
+      deleted: [...plan.deleted],
+      filesWritten: plan.fileWrites.flatMap((change) => (change.path ? [change.path] : [])),
+      filesMoved: [...plan.fileMoves],
+      filesDeleted: plan.fileDeletes.map((file) => file.path),
+      conflicts: [...plan.conflicts],
+      unresolved: [...plan.unresolved],
+      errors: [],
+      plan,
+    }
+  }
+
+  return applySyncPlan(plan, options)
+}
 
+/**
+ * Record a failed sync step: log it, and report it in the result
+ */
+function recordError(result: SyncResult, message: string, error: unknown, issueId?: string): void {
+  console.warn(`${message}:`, error)
+  result.errors.push({
+    ...(issueId && { issueId }),
+    message: `${message}: ${error instanceof Error ? error.message : String(error)}`,
+  })
+}
+
+/**
+ * Apply a sync plan: push to beads, write, move and delete files, and record the next merge base
+ */
+async function applySyncPlan(plan: SyncPlan, options: SyncOptions): Promise<SyncResult> {
+  const { todoDir = '.todo' } = options
+  const beadsStore = options.stores?.beads ?? createBeadsStore(options)
+  const fileStore = options.stores?.files
+
+  const result: SyncResult = {
+    created: [],
+    updated: [],
+    deleted: [...plan.deleted],
+    filesWritten: [],
+    filesMoved: [],
+    filesDeleted: [],
+    conflicts: [...plan.conflicts],
+    unresolved: [...plan.unresolved],
+    errors: [],
+    plan,
+  }
+
+  const { markerConflicts } = plan
+  const fileIssues = plan.snapshot.files
+  let toFiles = plan.fileWrites.map((change) => change.issue)
+
+  // Track what each side holds after this sync, for the next merge base
+  const beadsAfter = new Map(plan.snapshot.beads.map((issue) => [issue.id, issue]))
+  const filesAfter = new Map(fileIssues.map((issue) => [issue.id, issue]))
+
+  // Push changes to beads. New issues are created first, without relationships,
+  // since their edges may point at issues created later in this sync
+  const relationshipWrites: Array<{ issue: TodoIssue; original: TodoIssue }> = []
+  for (const { issue } of plan.creates) {
     try {
-      if (!beadsIssue) {
-        // Create new issue
-        const createResult = await createIssue(toCreateOptions(issue), { cwd: beadsDir })
-        if (createResult.success) {
-          result.created.push(issue.id)
-        }
-      } else {
-        // Update existing issue - use applyExtract to merge file changes into beads issue
-        const updateResult = await updateIssue(issue.id, toUpdateOptions(issue, beadsIssue), {
-          cwd: beadsDir,
-        })
-        if (updateResult.success) {
-          result.updated.push(issue.id)
-        }
+      const stored = await beadsStore.create(withoutRelationships(issue))
+      result.created.push(issue.id)
+      beadsAfter.set(issue.id, stored)
+      if (relationshipEdges(issue).length > 0) {
+        relationshipWrites.push({ issue: { ...stored, ...relationshipsOf(issue) }, original: stored })
       }
     } catch (error) {
       // Log error but continue with other issues
-      console.warn(`Failed to sync issue ${issue.id} to beads:`, error)
+      recordError(result, `Failed to sync issue ${issue.id} to beads`, error, issue.id)
+    }
+  }
+
+  // An edge can appear on both endpoints (e.g. dependsOn and blocks), so each is applied once
+  const appliedEdges = new Map<string, 'add' | 'remove'>()
+  const updateInBeads = async (issue: TodoIssue, original: TodoIssue) => {
+    const adjusted = withAppliedEdges(issue, original, appliedEdges)
+    const stored = await beadsStore.update(issue, adjusted)
+    const { add, remove } = diffDependencies(issue, adjusted)
+    add.forEach((edge) => appliedEdges.set(edgeKey(edge), 'add'))
+    remove.forEach((edge) => appliedEdges.set(edgeKey(edge), 'remove'))
+    return stored
+  }
+
+  for (const { issue, original } of plan.updates) {
+    if (!original) continue
+    try {
+      const stored = await updateInBeads(issue, original)
+      result.updated.push(issue.id)
+      beadsAfter.set(issue.id, stored)
+    } catch (error) {
+      // Log error but continue with other issues
+      recordError(result, `Failed to sync issue ${issue.id} to beads`, error, issue.id)
+    }
+  }
+
+  // Relationships of new issues, now that all of them exist
+  for (const { issue, original } of relationshipWrites) {
+    try {
+      beadsAfter.set(issue.id, await updateInBeads(issue, original))
+    } catch (error) {
+      recordError(result, `Failed to sync relationships of issue ${issue.id} to beads`, error, issue.id)
+    }
+  }
+
+  // Issues without a base that beads only took part of (a rejected edge or close);
+  // what beads holds becomes their base, so the rest is pushed again next time
+  // rather than compared by updatedAt and overwritten in the file
+  const partial = [...new Set(result.errors.flatMap((error) => (error.issueId ? [error.issueId] : [])))].filter(
+    (id) => !plan.snapshot.base[id]
+  )
+
+  // The next merge base holds what beads has now, not what it was sent, so an update
+  // beads didn't apply is seen again by the next sync
+  if (result.updated.length > 0 || partial.length > 0) {
+    try {
+      const reloaded = new Map((await beadsStore.list()).map((issue) => [issue.id, issue]))
+      for (const id of [...result.updated, ...partial]) {
+        const stored = reloaded.get(id)
+        if (stored) beadsAfter.set(id, stored)
+      }
+    } catch (error) {
+      recordError(result, 'Failed to reload issues from beads', error)
+    }
+  }
+
+  // Closing or reopening rewrites the file as part of the same operation, whatever the direction
+  // (a new closedAt, and a move in or out of closedSubdir)
+  const planned = new Map([...plan.creates, ...plan.updates].map((change) => [change.issueId, change]))
+  for (const id of [...result.created, ...result.updated]) {
+    const stored = beadsAfter.get(id)
+    const change = planned.get(id)
+    if (!stored || !change) continue
+
+    const reopened = change.original?.status === 'closed' && stored.status !== 'closed'
+    const closeChanged = changedFields(stored, change.issue).some((field) => CLOSE_FIELDS.has(field))
+    if (reopened || closeChanged) {
+      toFiles = [...toFiles.filter((i) => i.id !== id), stored]
+    }
+  }
+
+  // Content of every file before this sync touches it, for the journal
+  const filesBefore: Record<string, string | null> = {}
+  const rememberFiles = async (paths: string[]) => {
+    Object.assign(filesBefore, await readFileContents(paths.filter((path) => !(path in filesBefore))))
+  }
+
+  if (fileStore) {
+    await applyToFileStore(fileStore, plan, toFiles, result, filesAfter)
+  } else {
+    await applyToTodoFiles(plan, toFiles, result, filesAfter, rememberFiles, options)
+  }
+
+  // Persist the new merge base
+  try {
+    const nextState = nextSyncState(plan.snapshot.base, beadsAfter, filesAfter)
+
+    // Both sides of a marked conflict have been seen; the beads side becomes the base,
+    // so keeping the file side when resolving the markers counts as a file edit
+    for (const { beads } of markerConflicts) {
+      const { source: _source, custom: _custom, ...base } = beads
+      nextState[beads.id] = base
+    }
+    for (const id of partial) {
+      const stored = beadsAfter.get(id)
+      if (!stored) continue
+      const { source: _source, custom: _custom, ...base } = stored
+      nextState[id] = base
+    }
+
+    await saveSyncState(todoDir, nextState)
+  } catch (error) {
+    recordError(result, 'Failed to write sync state', error)
+  }
+
+  // Journal what this sync changed, so `todo.mdx undo` can revert it
+  try {
+    await journalSync(plan, result, beadsStore, beadsAfter, filesBefore, options)
+  } catch (error) {
+    recordError(result, 'Failed to write sync journal', error)
+  }
+
+  return result
+}
+
+/**
+ * Apply the file side of a sync plan to the .todo directory: delete, write and
+ * move files, and write conflict markers
+ */
+async function applyToTodoFiles(
+  plan: SyncPlan,
+  toFiles: TodoIssue[],
+  result: SyncResult,
+  filesAfter: Map<string, TodoIssue>,
+  rememberFiles: (paths: string[]) => Promise<void>,
+  options: SyncOptions
+): Promise<void> {
+  const { todoDir = '.todo' } = options
+  const generatorOptions = toGeneratorOptions(options)
+  const { markerConflicts } = plan
+  const fileIssues = plan.snapshot.files
+
+  // Delete the files of issues removed from beads
+  await rememberFiles(plan.fileDeletes.map((file) => file.path))
+  for (const file of plan.fileDeletes) {
+    try {
+      if (await deleteTodoFile(file.id, todoDir)) {
+        result.filesDeleted.push(file.path)
+        filesAfter.delete(file.id)
+      }
+    } catch (error) {
+      recordError(result, `Failed to delete ${file.path}`, error, file.id)
     }
   }
 
   // Write changes to files
   if (toFiles.length > 0) {
+    // Carry custom frontmatter fields over from the existing files (beads doesn't store them)
+    const fileMap = new Map(fileIssues.map((issue) => [issue.id, issue]))
+    const issuesToWrite = toFiles.map((issue) => {
+      const custom = fileMap.get(issue.id)?.custom
+      return custom && !issue.custom ? { ...issue, custom } : issue
+    })
+
+    // Related issues are rendered as the files will describe them after this write
+    const writeIds = new Set(issuesToWrite.map((issue) => issue.id))
+    const issues = [...issuesToWrite, ...fileIssues.filter((issue) => !writeIds.has(issue.id))]
+
     try {
-      const writtenPaths = await writeTodoFiles(toFiles, todoDir, generatorOptions)
+      // Renames and moves happen in writeTodoFiles; plan them first to report them
+      const { written, moved } = await planTodoFiles(issuesToWrite, [], todoDir, generatorOptions)
+      await rememberFiles([...written.map((file) => file.path), ...moved.map((move) => move.from)])
+      const writtenPaths = await writeTodoFiles(issuesToWrite, todoDir, { ...generatorOptions, issues })
+      result.filesMoved.push(...moved)
       result.filesWritten.push(...writtenPaths)
+      issuesToWrite.forEach((issue) => filesAfter.set(issue.id, issue))
     } catch (error) {
-      console.warn('Failed to write todo files:', error)
+      recordError(result, 'Failed to write todo files', error)
     }
   }
 
-  return result
+  // Write conflict markers into the files of unresolved conflicts
+  if (markerConflicts.length > 0) {
+    try {
+      const { written, moved } = await planTodoFiles(
+        markerConflicts.map((conflict) => conflict.file),
+        [],
+        todoDir,
+        generatorOptions
+      )
+      await rememberFiles([...written.map((file) => file.path), ...moved.map((move) => move.from)])
+      const writtenPaths = await writeConflictFiles(markerConflicts, todoDir, generatorOptions)
+      result.filesWritten.push(...writtenPaths)
+    } catch (error) {
+      recordError(result, 'Failed to write conflict markers', error)
+    }
+  }
+}
+
+/**
+ * Apply the file side of a sync plan to another files store
+ * filesWritten and filesDeleted list issue IDs, since the store has no paths.
+ */
+async function applyToFileStore(
+  fileStore: IssueStore,
+  plan: SyncPlan,
+  toFiles: TodoIssue[],
+  result: SyncResult,
+  filesAfter: Map<string, TodoIssue>
+): Promise<void> {
+  for (const file of plan.fileDeletes) {
+    try {
+      if (await fileStore.delete(file.id)) {
+        result.filesDeleted.push(file.id)
+        filesAfter.delete(file.id)
+      }
+    } catch (error) {
+      recordError(result, `Failed to delete ${file.id} from ${fileStore.name}`, error, file.id)
+    }
+  }
+
+  for (const issue of toFiles) {
+    const original = filesAfter.get(issue.id)
+    try {
+      const stored = original ? await fileStore.update(issue, original) : await fileStore.create(issue)
+      result.filesWritten.push(issue.id)
+      filesAfter.set(issue.id, stored)
+    } catch (error) {
+      recordError(result, `Failed to write issue ${issue.id} to ${fileStore.name}`, error, issue.id)
+    }
+  }
+}
+
+/**
+ * Append a journal entry for an applied sync
+ * Records the beads state before and after (as reloaded from beads) of every
+ * created or updated issue, and the content before and after of every touched file.
+ */
+async function journalSync(
+  plan: SyncPlan,
+  result: SyncResult,
+  beadsStore: IssueStore,
+  beadsAfter: Map<string, TodoIssue>,
+  filesBefore: Record<string, string | null>,
+  options: SyncOptions
+): Promise<void> {
+  const { todoDir = '.todo' } = options
+  const touchedIds = [...result.created, ...result.updated]
+
+  const issues: JournalIssueChange[] = []
+  if (touchedIds.length > 0) {
+    const originals = new Map(plan.updates.map((change) => [change.issueId, change.original]))
+    const reloaded = new Map((await beadsStore.list()).map((issue) => [issue.id, issue]))
+
+    for (const issueId of touchedIds) {
+      const after = reloaded.get(issueId) ?? beadsAfter.get(issueId)
+      if (!after) continue
+      const change: JournalIssueChange = { issueId, after }
+      const before = originals.get(issueId)
+      if (before) change.before = before
+      issues.push(change)
+    }
+  }
+
+  const filesAfter = await readFileContents(Object.keys(filesBefore))
+  const files: JournalFileChange[] = Object.entries(filesBefore)
+    .map(([path, before]) => ({ path, before, after: filesAfter[path] ?? null }))
+    .filter((file) => file.before !== file.after)
+
+  if (issues.length > 0 || files.length > 0) {
+    await appendJournalEntry(todoDir, { issues, files, syncState: plan.snapshot.base })
+  }
+}
+
+/**
+ * Compute the next merge base after a sync
+ *
+ * Issues that now agree on both sides are recorded as synced. Issues that
+ * still differ (unresolved conflicts, one-way syncs) keep their previous base
+ * so the next sync sees the same changes again.
+ */
+function nextSyncState(
+  previous: Record<string, TodoIssue>,
+  beadsAfter: Map<string, TodoIssue>,
+  filesAfter: Map<string, TodoIssue>
+): Record<string, TodoIssue> {
+  const next: Record<string, TodoIssue> = {}
+  const ids = new Set([...beadsAfter.keys(), ...filesAfter.keys()])
+
+  for (const id of ids) {
+    const beadsIssue = beadsAfter.get(id)
+    const fileIssue = filesAfter.get(id)
+
+    if (beadsIssue && fileIssue && changedFields(beadsIssue, fileIssue).length === 0) {
+      const { source: _source, custom: _custom, ...synced } = fileIssue
+      next[id] = synced
+    } else if (previous[id]) {
+      next[id] = previous[id]
+    }
+  }
+
+  return next
 }
@@ -0,0 +1,214 @@
+/**
+ * Template slot filters
+ *
+ * A slot can pipe its value through filters, left to right:
+ * `{issue.createdAt | date:"yyyy-mm-dd"}`, `{issue.labels | badges}`,
+ * `{issue.description | truncate:200}`. Arguments follow a colon, separated by
+ * commas, quoted or not. Filters that can tell the value back from their text
+ * (`badges`, `links`, `priorityLabel`, an uncut `truncate`) are reversed when a
+ * file is extracted; slots with any other filter are left out of the extraction.
+ *
+ * Projects add their own filters with the `filters` config option.
+ *
+ * @example
+ * ```ts
+ * // todo.config.ts
+ * export default defineConfig({
+ *   filters: {
+ *     initials: (value) => String(value ?? '').split(/[\s-]+/).map((word) => word[0]).join(''),
+ *   },
+ * })
+ * ```
+ */
+
+import type { TemplateFilter, TemplateFilters } from './types.js'
+
+/**
+ * A filter applied to a slot: `truncate:200` → { name: 'truncate', args: ['200'] }
+ */
+export interface FilterCall {
+  name: string
+  args: string[]
+}
+
+/** Priority names, by priority */
+const PRIORITY_LABELS = ['Critical', 'High', 'Medium', 'Low', 'Backlog']
+
+/** Date format tokens: year, month, day, hours, minutes, seconds */
+const DATE_TOKENS = /yyyy|mm|dd|HH|MM|ss/g
+
+/**
+ * A value as text, the way a slot without filters renders it
+ */
+function toText(value: unknown): string {
+  if (value === null || value === undefined) return ''
+  return Array.isArray(value) ? value.join(', ') : String(value)
+}
+
+/**
+ * A value as a list of strings: arrays as is, anything else set as one item
+ */
+function toList(value: unknown): string[] {
+  if (Array.isArray(value)) return value.map(String)
+  return value === null || value === undefined || value === '' ? [] : [String(value)]
+}
+
+/**
+ * Built-in filters
+ */
+export const BUILTIN_FILTERS: Record<string, TemplateFilter> = {
+  /** ISO timestamp in a format of yyyy, mm, dd, HH, MM and ss, in UTC (default: yyyy-mm-dd) */
+  date: {
+    format: (value, format = 'yyyy-mm-dd') => {
+      const date = new Date(toText(value))
+      if (!value || Number.isNaN(date.getTime())) return toText(value)
+      const parts: Record<string, number> = {
+        yyyy: date.getUTCFullYear(),
+        mm: date.getUTCMonth() + 1,
+        dd: date.getUTCDate(),
+        HH: date.getUTCHours(),
+        MM: date.getUTCMinutes(),
+        ss: date.getUTCSeconds(),
+      }
+      return format.replace(DATE_TOKENS, (token) => String(parts[token]).padStart(token.length, '0'))
+    },
+  },
+  /** List as inline code badges: `bug` `urgent` */
+  badges: {
+    format: (value) => toList(value).map((item) => `\`${item}\``).join(' '),
+    parse: (text) => [...text.matchAll(/`([^`]+)`/g)].map((match) => match[1]),
+  },
+  /** Issue IDs as links to their files: [todo-1](./todo-1.md), [todo-2](./todo-2.md) */
+  links: {
+    format: (value) => toList(value).map((id) => `[${id}](./${id}.md)`).join(', '),
+    parse: (text) => [...text.matchAll(/\[([^\]]+)\]\([^)]*\)/g)].map((match) => match[1]),
+  },
+  /** Priority name: Critical, High, Medium, Low, Backlog */
+  priorityLabel: {
+    format: (value) => PRIORITY_LABELS[Number(value)] ?? toText(value),
+    parse: (text) => {
+      const priority = PRIORITY_LABELS.findIndex((label) => label.toLowerCase() === text.trim().toLowerCase())
+      return priority === -1 ? undefined : String(priority)
+    },
+  },
+  upper: {
+    format: (value) => toText(value).toUpperCase(),
+  },
+  lower: {
+    format: (value) => toText(value).toLowerCase(),
+  },
+  /** Cut text to a length, ending with … when cut (default: 80) */
+  truncate: {
+    format: (value, length = '80') => {
+      const text = toText(value)
+      const max = Number(length)
+      return text.length <= max ? text : `${text.slice(0, Math.max(max - 1, 0)).trimEnd()}…`
+    },
+    parse: (text) => (text.endsWith('…') ? undefined : text),
+  },
+}
+
+/**
+ * The built-in filters with custom filters added (custom ones win)
+ *
+ * @param custom - Filters from the `filters` config option
+ * @returns Filters by name
+ */
+export function resolveFilters(custom?: TemplateFilters): Record<string, TemplateFilter> {
+  const filters = { ...BUILTIN_FILTERS }
+  for (const [name, filter] of Object.entries(custom ?? {})) {
+    filters[name] = typeof filter === 'function' ? { format: filter } : filter
+  }
+  return filters
+}
+
+/**
+ * Split text at a separator, except inside quotes
+ */
+function splitUnquoted(text: string, separator: string): string[] {
+  const parts: string[] = []
+  let quote: string | undefined
+  let start = 0
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index]
+    if (quote) {
+      if (char === '\\') index++
+      else if (char === quote) quote = undefined
+    } else if (char === '"' || char === "'") {
+      quote = char
+    } else if (char === separator) {
+      parts.push(text.slice(start, index))
+      start = index + 1
+    }
+  }
+  parts.push(text.slice(start))
+  return parts
+}
+
+/**
+ * Split a slot expression into its path and filters
+ *
+ * @example
+ * ```ts
+ * parseSlotFilters('issue.createdAt | date:"yyyy-mm-dd"')
+ * // { path: 'issue.createdAt', filters: [{ name: 'date', args: ['yyyy-mm-dd'] }] }
+ * ```
+ */
+export function parseSlotFilters(expression: string): { path: string; filters: FilterCall[] } {
+  const [path, ...calls] = splitUnquoted(expression, '|')
+  return {
+    path: path.trim(),
+    filters: calls.map((call) => {
+      const colon = call.indexOf(':')
+      const name = (colon === -1 ? call : call.slice(0, colon)).trim()
+      const args =
+        colon === -1
+          ? []
+          : splitUnquoted(call.slice(colon + 1), ',').map((arg) => {
+              const trimmed = arg.trim()
+              return /^(["']).*\1$/s.test(trimmed) ? trimmed.slice(1, -1).replace(/\\(.)/g, '$1') : trimmed
+            })
+      return { name, args }
+    }),
+  }
+}
+
+/**
+ * Look up a filter by name
+ */
+function getFilter(filters: Record<string, TemplateFilter>, name: string): TemplateFilter {
+  const filter = filters[name]
+  if (!filter) {
+    throw new Error(`Unknown template filter "${name}"; available: ${Object.keys(filters).join(', ')}`)
+  }
+  return filter
+}
+
+/**
+ * Run a value through a slot's filters
+ *
+ * @throws If a filter isn't known
+ */
+export function applyFilters(value: unknown, calls: FilterCall[], filters: Record<string, TemplateFilter>): string {
+  return calls.reduce<unknown>(
+    (current, { name, args }) => getFilter(filters, name).format(current, ...args),
+    value
+  ) as string
+}
+
+/**
+ * Undo a slot's filters on extracted text, last filter first
+ *
+ * @returns The value, or undefined if a filter can't be reversed
+ * @throws If a filter isn't known
+ */
+export function reverseFilters(text: string, calls: FilterCall[], filters: Record<string, TemplateFilter>): unknown {
+  let value: unknown = text
+  for (const { name, args } of [...calls].reverse()) {
+    const filter = getFilter(filters, name)
+    if (typeof value !== 'string' || !filter.parse) return undefined
+    value = filter.parse(value, ...args)
+    if (value === undefined) return undefined
+  }
+  return value
+}
@@ -11,11 +11,15 @@ import {
   type ExtractResult,
   type ExtractDiff,
   type ComponentExtractor,
+  type TemplateSlot,
 } from '@mdxld/extract'
 import { promises as fs } from 'node:fs'
 import { join } from 'node:path'
-import type { TodoIssue } from './types.js'
+import type { TemplateFilter, TemplateFilters, TodoIssue } from './types.js'
+import { applyFilters, parseSlotFilters, resolveFilters, reverseFilters } from './template-filters.js'
+import type { FilterCall } from './template-filters.js'
 import * as issueComponents from './components/issues.js'
+import { createIssueComponents } from './components/issues.js'
 
 // Re-export components for use in templates
 export { issueComponents as components }
@@ -35,12 +39,16 @@ export interface TemplateConfig {
  */
 export interface TemplateContext {
   issue: TodoIssue
+  /** The issue set, for components that show related issues (e.g. `<Issue.Children />`) */
+  issues?: TodoIssue[]
+  /** Custom slot filters, added to the built-in ones */
+  filters?: TemplateFilters
 }
 
 /**
- * Resolve a path like 'issue.title' or 'issue.labels' against a context object
+ * Resolve a path like 'issue.title' or 'stats.total' against a context object
  */
-function resolvePath(path: string, context: TemplateContext): unknown {
+function resolvePath(path: string, context: Record<string, unknown>): unknown {
   const parts = path.split('.')
   let value: any = context
 
@@ -72,6 +80,223 @@ function formatValue(value: unknown): string {
   return String(value)
 }
 
+/**
+ * Anything that can be rendered from a component tag in a template
+ */
+interface RenderableComponent {
+  render: (props: any) => string
+}
+
+/**
+ * Look up a component by its (possibly dotted) tag name, e.g. 'Issues.Blocked'
+ */
+function resolveComponent(
+  name: string,
+  components: unknown
+): RenderableComponent | undefined {
+  if (!components || typeof components !== 'object') {
+    return undefined
+  }
+
+  const component = resolvePath(name, components as Record<string, unknown>)
+  if (component && typeof (component as RenderableComponent).render === 'function') {
+    return component as RenderableComponent
+  }
+
+  return undefined
+}
+
+/**
+ * Parse a JSX-style prop expression (the part inside `{...}`)
+ *
+ * Supports literals (numbers, booleans, null, quoted strings), array and
+ * object literals using single or double quotes, and falls back to
+ * resolving the expression as a path against the render data.
+ */
+function parsePropExpression(expression: string, data: Record<string, unknown>): unknown {
+  const trimmed = expression.trim()
+
+  if (trimmed === 'true') return true
+  if (trimmed === 'false') return false
+  if (trimmed === 'null') return null
+  if (trimmed === 'undefined') return undefined
+  if (/^-?\d+(\.\d+)?$/.test(trimmed)) return Number(trimmed)
+
+  if (/^['"[{]/.test(trimmed)) {
+    // Normalize single-quoted strings and bare object keys to JSON
+    const json = trimmed
+      .replace(/'((?:[^'\\]|\\.)*)'/g, (_, content: string) =>
+        JSON.stringify(content.replace(/\\'/g, "'"))
+      )
+      .replace(/([{,]\s*)([A-Za-z_$][\w$]*)\s*:/g, '$1"$2":')
+    try {
+      return JSON.parse(json)
+    } catch {
+      // Fall through to path resolution
+    }
+  }
+
+  return resolvePath(trimmed, data)
+}
+
+/**
+ * Parse a self-closing component tag like `<Issues.Ready limit={10} columns={['id']} />`
+ * into its name and props
+ */
+function parseComponentTag(
+  raw: string,
+  data: Record<string, unknown>
+): { name: string; props: Record<string, unknown> } | null {
+  const match = raw.match(/^<([A-Z][\w.]*)([\s\S]*?)\/>$/)
+  if (!match) {
+    return null
+  }
+
+  const [, name, attributes] = match
+  const props: Record<string, unknown> = {}
+  const attributePattern =
+    /([A-Za-z_$][\w$-]*)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|\{((?:[^{}]|\{[^{}]*\})*)\}))?/g
+
+  let attr: RegExpExecArray | null
+  while ((attr = attributePattern.exec(attributes)) !== null) {
+    const [, key, doubleQuoted, singleQuoted, expression] = attr
+    if (doubleQuoted !== undefined) {
+      props[key] = doubleQuoted
+    } else if (singleQuoted !== undefined) {
+      props[key] = singleQuoted
+    } else if (expression !== undefined) {
+      props[key] = parsePropExpression(expression, data)
+    } else {
+      // Bare attribute: <Issues compact /> → compact={true}
+      props[key] = true
+    }
+  }
+
+  return { name, props }
+}
+
+/**
+ * A piece of a template: text with slots, or an {#if} or {#each} block
+ */
+type TemplateNode =
+  | { type: 'text'; text: string }
+  | { type: 'if'; condition: string; then: TemplateNode[]; else: TemplateNode[] }
+  | { type: 'each'; path: string; as: string; body: TemplateNode[]; else: TemplateNode[] }
+
+type TemplateBlock = Extract<TemplateNode, { type: 'if' | 'each' }>
+
+/**
+ * Block tags: {#if path}, {#each path as name}, {:else}, {/if}, {/each}
+ * (not escaped ones like {{#if}})
+ */
+const BLOCK_TAG = /(?<!\{)\{(#if|#each|:else|\/if|\/each)(?:\s+([^{}]*?))?\s*\}(?!\})/g
+
+/**
+ * Parse a template into text and {#if}/{#each} blocks
+ *
+ * A block tag alone on its line takes the whole line with it, so blocks don't
+ * leave blank lines behind.
+ *
+ * @throws If the block tags aren't balanced or an {#each} isn't `path as name`
+ */
+function parseBlocks(template: string): TemplateNode[] {
+  const root: TemplateNode[] = []
+  const stack: Array<{ block: TemplateBlock; parent: TemplateNode[] }> = []
+  let current = root
+  let lastEnd = 0
+
+  for (const match of template.matchAll(BLOCK_TAG)) {
+    const [raw, tag, expression = ''] = match
+    let start = match.index!
+    let end = start + raw.length
+
+    const lineStart = template.lastIndexOf('\n', start - 1) + 1
+    const lineEnd = template.indexOf('\n', end)
+    const rest = lineEnd === -1 ? template.slice(end) : template.slice(end, lineEnd)
+    if (!template.slice(lineStart, start).trim() && !rest.trim()) {
+      start = lineStart
+      end = lineEnd === -1 ? template.length : lineEnd + 1
+    }
+
+    if (start > lastEnd) {
+      current.push({ type: 'text', text: template.slice(lastEnd, start) })
+    }
+    lastEnd = end
+
+    const top = stack[stack.length - 1]
+    if (tag === '#if') {
+      const block: TemplateBlock = { type: 'if', condition: expression, then: [], else: [] }
+      current.push(block)
+      stack.push({ block, parent: current })
+      current = block.then
+    } else if (tag === '#each') {
+      const each = expression.match(/^([\w.]+)\s+as\s+([A-Za-z_]\w*)$/)
+      if (!each) {
+        throw new Error(`Invalid template block ${raw}: expected {#each path as name}`)
+      }
+      const block: TemplateBlock = { type: 'each', path: each[1], as: each[2], body: [], else: [] }
+      current.push(block)
+      stack.push({ block, parent: current })
+      current = block.body
+    } else if (tag === ':else') {
+      if (!top || expression || current === top.block.else) {
+        throw new Error(`Unexpected ${raw} in template`)
+      }
+      current = top.block.else
+    } else {
+      if (!top || tag !== `/${top.block.type}`) {
+        throw new Error(`Unexpected ${raw} in template`)
+      }
+      stack.pop()
+      current = top.parent
+    }
+  }
+
+  if (stack.length > 0) {
+    throw new Error(`Unclosed {#${stack[stack.length - 1].block.type}} in template`)
+  }
+  if (lastEnd < template.length) {
+    current.push({ type: 'text', text: template.slice(lastEnd) })
+  }
+  return root
+}
+
+/**
+ * Whether an {#if} condition (`path` or `!path`) holds
+ * A path holds when its value is set: not undefined, null, false, '' or an empty list.
+ */
+function testCondition(condition: string, data: Record<string, unknown>): boolean {
+  const negate = condition.startsWith('!')
+  const value = resolvePath(condition.replace(/^!\s*/, ''), data)
+  const set = Array.isArray(value)
+    ? value.length > 0
+    : value !== undefined && value !== null && value !== false && value !== ''
+  return negate ? !set : set
+}
+
+/**
+ * Render parsed template nodes, evaluating blocks against the data
+ */
+function renderNodes(nodes: TemplateNode[], data: Record<string, unknown>): string {
+  return nodes
+    .map((node) => {
+      if (node.type === 'text') {
+        return renderSlots(node.text, data)
+      }
+      if (node.type === 'if') {
+        return renderNodes(testCondition(node.condition, data) ? node.then : node.else, data)
+      }
+
+      const value = resolvePath(node.path, data)
+      const items = Array.isArray(value) ? value : value === undefined || value === null ? [] : [value]
+      if (items.length === 0) {
+        return renderNodes(node.else, data)
+      }
+      return items.map((item) => renderNodes(node.body, { ...data, [node.as]: item })).join('')
+    })
+    .join('')
+}
+
 /**
  * Render template using @mdxld/markdown-style render() function
  *
@@ -84,15 +309,30 @@ function formatValue(value: unknown): string {
  * - Nested paths: {data.nested.field}
  * - Arrays: {data.items} → "item1, item2" (auto-formatted)
  * - Escaped braces: {{notASlot}} → {notASlot}
- * - Components can be passed in data.components
+ * - Components passed in data.components: <Issues.Ready limit={10} />
+ *   (self-closing tags only; unknown components are left untouched)
+ * - Conditionals: {#if data.field}…{:else}…{/if}, or {#if !data.field}
+ * - Loops: {#each data.items as item}- {item}{:else}None{/each}
+ * - Filters: {data.date | date:"yyyy-mm-dd"}, with custom filters in data.filters
  *
  * @param template - Template string with {path} slots
  * @param data - Data object containing all context (including components)
  * @returns Rendered template string
+ * @throws If the template's block tags aren't balanced, or a slot uses an unknown filter
  */
 export function render(
   template: string,
   data: Record<string, unknown>
+): string {
+  return renderNodes(parseBlocks(template), data)
+}
+
+/**
+ * Render the slots and component tags of block-free template text
+ */
+function renderSlots(
+  template: string,
+  data: Record<string, unknown>
 ): string {
   // Handle escaped double braces first - convert to placeholder
   const DOUBLE_BRACE_PLACEHOLDER = '\u0000DOUBLE_BRACE\u0000'
@@ -103,30 +343,37 @@ export function render(
   // Parse template slots using @mdxld/extract
   const slots = parseTemplateSlots(processed)
 
-  // Filter for expression slots only (ignore components, conditionals, loops)
-  const expressionSlots = slots.filter((slot) => slot.type === 'expression')
+  // Keep expression and component slots (conditionals and loops are ignored)
+  const renderableSlots = slots.filter(
+    (slot) => slot.type === 'expression' || slot.type === 'component'
+  )
 
   // Sort slots by position (reverse order) so we can replace from end to start
   // This prevents position shifts from affecting subsequent replacements
-  const sortedSlots = [...expressionSlots].sort((a, b) => b.start - a.start)
+  const sortedSlots = [...renderableSlots].sort((a, b) => b.start - a.start)
 
   // Replace each slot with its resolved value
   for (const slot of sortedSlots) {
-    // Resolve path against data context
-    const parts = slot.path.split('.')
-    let value: any = data
-
-    for (const part of parts) {
-      if (value === null || value === undefined) {
-        value = undefined
-        break
+    let formatted: string
+
+    if (slot.type === 'component') {
+      // parseTemplateSlots drops dotted names and string props, so re-parse the raw tag
+      const tag = parseComponentTag(slot.raw, data)
+      const component = tag ? resolveComponent(tag.name, data.components) : undefined
+      if (!tag || !component) {
+        continue
       }
-      value = value[part]
+      formatted = component.render(tag.props)
+    } else {
+      // Resolve path against data context, through its filters if it has any
+      const { path, filters } = parseSlotFilters(slot.path)
+      const value = resolvePath(path, data)
+      formatted =
+        filters.length > 0
+          ? applyFilters(value, filters, resolveFilters(data.filters as TemplateFilters | undefined))
+          : formatValue(value)
     }
 
-    // Format the value
-    const formatted = formatValue(value)
-
     // Replace the slot in the template
     processed =
       processed.slice(0, slot.start) +
@@ -165,10 +412,53 @@ export function renderTemplate(
   // Use render() from @mdxld/markdown (implemented above)
   return render(template, {
     ...context,
-    components: issueComponents,
+    components: {
+      ...issueComponents,
+      ...createIssueComponents(context.issue, context.issues),
+    },
   })
 }
 
+/**
+ * Split a template into its configuration frontmatter and body
+ *
+ * Only `$`-prefixed keys (e.g. `$pattern`) configure the template; other
+ * frontmatter keys describe the rendered file and are ignored here.
+ *
+ * @example
+ * ```ts
+ * const { config, body } = parseTemplateFrontmatter('---\n$pattern: "[id].md"\n---\n# {issue.title}')
+ * // config = { $pattern: '[id].md' }, body = '# {issue.title}'
+ * ```
+ *
+ * @param template - Template content, with or without frontmatter
+ * @returns Template config keys and the template body
+ */
+export function parseTemplateFrontmatter(template: string): {
+  config: Record<string, string>
+  body: string
+} {
+  const match = template.match(/^---\s*\n([\s\S]*?)\n---\s*(?:\n|$)/)
+  if (!match) {
+    return { config: {}, body: template }
+  }
+
+  const config: Record<string, string> = {}
+  for (const line of match[1].split('\n')) {
+    const entry = line.match(/^(\$[\w-]+):\s*(.*)$/)
+    if (!entry) continue
+
+    let value = entry[2].trim()
+    if ((value.startsWith('"') && value.endsWith('"')) ||
+        (value.startsWith("'") && value.endsWith("'"))) {
+      value = value.slice(1, -1)
+    }
+    config[entry[1]] = value
+  }
+
+  return { config, body: template.slice(match[0].length) }
+}
+
 /**
  * Built-in minimal issue template
  * Uses {path} slot syntax for interpolation and MDX component syntax
@@ -179,24 +469,34 @@ $pattern: "[id]-[title].md"
 # {issue.title}
 
 **Status:** {issue.status} | **Priority:** {issue.priority} | **Type:** {issue.type}
+{#if issue.assignee}
 
 **Assignee:** @{issue.assignee}
+{/if}
+{#if issue.description}
 
 ## Description
 
 {issue.description}
+{/if}
+{#if issue.labels}
 
 ## Labels
 
 <Issue.Labels />
+{/if}
+{#if issue.dependsOn}
 
 ## Dependencies
 
 <Issue.Dependencies />
+{/if}
+{#if issue.blocks}
 
 ## Blocks
 
 <Issue.Dependents />
+{/if}
 `
 
 /**
@@ -274,7 +574,9 @@ $pattern: "[id]-[title].md"
 - **Status:** \`{issue.status}\`
 - **Priority:** \`{issue.priority}\`
 - **Type:** \`{issue.type}\`
+{#if issue.assignee}
 - **Assignee:** @{issue.assignee}
+{/if}
 
 ## Related Issues
 
@@ -490,12 +792,58 @@ export async function resolveTemplate(
   return getBuiltinTemplate(type, preset)
 }
 
+/**
+ * Resolve the issue template for reading or writing .todo files
+ *
+ * Template rendering is opt-in: returns the given template content, or the
+ * template resolved via resolveTemplate('issue') when a templateDir or
+ * preset is configured, and undefined otherwise.
+ *
+ * @param config - Template configuration, optionally with inline template content
+ * @returns Template content, or undefined if templates are not enabled
+ */
+export async function resolveIssueTemplate(
+  config: TemplateConfig & { template?: string }
+): Promise<string | undefined> {
+  if (config.template !== undefined) {
+    return config.template
+  }
+
+  if (config.templateDir || config.preset) {
+    return resolveTemplate('issue', {
+      templateDir: config.templateDir,
+      preset: config.preset,
+    })
+  }
+
+  return undefined
+}
+
+/**
+ * Result of extractFromMarkdown
+ * Extends @mdxld/extract's ExtractResult with props recovered from component tags
+ */
+export interface TemplateExtractResult<T = Record<string, unknown>> extends ExtractResult<T> {
+  /** Props extracted from component tags, keyed by tag name (e.g. 'Issue.Labels') */
+  components: Record<string, Record<string, unknown>>
+}
+
 /**
  * Extract structured data from rendered markdown using an MDX template
  *
  * This enables bi-directional sync: markdown files can be edited, and changes
  * are extracted back to the original structured data (issue props).
  *
+ * Dotted component tags like `<Issue.Labels />` are matched against the
+ * extractors by their full name, and their props are returned in `components`.
+ *
+ * For a template with {#if} and {#each} blocks, every combination of branches
+ * (and loop item count) is tried and the one matching the most slots wins. Each
+ * {#each} loop is read back as a list: an item is its slot's text, or an object
+ * for slots like `{dep.id}`, and a loop that rendered its {:else} branch extracts
+ * as an empty list. Loops with blocks in their body match any text and aren't
+ * read back.
+ *
  * @example
  * ```ts
  * const template = `# {issue.title}\n\n{issue.description}`
@@ -507,18 +855,332 @@ export async function resolveTemplate(
  * @param template - MDX template with {path} slots
  * @param renderedMarkdown - Rendered markdown (possibly edited)
  * @param components - Optional component extractors for custom components
- * @returns ExtractResult with extracted data, confidence score, and metadata
+ * @param filters - Custom slot filters, as passed to render
+ * @returns ExtractResult with extracted data, confidence score, component props and metadata
  */
 export function extractFromMarkdown<T = Record<string, unknown>>(
   template: string,
   renderedMarkdown: string,
-  components?: Record<string, ComponentExtractor>
-): ExtractResult<T> {
-  return extract<T>({
-    template,
-    rendered: renderedMarkdown,
-    components: components || {},
+  components?: Record<string, ComponentExtractor<unknown>>,
+  filters?: TemplateFilters
+): TemplateExtractResult<T> {
+  const slotFilters = resolveFilters(filters)
+  const nodes = parseBlocks(template)
+  if (nodes.every((node) => node.type === 'text')) {
+    return extractFlatTemplate<T>(template, renderedMarkdown, components || {}, slotFilters)
+  }
+
+  const extractors: Record<string, ComponentExtractor<unknown>> = {
+    ...components,
+    [UNREAD_LOOP]: { extract: () => ({}) },
+  }
+
+  let best: TemplateExtractResult<T> | undefined
+  let bestMatched = -1
+  for (const variant of templateVariants(nodes, renderedMarkdown)) {
+    const result = extractFlatTemplate<T>(variant.template, renderedMarkdown, extractors, slotFilters)
+    const matched = (result.debug?.slots.length ?? 0) - result.unmatched.length
+    if (!best || matched > bestMatched || (matched === bestMatched && result.unmatched.length < best.unmatched.length)) {
+      const data = result.data as Record<string, unknown>
+      for (const [path, count] of variant.loops) {
+        // A loop is only read back if every item is (its slots' filters may not reverse)
+        const items = resolvePath(path, data) as Record<string, unknown> | undefined
+        const values = Array.from({ length: count }, (_, index) => items?.[index])
+        if (values.every((item) => item !== undefined)) {
+          setPath(data, path, values)
+        } else {
+          const parts = path.split('.')
+          const parent = parts.length > 1 ? resolvePath(parts.slice(0, -1).join('.'), data) : data
+          delete (parent as Record<string, unknown> | undefined)?.[parts[parts.length - 1]]
+        }
+      }
+      best = result
+      bestMatched = matched
+    }
+  }
+  return best!
+}
+
+/**
+ * Most variants of a block template tried by extractFromMarkdown
+ */
+const MAX_TEMPLATE_VARIANTS = 256
+
+/**
+ * Most items of an {#each} loop read back by extractFromMarkdown
+ */
+const MAX_LOOP_ITEMS = 50
+
+/**
+ * Data key filtered slots are matched under during extraction
+ */
+const FILTERED_SLOTS = '$filtered'
+
+/**
+ * Placeholder tag for a loop that can't be read back; it matches any text
+ */
+const UNREAD_LOOP = 'TemplateLoop'
+
+/**
+ * The block-free templates a block template can render as, for extraction
+ *
+ * Each {#if} becomes its then or its else branch. Each {#each} becomes its body
+ * repeated once per item, with the loop variable's slots pointing at the item
+ * (`{dep.id}` → `{issue.dependsOn.0.id}`), for every item count up to the number
+ * of lines the body matches, or its else branch; `loops` records the count of
+ * each loop taken. Variants with more items come first.
+ */
+function templateVariants(
+  nodes: TemplateNode[],
+  rendered: string
+): Array<{ template: string; loops: Array<[string, number]> }> {
+  type Variant = { template: string; loops: Array<[string, number]> }
+  let variants: Variant[] = [{ template: '', loops: [] }]
+
+  for (const node of nodes) {
+    let options: Variant[]
+    if (node.type === 'text') {
+      options = [{ template: node.text, loops: [] }]
+    } else if (node.type === 'if') {
+      options = [...templateVariants(node.then, rendered), ...templateVariants(node.else, rendered)]
+    } else {
+      const elseBranch = templateVariants(node.else, rendered).map((variant) => ({
+        ...variant,
+        loops: [[node.path, 0], ...variant.loops] as Array<[string, number]>,
+      }))
+      const body = loopBody(node)
+      if (body === undefined) {
+        options = [{ template: `<${UNREAD_LOOP} />`, loops: [] }, ...elseBranch]
+      } else {
+        const count = Math.min([...rendered.matchAll(loopItemPattern(body))].length, MAX_LOOP_ITEMS)
+        const variable = new RegExp(`\\{\\s*${node.as}((?:\\.\\w+)*)(\\s*\\|[^{}]*)?\\}`, 'g')
+        const item = (index: number) =>
+          body.replace(variable, (_, field: string, filters = '') => `{${node.path}.${index}${field}${filters}}`)
+        options = [
+          ...Array.from({ length: count }, (_, i) => count - i).map((items) => ({
+            template: Array.from({ length: items }, (_, index) => item(index)).join(''),
+            loops: [[node.path, items]] as Array<[string, number]>,
+          })),
+          ...elseBranch,
+        ]
+      }
+    }
+
+    variants = variants
+      .flatMap((variant) =>
+        options.map((option) => ({
+          template: variant.template + option.template,
+          loops: [...variant.loops, ...option.loops],
+        }))
+      )
+      .slice(0, MAX_TEMPLATE_VARIANTS)
+  }
+
+  return variants
+}
+
+/**
+ * The body of an {#each} loop, or undefined if it has blocks of its own
+ */
+function loopBody(loop: Extract<TemplateNode, { type: 'each' }>): string | undefined {
+  if (loop.body.some((node) => node.type !== 'text')) {
+    return undefined
+  }
+  return loop.body.map((node) => (node.type === 'text' ? node.text : '')).join('')
+}
+
+/**
+ * A pattern matching the lines one item of a loop body renders as
+ */
+function loopItemPattern(body: string): RegExp {
+  const text = body.trim()
+  const escape = (literal: string) => literal.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\n+/g, '\\n\\s*')
+
+  let pattern = ''
+  let lastEnd = 0
+  for (const slot of parseTemplateSlots(text).filter((slot) => slot.type === 'expression')) {
+    pattern += escape(text.slice(lastEnd, slot.start)) + '.*?'
+    lastEnd = slot.end
+  }
+  pattern += escape(text.slice(lastEnd))
+  return new RegExp(`^${pattern}$`, 'gm')
+}
+
+/**
+ * Set a dotted path on an object, creating objects along the way
+ */
+function setPath(target: Record<string, unknown>, path: string, value: unknown): void {
+  const parts = path.split('.')
+  let current = target
+  for (const part of parts.slice(0, -1)) {
+    if (typeof current[part] !== 'object' || current[part] === null) {
+      current[part] = {}
+    }
+    current = current[part] as Record<string, unknown>
+  }
+  current[parts[parts.length - 1]] = value
+}
+
+/**
+ * Expression slots of a block-free template that rendered as empty text
+ *
+ * @mdxld/extract needs some text for every expression slot, so a file with an empty
+ * field doesn't match at all. This matches the template with every slot allowed to be
+ * empty and with whitespace loosened (an empty slot alone on its line leaves a blank
+ * line behind, and one at the end of a line loses the space before it when the file is
+ * trimmed), and returns the expression slots that matched nothing.
+ */
+function emptySlots(template: string, rendered: string): TemplateSlot[] {
+  const slots = parseTemplateSlots(template).filter(
+    (slot) => slot.type === 'expression' || slot.type === 'component'
+  )
+  const literal = (text: string) =>
+    text
+      .replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+      .replace(/\s+/g, (space) => (space.includes('\n') ? '\\s*' : '[ \\t]*'))
+
+  let pattern = ''
+  let lastEnd = 0
+  for (const slot of slots) {
+    // A slot sharing its line with other text can't take in the lines around it
+    const before = template.slice(template.lastIndexOf('\n', slot.start - 1) + 1, slot.start)
+    const after = template.slice(slot.end).split('\n', 1)[0]
+    const inline = slot.type === 'expression' && `${before}${after}`.trim() !== ''
+    pattern += literal(template.slice(lastEnd, slot.start)) + (inline ? '([^\\n]*)' : '([\\s\\S]*?)')
+    lastEnd = slot.end
+  }
+  pattern += literal(template.slice(lastEnd))
+
+  const match = rendered.match(new RegExp(`^\\s*${pattern}\\s*$`))
+  if (!match) return []
+  return slots.filter((slot, index) => slot.type === 'expression' && match[index + 1].trim() === '')
+}
+
+/**
+ * extractFromMarkdown() for a template without blocks
+ */
+function extractFlatTemplate<T>(
+  template: string,
+  renderedMarkdown: string,
+  extractors: Record<string, ComponentExtractor<unknown>>,
+  filters: Record<string, TemplateFilter>
+): TemplateExtractResult<T> {
+  // Slots with filters are matched under placeholder paths, then their filters are reversed
+  const filteredSlots = parseTemplateSlots(template).filter(
+    (slot) => slot.type === 'expression' && slot.path.includes('|')
+  )
+  const filtered = filteredSlots.map((slot) => {
+    const { path, filters: calls } = parseSlotFilters(slot.path)
+    return { expression: slot.path, path, calls }
   })
+  let matchTemplate = template
+  for (let index = filteredSlots.length - 1; index >= 0; index--) {
+    const { start, end } = filteredSlots[index]
+    matchTemplate = `${matchTemplate.slice(0, start)}{${FILTERED_SLOTS}.${index}}${matchTemplate.slice(end)}`
+  }
+
+  // The extraction pattern isn't anchored at the end, so a trailing component
+  // would lazily match nothing; a shared end marker anchors it
+  const END_MARKER = '\n\u0000END\u0000'
+  const extractRendered = (flatTemplate: string, rendered: string) =>
+    extract<T>({
+      template: flatTemplate.trimEnd() + END_MARKER,
+      rendered: rendered + END_MARKER,
+      components: extractors as Record<string, ComponentExtractor>,
+    })
+  const extractBody = (flatTemplate: string) => {
+    const result = extractRendered(flatTemplate, renderedMarkdown.trimEnd())
+
+    // A trailing component that rendered empty loses the whitespace before it when the
+    // file is trimmed, so try again with the template's separator put back
+    const trailingGap = flatTemplate.trimEnd().match(/(\s+)<[A-Z][^<>]*\/>$/)?.[1]
+    if (trailingGap && result.unmatched.length > 0) {
+      const retry = extractRendered(flatTemplate, renderedMarkdown.trimEnd() + trailingGap)
+      if (retry.unmatched.length < result.unmatched.length) {
+        return retry
+      }
+    }
+    return result
+  }
+  let result = extractBody(matchTemplate)
+
+  // Empty fields leave their slots nothing to match, so try again without those slots;
+  // they count as matched, with empty values
+  let empty: TemplateSlot[] = []
+  if (!result.debug?.matched || result.unmatched.length > 0) {
+    const slots = emptySlots(matchTemplate.trimEnd(), renderedMarkdown.trimEnd())
+    const withoutEmpty = slots.reduceRight(
+      (text, slot) => `${text.slice(0, slot.start)}${text.slice(slot.end)}`,
+      matchTemplate
+    )
+    const retry = slots.length > 0 ? extractBody(withoutEmpty) : undefined
+    if (retry?.debug?.matched && retry.unmatched.length < result.unmatched.length) {
+      result = retry
+      empty = slots
+    }
+  }
+
+  // @mdxld/extract only knows the first segment of a component name ('Issue'),
+  // so resolve dotted tags against the extractors ourselves
+  const componentProps: Record<string, Record<string, unknown>> = {}
+  const unmatched = [...result.unmatched]
+  const groups = result.debug?.groups
+
+  if (groups) {
+    result.debug!.slots
+      .filter((slot) => slot.type === 'component' || slot.type === 'expression')
+      .forEach((slot, index) => {
+        if (slot.type !== 'component' || !slot.componentName) return
+
+        const name = slot.raw.match(/^<([A-Z][\w.]*)/)?.[1]
+        const extractor = name ? extractors[name] : undefined
+        const content = groups[`component_${slot.componentName.toLowerCase()}_${index}`]
+        if (!name || name === slot.componentName || !extractor || content === undefined) return
+
+        const extracted = extractor.extract(content.trim())
+        if (extracted) {
+          componentProps[name] = extracted as Record<string, unknown>
+          const unmatchedIndex = unmatched.indexOf(`<${slot.componentName} />`)
+          if (unmatchedIndex !== -1) {
+            unmatched.splice(unmatchedIndex, 1)
+          }
+        }
+      })
+  }
+
+  for (const slot of empty) {
+    setPath(result.data as Record<string, unknown>, slot.path, '')
+  }
+
+  if (filtered.length > 0) {
+    const data = result.data as Record<string, unknown>
+    const texts = data[FILTERED_SLOTS] as Record<string, string> | undefined
+    delete data[FILTERED_SLOTS]
+    filtered.forEach(({ expression, path, calls }, index) => {
+      const text = texts?.[index]
+      const value = text === undefined ? undefined : reverseFilters(text, calls, filters)
+      if (value !== undefined) {
+        setPath(data, path, value)
+      }
+      const unmatchedIndex = unmatched.indexOf(`${FILTERED_SLOTS}.${index}`)
+      if (unmatchedIndex !== -1) {
+        unmatched[unmatchedIndex] = expression
+      }
+    })
+  }
+
+  // Report every slot of the template, the empty ones included
+  const debug = result.debug && empty.length > 0 ? { ...result.debug, slots: parseTemplateSlots(matchTemplate) } : result.debug
+  const totalSlots = debug?.slots.length ?? 0
+  const confidence = totalSlots > 0 ? (totalSlots - unmatched.length) / totalSlots : result.confidence
+
+  return {
+    ...result,
+    confidence,
+    unmatched,
+    debug,
+    components: componentProps,
+  }
 }
 
 /**
@@ -14,16 +14,79 @@ export interface TodoConfig {
   beads?: boolean
   /** Path to .beads directory (auto-detected if not specified) */
   beadsDir?: string
+  /**
+   * How to write to beads: 'bd' runs the beads CLI, 'jsonl' edits .beads/issues.jsonl
+   * directly, 'auto' (default) uses bd when it's on the PATH and jsonl otherwise
+   */
+  beadsBackend?: 'auto' | 'bd' | 'jsonl'
   /** Directory for .todo/*.md files (default: '.todo') */
   todoDir?: string
   /** Template directory for issue templates (default: '.mdx') */
   templateDir?: string
-  /** File pattern for .todo/*.md files (default: '{id}-{title}.md') */
+  /** Built-in template preset used when no custom template exists (default: 'minimal') */
+  preset?: 'minimal' | 'detailed' | 'github' | 'linear'
+  /** Filename pattern for .todo/*.md files, as sync's `pattern` (default: the issue template's $pattern, else '[yyyy-mm-dd] [Title].md') */
   filePattern?: string
+  /** Subdirectory for closed issues (default: 'closed') */
+  closedSubdir?: string
+  /** Whether to separate closed issues into subdirectory (default: true) */
+  separateClosed?: boolean
   /** Watch for changes and auto-sync */
   watch?: boolean
-  /** Conflict resolution strategy */
-  conflictStrategy?: 'beads-wins' | 'file-wins' | 'newest-wins'
+  /** Conflict resolution strategy ('markers' writes git-style conflict markers into .todo files) */
+  conflictStrategy?: 'beads-wins' | 'file-wins' | 'newest-wins' | 'markers'
+  /**
+   * Stores to use instead of beads and the .todo directory
+   * sync() reconciles `beads` with `files`; `direction` keeps these names.
+   */
+  stores?: {
+    beads?: IssueStore
+    files?: IssueStore
+  }
+  /** Custom template slot filters, by name: `{issue.assignee | initials}` */
+  filters?: TemplateFilters
+}
+
+/**
+ * A template slot filter: `{issue.createdAt | date:"yyyy-mm-dd"}`
+ * `format` turns a slot's value into text; `parse` turns that text back into the
+ * value when a file is extracted, and is left out (or returns undefined) when
+ * the text doesn't say what the value was.
+ */
+export interface TemplateFilter {
+  /** Format a value; args are the filter's arguments (`truncate:200` → ['200']) */
+  format(value: unknown, ...args: string[]): string
+  /** Recover the value from formatted text, or undefined if it can't be recovered */
+  parse?(text: string, ...args: string[]): unknown
+}
+
+/**
+ * Template slot filters by name; a plain function is a filter without `parse`
+ */
+export type TemplateFilters = Record<string, TemplateFilter | ((value: unknown, ...args: string[]) => string)>
+
+/**
+ * A place issues are kept: beads, the .todo directory, another tracker, memory
+ * sync() reconciles two stores; compile() and watch() read from them.
+ */
+export interface IssueStore {
+  /** Store name, for messages */
+  readonly name: string
+  /** List every issue */
+  list(): Promise<TodoIssue[]>
+  /** Get an issue by ID */
+  get(id: string): Promise<TodoIssue | undefined>
+  /** Create an issue and return it as stored (e.g. with closedAt set); throws on failure */
+  create(issue: TodoIssue): Promise<TodoIssue>
+  /**
+   * Update an issue and return it as stored; throws on failure
+   * `original` is the stored version the update is computed against (looked up if omitted).
+   */
+  update(issue: TodoIssue, original?: TodoIssue): Promise<TodoIssue>
+  /** Delete an issue; returns false if it doesn't exist */
+  delete(id: string): Promise<boolean>
+  /** Call `onChange` when the store changes; resolves once watching */
+  watch?(onChange: (path?: string) => void): Promise<{ close(): Promise<void> }>
 }
 
 /**
@@ -36,6 +99,20 @@ export interface ParsedTodoFile {
   content: string
   /** Extracted issue data */
   issue: TodoIssue
+  /** Outcome of template-aware body extraction (only when parsed with a template) */
+  extraction?: TemplateExtraction
+}
+
+/**
+ * Outcome of extracting issue fields from a templated .todo/*.md body
+ */
+export interface TemplateExtraction {
+  /** Extraction confidence (0-1) */
+  confidence: number
+  /** Template slots that couldn't be matched */
+  unmatched: string[]
+  /** Whether extracted fields were applied (false means the frontmatter parse was used) */
+  applied: boolean
 }
 
 /**
@@ -54,12 +131,16 @@ export interface TodoIssue {
   createdAt?: string
   updatedAt?: string
   closedAt?: string
+  /** Why the issue was closed (beads `close_reason`) */
+  closeReason?: string
   dependsOn?: string[]
   blocks?: string[]
   parent?: string
   children?: string[]
   /** Source of this issue */
   source?: 'beads' | 'file'
+  /** Frontmatter fields not known to todo.mdx, preserved across sync */
+  custom?: Record<string, unknown>
 }
 
 /**
@@ -78,6 +159,20 @@ export interface TemplateFrontmatter {
   [key: string]: unknown
 }
 
+/**
+ * Issue counts exposed to TODO templates as {stats.*}
+ */
+export interface TodoStats {
+  total: number
+  open: number
+  inProgress: number
+  /** Unclosed issues waiting on unclosed issues, or marked blocked */
+  blocked: number
+  closed: number
+  /** Open issues with nothing blocking them */
+  ready: number
+}
+
 /**
  * Result of compilation
  */
@@ -88,6 +183,79 @@ export interface CompileResult {
   files: string[]
   /** Issues used in compilation */
   issues: TodoIssue[]
+  /** Issue counts used to render the template */
+  stats: TodoStats
+}
+
+/**
+ * A .todo file renamed or moved to a new path
+ */
+export interface TodoFileMove {
+  /** Issue ID */
+  id: string
+  /** Previous path */
+  from: string
+  /** New path */
+  to: string
+}
+
+/**
+ * A field changed by a planned sync write
+ */
+export interface SyncFieldChange {
+  /** Field name */
+  field: string
+  /** Current value (undefined for new issues) */
+  before: unknown
+  /** Value after the sync */
+  after: unknown
+}
+
+/**
+ * A planned write of one issue, to beads or to its file
+ */
+export interface SyncIssueChange {
+  /** Issue ID */
+  issueId: string
+  /** The issue as it will be written */
+  issue: TodoIssue
+  /** The issue as it is now (absent for new issues) */
+  original?: TodoIssue
+  /** Changed fields with their before/after values */
+  changes: SyncFieldChange[]
+  /** Path of the file to write (file writes only; the issue ID when `stores.files` is another store) */
+  path?: string
+}
+
+/**
+ * Everything a sync will do, computed before anything executes
+ * Plain data, so it can be reviewed (or saved as JSON) and then applied with `sync({ plan })`.
+ */
+export interface SyncPlan {
+  /** Issues to create in beads */
+  creates: SyncIssueChange[]
+  /** Issues to update in beads */
+  updates: SyncIssueChange[]
+  /** Issue files to write */
+  fileWrites: SyncIssueChange[]
+  /** Files to rename or move */
+  fileMoves: TodoFileMove[]
+  /** Files to delete because their issue was removed from beads (path is the issue ID for another files store) */
+  fileDeletes: Array<{ id: string; path: string }>
+  /** Conflicts, with how each will be resolved */
+  conflicts: SyncConflict[]
+  /** Beads and file versions of conflicts to write with conflict markers */
+  markerConflicts: Array<{ beads: TodoIssue; file: TodoIssue }>
+  /** Issues deleted (with handleDeletions) */
+  deleted: string[]
+  /** Issues skipped because their files still contain conflict markers */
+  unresolved: string[]
+  /** Issues and merge base the plan was computed from, used to record the next merge base */
+  snapshot: {
+    beads: TodoIssue[]
+    files: TodoIssue[]
+    base: Record<string, TodoIssue>
+  }
 }
 
 /**
@@ -100,10 +268,29 @@ export interface SyncResult {
   updated: string[]
   /** Issues deleted from beads */
   deleted: string[]
-  /** Files generated/updated */
+  /** Files generated/updated (issue IDs when `stores.files` is another store) */
   filesWritten: string[]
+  /** Files renamed or moved because their computed path changed */
+  filesMoved: TodoFileMove[]
+  /** Files deleted because their issue was removed from beads (issue IDs when `stores.files` is another store) */
+  filesDeleted: string[]
   /** Conflicts detected */
   conflicts: SyncConflict[]
+  /** Issues skipped because their files still contain conflict markers (ID, or path if unreadable) */
+  unresolved: string[]
+  /** Steps that failed; the rest of the sync still ran */
+  errors: SyncError[]
+  /** The plan that was applied, or on dry runs, would be */
+  plan?: SyncPlan
+}
+
+/**
+ * A failed step of a sync
+ */
+export interface SyncError {
+  /** Issue the step was for, if it was for one */
+  issueId?: string
+  message: string
 }
 
 /**
@@ -111,10 +298,28 @@ export interface SyncResult {
  */
 export interface SyncConflict {
   issueId: string
+  /** First conflicting field (see `fields` for all of them) */
+  field: string
+  beadsValue: unknown
+  fileValue: unknown
+  /** Every field changed differently on both sides since the last sync */
+  fields: SyncFieldConflict[]
+  /**
+   * How the conflict was resolved ('resolved' = chosen field by field via `onConflict`,
+   * 'markers' = conflict markers written into the file)
+   */
+  resolution: 'beads-wins' | 'file-wins' | 'resolved' | 'markers' | 'manual'
+}
+
+/**
+ * A single conflicting field
+ */
+export interface SyncFieldConflict {
   field: string
+  /** Last-synced value (undefined when there is no sync state for the issue) */
+  baseValue: unknown
   beadsValue: unknown
   fileValue: unknown
-  resolution: 'beads-wins' | 'file-wins' | 'manual'
 }
 
 /**
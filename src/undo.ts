@@ -0,0 +1,263 @@
+/**
+ * Undo applied syncs from the sync journal
+ *
+ * Each undo step reverts the newest journal entry: files get their previous
+ * content back, beads issues their previous state (created issues are deleted),
+ * and the sync state its previous merge base. A step is refused, before anything
+ * is reverted, when an issue or file it touched has changed since that sync.
+ */
+
+import type { UpdateOptions } from 'beads-workflows'
+import { resolveBeadsBackend } from './beads-backend.js'
+import type { BeadsBackend } from './beads-backend.js'
+import {
+  loadJournal,
+  readFileContents,
+  removeJournalEntry,
+  restoreFileContent,
+} from './journal.js'
+import type { JournalEntry, JournalIssueChange } from './journal.js'
+import { saveSyncState } from './sync-state.js'
+import { createBeadsStore } from './stores.js'
+import { changedFields } from './sync.js'
+import { diffDependencies } from './issue-changes.js'
+import type { IssueStore, TodoConfig, TodoIssue } from './types.js'
+
+/**
+ * Options for undo
+ */
+export interface UndoOptions {
+  /** Directory containing .todo/*.md files (default: '.todo') */
+  todoDir?: string
+  /** Directory to run bd in (defaults to cwd) */
+  beadsDir?: string
+  /** Number of syncs to undo, newest first (default: 1) */
+  steps?: number
+  /** How to write to beads (default: 'auto') */
+  beadsBackend?: TodoConfig['beadsBackend']
+  /** Issue stores the syncs were run with; issues are restored in the beads store */
+  stores?: TodoConfig['stores']
+}
+
+/**
+ * Result of undo
+ */
+export interface UndoResult {
+  /** Journal entries undone, newest first */
+  entries: string[]
+  /** Beads issues restored (or deleted, if the sync created them) */
+  issues: string[]
+  /** Files restored (or deleted, if the sync created them) */
+  files: string[]
+}
+
+/**
+ * Describe what changed since a journaled sync, for the refusal message
+ */
+async function findModifications(entry: JournalEntry, beadsStore: IssueStore): Promise<string[]> {
+  const modified: string[] = []
+
+  if (entry.issues.length > 0) {
+    const current = new Map((await beadsStore.list()).map((issue) => [issue.id, issue]))
+    for (const { issueId, after } of entry.issues) {
+      const issue = current.get(issueId)
+      if (!issue || changedFields(issue, after).length > 0) {
+        modified.push(`beads issue ${issueId}`)
+      }
+    }
+  }
+
+  const contents = await readFileContents(entry.files.map((file) => file.path))
+  for (const file of entry.files) {
+    if ((contents[file.path] ?? null) !== file.after) {
+      modified.push(file.path)
+    }
+  }
+
+  return modified
+}
+
+/**
+ * Describe what restoring a journaled sync didn't put back (e.g. a field beads ignored)
+ * closedAt isn't compared, since closing again stamps a new one.
+ */
+async function findUnrestored(entry: JournalEntry, beadsStore: IssueStore): Promise<string[]> {
+  const unrestored: string[] = []
+
+  if (entry.issues.length > 0) {
+    const current = new Map((await beadsStore.list()).map((issue) => [issue.id, issue]))
+    for (const { issueId, before } of entry.issues) {
+      const issue = current.get(issueId)
+      const restored = before
+        ? issue !== undefined && changedFields(issue, before).every((field) => field === 'closedAt')
+        : issue === undefined
+      if (!restored) {
+        unrestored.push(`beads issue ${issueId}`)
+      }
+    }
+  }
+
+  const contents = await readFileContents(entry.files.map((file) => file.path))
+  for (const file of entry.files) {
+    if ((contents[file.path] ?? null) !== file.before) {
+      unrestored.push(file.path)
+    }
+  }
+
+  return unrestored
+}
+
+/**
+ * Convert an issue to beads update options
+ * Closed status is left to bd close/reopen. Empty fields are sent as '' and [] so
+ * they're cleared, since beads leaves undefined fields unchanged.
+ */
+function toRestoreOptions(issue: TodoIssue): UpdateOptions {
+  return {
+    title: issue.title,
+    status: issue.status === 'closed' ? undefined : issue.status === 'blocked' ? 'open' : issue.status,
+    priority: issue.priority,
+    description: issue.description ?? '',
+    assignee: issue.assignee ?? '',
+    labels: issue.labels ?? [],
+  }
+}
+
+/**
+ * Throw if a beads command failed
+ */
+function ensureSuccess(action: string, commandResult: { success: boolean; error?: string }): void {
+  if (!commandResult.success) {
+    throw new Error(`Failed to ${action}: ${commandResult.error}`)
+  }
+}
+
+/**
+ * Put one beads issue back to its state before the sync
+ */
+async function restoreIssue(
+  change: JournalIssueChange,
+  backend: BeadsBackend,
+  beadsDir: string | undefined
+): Promise<void> {
+  const { issueId, before, after } = change
+
+  if (!before) {
+    ensureSuccess(`delete ${issueId}`, await backend.deleteIssue(issueId, beadsDir))
+    return
+  }
+
+  const wasClosed = before.status === 'closed'
+  const isClosed = after.status === 'closed'
+
+  if (isClosed && !wasClosed) {
+    ensureSuccess(`reopen ${issueId}`, await backend.reopenIssue(issueId, beadsDir))
+  }
+
+  ensureSuccess(`update ${issueId}`, await backend.updateIssue(issueId, toRestoreOptions(before), beadsDir))
+
+  if (wasClosed && !isClosed) {
+    ensureSuccess(`close ${issueId}`, await backend.closeIssue(issueId, before.closeReason, beadsDir))
+  }
+
+  const { add, remove } = diffDependencies(before, after)
+  for (const edge of remove) {
+    ensureSuccess(
+      `remove dependency ${edge.issueId} -> ${edge.dependsOnId}`,
+      await backend.removeDependency(edge.issueId, edge.dependsOnId, beadsDir)
+    )
+  }
+  for (const edge of add) {
+    ensureSuccess(
+      `add dependency ${edge.issueId} -> ${edge.dependsOnId}`,
+      await backend.addDependency(edge.issueId, edge.dependsOnId, edge.type, beadsDir)
+    )
+  }
+}
+
+/**
+ * Put one issue back to its state before the sync, in a store other than beads
+ */
+async function restoreInStore(change: JournalIssueChange, store: IssueStore): Promise<void> {
+  const { issueId, before, after } = change
+
+  if (!before) {
+    await store.delete(issueId)
+    return
+  }
+  await store.update(before, after)
+}
+
+/**
+ * Undo the most recent applied syncs
+ *
+ * @param options - Todo and beads directories, and how many syncs to undo
+ * @returns What was restored
+ * @throws If the journal has fewer entries than requested, an item was modified after its sync,
+ *   or an item couldn't be restored
+ *
+ * @example
+ * ```ts
+ * const result = await undo({ steps: 2 })
+ * console.log(`Restored ${result.files.length} files`)
+ * ```
+ */
+export async function undo(options: UndoOptions = {}): Promise<UndoResult> {
+  const { todoDir = '.todo', beadsDir, steps = 1, beadsBackend } = options
+
+  if (!Number.isInteger(steps) || steps < 1) {
+    throw new Error(`Invalid steps: ${steps}. Must be a positive integer`)
+  }
+
+  const journal = await loadJournal(todoDir)
+  if (journal.length === 0) {
+    throw new Error('Nothing to undo: the sync journal is empty')
+  }
+  if (steps > journal.length) {
+    throw new Error(`Cannot undo ${steps} syncs: the journal has ${journal.length}`)
+  }
+
+  // The default beads store is restored through the backend, failing on any error
+  const customStore = options.stores?.beads
+  const beadsStore = customStore ?? createBeadsStore({ beadsDir, beadsBackend })
+  const backend = customStore ? undefined : await resolveBeadsBackend(beadsBackend)
+  const result: UndoResult = { entries: [], issues: [], files: [] }
+
+  for (const entry of journal.slice(-steps).reverse()) {
+    const modified = await findModifications(entry, beadsStore)
+    if (modified.length > 0) {
+      const undone = result.entries.length > 0 ? ` (${result.entries.length} newer syncs were undone)` : ''
+      throw new Error(
+        `Cannot undo sync ${entry.id}: modified since then${undone}:\n  ${modified.join('\n  ')}`
+      )
+    }
+
+    // Revert in reverse order of the sync's writes
+    for (const file of [...entry.files].reverse()) {
+      await restoreFileContent(file.path, file.before)
+      result.files.push(file.path)
+    }
+    for (const change of [...entry.issues].reverse()) {
+      if (backend) {
+        await restoreIssue(change, backend, beadsDir)
+      } else {
+        await restoreInStore(change, beadsStore)
+      }
+      result.issues.push(change.issueId)
+    }
+
+    // Don't report the sync as undone, or reset its merge base, while anything still differs
+    const unrestored = await findUnrestored(entry, beadsStore)
+    if (unrestored.length > 0) {
+      throw new Error(
+        `Could not fully undo sync ${entry.id}; its journal entry is kept:\n  ${unrestored.join('\n  ')}`
+      )
+    }
+
+    await saveSyncState(todoDir, entry.syncState)
+    await removeJournalEntry(todoDir, entry.id)
+    result.entries.push(entry.id)
+  }
+
+  return result
+}
@@ -4,6 +4,7 @@
  * This module provides a file watcher that monitors changes to:
  * - .beads/issues.jsonl (beads issue tracker)
  * - .todo/*.md files (markdown files with YAML frontmatter)
+ * or to the issue stores given in `stores`.
  *
  * Features:
  * - Debounced file watching to avoid sync storms from rapid changes
@@ -28,8 +29,8 @@
  * ```
  */
 
-import chokidar from 'chokidar'
 import { sync } from './sync.js'
+import { createBeadsStore, createTodoStore } from './stores.js'
 import type { TodoConfig, WatchEvent } from './types.js'
 import { findBeadsDir } from 'beads-workflows'
 import { resolve } from 'node:path'
@@ -58,8 +59,7 @@ export interface Watcher {
  * Internal watcher state
  */
 interface WatcherState {
-  beadsWatcher?: ReturnType<typeof chokidar.watch>
-  todoWatcher?: ReturnType<typeof chokidar.watch>
+  watchers: Array<{ close(): Promise<void> }>
   debounceTimer?: NodeJS.Timeout
   isReady: boolean
   isSyncing: boolean
@@ -80,11 +80,13 @@ export async function watch(options: WatchOptions = {}): Promise<Watcher> {
     onChange,
     onError,
     conflictStrategy = 'newest-wins',
+    stores,
+    ...config
   } = options
 
-  // Resolve beads directory
-  const resolvedBeadsDir = beadsDir || (await findBeadsDir(process.cwd()))
-  if (!resolvedBeadsDir) {
+  // Resolve beads directory (not needed when another beads store is given)
+  const resolvedBeadsDir = stores?.beads ? beadsDir : beadsDir || (await findBeadsDir(process.cwd())) || undefined
+  if (!stores?.beads && !resolvedBeadsDir) {
     throw new Error('No .beads directory found. Run "bd init" first.')
   }
 
@@ -93,6 +95,7 @@ export async function watch(options: WatchOptions = {}): Promise<Watcher> {
 
   // State for managing watchers and debouncing
   const state: WatcherState = {
+    watchers: [],
     isReady: false,
     isSyncing: false,
   }
@@ -132,11 +135,13 @@ export async function watch(options: WatchOptions = {}): Promise<Watcher> {
           await Promise.resolve(onChange(event))
         }
 
-        // Perform sync
+        // Perform sync with the rest of the config (pattern, closedSubdir, preset, templateDir, filters...)
         await sync({
+          ...config,
           beadsDir: resolvedBeadsDir,
           todoDir: resolvedTodoDir,
           conflictStrategy,
+          ...(stores && { stores }),
         })
       } catch (error) {
         // Handle error with custom callback or default to console.error
@@ -158,73 +163,26 @@ export async function watch(options: WatchOptions = {}): Promise<Watcher> {
     }, debounceMs)
   }
 
-  // Watch .beads/issues.jsonl
-  const beadsPath = resolve(resolvedBeadsDir, 'issues.jsonl')
-  state.beadsWatcher = chokidar.watch(beadsPath, {
-    persistent: true,
-    ignoreInitial: true,
-    awaitWriteFinish: {
-      stabilityThreshold: 100,
-      pollInterval: 50,
-    },
-  })
-
-  state.beadsWatcher.on('change', (path: string) => {
-    triggerSync({
-      type: 'beads-change',
-      path,
-    })
-  })
-
-  state.beadsWatcher.on('error', (error: unknown) => {
-    console.error('Beads watcher error:', error)
-  })
-
-  // Watch .todo/*.md files
-  const todoPattern = resolve(resolvedTodoDir, '*.md')
-  state.todoWatcher = chokidar.watch(todoPattern, {
-    persistent: true,
-    ignoreInitial: true,
-    awaitWriteFinish: {
-      stabilityThreshold: 100,
-      pollInterval: 50,
-    },
-  })
-
-  state.todoWatcher.on('add', (path: string) => {
-    triggerSync({
-      type: 'file-change',
-      path,
-    })
-  })
-
-  state.todoWatcher.on('change', (path: string) => {
-    triggerSync({
-      type: 'file-change',
-      path,
-    })
-  })
-
-  state.todoWatcher.on('unlink', (path: string) => {
-    triggerSync({
-      type: 'file-change',
-      path,
+  // Watch beads first, then the files, and sync whenever either changes
+  const beadsStore =
+    stores?.beads ?? createBeadsStore({ beadsDir: resolvedBeadsDir, beadsBackend: options.beadsBackend })
+  const fileStore =
+    stores?.files ??
+    createTodoStore({
+      todoDir: resolvedTodoDir,
+      pattern: config.filePattern,
+      closedSubdir: config.closedSubdir,
+      separateClosed: config.separateClosed,
+      templateDir: config.templateDir,
+      preset: config.preset,
+      filters: config.filters,
     })
-  })
 
-  state.todoWatcher.on('error', (error: unknown) => {
-    console.error('Todo watcher error:', error)
-  })
+  const beadsWatcher = await beadsStore.watch?.((path) => triggerSync({ type: 'beads-change', path }))
+  if (beadsWatcher) state.watchers.push(beadsWatcher)
 
-  // Wait for both watchers to be ready
-  await Promise.all([
-    new Promise<void>((resolve) => {
-      state.beadsWatcher!.on('ready', () => resolve())
-    }),
-    new Promise<void>((resolve) => {
-      state.todoWatcher!.on('ready', () => resolve())
-    }),
-  ])
+  const fileWatcher = await fileStore.watch?.((path) => triggerSync({ type: 'file-change', path }))
+  if (fileWatcher) state.watchers.push(fileWatcher)
 
   state.isReady = true
 
@@ -247,11 +205,8 @@ export async function watch(options: WatchOptions = {}): Promise<Watcher> {
       // Clear any pending events
       state.pendingEvent = undefined
 
-      // Close both watchers
-      await Promise.all([
-        state.beadsWatcher?.close(),
-        state.todoWatcher?.close(),
-      ])
+      // Close the store watchers
+      await Promise.all(state.watchers.map((storeWatcher) => storeWatcher.close()))
     },
   }
 }
@@ -0,0 +1,250 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdtemp, mkdir, rm, readFile, writeFile, utimes, readdir } from 'fs/promises'
+import { join } from 'path'
+import { tmpdir } from 'os'
+import { jsonlBackend } from '../src/beads-jsonl.js'
+import { resolveBeadsBackend, bdBackend } from '../src/beads-backend.js'
+import { loadBeadsIssues } from '../src/beads.js'
+import { sync } from '../src/sync.js'
+import { createTodoStore } from '../src/stores.js'
+
+describe('jsonl beads backend', () => {
+  let projectDir: string
+  let issuesPath: string
+
+  const existing = [
+    '{"id":"proj-a1","title":"First","status":"open","priority":1,"issue_type":"task","created_at":"2025-01-01T00:00:00Z","updated_at":"2025-01-01T00:00:00Z","design":"Keep me","notes":"Custom"}',
+    'not json',
+    '{"id":"proj-b2","title":"Second","status":"closed","priority":2,"issue_type":"bug","created_at":"2025-01-01T00:00:00Z","updated_at":"2025-01-02T00:00:00Z","closed_at":"2025-01-02T00:00:00Z","close_reason":"Fixed"}',
+  ]
+
+  const readRecords = async () =>
+    (await readFile(issuesPath, 'utf-8'))
+      .split('\n')
+      .filter((line) => line.startsWith('{'))
+      .map((line) => JSON.parse(line) as Record<string, any>)
+
+  beforeEach(async () => {
+    projectDir = await mkdtemp(join(tmpdir(), 'todo-beads-jsonl-'))
+    await mkdir(join(projectDir, '.beads'))
+    issuesPath = join(projectDir, '.beads', 'issues.jsonl')
+    await writeFile(issuesPath, existing.join('\n') + '\n')
+  })
+
+  afterEach(async () => {
+    await rm(projectDir, { recursive: true, force: true })
+  })
+
+  it('should update an issue, keeping unknown fields and untouched lines as-is', async () => {
+    const result = await jsonlBackend.updateIssue('proj-a1', { title: 'Renamed', priority: 0 }, projectDir)
+
+    expect(result.success).toBe(true)
+    const lines = (await readFile(issuesPath, 'utf-8')).split('\n')
+    expect(lines[1]).toBe('not json')
+    expect(lines[2]).toBe(existing[2])
+
+    const [updated] = await readRecords()
+    expect(updated.title).toBe('Renamed')
+    expect(updated.priority).toBe(0)
+    expect(updated.design).toBe('Keep me')
+    expect(updated.notes).toBe('Custom')
+    expect(updated.updated_at).not.toBe('2025-01-01T00:00:00Z')
+  })
+
+  it('should create issues with the given ID, appended at the end', async () => {
+    const result = await jsonlBackend.createIssue(
+      { id: 'proj-c3', title: 'Third', type: 'feature', priority: 3, labels: ['ui'] },
+      projectDir
+    )
+
+    expect(result.success).toBe(true)
+    const records = await readRecords()
+    expect(records.map((record) => record.id)).toEqual(['proj-a1', 'proj-b2', 'proj-c3'])
+    expect(records[2]).toMatchObject({ title: 'Third', status: 'open', issue_type: 'feature', labels: ['ui'] })
+
+    const duplicate = await jsonlBackend.createIssue({ id: 'proj-c3', title: 'Again', type: 'task', priority: 2 }, projectDir)
+    expect(duplicate.success).toBe(false)
+  })
+
+  it('should generate IDs with the existing prefix', async () => {
+    const result = await jsonlBackend.createIssue({ title: 'No ID', type: 'task', priority: 2 }, projectDir)
+
+    expect(result.data?.id).toMatch(/^proj-[0-9a-f]{4}$/)
+  })
+
+  it('should close and reopen issues', async () => {
+    const closed = await jsonlBackend.closeIssue('proj-a1', 'Done', projectDir)
+    expect(closed.data?.closed_at).toBeDefined()
+
+    let [record] = await readRecords()
+    expect(record).toMatchObject({ status: 'closed', close_reason: 'Done' })
+
+    await jsonlBackend.reopenIssue('proj-a1', projectDir)
+    ;[record] = await readRecords()
+    expect(record.status).toBe('open')
+    expect(record.closed_at).toBeUndefined()
+    expect(record.close_reason).toBeUndefined()
+  })
+
+  it('should add and remove dependencies', async () => {
+    await jsonlBackend.addDependency('proj-a1', 'proj-b2', 'parent-child', projectDir)
+
+    let [record] = await readRecords()
+    expect(record.dependencies).toEqual([
+      expect.objectContaining({ issue_id: 'proj-a1', depends_on_id: 'proj-b2', type: 'parent-child' }),
+    ])
+
+    const missing = await jsonlBackend.addDependency('proj-a1', 'proj-zz', 'blocks', projectDir)
+    expect(missing.success).toBe(false)
+
+    await jsonlBackend.removeDependency('proj-a1', 'proj-b2', projectDir)
+    ;[record] = await readRecords()
+    expect(record.dependencies).toBeUndefined()
+  })
+
+  it('should delete an issue and the edges pointing at it', async () => {
+    await jsonlBackend.addDependency('proj-a1', 'proj-b2', 'blocks', projectDir)
+
+    const result = await jsonlBackend.deleteIssue('proj-b2', projectDir)
+
+    expect(result.success).toBe(true)
+    const records = await readRecords()
+    expect(records.map((record) => record.id)).toEqual(['proj-a1'])
+    expect(records[0].dependencies).toBeUndefined()
+  })
+
+  it('should be readable by loadBeadsIssues', async () => {
+    await jsonlBackend.createIssue({ id: 'proj-c3', title: 'Third', type: 'task', priority: 2 }, projectDir)
+    await jsonlBackend.addDependency('proj-c3', 'proj-a1', 'blocks', projectDir)
+
+    const issues = await loadBeadsIssues(projectDir)
+
+    expect(issues.find((issue) => issue.id === 'proj-c3')?.dependsOn).toEqual(['proj-a1'])
+    expect(issues.find((issue) => issue.id === 'proj-b2')?.closeReason).toBe('Fixed')
+  })
+
+  it('should serialize concurrent writes', async () => {
+    await Promise.all(
+      ['x1', 'x2', 'x3', 'x4'].map((suffix) =>
+        jsonlBackend.createIssue({ id: `proj-${suffix}`, title: suffix, type: 'task', priority: 2 }, projectDir)
+      )
+    )
+
+    const ids = (await readRecords()).map((record) => record.id)
+    expect(ids).toHaveLength(6)
+    expect(await readdir(join(projectDir, '.beads'))).toEqual(['issues.jsonl'])
+  })
+
+  it('should take over a stale lock', async () => {
+    const lockPath = `${issuesPath}.lock`
+    await writeFile(lockPath, '12345')
+    const longAgo = new Date(Date.now() - 60_000)
+    await utimes(lockPath, longAgo, longAgo)
+
+    const result = await jsonlBackend.updateIssue('proj-a1', { title: 'Locked' }, projectDir)
+
+    expect(result.success).toBe(true)
+  })
+
+  it('should carry a sync from files into issues.jsonl', async () => {
+    const todoDir = join(projectDir, '.todo')
+    await mkdir(todoDir)
+    await writeFile(
+      join(todoDir, 'proj-c3.md'),
+      '---\nid: proj-c3\ntitle: "From a file"\nstatus: closed\npriority: 1\ntype: task\ncloseReason: Shipped\ndependsOn: [proj-a1]\n---\n\nBody\n'
+    )
+
+    const result = await sync({ beadsDir: projectDir, todoDir, beadsBackend: 'jsonl', direction: 'files-to-beads' })
+
+    expect(result.created).toEqual(['proj-c3'])
+    const created = (await loadBeadsIssues(projectDir)).find((issue) => issue.id === 'proj-c3')
+    expect(created).toMatchObject({ title: 'From a file', status: 'closed', closeReason: 'Shipped', dependsOn: ['proj-a1'] })
+  })
+
+  it('should report edges beads rejects and keep them in the file', async () => {
+    const todoDir = join(projectDir, '.todo')
+    const options = { beadsDir: projectDir, todoDir, templateDir: join(projectDir, '.mdx'), beadsBackend: 'jsonl' as const }
+    await mkdir(todoDir)
+    await writeFile(
+      join(todoDir, 'proj-c3.md'),
+      '---\nid: proj-c3\ntitle: "From a file"\nstatus: open\npriority: 1\ntype: task\ndependsOn: [proj-z9]\n---\n\nBody\n'
+    )
+
+    const first = await sync(options)
+    const second = await sync(options)
+
+    expect(first.created).toEqual(['proj-c3'])
+    expect(first.errors).toEqual([
+      expect.objectContaining({ issueId: 'proj-c3', message: expect.stringContaining('proj-c3 -> proj-z9') }),
+    ])
+    expect(second.errors).toEqual([expect.objectContaining({ issueId: 'proj-c3' })])
+    expect((await createTodoStore(options).get('proj-c3'))?.dependsOn).toEqual(['proj-z9'])
+  })
+
+  it('should clear fields that were cleared in a file, and keep them cleared', async () => {
+    await writeFile(
+      issuesPath,
+      '{"id":"proj-a1","title":"First","status":"open","priority":1,"issue_type":"task","assignee":"alice","labels":["ui"],"description":"Details","created_at":"2025-01-01T00:00:00Z","updated_at":"2025-01-01T00:00:00Z"}\n'
+    )
+    const todoDir = join(projectDir, '.todo')
+    const options = { beadsDir: projectDir, todoDir, templateDir: join(projectDir, '.mdx'), beadsBackend: 'jsonl' as const }
+    await sync(options)
+
+    const files = createTodoStore(options)
+    const fileIssue = (await files.get('proj-a1'))!
+    await files.update({ ...fileIssue, assignee: undefined, labels: undefined, description: undefined })
+
+    const result = await sync(options)
+    const again = await sync(options)
+
+    expect(result.updated).toEqual(['proj-a1'])
+    const [record] = await readRecords()
+    expect(record).not.toHaveProperty('assignee')
+    expect(record).not.toHaveProperty('labels')
+    expect(record).not.toHaveProperty('description')
+    expect(again.updated).toEqual([])
+    expect(again.filesWritten).toEqual([])
+    expect((await files.get('proj-a1'))?.assignee).toBeUndefined()
+  })
+
+  it('should fail without a .beads directory', async () => {
+    const empty = await mkdtemp(join(tmpdir(), 'todo-no-beads-'))
+    try {
+      const result = await jsonlBackend.closeIssue('proj-a1', undefined, empty)
+      expect(result.success).toBe(false)
+    } finally {
+      await rm(empty, { recursive: true, force: true })
+    }
+  })
+})
+
+describe('resolveBeadsBackend', () => {
+  let binDir: string
+  const originalPath = process.env.PATH
+
+  beforeEach(async () => {
+    binDir = await mkdtemp(join(tmpdir(), 'todo-bin-'))
+  })
+
+  afterEach(async () => {
+    process.env.PATH = originalPath
+    await rm(binDir, { recursive: true, force: true })
+  })
+
+  it('should use the configured backend', async () => {
+    expect(await resolveBeadsBackend('jsonl')).toBe(jsonlBackend)
+    expect(await resolveBeadsBackend('bd')).toBe(bdBackend)
+  })
+
+  it('should use bd only when it is on the PATH', async () => {
+    process.env.PATH = binDir
+    expect((await resolveBeadsBackend()).name).toBe('jsonl')
+
+    await writeFile(join(binDir, 'bd'), '#!/bin/sh\n', { mode: 0o755 })
+    expect((await resolveBeadsBackend('auto')).name).toBe('bd')
+  })
+
+  it('should reject unknown backends', async () => {
+    await expect(resolveBeadsBackend('sqlite' as 'bd')).rejects.toThrow('Invalid beads backend')
+  })
+})
@@ -85,6 +85,44 @@ describe('beads integration', () => {
       expect(issue2!.closedAt).toBe('2025-01-02T14:00:00.000Z')
     })
 
+    it('reads close_reason for closed issues', async () => {
+      const beadsDir = join(testDir, '.beads')
+      await mkdir(beadsDir, { recursive: true })
+
+      const fixtureIssues = [
+        {
+          id: 'test-001',
+          title: 'Closed issue',
+          status: 'closed',
+          priority: 2,
+          issue_type: 'task',
+          created_at: '2025-01-01T10:00:00.000Z',
+          updated_at: '2025-01-02T10:00:00.000Z',
+          closed_at: '2025-01-02T10:00:00.000Z',
+          close_reason: 'Fixed in v2',
+        },
+        {
+          id: 'test-002',
+          title: 'Reopened issue',
+          status: 'open',
+          priority: 2,
+          issue_type: 'task',
+          created_at: '2025-01-01T10:00:00.000Z',
+          updated_at: '2025-01-03T10:00:00.000Z',
+          close_reason: 'Stale reason',
+        },
+      ]
+      await writeFile(
+        join(beadsDir, 'issues.jsonl'),
+        fixtureIssues.map((issue) => JSON.stringify(issue)).join('\n')
+      )
+
+      const issues = await loadBeadsIssues(testDir)
+
+      expect(issues.find((i) => i.id === 'test-001')!.closeReason).toBe('Fixed in v2')
+      expect(issues.find((i) => i.id === 'test-002')!.closeReason).toBeUndefined()
+    })
+
     it('returns empty array when issues.jsonl is empty', async () => {
       // Create .beads directory with empty issues.jsonl
       const beadsDir = join(testDir, '.beads')
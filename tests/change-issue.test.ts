@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdtemp, mkdir, readdir, readFile, rm, writeFile } from 'fs/promises'
+import { existsSync } from 'fs'
+import { join } from 'path'
+import { tmpdir } from 'os'
+import { changeIssue } from '../src/change-issue.js'
+import { loadBeadsIssues } from '../src/beads.js'
+import { loadTodoFiles } from '../src/parser.js'
+import { loadSyncState } from '../src/sync-state.js'
+import { sync } from '../src/sync.js'
+
+describe('changeIssue', () => {
+  let projectDir: string
+  let todoDir: string
+  let options: { todoDir: string; templateDir: string; beadsDir: string; beadsBackend: 'jsonl'; closedSubdir: string }
+
+  beforeEach(async () => {
+    projectDir = await mkdtemp(join(tmpdir(), 'todo-change-'))
+    todoDir = join(projectDir, '.todo')
+    options = {
+      todoDir,
+      templateDir: join(projectDir, '.mdx'),
+      beadsDir: projectDir,
+      beadsBackend: 'jsonl',
+      closedSubdir: 'closed',
+    }
+    await mkdir(join(projectDir, '.beads'))
+    await writeFile(
+      join(projectDir, '.beads', 'issues.jsonl'),
+      '{"id":"proj-a1","title":"Existing","status":"open","priority":2,"issue_type":"task","labels":["triage"],"assignee":"bob","description":"Details","created_at":"2025-01-01T00:00:00Z","updated_at":"2025-01-01T00:00:00Z"}\n'
+    )
+    await sync({ ...options, direction: 'beads-to-files' })
+  })
+
+  afterEach(async () => {
+    await rm(projectDir, { recursive: true, force: true })
+  })
+
+  const fileIssue = async () => (await loadTodoFiles(todoDir, options)).find((issue) => issue.id === 'proj-a1')
+  const beadsIssue = async () => (await loadBeadsIssues(projectDir)).find((issue) => issue.id === 'proj-a1')
+
+  it('should close and reopen in both sources, moving the file', async () => {
+    const closed = await changeIssue('proj-a1', { status: 'closed', closeReason: 'Done' }, options)
+
+    expect(closed.beads).toBe(true)
+    expect(closed.moved?.to).toBe(closed.path)
+    expect(closed.path).toContain(join('.todo', 'closed'))
+    expect(await beadsIssue()).toMatchObject({ status: 'closed', closeReason: 'Done' })
+    expect(await fileIssue()).toMatchObject({ status: 'closed', closeReason: 'Done', closedAt: closed.issue.closedAt })
+
+    const reopened = await changeIssue('proj-a1', { status: 'open' }, options)
+
+    expect(existsSync(closed.path)).toBe(false)
+    expect(reopened.moved?.from).toBe(closed.path)
+    expect((await beadsIssue())?.status).toBe('open')
+    expect((await fileIssue())?.closedAt).toBeUndefined()
+  })
+
+  it('should assign, label and start, leaving nothing for sync to do', async () => {
+    await changeIssue('proj-a1', { assignee: 'alice' }, options)
+    await changeIssue('proj-a1', { addLabels: ['api'], removeLabels: ['triage'] }, options)
+    await changeIssue('proj-a1', { status: 'in_progress' }, options)
+
+    expect(await beadsIssue()).toMatchObject({ assignee: 'alice', labels: ['api'], status: 'in_progress' })
+    expect(await fileIssue()).toMatchObject({ assignee: 'alice', labels: ['api'], status: 'in_progress' })
+    expect((await loadSyncState(todoDir)).issues['proj-a1']).toMatchObject({ assignee: 'alice' })
+
+    const result = await sync({ ...options, dryRun: true })
+    expect(result.conflicts).toEqual([])
+    expect(result.updated).toEqual([])
+  })
+
+  it('should reject transitions that do not apply and unknown issues', async () => {
+    await expect(changeIssue('proj-a1', { status: 'open' }, options)).rejects.toThrow('is not closed')
+    await expect(changeIssue('proj-zz', { status: 'closed' }, options)).rejects.toThrow('Issue proj-zz not found')
+
+    await changeIssue('proj-a1', { status: 'closed' }, options)
+    await expect(changeIssue('proj-a1', { status: 'closed' }, options)).rejects.toThrow('already closed')
+    await expect(changeIssue('proj-a1', { status: 'in_progress' }, options)).rejects.toThrow('reopen it first')
+  })
+
+  it('should only change the file when beads is disabled', async () => {
+    const result = await changeIssue('proj-a1', { assignee: 'carol' }, { ...options, beads: false })
+
+    expect(result.beads).toBe(false)
+    expect((await fileIssue())?.assignee).toBe('carol')
+    expect((await beadsIssue())?.assignee).toBe('bob')
+  })
+  it('should keep a hand-written body it cannot read back through the template', async () => {
+    const body = '## Description\n\nUsers are logged out on refresh.\n\n## Acceptance Criteria\n\n- [ ] Sessions survive a reload'
+    const [path] = (await readdir(todoDir)).filter((name) => name.endsWith('.md'))
+    await writeFile(
+      join(todoDir, path),
+      `---\nid: proj-a1\ntitle: Fix login\nstate: open\ntype: bug\npriority: 1\n---\n\n${body}\n`
+    )
+
+    const result = await changeIssue('proj-a1', { status: 'in_progress' }, options)
+    const content = await readFile(result.path, 'utf-8')
+
+    expect(content).toContain('state: in_progress')
+    expect(content.slice(content.indexOf('\n---\n') + 5).trim()).toBe(body)
+    expect((await fileIssue())?.description).toBe(body)
+  })
+})
@@ -1,8 +1,9 @@
-import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { describe, it, expect, vi, beforeAll, beforeEach, afterAll, afterEach } from 'vitest'
 import { spawn } from 'node:child_process'
 import { promises as fs } from 'node:fs'
 import { join, resolve, sep } from 'node:path'
 import { createRequire } from 'node:module'
+import { tmpdir } from 'node:os'
 
 const require = createRequire(import.meta.url)
 const pkg = require('../package.json')
@@ -358,6 +359,22 @@ describe('CLI - Path Validation (Security)', () => {
 describe('CLI - Integration Tests', () => {
   // These tests require building the CLI first
   // Run 'pnpm build' before running these tests
+  // Sync runs against an empty project of its own rather than this repository's issues
+  let syncDir: string
+  let syncConfig: string[]
+
+  beforeAll(async () => {
+    syncDir = await fs.mkdtemp(join(tmpdir(), 'todo-cli-sync-'))
+    await fs.mkdir(join(syncDir, '.beads'))
+    await fs.writeFile(join(syncDir, '.beads', 'issues.jsonl'), '')
+    await fs.writeFile(join(syncDir, '.todorc.json'), '{"beadsBackend":"jsonl","todoDir":".todo","beadsDir":"."}')
+    syncConfig = ['--config', join(syncDir, '.todorc.json')]
+  })
+
+  afterAll(async () => {
+    await fs.rm(syncDir, { recursive: true, force: true })
+  })
+
   it('should show version', async () => {
     const result = await execCli(['--version'])
     expect(result.stdout).toContain(VERSION)
@@ -414,45 +431,200 @@ describe('CLI - Integration Tests', () => {
   })
 
   it('should handle sync command', async () => {
-    const result = await execCli(['sync'])
+    const result = await execCli(['sync', ...syncConfig])
     expect(result.stdout).toContain('Syncing')
     expect(result.stdout).toContain('bidirectional')
     expect(result.exitCode).toBe(0)
   })
 
   it('should handle sync command with dry-run flag', async () => {
-    const result = await execCli(['sync', '--dry-run'])
+    const result = await execCli(['sync', ...syncConfig, '--dry-run'])
     expect(result.stdout).toContain('dry-run')
     expect(result.stdout).toContain('Syncing')
     expect(result.exitCode).toBe(0)
   })
 
   it('should handle sync command with direction flag', async () => {
-    const result = await execCli(['sync', '--direction', 'beads-to-files'])
+    const result = await execCli(['sync', ...syncConfig, '--direction', 'beads-to-files'])
     expect(result.stdout).toContain('beads-to-files')
     expect(result.stdout).toContain('Syncing')
     expect(result.exitCode).toBe(0)
   })
 
   it('should handle sync with files-to-beads direction', async () => {
-    const result = await execCli(['sync', '--direction', 'files-to-beads'])
+    const result = await execCli(['sync', ...syncConfig, '--direction', 'files-to-beads'])
     expect(result.stdout).toContain('files-to-beads')
     expect(result.exitCode).toBe(0)
   })
 
   it('should handle sync with multiple flags', async () => {
-    const result = await execCli(['sync', '--dry-run', '--direction', 'beads-to-files'])
+    const result = await execCli(['sync', ...syncConfig, '--dry-run', '--direction', 'beads-to-files'])
     expect(result.stdout).toContain('dry-run')
     expect(result.stdout).toContain('beads-to-files')
     expect(result.exitCode).toBe(0)
   })
 
   it('should reject invalid sync direction', async () => {
-    const result = await execCli(['sync', '--direction', 'invalid-direction'])
+    const result = await execCli(['sync', ...syncConfig, '--direction', 'invalid-direction'])
     expect(result.stderr).toContain('Invalid direction')
     expect(result.exitCode).toBe(1)
   })
 
+  it('should reject invalid --resolve value', async () => {
+    const result = await execCli(['sync', ...syncConfig, '--resolve=both'])
+    expect(result.stderr).toContain('Invalid resolve value')
+    expect(result.exitCode).toBe(1)
+  })
+
+  it('should require a terminal for --interactive', async () => {
+    const result = await execCli(['sync', ...syncConfig, '--interactive'])
+    expect(result.stderr).toContain('--resolve=beads|file')
+    expect(result.exitCode).toBe(1)
+  })
+
+  it('should accept --resolve for non-interactive conflict resolution', async () => {
+    const result = await execCli(['sync', ...syncConfig, '--dry-run', '--resolve', 'file'])
+    expect(result.stdout).toContain('dry-run')
+    expect(result.exitCode).toBe(0)
+  })
+
+  it('should accept --delete with --dry-run', async () => {
+    const result = await execCli(['sync', ...syncConfig, '--dry-run', '--delete'])
+    expect(result.stdout).toContain('dry-run')
+    expect(result.exitCode).toBe(0)
+  })
+
+  it('should reject invalid undo --steps', async () => {
+    const result = await execCli(['undo', '--steps', '0'])
+    expect(result.stderr).toContain('Invalid steps')
+    expect(result.exitCode).toBe(1)
+  })
+
+  it('should reject an invalid --preset', async () => {
+    const result = await execCli(['build', '--preset', 'fancy'])
+    expect(result.stderr).toContain('"preset" must be one of: minimal, detailed, github, linear')
+    expect(result.exitCode).toBe(1)
+  })
+
+  it('should reject a missing --config file', async () => {
+    const result = await execCli(['sync', '--dry-run', '--config', 'missing.todorc.json'])
+    expect(result.stderr).toContain('Failed to load config')
+    expect(result.exitCode).toBe(1)
+  })
+
+  it('should require a title for new', async () => {
+    const result = await execCli(['new'])
+    expect(result.stderr).toContain('Missing title')
+    expect(result.exitCode).toBe(1)
+  })
+
+  it('should reject an invalid new --priority', async () => {
+    const result = await execCli(['new', 'Some issue', '--priority', 'high'])
+    expect(result.stderr).toContain('Invalid priority')
+    expect(result.exitCode).toBe(1)
+  })
+
+  it('should reject an invalid list --status', async () => {
+    const result = await execCli(['list', '--status', 'done'])
+    expect(result.stderr).toContain('Invalid status: done')
+    expect(result.exitCode).toBe(1)
+  })
+
+  it('should require an issue ID for show', async () => {
+    const result = await execCli(['show'])
+    expect(result.stderr).toContain('Missing issue ID')
+    expect(result.exitCode).toBe(1)
+  })
+
+  it('should require an issue ID for close', async () => {
+    const result = await execCli(['close', '--reason', 'Done'])
+    expect(result.stderr).toContain('Missing issue ID')
+    expect(result.exitCode).toBe(1)
+  })
+
+  it('should read -label arguments as label removals', async () => {
+    const result = await execCli(['label', 'missing-issue', '+api', '-triage'])
+    expect(result.stderr).toContain('Issue missing-issue not found')
+    expect(result.exitCode).toBe(1)
+  })
+
+  it('should lint a todo directory and exit 1 on errors', async () => {
+    const dir = await fs.mkdtemp(join(tmpdir(), 'todo-cli-lint-'))
+    try {
+      await fs.writeFile(join(dir, 'task-1.md'), '---\nid: task-1\ntitle: Task\ntype: story\n---\n')
+
+      const result = await execCli(['lint', '--todo-dir', dir, '--template-dir', dir])
+      expect(result.stdout).toContain('task-1.md:4: error: Unknown type "story" is read as "task" (unknown-type)')
+      expect(result.exitCode).toBe(1)
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true })
+    }
+  })
+
+  it('should exit 2 when sync leaves a conflict unsynced', async () => {
+    const dir = await fs.mkdtemp(join(tmpdir(), 'todo-cli-conflict-'))
+    try {
+      await fs.mkdir(join(dir, '.beads'))
+      await fs.mkdir(join(dir, '.todo'))
+      await fs.writeFile(join(dir, '.todorc.json'), '{"beadsBackend":"jsonl","todoDir":".todo","beadsDir":"."}')
+      await fs.writeFile(
+        join(dir, '.beads', 'issues.jsonl'),
+        '{"id":"proj-a1","title":"Beads title","status":"open","priority":2,"issue_type":"task","created_at":"2025-01-01T00:00:00Z","updated_at":"2025-01-02T00:00:00Z"}\n'
+      )
+      await fs.writeFile(
+        join(dir, '.todo', 'proj-a1.md'),
+        '---\nid: proj-a1\ntitle: File title\nstate: open\ntype: task\nupdatedAt: "2025-01-02T00:00:00Z"\n---\n'
+      )
+
+      const result = await execCli(['sync', '--config', join(dir, '.todorc.json'), '--json'])
+      expect(JSON.parse(result.stdout).conflicts[0]).toMatchObject({ issueId: 'proj-a1', resolution: 'manual' })
+      expect(result.exitCode).toBe(2)
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true })
+    }
+  })
+
+  it('should print ready issues as JSON', async () => {
+    const result = await execCli(['ready', '--json'])
+    expect(Array.isArray(JSON.parse(result.stdout))).toBe(true)
+    expect(result.exitCode).toBe(0)
+  })
+
+  it('should print lint results as JSON', async () => {
+    const dir = await fs.mkdtemp(join(tmpdir(), 'todo-cli-lint-'))
+    try {
+      await fs.writeFile(join(dir, 'task-1.md'), '---\nid: task-1\ntitle: Task\ntype: story\n---\n')
+
+      const result = await execCli(['lint', '--todo-dir', dir, '--template-dir', dir, '--json'])
+      const output = JSON.parse(result.stdout)
+      expect(output.diagnostics.map((diagnostic: { rule: string }) => diagnostic.rule)).toContain('unknown-type')
+      expect(result.exitCode).toBe(1)
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true })
+    }
+  })
+
+  it('should print a sync dry run as one JSON document', async () => {
+    const result = await execCli(['sync', ...syncConfig, '--dry-run', '--json'])
+    const output = JSON.parse(result.stdout)
+    expect(output.conflicts).toEqual(expect.any(Array))
+    expect(output.errors).toEqual(expect.any(Array))
+    expect(output.plan).toBeDefined()
+    expect(output.plan.snapshot).toBeUndefined()
+  })
+
+  it('should print errors as JSON with --json', async () => {
+    const result = await execCli(['sync', ...syncConfig, '--interactive', '--json'])
+    expect(JSON.parse(result.stdout).error).toContain('--interactive cannot be combined with --json')
+    expect(result.exitCode).toBe(1)
+  })
+
+  it('should print the version as JSON', async () => {
+    const result = await execCli(['--version', '--json'])
+    expect(JSON.parse(result.stdout)).toEqual({ version: VERSION })
+    expect(result.exitCode).toBe(0)
+  })
+
   it('should handle init command', async () => {
     const result = await execCli(['init'])
     expect(result.stdout).toContain('Initializing todo.mdx')
@@ -1,5 +1,8 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
-import { compile, compileToString } from '../src/compiler.js'
+import { promises as fs } from 'node:fs'
+import { join } from 'node:path'
+import { tmpdir } from 'node:os'
+import { compile, compileToString, compileTemplate, computeStats } from '../src/compiler.js'
 import type { TodoIssue } from '../src/types.js'
 
 // Mock beads and parser modules
@@ -379,6 +382,65 @@ describe('compileToString', () => {
   })
 })
 
+describe('computeStats', () => {
+  it('should count issues by status, with blocked and ready from the dependency graph', () => {
+    const issues: TodoIssue[] = [
+      { id: 'todo-1', title: 'A', status: 'open', type: 'task', priority: 2 },
+      { id: 'todo-2', title: 'B', status: 'in_progress', type: 'task', priority: 2 },
+      { id: 'todo-3', title: 'C', status: 'blocked', type: 'task', priority: 2 },
+      { id: 'todo-4', title: 'D', status: 'closed', type: 'task', priority: 2 },
+      { id: 'todo-5', title: 'E', status: 'open', type: 'task', priority: 2, dependsOn: ['todo-1'] },
+      { id: 'todo-6', title: 'F', status: 'open', type: 'task', priority: 2, dependsOn: ['todo-4'] },
+    ]
+
+    expect(computeStats(issues)).toEqual({
+      total: 6,
+      open: 3,
+      inProgress: 1,
+      blocked: 2,
+      closed: 1,
+      ready: 2,
+    })
+  })
+})
+
+describe('compileTemplate', () => {
+  const issues: TodoIssue[] = [
+    { id: 'todo-1', title: 'Open task', status: 'open', type: 'task', priority: 1 },
+    { id: 'todo-2', title: 'Blocked task', status: 'blocked', type: 'bug', priority: 0 },
+    { id: 'todo-3', title: 'Done task', status: 'closed', type: 'task', priority: 2 },
+  ]
+
+  it('should interpolate stats', () => {
+    const result = compileTemplate('Total: {stats.total}, open: {stats.open}, blocked: {stats.blocked}', issues)
+    expect(result).toBe('Total: 3, open: 1, blocked: 1')
+  })
+
+  it('should render Issues components with JSX-style props', () => {
+    const result = compileTemplate(
+      "## Blocked\n\n<Issues.Blocked columns={['id', 'title']} />\n\n## Open\n\n<Issues status=\"open\" columns={['id', 'title']} />",
+      issues
+    )
+
+    expect(result).toContain('| id | title |')
+    expect(result).toContain('| todo-2 | Blocked task |')
+    expect(result).toContain('| todo-1 | Open task |')
+    expect(result).not.toContain('<Issues')
+    expect(result).not.toContain('Done task')
+  })
+
+  it('should honour limit props', () => {
+    const result = compileTemplate("<Issues limit={1} columns={['id']} />", issues)
+    expect(result).toContain('| todo-1 |')
+    expect(result).not.toContain('| todo-2 |')
+  })
+
+  it('should ignore template frontmatter', () => {
+    const result = compileTemplate('---\ntitle: My TODO\n---\n# TODO\n\n{stats.total}', issues)
+    expect(result).toBe('# TODO\n\n3')
+  })
+})
+
 describe('compile', () => {
   beforeEach(() => {
     vi.clearAllMocks()
@@ -491,4 +553,31 @@ describe('compile', () => {
     expect(Array.isArray(result.files)).toBe(true)
     expect(Array.isArray(result.issues)).toBe(true)
   })
+
+  it('should render a custom TODO.mdx from templateDir', async () => {
+    const { loadTodoFiles } = await import('../src/parser.js')
+    const templateDir = await fs.mkdtemp(join(tmpdir(), 'todo-compile-'))
+
+    try {
+      await fs.writeFile(
+        join(templateDir, 'TODO.mdx'),
+        "# Team Board\n\n{stats.total} issues, {stats.inProgress} in progress\n\n<Issues.Ready columns={['id', 'title']} />\n",
+        'utf-8'
+      )
+
+      vi.mocked(loadTodoFiles).mockResolvedValueOnce([
+        { id: 'todo-1', title: 'Ready task', status: 'open', type: 'task', priority: 2 },
+        { id: 'todo-2', title: 'Working', status: 'in_progress', type: 'task', priority: 2 },
+      ])
+
+      const result = await compile({ beads: false, templateDir })
+
+      expect(result.output).toContain('# Team Board')
+      expect(result.output).toContain('2 issues, 1 in progress')
+      expect(result.output).toContain('| todo-1 | Ready task |')
+      expect(result.stats.total).toBe(2)
+    } finally {
+      await fs.rm(templateDir, { recursive: true, force: true })
+    }
+  })
 })
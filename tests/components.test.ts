@@ -4,7 +4,13 @@ import {
   Issue,
   IssueLabels,
   IssueDependencies,
+  IssueDependents,
+  IssueChildren,
+  IssueParent,
+  IssueTimeline,
+  createIssueComponents,
   createIssueExtractors,
+  issueFieldsFromComponents,
   type IssuesProps,
   type IssueLabelsProps,
   type IssueDependenciesProps,
@@ -119,6 +125,67 @@ describe('Issues Component', () => {
       // renderMarkdownTable returns "_No items_" for empty array
       expect(rendered).toBe('_No items_')
     })
+
+    it('should filter by type, priority range, assignee, label and parent', () => {
+      const ids = (props: Partial<IssuesProps>) =>
+        Issues.extract(Issues.render({ issues: sampleIssues, ...props })).issues.map((i) => i.id)
+
+      expect(ids({ type: ['task', 'bug'] })).toEqual(['todo-001', 'todo-003', 'todo-004'])
+      expect(ids({ priority: '0-1' })).toEqual(['todo-001', 'todo-003'])
+      expect(ids({ priority: 2 })).toEqual(['todo-002', 'todo-004'])
+      expect(ids({ assignee: '@bob' })).toEqual(['todo-002'])
+      expect(ids({ label: 'urgent' })).toEqual(['todo-001'])
+      expect(ids({ status: ['open', 'blocked'] })).toEqual(['todo-001', 'todo-004'])
+      const child: TodoIssue = { ...sampleIssues[3], id: 'todo-005', parent: 'todo-002' }
+      expect(ids({ issues: [...sampleIssues, child], parent: 'todo-002' })).toEqual(['todo-005'])
+    })
+
+    it('should filter with a where expression', () => {
+      const rendered = Issues.render({ issues: sampleIssues, where: 'priority < 2 && status != closed' })
+
+      expect(rendered).toContain('todo-001')
+      expect(rendered).not.toContain('todo-003')
+      expect(rendered).not.toContain('todo-004')
+    })
+
+    it('should sort before applying the limit', () => {
+      const ids = (props: Partial<IssuesProps>) =>
+        Issues.extract(Issues.render({ issues: sampleIssues, ...props })).issues.map((i) => i.id)
+
+      expect(ids({ sortBy: 'priority', limit: 2 })).toEqual(['todo-003', 'todo-001'])
+      expect(ids({ sortBy: 'title', order: 'desc' })).toEqual(['todo-003', 'todo-002', 'todo-001', 'todo-004'])
+    })
+
+    it('should render a sub-heading and table per group', () => {
+      const rendered = Issues.render({ issues: sampleIssues, groupBy: 'priority', columns: ['id', 'title'] })
+
+      expect(rendered).toBe(`### P1
+
+| id | title |
+|---|---|
+| todo-001 | First Task |
+
+### P2
+
+| id | title |
+|---|---|
+| todo-002 | Second Feature |
+| todo-004 | Blocked Task |
+
+### P0
+
+| id | title |
+|---|---|
+| todo-003 | Third Bug |`)
+    })
+
+    it('should group by assignee and label, with ungrouped issues under their own heading', () => {
+      const byAssignee = Issues.render({ issues: sampleIssues, groupBy: 'assignee' })
+      expect(byAssignee.match(/^### .*/gm)).toEqual(['### @alice', '### @bob', '### Unassigned'])
+
+      const byLabel = Issues.render({ issues: sampleIssues, groupBy: 'label' })
+      expect(byLabel.match(/^### .*/gm)).toEqual(['### bug', '### urgent', '### No label'])
+    })
   })
 
   describe('extract', () => {
@@ -178,6 +245,22 @@ describe('Issues Component', () => {
       expect(extracted.issues[0].status).toBe(original.issues[0].status)
       expect(extracted.columns).toEqual(original.columns)
     })
+
+    it('should extract every issue once from grouped output', () => {
+      const rendered = Issues.render({ issues: sampleIssues, groupBy: 'label', columns: ['id', 'title', 'status'] })
+      const extracted = Issues.extract(rendered)
+
+      expect(extracted.issues.map((i) => i.id)).toEqual(['todo-001', 'todo-002', 'todo-003', 'todo-004'])
+      expect(extracted.issues[2]).toMatchObject({ title: 'Third Bug', status: 'closed' })
+      expect(extracted.columns).toEqual(['id', 'title', 'status'])
+      expect(Issues.render({ ...extracted, groupBy: 'status' })).toContain('### closed')
+    })
+
+    it('should extract grouped lists', () => {
+      const rendered = Issues.render({ issues: sampleIssues, groupBy: 'type', format: 'list' })
+
+      expect(Issues.extract(rendered).issues.map((i) => i.id)).toEqual(['todo-001', 'todo-004', 'todo-002', 'todo-003'])
+    })
   })
 })
 
@@ -209,6 +292,18 @@ describe('Issues.Blocked', () => {
     expect(rendered).toContain('todo-002')
     expect(rendered).not.toContain('todo-001')
   })
+  it('should render issues waiting on unclosed dependencies with their blockers', () => {
+    const issues: TodoIssue[] = [
+      ...sampleIssues,
+      { id: 'todo-003', title: 'Dependent Task', status: 'open', type: 'task', priority: 2, dependsOn: ['todo-001'] },
+    ]
+
+    const rendered = Issues.Blocked.render({ issues, columns: ['id', 'blockedBy'] })
+
+    expect(rendered).toContain('| todo-003 | todo-001 |')
+    expect(rendered).toContain('todo-002')
+    expect(rendered).not.toMatch(/^\| todo-001 /m)
+  })
 })
 
 describe('Issues.Ready', () => {
@@ -251,6 +346,15 @@ describe('Issues.Ready', () => {
     expect(rendered).not.toContain('todo-002') // Has dependencies
     expect(rendered).not.toContain('todo-003') // Closed
   })
+
+  it('should render issues whose dependencies are all closed as ready', () => {
+    const issues: TodoIssue[] = [
+      ...sampleIssues,
+      { id: 'todo-004', title: 'Unblocked Task', status: 'open', type: 'task', priority: 2, dependsOn: ['todo-003'] },
+    ]
+
+    expect(Issues.Ready.render({ issues })).toContain('todo-004')
+  })
 })
 
 describe('Issues.Open', () => {
@@ -484,6 +588,128 @@ describe('Issue.Dependencies', () => {
   })
 })
 
+describe('Issue.Dependents', () => {
+  it('should render and extract dependents like dependencies', () => {
+    const rendered = IssueDependents.render({ dependents: ['todo-3', 'todo-4'], format: 'links' })
+
+    expect(rendered).toBe('- [todo-3](./todo-3.md)\n- [todo-4](./todo-4.md)')
+    expect(IssueDependents.extract(rendered)).toEqual({ dependents: ['todo-3', 'todo-4'], format: 'links' })
+    expect(IssueDependents.extract('')).toEqual({ dependents: [] })
+  })
+})
+
+describe('Issue.Children', () => {
+  it('should render children as a task list, checking closed ones', () => {
+    const rendered = IssueChildren.render({
+      children: [{ id: 'todo-2', title: 'Write docs', done: true }, 'todo-3'],
+    })
+
+    expect(rendered).toBe('- [x] todo-2: Write docs\n- [ ] todo-3')
+  })
+
+  it('should extract children, their titles and checkboxes', () => {
+    const result = IssueChildren.extract('- [x] todo-2: Write docs: part 1\n- [ ] todo-3\nnot a task')
+
+    expect(result.children).toEqual([
+      { id: 'todo-2', title: 'Write docs: part 1', done: true },
+      { id: 'todo-3', done: false },
+    ])
+  })
+
+  it('should be available as Issue.Subtasks', () => {
+    expect(Issue.Subtasks).toBe(IssueChildren)
+  })
+})
+
+describe('Issue.Parent', () => {
+  it('should render the parent chain as a breadcrumb and extract it back', () => {
+    const parents = [{ id: 'todo-1', title: 'Epic' }, { id: 'todo-5' }]
+
+    expect(IssueParent.render({ parents })).toBe('todo-1 › todo-5')
+    const links = IssueParent.render({ parents, format: 'links' })
+    expect(links).toBe('[Epic](./todo-1.md) › [todo-5](./todo-5.md)')
+    expect(IssueParent.extract(links)).toEqual({ parents, format: 'links' })
+    expect(IssueParent.extract('todo-1 › todo-5')).toEqual({
+      parents: [{ id: 'todo-1' }, { id: 'todo-5' }],
+      format: 'list',
+    })
+  })
+})
+
+describe('Issue.Timeline', () => {
+  it('should render and extract created, updated and closed events', () => {
+    const events = [
+      { event: 'created' as const, at: '2025-01-01T09:00:00Z' },
+      { event: 'closed' as const, at: '2025-01-03T17:30:00Z', note: 'Fixed in #40' },
+    ]
+
+    const rendered = IssueTimeline.render({ events })
+
+    expect(rendered).toBe('- Created: 2025-01-01T09:00:00Z\n- Closed: 2025-01-03T17:30:00Z — Fixed in #40')
+    expect(IssueTimeline.extract(rendered)).toEqual({ events })
+  })
+})
+
+describe('createIssueComponents', () => {
+  const issue: TodoIssue = {
+    id: 'todo-5',
+    title: 'Feature',
+    status: 'closed',
+    type: 'feature',
+    priority: 2,
+    parent: 'todo-2',
+    children: ['todo-6', 'todo-7'],
+    blocks: ['todo-8'],
+    createdAt: '2025-01-01T00:00:00Z',
+    closedAt: '2025-01-02T00:00:00Z',
+    closeReason: 'Done',
+  }
+  const issues: TodoIssue[] = [
+    issue,
+    { id: 'todo-1', title: 'Roadmap', status: 'open', type: 'epic', priority: 2 },
+    { id: 'todo-2', title: 'Epic', status: 'open', type: 'epic', priority: 2, parent: 'todo-1' },
+    { id: 'todo-6', title: 'Child', status: 'closed', type: 'task', priority: 2 },
+    { id: 'todo-9', title: 'Dependent', status: 'open', type: 'task', priority: 2, dependsOn: ['todo-5'] },
+  ]
+
+  it('should look related issues up in the issue set', () => {
+    const { Issue: bound } = createIssueComponents(issue, issues)
+
+    expect(bound.Dependents.render({})).toBe('- todo-8\n- todo-9')
+    expect(bound.Children.render({})).toBe('- [x] todo-6: Child\n- [ ] todo-7')
+    expect(bound.Parent.render({ format: 'links' })).toBe('[Roadmap](./todo-1.md) › [Epic](./todo-2.md)')
+    expect(bound.Timeline.render({})).toBe('- Created: 2025-01-01T00:00:00Z\n- Closed: 2025-01-02T00:00:00Z — Done')
+  })
+
+  it('should fall back to the issue\'s own fields without the issue set', () => {
+    const { Issue: bound } = createIssueComponents(issue)
+
+    expect(bound.Dependents.render({})).toBe('- todo-8')
+    expect(bound.Children.render({})).toBe('- [ ] todo-6\n- [ ] todo-7')
+    expect(bound.Parent.render({})).toBe('todo-2')
+  })
+
+  it('should map extracted props back onto issue fields', () => {
+    const fields = issueFieldsFromComponents(
+      {
+        'Issue.Dependents': { dependents: ['todo-8', 'todo-9'] },
+        'Issue.Subtasks': { children: [{ id: 'todo-6', done: true }] },
+        'Issue.Parent': { parents: [{ id: 'todo-1' }, { id: 'todo-2' }] },
+        'Issue.Timeline': { events: [{ event: 'closed', at: '2025-01-02T00:00:00Z', note: 'Done' }] },
+      },
+      issue
+    )
+
+    expect(fields).toEqual({
+      blocks: ['todo-8'],
+      children: ['todo-6'],
+      parent: 'todo-2',
+      closedAt: '2025-01-02T00:00:00Z',
+      closeReason: 'Done',
+    })
+  })
+})
+
 describe('createIssueExtractors', () => {
   it('should create extractor map for all components', () => {
     const extractors = createIssueExtractors()
@@ -495,6 +721,11 @@ describe('createIssueExtractors', () => {
     expect(extractors).toHaveProperty('Issues.Closed')
     expect(extractors).toHaveProperty('Issue.Labels')
     expect(extractors).toHaveProperty('Issue.Dependencies')
+    expect(extractors).toHaveProperty('Issue.Dependents')
+    expect(extractors).toHaveProperty('Issue.Children')
+    expect(extractors).toHaveProperty('Issue.Subtasks')
+    expect(extractors).toHaveProperty('Issue.Parent')
+    expect(extractors).toHaveProperty('Issue.Timeline')
 
     // Check that extractors are actually extractors
     expect(typeof extractors['Issues']).toBe('object')
@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdtemp, mkdir, rm, writeFile } from 'fs/promises'
+import { join } from 'path'
+import { tmpdir } from 'os'
+import {
+  loadConfig,
+  loadConfigFile,
+  findConfigFile,
+  validateConfig,
+  configFromEnv,
+  defineConfig,
+} from '../src/config.js'
+
+describe('config', () => {
+  let projectDir: string
+
+  beforeEach(async () => {
+    projectDir = await mkdtemp(join(tmpdir(), 'todo-config-'))
+  })
+
+  afterEach(async () => {
+    await rm(projectDir, { recursive: true, force: true })
+  })
+
+  it('should find the nearest config file from a subdirectory', async () => {
+    const nested = join(projectDir, 'packages', 'app')
+    await mkdir(nested, { recursive: true })
+    await writeFile(join(projectDir, '.todorc.json'), '{}')
+
+    expect(await findConfigFile(nested)).toBe(join(projectDir, '.todorc.json'))
+  })
+
+  it('should prefer todo.config files over .todorc in the same directory', async () => {
+    await writeFile(join(projectDir, '.todorc.json'), '{}')
+    await writeFile(join(projectDir, 'todo.config.mjs'), 'export default {}')
+
+    expect(await findConfigFile(projectDir)).toBe(join(projectDir, 'todo.config.mjs'))
+  })
+
+  it('should load JSON and YAML, resolving paths against the config file', async () => {
+    await writeFile(join(projectDir, '.todorc.json'), '{ "todoDir": "issues", "preset": "github" }')
+    await writeFile(join(projectDir, '.todorc.yaml'), 'conflictStrategy: markers\nseparateClosed: false\n')
+
+    expect(await loadConfigFile(join(projectDir, '.todorc.json'))).toEqual({
+      todoDir: join(projectDir, 'issues'),
+      preset: 'github',
+    })
+    expect(await loadConfigFile(join(projectDir, '.todorc.yaml'))).toEqual({
+      conflictStrategy: 'markers',
+      separateClosed: false,
+    })
+  })
+
+  it('should load a defineConfig module', async () => {
+    const configModule = join(projectDir, 'todo.config.ts')
+    await writeFile(
+      configModule,
+      `import { defineConfig } from ${JSON.stringify(join(process.cwd(), 'src/config.ts'))}\n` +
+        `export default defineConfig({ closedSubdir: 'archive', beadsBackend: 'jsonl' as const })\n`
+    )
+
+    expect(await loadConfigFile(configModule)).toEqual({ closedSubdir: 'archive', beadsBackend: 'jsonl' })
+    expect(defineConfig({ todoDir: 'x' })).toEqual({ todoDir: 'x' })
+  })
+
+  it('should list every invalid option', () => {
+    expect(() =>
+      validateConfig({ todoDir: 3, preset: 'fancy', colour: 'blue' }, '.todorc.json')
+    ).toThrow(
+      /Invalid config in \.todorc\.json:\n {2}"todoDir" must be a string \(got 3\)\n {2}"preset" must be one of: minimal, detailed, github, linear \(got "fancy"\)\n {2}Unknown option "colour"/
+    )
+    expect(() => validateConfig(['todoDir'], 'x')).toThrow('expected an object')
+  })
+
+  it('should read options from environment variables', () => {
+    expect(
+      configFromEnv({ TODO_MDX_TODO_DIR: 'env-issues', TODO_MDX_BEADS: 'false', TODO_MDX_PRESET: '' })
+    ).toEqual({ todoDir: 'env-issues', beads: false })
+    expect(() => configFromEnv({ TODO_MDX_CONFLICT_STRATEGY: 'coin-flip' })).toThrow('environment variables')
+  })
+
+  it('should merge the file, env and overrides, later sources winning', async () => {
+    await writeFile(
+      join(projectDir, '.todorc.json'),
+      JSON.stringify({ todoDir: 'from-file', preset: 'linear', filePattern: '[id].md' })
+    )
+
+    const { config, path } = await loadConfig({
+      cwd: projectDir,
+      env: { TODO_MDX_PRESET: 'detailed', TODO_MDX_TODO_DIR: '/from/env' },
+      overrides: { todoDir: 'from-flag', beadsDir: undefined },
+    })
+
+    expect(path).toBe(join(projectDir, '.todorc.json'))
+    expect(config).toEqual({ todoDir: 'from-flag', preset: 'detailed', filePattern: '[id].md' })
+  })
+
+  it('should use an explicit config file and work without one', async () => {
+    await writeFile(join(projectDir, 'custom.yml'), 'todoDir: elsewhere\n')
+
+    const explicit = await loadConfig({ cwd: projectDir, configFile: 'custom.yml', env: {} })
+    expect(explicit.config.todoDir).toBe(join(projectDir, 'elsewhere'))
+
+    expect(await loadConfig({ cwd: projectDir, env: {} })).toEqual({ config: {} })
+  })
+})
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest'
+import { createDependencyGraph } from '../src/dependency-graph.js'
+import type { TodoIssue } from '../src/types.js'
+
+const issue = (id: string, fields: Partial<TodoIssue> = {}): TodoIssue => ({
+  id,
+  title: id,
+  status: 'open',
+  type: 'task',
+  priority: 2,
+  ...fields,
+})
+
+const ids = (issues: TodoIssue[]) => issues.map((i) => i.id)
+
+describe('createDependencyGraph', () => {
+  const issues = [
+    issue('a-1', { status: 'closed' }),
+    issue('a-2', { dependsOn: ['a-1'] }),
+    issue('a-3', { dependsOn: ['a-2', 'a-99'] }),
+    issue('a-4', { blocks: ['a-3'] }),
+    issue('a-5', { dependsOn: ['a-3'] }),
+    issue('a-6', { status: 'blocked' }),
+  ]
+  const graph = createDependencyGraph(issues)
+
+  it('should index edges from dependsOn and blocks, ignoring unknown IDs', () => {
+    expect(graph.dependenciesOf('a-3')).toEqual(['a-2', 'a-4'])
+    expect(graph.dependentsOf('a-3')).toEqual(['a-5'])
+    expect(graph.dependenciesOf('a-99')).toEqual([])
+  })
+
+  it('should count an issue as ready once every dependency is closed', () => {
+    expect(ids(graph.ready())).toEqual(['a-2', 'a-4'])
+    expect(graph.isReady('a-2')).toBe(true)
+    expect(graph.isReady('a-5')).toBe(false)
+  })
+
+  it('should list blocked issues with their direct blockers', () => {
+    expect(graph.blocked().map(({ issue, blockedBy }) => [issue.id, blockedBy])).toEqual([
+      ['a-3', ['a-2', 'a-4']],
+      ['a-5', ['a-3']],
+      ['a-6', []],
+    ])
+  })
+
+  it('should follow blockers transitively through unclosed issues', () => {
+    expect(graph.transitiveBlockersOf('a-5')).toEqual(['a-3', 'a-2', 'a-4'])
+    expect(graph.transitiveBlockersOf('a-2')).toEqual([])
+  })
+
+  it('should order issues after their dependencies', () => {
+    const order = ids(graph.topologicalOrder())
+    expect(order).toHaveLength(issues.length)
+    expect(order.indexOf('a-2')).toBeLessThan(order.indexOf('a-3'))
+    expect(order.indexOf('a-4')).toBeLessThan(order.indexOf('a-3'))
+    expect(order.indexOf('a-3')).toBeLessThan(order.indexOf('a-5'))
+  })
+
+  it('should find the longest chain of unclosed issues as the critical path', () => {
+    expect(ids(graph.criticalPath())).toEqual(['a-2', 'a-3', 'a-5'])
+  })
+
+  it('should report each cycle once and cut it in the order and critical path', () => {
+    const cyclic = createDependencyGraph([
+      issue('c-1', { dependsOn: ['c-2'] }),
+      issue('c-2', { dependsOn: ['c-3'] }),
+      issue('c-3', { dependsOn: ['c-1'] }),
+      issue('c-4', { blocks: ['c-4'] }),
+    ])
+
+    expect(cyclic.cycles()).toEqual([
+      ['c-1', 'c-2', 'c-3', 'c-1'],
+      ['c-4', 'c-4'],
+    ])
+    expect(ids(cyclic.topologicalOrder())).toEqual(['c-3', 'c-2', 'c-1', 'c-4'])
+    expect(ids(cyclic.criticalPath())).toEqual(['c-3', 'c-2', 'c-1'])
+    expect(cyclic.transitiveBlockersOf('c-1')).toEqual(['c-2', 'c-3'])
+  })
+})
@@ -7,6 +7,7 @@ import {
   type ExtractResult,
   type ExtractDiff,
 } from '../src/templates.js'
+import { createIssueExtractors } from '../src/components/issues.js'
 import type { TodoIssue } from '../src/types.js'
 
 describe('extractFromMarkdown', () => {
@@ -489,3 +490,108 @@ Add support for feature X with additional improvements.
     expect(updated.issue.type).toBe('feature')
   })
 })
+
+describe('extractFromMarkdown - blocks', () => {
+  const template = `# {issue.title}
+
+{#if issue.assignee}
+**Assignee:** @{issue.assignee}
+
+{/if}
+## Depends on
+
+{#each issue.dependsOn as dep}
+- [{dep.title}](./{dep.id}.md)
+{:else}
+_None_
+{/each}
+
+{issue.description}`
+
+  it('should extract from the branch that was rendered', () => {
+    const withAssignee = '# Title\n\n**Assignee:** @sam\n\n## Depends on\n\n_None_\n\nNotes'
+    const without = '# Title\n\n## Depends on\n\n_None_\n\nNotes'
+
+    expect(extractFromMarkdown(template, withAssignee).data).toEqual({
+      issue: { title: 'Title', assignee: 'sam', description: 'Notes', dependsOn: [] },
+    })
+    expect(extractFromMarkdown(template, without).data).toEqual({
+      issue: { title: 'Title', description: 'Notes', dependsOn: [] },
+    })
+  })
+
+  it('should extract loop items', () => {
+    const rendered = '# Title\n\n## Depends on\n\n- [First](./a-1.md)\n- [Second](./a-2.md)\n\nNotes'
+    const result = extractFromMarkdown(template, rendered)
+
+    expect(result.data).toEqual({
+      issue: {
+        title: 'Title',
+        description: 'Notes',
+        dependsOn: [
+          { id: 'a-1', title: 'First' },
+          { id: 'a-2', title: 'Second' },
+        ],
+      },
+    })
+    expect(result.confidence).toBe(1)
+  })
+})
+
+describe('extractFromMarkdown - filters', () => {
+  const template = `# {issue.title | upper}
+
+**Priority:** {issue.priority | priorityLabel}
+**Labels:** {issue.labels | badges}
+**Depends on:** {issue.dependsOn | links}
+
+{issue.description | truncate:20}`
+
+  it('should reverse the filters that can be reversed', () => {
+    const rendered = '# FIX LOGIN\n\n**Priority:** High\n**Labels:** `bug` `ui`\n**Depends on:** [a-1](./a-1.md)\n\nShort notes'
+
+    expect(extractFromMarkdown(template, rendered).data).toEqual({
+      issue: { priority: '1', labels: ['bug', 'ui'], dependsOn: ['a-1'], description: 'Short notes' },
+    })
+  })
+
+  it('should leave out values a filter has lost', () => {
+    const rendered = '# FIX LOGIN\n\n**Priority:** High\n**Labels:** `bug`\n**Depends on:** [a-1](./a-1.md)\n\nA much longer desc…'
+
+    expect(extractFromMarkdown(template, rendered).data.issue).not.toHaveProperty('description')
+  })
+
+  it('should use custom filters', () => {
+    const filters = { tag: { format: (value: unknown) => `#${value}`, parse: (text: string) => text.slice(1) } }
+    expect(extractFromMarkdown('Type: {issue.type | tag}', 'Type: #bug', undefined, filters).data).toEqual({
+      issue: { type: 'bug' },
+    })
+  })
+})
+
+describe('extractFromMarkdown - dotted components', () => {
+  it('should extract props from Issue.* component tags', () => {
+    const template = '# {issue.title}\n\n## Labels\n\n<Issue.Labels />\n\n## Dependencies\n\n<Issue.Dependencies />'
+    const rendered = '# Title\n\n## Labels\n\nbug, urgent\n\n## Dependencies\n\n- todo-1\n- todo-2'
+
+    const result = extractFromMarkdown(template, rendered, createIssueExtractors())
+
+    expect(result.components['Issue.Labels']).toEqual({ labels: ['bug', 'urgent'], format: 'comma' })
+    expect(result.components['Issue.Dependencies']).toEqual({
+      dependencies: ['todo-1', 'todo-2'],
+      format: 'list',
+    })
+    expect(result.unmatched).toHaveLength(0)
+    expect(result.confidence).toBe(1)
+  })
+
+  it('should report components without an extractor as unmatched', () => {
+    const template = '# {issue.title}\n\n<Issue.Unknown />'
+    const rendered = '# Title\n\nsomething'
+
+    const result = extractFromMarkdown(template, rendered, createIssueExtractors())
+
+    expect(result.unmatched).toEqual(['<Issue />'])
+    expect(result.confidence).toBe(0.5)
+  })
+})
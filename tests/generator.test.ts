@@ -5,7 +5,15 @@ import { describe, it, expect } from 'vitest'
 import { promises as fs } from 'node:fs'
 import { tmpdir } from 'node:os'
 import { join } from 'node:path'
-import { generateTodoFile, writeTodoFiles } from '../src/generator.js'
+import {
+  generateTodoFile,
+  writeTodoFiles,
+  generateConflictFile,
+  writeConflictFiles,
+  planTodoFiles,
+  deleteTodoFile,
+} from '../src/generator.js'
+import { parseTodoFile, hasConflictMarkers } from '../src/parser.js'
 import type { TodoIssue } from '../src/types.js'
 import { fromMarkdown } from '@mdxld/markdown'
 
@@ -316,6 +324,43 @@ describe('generateTodoFile - @mdxld/markdown compatibility', () => {
   })
 })
 
+describe('generateTodoFile - YAML frontmatter', () => {
+  it('should escape backslashes and quotes in strings', () => {
+    const issue: TodoIssue = {
+      id: 'todo-yaml-1',
+      title: 'Path C:\\temp "quoted"',
+      status: 'open',
+      priority: 2,
+      type: 'task',
+    }
+
+    const result = generateTodoFile(issue)
+
+    expect(result).toContain('title: "Path C:\\\\temp \\"quoted\\""')
+  })
+
+  it('should write custom fields after the known fields', () => {
+    const issue: TodoIssue = {
+      id: 'todo-yaml-2',
+      title: 'Custom',
+      status: 'open',
+      priority: 2,
+      type: 'task',
+      custom: {
+        estimate: 3,
+        sprint: { name: 'Sprint 12' },
+      },
+    }
+
+    const result = generateTodoFile(issue)
+    const frontmatter = result.match(/^---\n([\s\S]*?)\n---/)![1]
+
+    expect(frontmatter).toContain('estimate: 3')
+    expect(frontmatter).toContain('sprint:\n  name: Sprint 12')
+    expect(frontmatter.indexOf('estimate:')).toBeGreaterThan(frontmatter.indexOf('labels:'))
+  })
+})
+
 describe('writeTodoFiles - Security: Validation Before Directory Creation', () => {
   it('should validate paths BEFORE creating directories to prevent path traversal', async () => {
     const tmpDir = await fs.mkdtemp(join(tmpdir(), 'todo-test-'))
@@ -699,3 +744,305 @@ describe('writeTodoFiles - Security Tests', () => {
     }
   })
 })
+
+describe('generateTodoFile - templates', () => {
+  const issue: TodoIssue = {
+    id: 'todo-tpl',
+    title: 'Templated Issue',
+    description: 'Body text',
+    status: 'open',
+    priority: 1,
+    type: 'bug',
+    labels: ['api', 'urgent'],
+    dependsOn: ['todo-dep'],
+  }
+
+  const template = `---
+$pattern: "[type]/[id].md"
+---
+# {issue.title}
+
+{issue.description}
+
+## Labels
+
+<Issue.Labels />
+
+## Dependencies
+
+<Issue.Dependencies format="links" />
+`
+
+  it('renders the body through the template', () => {
+    const result = generateTodoFile(issue, template)
+
+    expect(result).toContain('# Templated Issue\n\nBody text')
+    expect(result).toContain('## Labels\n\napi, urgent')
+    expect(result).toContain('- [todo-dep](./todo-dep.md)')
+    expect(result).not.toContain('<Issue.')
+    expect(result).not.toContain('$pattern')
+  })
+
+  it('keeps generated frontmatter so the file round-trips', () => {
+    const result = generateTodoFile(issue, template)
+
+    expect(result).toMatch(/^---\nid: todo-tpl\n/)
+    expect(result).toContain('labels: ["api", "urgent"]')
+    expect(result).toContain('dependsOn: ["todo-dep"]')
+  })
+})
+
+describe('writeTodoFiles - templates', () => {
+  const issue: TodoIssue = {
+    id: 'todo-tpl',
+    title: 'Templated Issue',
+    status: 'open',
+    priority: 1,
+    type: 'bug',
+    labels: ['api'],
+  }
+
+  it('uses the template $pattern as the filename pattern', async () => {
+    const tmpDir = await fs.mkdtemp(join(tmpdir(), 'todo-test-'))
+    const todoDir = join(tmpDir, '.todo')
+
+    try {
+      const template = '---\n$pattern: "[type]/[id].md"\n---\n# {issue.title}\n\n<Issue.Labels format="badges" />\n'
+      const writtenPaths = await writeTodoFiles([issue], todoDir, { template })
+
+      expect(writtenPaths).toEqual([join(todoDir, 'bug', 'todo-tpl.md')])
+      const content = await fs.readFile(writtenPaths[0], 'utf-8')
+      expect(content).toContain('# Templated Issue\n\n`api`')
+    } finally {
+      await fs.rm(tmpDir, { recursive: true, force: true })
+    }
+  })
+
+  it('prefers an explicit pattern over the template $pattern', async () => {
+    const tmpDir = await fs.mkdtemp(join(tmpdir(), 'todo-test-'))
+    const todoDir = join(tmpDir, '.todo')
+
+    try {
+      const template = '---\n$pattern: "[type]/[id].md"\n---\n# {issue.title}\n'
+      const writtenPaths = await writeTodoFiles([issue], todoDir, { template, pattern: '[id].md' })
+
+      expect(writtenPaths).toEqual([join(todoDir, 'todo-tpl.md')])
+    } finally {
+      await fs.rm(tmpDir, { recursive: true, force: true })
+    }
+  })
+
+  it('resolves [Issue].mdx from templateDir', async () => {
+    const tmpDir = await fs.mkdtemp(join(tmpdir(), 'todo-test-'))
+    const todoDir = join(tmpDir, '.todo')
+    const templateDir = join(tmpDir, '.mdx')
+
+    try {
+      await fs.mkdir(templateDir, { recursive: true })
+      await fs.writeFile(
+        join(templateDir, '[Issue].mdx'),
+        '---\n$pattern: "[id].md"\n---\n# Bug: {issue.title}\n',
+        'utf-8'
+      )
+
+      const writtenPaths = await writeTodoFiles([issue], todoDir, { templateDir })
+
+      expect(writtenPaths).toEqual([join(todoDir, 'todo-tpl.md')])
+      const content = await fs.readFile(writtenPaths[0], 'utf-8')
+      expect(content).toContain('# Bug: Templated Issue')
+    } finally {
+      await fs.rm(tmpDir, { recursive: true, force: true })
+    }
+  })
+})
+
+describe('writeTodoFiles - closed issues', () => {
+  const issue: TodoIssue = {
+    id: 'todo-move',
+    title: 'Moving Issue',
+    status: 'open',
+    priority: 2,
+    type: 'task',
+  }
+
+  it('moves a file into closedSubdir when the issue is closed', async () => {
+    const tmpDir = await fs.mkdtemp(join(tmpdir(), 'todo-test-'))
+    const todoDir = join(tmpDir, '.todo')
+
+    try {
+      const [openPath] = await writeTodoFiles([issue], todoDir, { pattern: '[id].md' })
+      const [closedPath] = await writeTodoFiles(
+        [{ ...issue, status: 'closed', closedAt: '2024-01-03T00:00:00Z', closeReason: 'Done' }],
+        todoDir,
+        { pattern: '[id].md' }
+      )
+
+      expect(closedPath).toBe(join(todoDir, 'closed', 'todo-move.md'))
+      await expect(fs.access(openPath)).rejects.toThrow()
+      const content = await fs.readFile(closedPath, 'utf-8')
+      expect(content).toContain('closeReason: "Done"')
+    } finally {
+      await fs.rm(tmpDir, { recursive: true, force: true })
+    }
+  })
+
+  it('moves a file out of closedSubdir when the issue is reopened', async () => {
+    const tmpDir = await fs.mkdtemp(join(tmpdir(), 'todo-test-'))
+    const todoDir = join(tmpDir, '.todo')
+
+    try {
+      const [closedPath] = await writeTodoFiles([{ ...issue, status: 'closed' }], todoDir, {
+        pattern: '[id].md',
+        closedSubdir: 'done',
+      })
+      const [openPath] = await writeTodoFiles([issue], todoDir, {
+        pattern: '[id].md',
+        closedSubdir: 'done',
+      })
+
+      expect(closedPath).toBe(join(todoDir, 'done', 'todo-move.md'))
+      expect(openPath).toBe(join(todoDir, 'todo-move.md'))
+      await expect(fs.access(closedPath)).rejects.toThrow()
+    } finally {
+      await fs.rm(tmpDir, { recursive: true, force: true })
+    }
+  })
+})
+
+describe('writeTodoFiles - renames and deletes', () => {
+  const issue: TodoIssue = {
+    id: 'todo-rename',
+    title: 'Old Title',
+    status: 'open',
+    priority: 2,
+    type: 'task',
+  }
+
+  it('renames the existing file when the title changes', async () => {
+    const tmpDir = await fs.mkdtemp(join(tmpdir(), 'todo-test-'))
+    const todoDir = join(tmpDir, '.todo')
+
+    try {
+      const [oldPath] = await writeTodoFiles([issue], todoDir, { pattern: '[Title].md' })
+      const [newPath] = await writeTodoFiles([{ ...issue, title: 'New Title' }], todoDir, {
+        pattern: '[Title].md',
+      })
+
+      expect(newPath).toBe(join(todoDir, 'New Title.md'))
+      await expect(fs.access(oldPath)).rejects.toThrow()
+      expect(await fs.readdir(todoDir)).toEqual(['New Title.md', 'closed'])
+    } finally {
+      await fs.rm(tmpDir, { recursive: true, force: true })
+    }
+  })
+
+  it('finds files written under a different pattern', async () => {
+    const tmpDir = await fs.mkdtemp(join(tmpdir(), 'todo-test-'))
+    const todoDir = join(tmpDir, '.todo')
+
+    try {
+      const [oldPath] = await writeTodoFiles([issue], todoDir, { pattern: 'custom-name.md' })
+      const [newPath] = await writeTodoFiles([issue], todoDir, { pattern: '[id].md' })
+
+      expect(newPath).toBe(join(todoDir, 'todo-rename.md'))
+      await expect(fs.access(oldPath)).rejects.toThrow()
+    } finally {
+      await fs.rm(tmpDir, { recursive: true, force: true })
+    }
+  })
+
+  it('plans renames and deletes without touching files', async () => {
+    const tmpDir = await fs.mkdtemp(join(tmpdir(), 'todo-test-'))
+    const todoDir = join(tmpDir, '.todo')
+    const other: TodoIssue = { ...issue, id: 'todo-gone', title: 'Gone' }
+
+    try {
+      const [oldPath, otherPath] = await writeTodoFiles([issue, other], todoDir, { pattern: '[Title].md' })
+
+      const plan = await planTodoFiles(
+        [{ ...issue, status: 'closed' }],
+        ['todo-gone', 'todo-missing'],
+        todoDir,
+        { pattern: '[Title].md' }
+      )
+
+      expect(plan.moved).toEqual([
+        { id: 'todo-rename', from: oldPath, to: join(todoDir, 'closed', 'Old Title.md') },
+      ])
+      expect(plan.deleted).toEqual([{ id: 'todo-gone', path: otherPath }])
+      await expect(fs.access(oldPath)).resolves.toBeUndefined()
+      await expect(fs.access(otherPath)).resolves.toBeUndefined()
+    } finally {
+      await fs.rm(tmpDir, { recursive: true, force: true })
+    }
+  })
+
+  it('deletes the file of an issue by ID', async () => {
+    const tmpDir = await fs.mkdtemp(join(tmpdir(), 'todo-test-'))
+    const todoDir = join(tmpDir, '.todo')
+
+    try {
+      const [path] = await writeTodoFiles([{ ...issue, status: 'closed' }], todoDir, { pattern: '[id].md' })
+
+      expect(await deleteTodoFile('todo-rename', todoDir)).toBe(true)
+      await expect(fs.access(path)).rejects.toThrow()
+      expect(await deleteTodoFile('todo-rename', todoDir)).toBe(false)
+    } finally {
+      await fs.rm(tmpDir, { recursive: true, force: true })
+    }
+  })
+})
+
+describe('generateConflictFile', () => {
+  const base: TodoIssue = {
+    id: 'todo-conflict',
+    title: 'Shared title',
+    description: 'Line 1\nLine 2',
+    status: 'open',
+    priority: 2,
+    type: 'task',
+    labels: ['a'],
+  }
+
+  it('should wrap differing frontmatter lines in conflict markers', () => {
+    const result = generateConflictFile({ ...base, priority: 1 }, { ...base, priority: 3 })
+
+    expect(result).toContain('<<<<<<< beads\npriority: 1\n=======\npriority: 3\n>>>>>>> file')
+    expect(result).toMatch(/^---\nid: todo-conflict\n/)
+    expect(result).toContain('title: "Shared title"')
+  })
+
+  it('should wrap differing body lines and keep common lines outside the markers', () => {
+    const result = generateConflictFile(
+      { ...base, description: 'Line 1\nBeads line' },
+      { ...base, description: 'Line 1\nFile line' }
+    )
+
+    expect(result).toContain('Line 1\n<<<<<<< beads\nBeads line\n=======\nFile line\n>>>>>>> file')
+    expect(result).toContain('\n# Shared title\n')
+  })
+
+  it('should produce files that the parser refuses until resolved', () => {
+    const result = generateConflictFile({ ...base, title: 'Beads' }, { ...base, title: 'File' })
+
+    expect(hasConflictMarkers(result)).toBe(true)
+    expect(() => parseTodoFile(result)).toThrow(/conflict markers/)
+  })
+
+  it('should write marker files named after the file version', async () => {
+    const dir = await fs.mkdtemp(join(tmpdir(), 'todo-conflict-'))
+    try {
+      const paths = await writeConflictFiles(
+        [{ beads: { ...base, title: 'Beads' }, file: { ...base, title: 'File' } }],
+        dir,
+        { pattern: '[id]-[title].md' }
+      )
+
+      expect(paths).toEqual([join(dir, 'todo-conflict-file.md')])
+      const content = await fs.readFile(paths[0], 'utf-8')
+      expect(content).toContain('<<<<<<< beads\ntitle: "Beads"')
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true })
+    }
+  })
+})
@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest'
+import { createInteractiveResolver, parseFieldValue, formatFieldValue, validateFieldValue } from '../src/interactive.js'
+import type { PromptIO } from '../src/interactive.js'
+import type { SyncConflict } from '../src/types.js'
+
+/**
+ * Fake prompt that replays answers and records output
+ */
+function fakeIO(answers: string[]): PromptIO & { output: string[]; questions: string[] } {
+  const output: string[] = []
+  const questions: string[] = []
+  return {
+    output,
+    questions,
+    ask: async (question) => {
+      questions.push(question)
+      return answers.shift() ?? 's'
+    },
+    print: (message) => {
+      output.push(message)
+    },
+  }
+}
+
+const conflict: SyncConflict = {
+  issueId: 'task-1',
+  field: 'title',
+  beadsValue: 'Beads title',
+  fileValue: 'File title',
+  fields: [
+    { field: 'title', baseValue: 'Base title', beadsValue: 'Beads title', fileValue: 'File title' },
+    { field: 'labels', baseValue: ['a'], beadsValue: ['b'], fileValue: ['c'] },
+  ],
+  resolution: 'manual',
+}
+
+describe('createInteractiveResolver', () => {
+  it('should show base, beads and file values for each field', async () => {
+    const io = fakeIO(['b', 'f'])
+
+    await createInteractiveResolver(io)(conflict)
+
+    expect(io.output).toContain('Conflict in task-1 (2 fields)')
+    expect(io.output).toContain('    base:  "Base title"')
+    expect(io.output).toContain('    beads: ["b"]')
+    expect(io.output).toContain('    file:  ["c"]')
+  })
+
+  it('should return the chosen side per field', async () => {
+    const values = await createInteractiveResolver(fakeIO(['b', 'f']))(conflict)
+    expect(values).toEqual({ title: 'Beads title', labels: ['c'] })
+  })
+
+  it('should accept the base value and typed values', async () => {
+    const values = await createInteractiveResolver(fakeIO(['a', 'n', 'x, y']))(conflict)
+    expect(values).toEqual({ title: 'Base title', labels: ['x', 'y'] })
+  })
+
+  it('should re-ask on invalid answers', async () => {
+    const io = fakeIO(['?', 'f', 'b'])
+
+    const values = await createInteractiveResolver(io)(conflict)
+
+    expect(io.output).toContain('    Please answer b, f, a, n or s')
+    expect(values).toEqual({ title: 'File title', labels: ['b'] })
+  })
+
+  it('should ask again for an invalid status, type or priority', async () => {
+    const io = fakeIO(['n', 'done', 'closed', 'n', 'chore', 'epic', 'n', '7', 'high', '1'])
+
+    const values = await createInteractiveResolver(io)({
+      ...conflict,
+      field: 'status',
+      fields: [
+        { field: 'status', baseValue: 'open', beadsValue: 'open', fileValue: 'closed' },
+        { field: 'type', baseValue: 'task', beadsValue: 'bug', fileValue: 'feature' },
+        { field: 'priority', baseValue: 2, beadsValue: 3, fileValue: 0 },
+      ],
+    })
+
+    expect(io.output).toContain('    Invalid status: "done". Must be one of: open, in_progress, blocked, closed')
+    expect(io.output).toContain('    Invalid type: "chore". Must be one of: task, bug, feature, epic')
+    expect(io.output).toContain('    Invalid priority: 7. Must be an integer from 0 to 4')
+    expect(io.output).toContain('    Invalid priority: "high". Must be an integer from 0 to 4')
+    expect(values).toEqual({ status: 'closed', type: 'epic', priority: 1 })
+  })
+
+  it('should return null when the issue is skipped', async () => {
+    const values = await createInteractiveResolver(fakeIO(['b', 's']))(conflict)
+    expect(values).toBeNull()
+  })
+})
+
+describe('parseFieldValue', () => {
+  it('should use the existing value as a type hint', () => {
+    expect(parseFieldValue('3', 2)).toBe(3)
+    expect(parseFieldValue('a, b', [])).toEqual(['a', 'b'])
+    expect(parseFieldValue('New title', 'Old')).toBe('New title')
+  })
+
+  it('should parse JSON input and clear on empty input', () => {
+    expect(parseFieldValue('["x"]', 'text')).toEqual(['x'])
+    expect(parseFieldValue('  ', 'text')).toBeUndefined()
+  })
+})
+
+describe('validateFieldValue', () => {
+  it('should accept valid values and leave other fields alone', () => {
+    expect(validateFieldValue('status', 'in_progress')).toBeUndefined()
+    expect(validateFieldValue('type', 'epic')).toBeUndefined()
+    expect(validateFieldValue('priority', 0)).toBeUndefined()
+    expect(validateFieldValue('assignee', undefined)).toBeUndefined()
+  })
+
+  it('should reject cleared and out-of-range values', () => {
+    expect(validateFieldValue('status', undefined)).toContain('Invalid status: (empty)')
+    expect(validateFieldValue('priority', 2.5)).toContain('Invalid priority')
+  })
+})
+
+describe('formatFieldValue', () => {
+  it('should show empty values explicitly', () => {
+    expect(formatFieldValue(undefined)).toBe('(empty)')
+    expect(formatFieldValue('')).toBe('(empty)')
+    expect(formatFieldValue(2)).toBe('2')
+  })
+})
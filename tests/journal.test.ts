@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { mkdtemp, rm, readFile, writeFile, readdir, mkdir } from 'fs/promises'
+import { join } from 'path'
+import { tmpdir } from 'os'
+import {
+  appendJournalEntry,
+  loadJournal,
+  removeJournalEntry,
+  readFileContents,
+  restoreFileContent,
+  JOURNAL_DIR,
+} from '../src/journal.js'
+import type { TodoIssue } from '../src/types.js'
+
+describe('sync journal', () => {
+  let todoDir: string
+
+  beforeEach(async () => {
+    todoDir = await mkdtemp(join(tmpdir(), 'todo-journal-'))
+  })
+
+  afterEach(async () => {
+    await rm(todoDir, { recursive: true, force: true })
+  })
+
+  const issue: TodoIssue = {
+    id: 'task-1',
+    title: 'Journaled task',
+    status: 'open',
+    type: 'task',
+    priority: 2,
+  }
+
+  it('should return an empty journal when none exists', async () => {
+    expect(await loadJournal(todoDir)).toEqual([])
+  })
+
+  it('should append entries and load them oldest first', async () => {
+    const first = await appendJournalEntry(todoDir, {
+      issues: [{ issueId: 'task-1', after: issue }],
+      files: [],
+      syncState: {},
+    })
+    await appendJournalEntry(todoDir, {
+      issues: [{ issueId: 'task-1', before: issue, after: { ...issue, title: 'Renamed' } }],
+      files: [{ path: join(todoDir, 'task-1.md'), before: 'old', after: 'new' }],
+      syncState: { 'task-1': issue },
+    })
+
+    expect(first.startsWith(join(todoDir, JOURNAL_DIR))).toBe(true)
+
+    const journal = await loadJournal(todoDir)
+    expect(journal).toHaveLength(2)
+    expect(journal[0].issues[0].before).toBeUndefined()
+    expect(journal[1].issues[0].after.title).toBe('Renamed')
+    expect(journal[1].files[0].before).toBe('old')
+    expect(journal[1].syncState).toEqual({ 'task-1': issue })
+    expect(journal[0].id < journal[1].id).toBe(true)
+  })
+
+  it('should prune the oldest entries beyond 50', async () => {
+    for (let i = 0; i < 52; i++) {
+      await appendJournalEntry(todoDir, { issues: [], files: [], syncState: {} })
+    }
+
+    const names = await readdir(join(todoDir, JOURNAL_DIR))
+    expect(names).toHaveLength(50)
+  })
+
+  it('should remove an entry by ID', async () => {
+    await appendJournalEntry(todoDir, { issues: [], files: [], syncState: {} })
+    const [entry] = await loadJournal(todoDir)
+
+    await removeJournalEntry(todoDir, entry.id)
+
+    expect(await loadJournal(todoDir)).toEqual([])
+  })
+
+  it('should skip invalid entries with a warning', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    await mkdir(join(todoDir, JOURNAL_DIR), { recursive: true })
+    await writeFile(join(todoDir, JOURNAL_DIR, 'broken.json'), '{ not json')
+
+    expect(await loadJournal(todoDir)).toEqual([])
+    expect(warn).toHaveBeenCalled()
+    warn.mockRestore()
+  })
+
+  it('should read missing files as null', async () => {
+    const path = join(todoDir, 'task-1.md')
+    await writeFile(path, 'content')
+
+    const contents = await readFileContents([path, join(todoDir, 'missing.md')])
+
+    expect(contents).toEqual({ [path]: 'content', [join(todoDir, 'missing.md')]: null })
+  })
+
+  it('should restore file content, deleting files restored to null', async () => {
+    const created = join(todoDir, 'closed', 'task-1.md')
+    await restoreFileContent(created, 'restored')
+    expect(await readFile(created, 'utf-8')).toBe('restored')
+
+    await restoreFileContent(created, null)
+    expect((await readFileContents([created]))[created]).toBeNull()
+  })
+})
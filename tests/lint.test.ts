@@ -0,0 +1,159 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdtemp, mkdir, rm, readFile, writeFile } from 'fs/promises'
+import { existsSync } from 'fs'
+import { join } from 'path'
+import { tmpdir } from 'os'
+import { lintTodoFiles } from '../src/lint.js'
+import type { LintDiagnostic } from '../src/lint.js'
+
+const todoFile = (fields: Record<string, string>, body = '') =>
+  `---\n${Object.entries(fields).map(([key, value]) => `${key}: ${value}`).join('\n')}\n---\n\n${body}\n`
+
+const summary = (diagnostics: LintDiagnostic[]) =>
+  diagnostics.map((d) => `${d.path.split(/[\\/]/).pop()}:${d.line} ${d.rule}`).sort()
+
+describe('lintTodoFiles', () => {
+  let dir: string
+  let todoDir: string
+  let options: { todoDir: string; templateDir: string; beads: false; pattern: string }
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'todo-lint-'))
+    todoDir = join(dir, '.todo')
+    options = { todoDir, templateDir: join(dir, '.mdx'), beads: false, pattern: '[id].md' }
+    await mkdir(todoDir)
+    await mkdir(options.templateDir)
+  })
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  it('should report no problems for clean files', async () => {
+    await writeFile(join(todoDir, 'a-1.md'), todoFile({ id: 'a-1', title: 'One', state: 'open', type: 'bug' }))
+
+    const result = await lintTodoFiles(options)
+
+    expect(result.diagnostics).toEqual([])
+    expect(result.files).toBe(1)
+  })
+
+  it('should report values the parser would coerce, with line numbers', async () => {
+    await writeFile(
+      join(todoDir, 'a-1.md'),
+      todoFile({ id: 'a-1', title: 'One', state: 'done', type: 'Bug', priority: '9' })
+    )
+    await writeFile(join(todoDir, 'a-2.md'), todoFile({ id: 'a-2', title: 'Two', status: 'someday', type: 'story' }))
+
+    const result = await lintTodoFiles(options)
+
+    // `done` is closed, so the file also belongs in closed/
+    expect(summary(result.diagnostics)).toEqual([
+      'a-1.md:1 filename-mismatch',
+      'a-1.md:4 status-alias',
+      'a-1.md:5 type-alias',
+      'a-1.md:6 invalid-priority',
+      'a-2.md:4 unknown-status',
+      'a-2.md:5 unknown-type',
+    ])
+    expect(result.diagnostics.find((d) => d.rule === 'unknown-type')?.message).toContain('read as "task"')
+  })
+
+  it('should report unparseable files, missing and duplicate ids', async () => {
+    await writeFile(join(todoDir, 'no-id.md'), todoFile({ title: 'No id' }))
+    await writeFile(join(todoDir, 'a-1.md'), todoFile({ id: 'a-1', title: 'One' }))
+    await mkdir(join(todoDir, 'closed'))
+    await writeFile(join(todoDir, 'closed', 'a-1.md'), todoFile({ id: 'a-1', title: 'One', state: 'closed' }))
+    await writeFile(join(todoDir, 'a-3.md'), '---\nid: a-3\n<<<<<<< beads\ntitle: A\n=======\ntitle: B\n>>>>>>> file\n---\n')
+    await writeFile(join(todoDir, 'a-4.md'), '---\nid: a-4\ntitle: [unclosed\n---\n')
+
+    const result = await lintTodoFiles(options)
+
+    expect(summary(result.diagnostics)).toEqual([
+      'a-1.md:2 duplicate-id',
+      'a-1.md:2 duplicate-id',
+      'a-3.md:3 parse-error',
+      'a-4.md:3 invalid-yaml',
+      'no-id.md:1 missing-id',
+    ])
+  })
+
+  it('should report dangling references and dependency cycles', async () => {
+    await writeFile(join(todoDir, 'a-1.md'), todoFile({ id: 'a-1', title: 'One', dependsOn: '["a-2"]' }))
+    await writeFile(join(todoDir, 'a-2.md'), todoFile({ id: 'a-2', title: 'Two', dependsOn: '["a-1"]' }))
+    await writeFile(join(todoDir, 'a-3.md'), todoFile({ id: 'a-3', title: 'Three', parent: 'a-9', dependsOn: '["a-8"]' }))
+
+    const result = await lintTodoFiles(options)
+
+    expect(summary(result.diagnostics)).toEqual([
+      'a-1.md:4 dependency-cycle',
+      'a-3.md:4 unknown-reference',
+      'a-3.md:5 unknown-reference',
+    ])
+    expect(result.diagnostics.find((d) => d.rule === 'dependency-cycle')?.message).toBe(
+      'Dependency cycle: a-1 → a-2 → a-1'
+    )
+  })
+
+  it('should fix aliases and misnamed files, leaving the rest', async () => {
+    await writeFile(join(todoDir, 'wrong name.md'), todoFile({ id: 'a-1', title: 'One', state: 'done', type: 'FEATURE' }))
+    await writeFile(join(todoDir, 'a-2.md'), todoFile({ id: 'a-2', title: 'Two', type: 'story' }))
+
+    const result = await lintTodoFiles({ ...options, fix: true })
+
+    expect(summary(result.fixed)).toEqual([
+      'wrong name.md:1 filename-mismatch',
+      'wrong name.md:4 status-alias',
+      'wrong name.md:5 type-alias',
+    ])
+    expect(summary(result.diagnostics)).toEqual(['a-2.md:4 unknown-type'])
+    expect(existsSync(join(todoDir, 'wrong name.md'))).toBe(false)
+
+    const content = await readFile(join(todoDir, 'closed', 'a-1.md'), 'utf-8')
+    expect(content).toContain('state: closed\ntype: feature\n')
+
+    expect((await lintTodoFiles(options)).diagnostics).toHaveLength(1)
+  })
+
+  it('should report template slots that reference unknown fields', async () => {
+    await writeFile(
+      join(options.templateDir, '[Issue].mdx'),
+      '---\n$pattern: "[id].md"\n---\n# {issue.titel}\n\n{issue.custom.team} {{issue.literal}}\n\n{project.name}\n'
+    )
+    await writeFile(join(options.templateDir, 'TODO.mdx'), '# TODO\n\n{stats.open} open, {stats.pending} pending\n')
+
+    const result = await lintTodoFiles(options)
+
+    expect(summary(result.diagnostics)).toEqual([
+      'TODO.mdx:3 unknown-slot',
+      '[Issue].mdx:4 unknown-slot',
+      '[Issue].mdx:8 unknown-slot',
+    ])
+    expect(result.files).toBe(2)
+  })
+
+  it('should check the paths of template blocks and allow loop variables', async () => {
+    await writeFile(
+      join(options.templateDir, '[Issue].mdx'),
+      '# {issue.title}\n\n{#if issue.asignee}\n@{issue.assignee}\n{:else}\nUnassigned\n{/if}\n\n' +
+        '{#each issue.dependsOn as dep}\n- {dep}\n{/each}\n{#if !issue.labels}\nNo labels\n{/if}\n'
+    )
+
+    const result = await lintTodoFiles(options)
+
+    expect(summary(result.diagnostics)).toEqual(['[Issue].mdx:3 unknown-slot'])
+    expect(result.diagnostics[0].message).toContain('"asignee"')
+  })
+
+  it('should report unknown filters and accept filters from the config', async () => {
+    await writeFile(
+      join(options.templateDir, '[Issue].mdx'),
+      '# {issue.title | upper}\n\n{issue.labels | badgez}\n\n{issue.assignee | initials}\n'
+    )
+
+    const result = await lintTodoFiles({ ...options, filters: { initials: (value) => String(value).charAt(0) } })
+
+    expect(summary(result.diagnostics)).toEqual(['[Issue].mdx:3 unknown-slot'])
+    expect(result.diagnostics[0].message).toContain('Unknown filter "badgez"')
+  })
+})
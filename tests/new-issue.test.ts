@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdtemp, mkdir, rm, readFile, writeFile } from 'fs/promises'
+import { join, basename } from 'path'
+import { tmpdir } from 'os'
+import { newIssue } from '../src/new-issue.js'
+import { loadBeadsIssues } from '../src/beads.js'
+import { loadSyncState } from '../src/sync-state.js'
+
+describe('newIssue', () => {
+  let projectDir: string
+  let todoDir: string
+
+  beforeEach(async () => {
+    projectDir = await mkdtemp(join(tmpdir(), 'todo-new-'))
+    todoDir = join(projectDir, '.todo')
+    await mkdir(join(projectDir, '.beads'))
+    await writeFile(
+      join(projectDir, '.beads', 'issues.jsonl'),
+      '{"id":"proj-a1","title":"Existing","status":"open","priority":2,"issue_type":"task","created_at":"2025-01-01T00:00:00Z","updated_at":"2025-01-01T00:00:00Z"}\n'
+    )
+  })
+
+  afterEach(async () => {
+    await rm(projectDir, { recursive: true, force: true })
+  })
+
+  it('should allocate an ID, write the file and create the beads issue', async () => {
+    const result = await newIssue({
+      title: 'Fix login',
+      type: 'bug',
+      priority: 1,
+      labels: ['api'],
+      dependsOn: ['proj-a1'],
+      todoDir,
+      beadsDir: projectDir,
+      beadsBackend: 'jsonl',
+    })
+
+    expect(result.issue.id).toMatch(/^proj-[0-9a-f]{4}$/)
+    expect(result.beads).toBe(true)
+    expect(await readFile(result.path, 'utf-8')).toContain('Fix login')
+
+    const created = (await loadBeadsIssues(projectDir)).find((issue) => issue.id === result.issue.id)
+    expect(created).toMatchObject({ title: 'Fix login', type: 'bug', priority: 1, labels: ['api'], dependsOn: ['proj-a1'] })
+    expect((await loadSyncState(todoDir)).issues[result.issue.id]).toMatchObject({ title: 'Fix login' })
+  })
+
+  it('should only write the file when beads is disabled', async () => {
+    const result = await newIssue({ title: 'Local only', todoDir, beadsDir: projectDir, beads: false })
+
+    expect(result.beads).toBe(false)
+    expect(result.issue.id).toMatch(new RegExp(`^${basename(projectDir).toLowerCase()}-[0-9a-f]{4}$`))
+    expect(await loadBeadsIssues(projectDir)).toHaveLength(1)
+  })
+
+  it('should reject unknown dependencies, taken IDs and invalid fields', async () => {
+    const options = { todoDir, beadsDir: projectDir, beadsBackend: 'jsonl' as const }
+
+    await expect(newIssue({ ...options, title: 'X', dependsOn: ['proj-zz'] })).rejects.toThrow('Unknown issue: proj-zz')
+    await expect(newIssue({ ...options, title: 'X', id: 'proj-a1' })).rejects.toThrow('already exists')
+    await expect(newIssue({ ...options, title: '  ' })).rejects.toThrow('Title cannot be empty')
+    await expect(newIssue({ ...options, title: 'X', type: 'story' as 'task' })).rejects.toThrow('Invalid type')
+    await expect(newIssue({ ...options, title: 'X', priority: 7 as 2 })).rejects.toThrow('Invalid priority')
+  })
+
+  it('should create the beads issue from the file as edited', async () => {
+    const result = await newIssue({
+      title: 'Draft title',
+      id: 'proj-b2',
+      todoDir,
+      beadsDir: projectDir,
+      beadsBackend: 'jsonl',
+      editor: "sed -i -e 's/Draft title/Edited title/'",
+    })
+
+    expect(result.issue.title).toBe('Edited title')
+    expect((await loadBeadsIssues(projectDir)).find((issue) => issue.id === 'proj-b2')?.title).toBe('Edited title')
+  })
+
+  it('should not read the templated body back as the description of an issue without one', async () => {
+    const templateDir = join(projectDir, '.mdx')
+    await mkdir(templateDir)
+    await writeFile(
+      join(templateDir, '[Issue].mdx'),
+      '# {issue.title}\n\n**Assignee:** @{issue.assignee}\n\n## Description\n\n{issue.description}\n\n## Blocks\n\n<Issue.Dependents />\n'
+    )
+
+    const result = await newIssue({
+      title: 'No description',
+      id: 'proj-b3',
+      todoDir,
+      templateDir,
+      beadsDir: projectDir,
+      beadsBackend: 'jsonl',
+      editor: 'true',
+    })
+
+    expect(result.issue.title).toBe('No description')
+    expect(result.issue.description).toBeUndefined()
+    expect((await loadBeadsIssues(projectDir)).find((issue) => issue.id === 'proj-b3')?.description).toBeFalsy()
+  })
+})
@@ -1,5 +1,5 @@
-import { describe, it, expect, beforeEach, afterEach } from 'vitest'
-import { parseTodoFile, loadTodoFiles } from '../src/parser.js'
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { parseTodoFile, loadTodoFiles, findConflictedFiles, indexTodoFiles } from '../src/parser.js'
 import { mkdir, writeFile, rm } from 'fs/promises'
 import { join } from 'path'
 import { tmpdir } from 'os'
@@ -467,3 +467,95 @@ Content`)
     expect(issues[0].id).toBe('test-1')
   })
 })
+
+describe('conflict markers', () => {
+  let testDir: string
+
+  const conflicted = `---
+id: conflicted-1
+<<<<<<< beads
+title: "Beads title"
+=======
+title: "File title"
+>>>>>>> file
+---
+
+Body`
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `todo-test-${Date.now()}-${Math.random().toString(36).slice(2)}`)
+    await mkdir(testDir, { recursive: true })
+  })
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true })
+  })
+
+  it('should refuse to parse files with conflict markers', () => {
+    expect(() => parseTodoFile(conflicted)).toThrow(/Unresolved conflict markers/)
+  })
+
+  it('should not mistake setext headings for conflict markers', () => {
+    const content = `---
+id: test
+title: Test
+---
+
+Heading
+=======
+
+Content`
+    expect(parseTodoFile(content).issue.id).toBe('test')
+  })
+
+  it('should skip conflicted files when loading and report them', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    await writeFile(join(testDir, 'conflicted.md'), conflicted)
+    await writeFile(join(testDir, 'clean.md'), `---
+id: clean-1
+title: Clean
+---
+
+Body`)
+
+    const issues = await loadTodoFiles(testDir)
+    const found = await findConflictedFiles(testDir)
+
+    expect(issues.map(i => i.id)).toEqual(['clean-1'])
+    expect(found).toEqual([{ id: 'conflicted-1', path: join(testDir, 'conflicted.md') }])
+    warn.mockRestore()
+  })
+})
+
+describe('indexTodoFiles', () => {
+  let testDir: string
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `todo-test-${Date.now()}-${Math.random().toString(36).slice(2)}`)
+    await mkdir(join(testDir, 'closed'), { recursive: true })
+  })
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true })
+  })
+
+  it('should map issue IDs to their files, including subdirectories', async () => {
+    await writeFile(join(testDir, 'open.md'), '---\nid: todo-1\ntitle: Open\n---\n')
+    await writeFile(join(testDir, 'closed', 'done.md'), '---\nid: "todo-2"\ntitle: Done\n---\n')
+    await writeFile(join(testDir, 'notes.md'), '# No frontmatter\n')
+
+    const index = await indexTodoFiles(testDir)
+
+    expect(index).toEqual(
+      new Map([
+        ['todo-1', join(testDir, 'open.md')],
+        ['todo-2', join(testDir, 'closed', 'done.md')],
+      ])
+    )
+  })
+
+  it('should return an empty index for a missing directory', async () => {
+    const index = await indexTodoFiles(join(testDir, 'missing'))
+    expect(index.size).toBe(0)
+  })
+})
@@ -450,3 +450,269 @@ More content here.
     })
   })
 })
+
+describe('parseTodoFile - YAML frontmatter', () => {
+  it('should parse block lists and multi-line strings', () => {
+    const content = `---
+id: todo-yaml-1
+title: >-
+  A folded
+  title
+labels:
+  - bug
+  - urgent
+dependsOn:
+  - todo-a
+---
+
+Body`
+
+    const result = parseTodoFile(content)
+
+    expect(result.issue.title).toBe('A folded title')
+    expect(result.issue.labels).toEqual(['bug', 'urgent'])
+    expect(result.issue.dependsOn).toEqual(['todo-a'])
+  })
+
+  it('should parse closeReason as a known field', () => {
+    const content = `---
+id: todo-yaml-close
+title: Closed issue
+state: closed
+closedAt: "2025-01-02T10:00:00.000Z"
+closeReason: Duplicate of todo-1
+---
+`
+
+    const result = parseTodoFile(content)
+
+    expect(result.issue.closeReason).toBe('Duplicate of todo-1')
+    expect(result.issue.custom).toBeUndefined()
+  })
+
+  it('should collect unknown keys into custom', () => {
+    const content = `---
+id: todo-yaml-2
+title: Custom fields
+state: open
+estimate: 3 # story points
+sprint:
+  name: Sprint 12
+  goals: [ship, polish]
+notes: |
+  first line
+  second line
+---
+
+Body`
+
+    const result = parseTodoFile(content)
+
+    expect(result.issue.custom).toEqual({
+      estimate: 3,
+      sprint: { name: 'Sprint 12', goals: ['ship', 'polish'] },
+      notes: 'first line\nsecond line\n',
+    })
+    expect(result.issue.status).toBe('open')
+  })
+
+  it('should leave custom undefined when all keys are known', () => {
+    const content = `---
+id: todo-yaml-3
+title: Known only
+state: open
+priority: 1
+---
+
+Body`
+
+    const result = parseTodoFile(content)
+
+    expect(result.issue.custom).toBeUndefined()
+    expect('custom' in result.issue).toBe(false)
+  })
+
+  it('should round-trip custom fields through generateTodoFile', () => {
+    const content = `---
+id: todo-yaml-4
+title: Round trip
+state: open
+priority: 2
+type: task
+labels: []
+estimate: 5
+sprint:
+  name: Sprint 12
+  goals:
+    - ship
+    - polish
+---
+
+# Round trip`
+
+    const first = parseTodoFile(content)
+    const second = parseTodoFile(generateTodoFile(first.issue))
+
+    expect(second.issue.custom).toEqual(first.issue.custom)
+    expect(second.issue.title).toBe('Round trip')
+  })
+})
+
+describe('parseTodoFile with a template', () => {
+  const template = `---
+$pattern: "[id]-[title].md"
+---
+# {issue.title}
+
+**Status:** {issue.status} | **Priority:** {issue.priority}
+
+## Description
+
+{issue.description}
+
+## Labels
+
+<Issue.Labels />
+
+## Dependencies
+
+<Issue.Dependencies />
+`
+
+  const issue: TodoIssue = {
+    id: 'todo-tpl',
+    title: 'Templated issue',
+    description: 'The real description.',
+    status: 'open',
+    type: 'task',
+    priority: 2,
+    labels: ['api', 'backend'],
+    dependsOn: ['todo-1'],
+  }
+
+  it('should extract the description without the surrounding template', () => {
+    const result = parseTodoFile(generateTodoFile(issue, template), { template })
+
+    expect(result.extraction?.applied).toBe(true)
+    expect(result.extraction?.confidence).toBe(1)
+    expect(result.issue.description).toBe('The real description.')
+    expect(result.issue.labels).toEqual(['api', 'backend'])
+    expect(result.issue.dependsOn).toEqual(['todo-1'])
+  })
+
+  it('should extract a body whose last component rendered empty', () => {
+    const trailing = `${template}\n## Blocks\n\n<Issue.Dependents />\n`
+    const result = parseTodoFile(generateTodoFile(issue, trailing), { template: trailing })
+
+    expect(result.extraction?.applied).toBe(true)
+    expect(result.issue.description).toBe('The real description.')
+    expect(result.issue.blocks).toEqual([])
+  })
+
+  it('should not save dependents from other issues as blocks', () => {
+    const withDependents = `${template}\n## Blocks\n\n<Issue.Dependents />\n`
+    const dependent: TodoIssue = { ...issue, id: 'todo-dep', dependsOn: ['todo-tpl'] }
+
+    const file = generateTodoFile(issue, withDependents, [issue, dependent])
+    expect(file).toContain('## Blocks\n\n- todo-dep')
+
+    const result = parseTodoFile(file, { template: withDependents })
+    expect(result.extraction?.applied).toBe(true)
+    expect(result.issue.blocks).toEqual([])
+
+    // Its own blocks still read back, and removing one from the list removes it
+    const blocking = { ...issue, blocks: ['todo-8', 'todo-9'] }
+    const edited = generateTodoFile(blocking, withDependents, [blocking, dependent]).replace('- todo-9\n', '')
+    expect(parseTodoFile(edited, { template: withDependents }).issue.blocks).toEqual(['todo-8'])
+  })
+
+  it('should round-trip a template that hides empty sections', () => {
+    const conditional = `# {issue.title}
+
+{#if issue.assignee}
+**Assignee:** @{issue.assignee}
+
+{/if}
+## Description
+
+{issue.description}
+{#if issue.dependsOn}
+
+## Dependencies
+
+{#each issue.dependsOn as dep}
+- {dep}
+{/each}
+{/if}
+`
+    const unassigned = generateTodoFile({ ...issue, dependsOn: [] }, conditional)
+    expect(unassigned).not.toContain('Assignee')
+    expect(unassigned).not.toContain('## Dependencies')
+
+    const result = parseTodoFile(generateTodoFile({ ...issue, assignee: 'sam', dependsOn: ['todo-1', 'todo-2'] }, conditional), {
+      template: conditional,
+    })
+    expect(result.extraction?.confidence).toBe(1)
+    expect(result.issue.assignee).toBe('sam')
+    expect(result.issue.description).toBe('The real description.')
+    expect(result.issue.dependsOn).toEqual(['todo-1', 'todo-2'])
+  })
+
+  it('should pick up edits made to templated sections of the body', () => {
+    const edited = generateTodoFile(issue, template)
+      .replace('# Templated issue', '# Renamed issue')
+      .replace('**Priority:** 2', '**Priority:** 0')
+      .replace('api, backend', 'api, frontend, urgent')
+      .replace('- todo-1', '- todo-1\n- todo-2')
+
+    const result = parseTodoFile(edited, { template })
+
+    expect(result.issue.title).toBe('Renamed issue')
+    expect(result.issue.priority).toBe(0)
+    expect(result.issue.labels).toEqual(['api', 'frontend', 'urgent'])
+    expect(result.issue.dependsOn).toEqual(['todo-1', 'todo-2'])
+    expect(result.issue.id).toBe('todo-tpl')
+  })
+
+  it('should fall back to the frontmatter parse when confidence is low', () => {
+    const content = `---
+id: todo-hand
+title: "Hand written"
+state: open
+labels: ["docs"]
+---
+
+Just some notes that don't follow the template.
+`
+
+    const result = parseTodoFile(content, { template })
+
+    expect(result.extraction?.applied).toBe(false)
+    expect(result.extraction?.confidence).toBeLessThan(0.75)
+    expect(result.issue.title).toBe('Hand written')
+    expect(result.issue.labels).toEqual(['docs'])
+    expect(result.issue.description).toBe("Just some notes that don't follow the template.")
+  })
+
+  it('should extract files whose description and assignee are empty', () => {
+    const withAssignee = template.replace(
+      '**Status:** {issue.status} | **Priority:** {issue.priority}',
+      '**Status:** {issue.status} | **Priority:** {issue.priority}\n\n**Assignee:** @{issue.assignee}'
+    )
+    const bare = { ...issue, description: undefined, labels: undefined, dependsOn: undefined }
+
+    const result = parseTodoFile(generateTodoFile(bare, withAssignee), { template: withAssignee })
+
+    expect(result.extraction?.applied).toBe(true)
+    expect(result.extraction?.confidence).toBe(1)
+    expect(result.issue.title).toBe('Templated issue')
+    expect(result.issue.description).toBeUndefined()
+    expect(result.issue.assignee).toBeUndefined()
+    expect(result.issue.priority).toBe(2)
+  })
+
+  it('should not report extraction without a template', () => {
+    const result = parseTodoFile(generateTodoFile(issue))
+    expect(result.extraction).toBeUndefined()
+  })
+})
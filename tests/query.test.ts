@@ -0,0 +1,153 @@
+import { describe, it, expect } from 'vitest'
+import {
+  filterIssues,
+  parseWhere,
+  sortIssues,
+  blockersOf,
+  readyIssues,
+  blockedIssues,
+  dependencyTree,
+} from '../src/query.js'
+import type { TodoIssue } from '../src/types.js'
+
+const issue = (id: string, fields: Partial<TodoIssue> = {}): TodoIssue => ({
+  id,
+  title: id,
+  status: 'open',
+  type: 'task',
+  priority: 2,
+  ...fields,
+})
+
+describe('filterIssues', () => {
+  const issues = [
+    issue('a-1', { type: 'bug', priority: 0, labels: ['api', 'ui'], assignee: 'sam' }),
+    issue('a-2', { type: 'feature', status: 'closed', labels: ['api'] }),
+    issue('a-3', { status: 'in_progress', assignee: 'kim' }),
+  ]
+
+  it('should match any of the values of a field', () => {
+    expect(filterIssues(issues, { type: ['bug', 'feature'] }).map((i) => i.id)).toEqual(['a-1', 'a-2'])
+    expect(filterIssues(issues, { status: ['open', 'in_progress'] }).map((i) => i.id)).toEqual(['a-1', 'a-3'])
+    expect(filterIssues(issues, { assignee: ['kim'] }).map((i) => i.id)).toEqual(['a-3'])
+    expect(filterIssues(issues, { priority: [0] }).map((i) => i.id)).toEqual(['a-1'])
+  })
+
+  it('should require every label', () => {
+    expect(filterIssues(issues, { label: ['api'] }).map((i) => i.id)).toEqual(['a-1', 'a-2'])
+    expect(filterIssues(issues, { label: ['api', 'ui'] }).map((i) => i.id)).toEqual(['a-1'])
+  })
+
+  it('should match everything with an empty filter', () => {
+    expect(filterIssues(issues, { status: [], label: [] })).toHaveLength(3)
+  })
+
+  it('should match parents', () => {
+    const children = [issue('c-1', { parent: 'a-1' }), issue('c-2', { parent: 'a-2' }), issue('c-3')]
+    expect(filterIssues(children, { parent: ['a-1', 'a-2'] }).map((i) => i.id)).toEqual(['c-1', 'c-2'])
+  })
+})
+
+describe('parseWhere', () => {
+  const issues = [
+    issue('a-1', { type: 'bug', priority: 0, labels: ['api', 'ui'], assignee: 'sam' }),
+    issue('a-2', { type: 'feature', status: 'closed', labels: ['api'] }),
+    issue('a-3', { status: 'in_progress', priority: 1, assignee: 'kim' }),
+  ]
+  const where = (expression: string) => issues.filter(parseWhere(expression)).map((i) => i.id)
+
+  it('should compare fields, numerically for numbers', () => {
+    expect(where('type == bug')).toEqual(['a-1'])
+    expect(where("status != 'closed'")).toEqual(['a-1', 'a-3'])
+    expect(where('priority <= 1')).toEqual(['a-1', 'a-3'])
+    expect(where('title > a-2')).toEqual(['a-3'])
+    expect(where('priority gt 0 and priority lte 1')).toEqual(['a-3'])
+  })
+
+  it('should test membership of list fields', () => {
+    expect(where('labels == api')).toEqual(['a-1', 'a-2'])
+    expect(where('labels != ui')).toEqual(['a-2', 'a-3'])
+  })
+
+  it('should test whether a field is set', () => {
+    expect(where('assignee')).toEqual(['a-1', 'a-3'])
+    expect(where('!labels')).toEqual(['a-3'])
+  })
+
+  it('should bind && tighter than ||', () => {
+    expect(where('type == feature || priority == 1 && assignee == kim')).toEqual(['a-2', 'a-3'])
+    expect(where('type == bug and labels == ui or status == closed')).toEqual(['a-1', 'a-2'])
+  })
+
+  it('should reject malformed expressions', () => {
+    expect(() => parseWhere('')).toThrow('Invalid where expression')
+    expect(() => parseWhere('priority <=')).toThrow('Invalid where expression')
+    expect(() => parseWhere('type == bug &&')).toThrow('Invalid where expression')
+    expect(() => parseWhere('type bug')).toThrow('Invalid where expression')
+  })
+})
+
+describe('sortIssues', () => {
+  const issues = [
+    issue('a-10', { priority: 1, title: 'beta', updatedAt: '2025-01-03' }),
+    issue('a-2', { priority: 1, title: 'Alpha', updatedAt: '2025-01-01' }),
+    issue('a-3', { priority: 0, title: 'gamma', status: 'closed' }),
+  ]
+
+  it('should sort by priority, breaking ties by ID', () => {
+    expect(sortIssues(issues).map((i) => i.id)).toEqual(['a-3', 'a-2', 'a-10'])
+  })
+
+  it('should sort by other keys and reverse', () => {
+    expect(sortIssues(issues, 'title').map((i) => i.id)).toEqual(['a-2', 'a-10', 'a-3'])
+    expect(sortIssues(issues, 'status').map((i) => i.id)).toEqual(['a-2', 'a-10', 'a-3'])
+    expect(sortIssues(issues, 'updated', true).map((i) => i.id)).toEqual(['a-10', 'a-2', 'a-3'])
+  })
+})
+
+describe('ready and blocked issues', () => {
+  const issues = [
+    issue('a-1', { status: 'closed' }),
+    issue('a-2', { dependsOn: ['a-1'] }),
+    issue('a-3', { dependsOn: ['a-2', 'a-99'] }),
+    issue('a-4', { blocks: ['a-5'] }),
+    issue('a-5'),
+    issue('a-6', { status: 'blocked' }),
+  ]
+
+  it('should find blockers through dependsOn and blocks, ignoring closed and unknown issues', () => {
+    expect(blockersOf(issues[1], issues)).toEqual([])
+    expect(blockersOf(issues[2], issues)).toEqual(['a-2'])
+    expect(blockersOf(issues[4], issues)).toEqual(['a-4'])
+  })
+
+  it('should list open issues with nothing blocking them as ready', () => {
+    expect(readyIssues(issues).map((i) => i.id)).toEqual(['a-2', 'a-4'])
+  })
+
+  it('should list blocked issues with their blockers', () => {
+    expect(blockedIssues(issues).map(({ issue, blockedBy }) => [issue.id, blockedBy])).toEqual([
+      ['a-3', ['a-2']],
+      ['a-5', ['a-4']],
+      ['a-6', []],
+    ])
+  })
+})
+
+describe('dependencyTree', () => {
+  it('should resolve dependencies recursively, flagging cycles and unknown IDs', () => {
+    const issues = [
+      issue('a-1', { dependsOn: ['a-2', 'a-9'] }),
+      issue('a-2', { dependsOn: ['a-3'] }),
+      issue('a-3', { dependsOn: ['a-1'] }),
+    ]
+
+    const tree = dependencyTree('a-1', issues)
+
+    expect(tree.issue?.id).toBe('a-1')
+    const [a2, a9] = tree.dependsOn
+    expect(a9).toEqual({ id: 'a-9', issue: undefined, dependsOn: [] })
+    expect(a2.dependsOn[0].id).toBe('a-3')
+    expect(a2.dependsOn[0].dependsOn[0]).toMatchObject({ id: 'a-1', cycle: true, dependsOn: [] })
+  })
+})
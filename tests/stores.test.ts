@@ -0,0 +1,168 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'fs/promises'
+import { join } from 'path'
+import { tmpdir } from 'os'
+import { createMemoryStore, createTodoStore } from '../src/stores.js'
+import { sync } from '../src/sync.js'
+import { compile } from '../src/compiler.js'
+import { indexTodoFiles } from '../src/parser.js'
+import type { TodoIssue } from '../src/types.js'
+
+const issue = (fields: Partial<TodoIssue>): TodoIssue => ({
+  id: 'task-1',
+  title: 'Task',
+  status: 'open',
+  type: 'task',
+  priority: 2,
+  ...fields,
+})
+
+describe('createMemoryStore', () => {
+  it('should create, read, update and delete issues', async () => {
+    const store = createMemoryStore([issue({})])
+
+    await store.create(issue({ id: 'task-2', title: 'Second' }))
+    await expect(store.create(issue({ id: 'task-2' }))).rejects.toThrow('already exists')
+
+    await store.update(issue({ title: 'Renamed' }))
+    await expect(store.update(issue({ id: 'task-9' }))).rejects.toThrow('not found')
+
+    expect((await store.get('task-1'))?.title).toBe('Renamed')
+    expect(await store.delete('task-2')).toBe(true)
+    expect(await store.delete('task-2')).toBe(false)
+    expect((await store.list()).map((i) => i.id)).toEqual(['task-1'])
+  })
+
+  it('should copy issues in and out', async () => {
+    const original = issue({ labels: ['a'] })
+    const store = createMemoryStore([original])
+
+    original.labels!.push('b')
+    const listed = await store.get('task-1')
+    listed!.labels!.push('c')
+
+    expect((await store.get('task-1'))?.labels).toEqual(['a'])
+  })
+
+  it('should notify watchers of changes until closed', async () => {
+    const store = createMemoryStore()
+    const onChange = vi.fn()
+
+    const watcher = await store.watch!(onChange)
+    await store.create(issue({}))
+    await watcher.close()
+    await store.delete('task-1')
+
+    expect(onChange).toHaveBeenCalledTimes(1)
+  })
+})
+
+describe('sync between stores', () => {
+  let todoDir: string
+
+  beforeEach(async () => {
+    todoDir = await mkdtemp(join(tmpdir(), 'todo-stores-'))
+  })
+
+  afterEach(async () => {
+    await rm(todoDir, { recursive: true, force: true })
+  })
+
+  it('should reconcile two memory stores', async () => {
+    const tracker = createMemoryStore([issue({ id: 'task-1', title: 'From tracker' })], 'tracker')
+    const staging = createMemoryStore([issue({ id: 'task-2', title: 'From staging', dependsOn: ['task-1'] })])
+
+    const result = await sync({ todoDir, stores: { beads: tracker, files: staging } })
+
+    expect(result.created).toEqual(['task-2'])
+    expect(result.filesWritten).toEqual(['task-1'])
+    expect((await tracker.get('task-2'))?.dependsOn).toEqual(['task-1'])
+    expect((await staging.get('task-1'))?.title).toBe('From tracker')
+
+    // The next sync merges against the recorded base, so only the tracker edit moves
+    await tracker.update(issue({ id: 'task-1', title: 'Renamed' }))
+    const second = await sync({ todoDir, stores: { beads: tracker, files: staging } })
+
+    expect(second.created).toEqual([])
+    expect(second.filesWritten).toEqual(['task-1'])
+    expect((await staging.get('task-1'))?.title).toBe('Renamed')
+  })
+
+  it('should delete from the files store when deletions are handled', async () => {
+    const tracker = createMemoryStore([issue({ id: 'task-1' })])
+    const staging = createMemoryStore()
+
+    await sync({ todoDir, stores: { beads: tracker, files: staging } })
+    await tracker.delete('task-1')
+    const result = await sync({ todoDir, handleDeletions: true, stores: { beads: tracker, files: staging } })
+
+    expect(result.filesDeleted).toEqual(['task-1'])
+    expect(await staging.list()).toEqual([])
+  })
+
+  it('should write .todo files from a memory store', async () => {
+    const tracker = createMemoryStore([issue({ id: 'task-1', title: 'Tracked' })])
+    const files = createTodoStore({ todoDir })
+
+    await sync({ todoDir, direction: 'beads-to-files', stores: { beads: tracker } })
+
+    expect((await files.get('task-1'))?.title).toBe('Tracked')
+  })
+
+  it('should round-trip issues without a description or assignee through templated files', async () => {
+    const templateDir = join(todoDir, '.mdx')
+    await mkdir(templateDir)
+    await writeFile(
+      join(templateDir, '[Issue].mdx'),
+      '---\n$pattern: "[id].md"\n---\n# {issue.title}\n\n**Status:** {issue.status} | **Priority:** {issue.priority}\n\n' +
+        '**Assignee:** @{issue.assignee}\n\n## Description\n\n{issue.description}\n\n' +
+        '## Dependencies\n\n<Issue.Dependencies />\n\n## Blocks\n\n<Issue.Dependents />\n'
+    )
+    const tracker = createMemoryStore([issue({ id: 'task-1', title: 'No desc' }), issue({ id: 'task-2', assignee: 'sam' })])
+    const options = { todoDir, templateDir, stores: { beads: tracker } }
+
+    await sync(options)
+    const second = await sync(options)
+
+    expect(second.updated).toEqual([])
+    expect(second.filesWritten).toEqual([])
+    expect((await tracker.get('task-1'))?.description).toBeUndefined()
+    expect((await createTodoStore({ todoDir, templateDir }).get('task-1'))?.description).toBeUndefined()
+    expect(await readFile(join(todoDir, 'task-1.md'), 'utf-8')).toContain('## Description\n\n\n\n## Dependencies')
+  })
+
+  it('should sync hand-written files and keep their bodies', async () => {
+    const body =
+      '## Description\n\nImplement OAuth 2.0 login.\n\n## Acceptance Criteria\n\n- [ ] Users can sign in with GitHub'
+    await writeFile(
+      join(todoDir, 'task-1.md'),
+      `---\nid: task-1\ntitle: Add user authentication\nstate: open\ntype: feature\npriority: 1\n---\n\n${body}\n`
+    )
+    const tracker = createMemoryStore()
+    const options = { todoDir, templateDir: join(todoDir, 'no-templates'), stores: { beads: tracker } }
+
+    await sync(options)
+    expect((await tracker.get('task-1'))?.description).toBe(body)
+
+    // A body edit syncs, and a tracker change rewrites the frontmatter but not the body
+    const path = (await indexTodoFiles(todoDir)).get('task-1')!
+    const edited = body.replace('OAuth 2.0', 'OAuth 2.1')
+    await writeFile(path, (await readFile(path, 'utf-8')).replace(body, edited))
+    await sync(options)
+    await tracker.update({ ...(await tracker.get('task-1'))!, priority: 0 })
+    await sync(options)
+
+    const content = await readFile((await indexTodoFiles(todoDir)).get('task-1')!, 'utf-8')
+    expect((await tracker.get('task-1'))?.description).toBe(edited)
+    expect(content).toContain('priority: 0')
+    expect(content.slice(content.indexOf('\n---\n') + 5).trim()).toBe(edited)
+  })
+
+  it('should compile from the given stores', async () => {
+    const tracker = createMemoryStore([issue({ id: 'task-1', title: 'Compiled from memory' })])
+
+    const result = await compile({ todoDir, stores: { beads: tracker, files: createMemoryStore() } })
+
+    expect(result.output).toContain('Compiled from memory')
+  })
+})
@@ -20,23 +20,41 @@ vi.mock('beads-workflows', () => ({
 
 // Mock file system operations
 vi.mock('../src/beads.js', () => ({
+  isBdAvailable: vi.fn(async () => true),
   loadBeadsIssues: vi.fn(),
   hasBeadsDirectory: vi.fn(),
+  addDependency: vi.fn(async () => ({ success: true })),
+  removeDependency: vi.fn(async () => ({ success: true })),
+  reopenIssue: vi.fn(async () => ({ success: true })),
 }))
 
 vi.mock('../src/parser.js', () => ({
   loadTodoFiles: vi.fn(),
+  findConflictedFiles: vi.fn(async () => []),
 }))
 
 vi.mock('../src/generator.js', () => ({
   writeTodoFiles: vi.fn(),
+  writeConflictFiles: vi.fn(),
+  planTodoFiles: vi.fn(async () => ({ written: [], moved: [], deleted: [] })),
   deleteTodoFile: vi.fn(),
 }))
 
+vi.mock('../src/sync-state.js', () => ({
+  loadSyncState: vi.fn(async () => ({ version: 1, issues: {} })),
+  saveSyncState: vi.fn(),
+}))
+
+vi.mock('../src/journal.js', () => ({
+  readFileContents: vi.fn(async () => ({})),
+  appendJournalEntry: vi.fn(),
+}))
+
 import { createIssue, updateIssue, closeIssue, deleteIssue } from 'beads-workflows'
 import { loadBeadsIssues } from '../src/beads.js'
 import { loadTodoFiles } from '../src/parser.js'
-import { writeTodoFiles, deleteTodoFile } from '../src/generator.js'
+import { writeTodoFiles, deleteTodoFile, planTodoFiles } from '../src/generator.js'
+import { loadSyncState, saveSyncState } from '../src/sync-state.js'
 
 describe('Deletion Detection in detectChanges', () => {
   describe('Issue exists in beads but file was deleted', () => {
@@ -499,3 +517,74 @@ describe('filesDeleted tracking in SyncResult', () => {
     expect(Array.isArray(result.deleted)).toBe(true)
   })
 })
+
+describe('Deleting and moving files', () => {
+  const orphan: TodoIssue = {
+    id: 'task-orphan',
+    title: 'Orphan file',
+    status: 'open',
+    type: 'task',
+    priority: 2,
+    source: 'file',
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(loadBeadsIssues).mockResolvedValue([])
+    vi.mocked(loadTodoFiles).mockResolvedValue([orphan])
+    vi.mocked(writeTodoFiles).mockResolvedValue([])
+    vi.mocked(deleteTodoFile).mockResolvedValue(true)
+    vi.mocked(planTodoFiles).mockImplementation(async (_issues, deletedIds) => ({
+      written: [],
+      moved: [],
+      deleted: deletedIds.map((id) => ({ id, path: `/repo/.todo/${id}.md` })),
+    }))
+  })
+
+  it('should delete files of issues removed from beads', async () => {
+    const result = await sync({ todoDir: '.todo', handleDeletions: true })
+
+    expect(deleteTodoFile).toHaveBeenCalledWith('task-orphan', '.todo')
+    expect(result.filesDeleted).toEqual(['/repo/.todo/task-orphan.md'])
+    expect(saveSyncState).toHaveBeenCalledWith('.todo', {})
+  })
+
+  it('should list deletes without deleting in dry run mode', async () => {
+    const result = await sync({ todoDir: '.todo', handleDeletions: true, dryRun: true })
+
+    expect(deleteTodoFile).not.toHaveBeenCalled()
+    expect(result.filesDeleted).toEqual(['/repo/.todo/task-orphan.md'])
+  })
+
+  it('should list renames in dry run mode', async () => {
+    const beadsIssue: TodoIssue = { ...orphan, title: 'Renamed in beads', source: 'beads' }
+    const move = { id: 'task-orphan', from: '/repo/.todo/Orphan file.md', to: '/repo/.todo/Renamed in beads.md' }
+    vi.mocked(loadSyncState).mockResolvedValueOnce({ version: 1, issues: { 'task-orphan': orphan } })
+    vi.mocked(loadBeadsIssues).mockResolvedValue([beadsIssue])
+    vi.mocked(planTodoFiles).mockResolvedValue({ written: [], moved: [move], deleted: [] })
+
+    const result = await sync({ todoDir: '.todo', dryRun: true })
+
+    expect(planTodoFiles).toHaveBeenCalledWith(
+      [expect.objectContaining({ title: 'Renamed in beads' })],
+      [],
+      '.todo',
+      expect.any(Object)
+    )
+    expect(result.filesMoved).toEqual([move])
+    expect(writeTodoFiles).not.toHaveBeenCalled()
+  })
+
+  it('should not treat new files as deleted from beads once a merge base exists', async () => {
+    vi.mocked(loadSyncState).mockResolvedValueOnce({
+      version: 1,
+      issues: { 'task-other': { ...orphan, id: 'task-other' } },
+    })
+
+    const result = await sync({ todoDir: '.todo', handleDeletions: true })
+
+    expect(deleteTodoFile).not.toHaveBeenCalled()
+    expect(createIssue).toHaveBeenCalled()
+    expect(result.deleted).toEqual([])
+  })
+})
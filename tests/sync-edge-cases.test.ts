@@ -17,16 +17,35 @@ vi.mock('beads-workflows', () => ({
 
 // Mock file system operations
 vi.mock('../src/beads.js', () => ({
+  isBdAvailable: vi.fn(async () => true),
   loadBeadsIssues: vi.fn(),
   hasBeadsDirectory: vi.fn(),
+  addDependency: vi.fn(async () => ({ success: true })),
+  removeDependency: vi.fn(async () => ({ success: true })),
+  reopenIssue: vi.fn(async () => ({ success: true })),
+  updateSkippedFields: vi.fn(async () => ({ success: true })),
 }))
 
 vi.mock('../src/parser.js', () => ({
   loadTodoFiles: vi.fn(),
+  findConflictedFiles: vi.fn(async () => []),
 }))
 
 vi.mock('../src/generator.js', () => ({
   writeTodoFiles: vi.fn(),
+  writeConflictFiles: vi.fn(),
+  planTodoFiles: vi.fn(async () => ({ written: [], moved: [], deleted: [] })),
+  deleteTodoFile: vi.fn(async () => true),
+}))
+
+vi.mock('../src/sync-state.js', () => ({
+  loadSyncState: vi.fn(async () => ({ version: 1, issues: {} })),
+  saveSyncState: vi.fn(),
+}))
+
+vi.mock('../src/journal.js', () => ({
+  readFileContents: vi.fn(async () => ({})),
+  appendJournalEntry: vi.fn(),
 }))
 
 import { createIssue, updateIssue, closeIssue } from 'beads-workflows'
@@ -636,6 +655,68 @@ describe('Sync Edge Cases', () => {
       )
     })
 
+    it('should ignore custom frontmatter fields when comparing issues', () => {
+      const beadsIssues: TodoIssue[] = [
+        { id: 'task-1', title: 'Same', status: 'open', type: 'task', priority: 2, source: 'beads' },
+      ]
+      const fileIssues: TodoIssue[] = [
+        {
+          id: 'task-1',
+          title: 'Same',
+          status: 'open',
+          type: 'task',
+          priority: 2,
+          source: 'file',
+          custom: { estimate: 3 },
+        },
+      ]
+
+      const result = detectChanges(beadsIssues, fileIssues)
+
+      expect(result.conflicts).toHaveLength(0)
+      expect(result.toBeads).toHaveLength(0)
+      expect(result.toFiles).toHaveLength(0)
+    })
+
+    it('should preserve custom frontmatter fields when rewriting files from beads', async () => {
+      vi.mocked(loadBeadsIssues).mockResolvedValue([
+        {
+          id: 'task-1',
+          title: 'Updated in beads',
+          status: 'open',
+          type: 'task',
+          priority: 2,
+          updatedAt: '2024-01-03T00:00:00Z',
+          source: 'beads',
+        },
+      ])
+      vi.mocked(loadTodoFiles).mockResolvedValue([
+        {
+          id: 'task-1',
+          title: 'Old title',
+          status: 'open',
+          type: 'task',
+          priority: 2,
+          updatedAt: '2024-01-01T00:00:00Z',
+          source: 'file',
+          custom: { estimate: 3, sprint: { name: 'Sprint 12' } },
+        },
+      ])
+
+      await sync({ todoDir: '.todo' })
+
+      expect(writeTodoFiles).toHaveBeenCalledWith(
+        [
+          expect.objectContaining({
+            title: 'Updated in beads',
+            custom: { estimate: 3, sprint: { name: 'Sprint 12' } },
+          }),
+        ],
+        '.todo',
+        expect.any(Object)
+      )
+    })
+
     it('should handle very old and very new timestamps', () => {
       const beadsIssues: TodoIssue[] = [
         {
@@ -0,0 +1,59 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { mkdtemp, rm, readFile, writeFile } from 'fs/promises'
+import { join } from 'path'
+import { tmpdir } from 'os'
+import { loadSyncState, saveSyncState, SYNC_STATE_FILE } from '../src/sync-state.js'
+import type { TodoIssue } from '../src/types.js'
+
+describe('sync state', () => {
+  let todoDir: string
+
+  beforeEach(async () => {
+    todoDir = await mkdtemp(join(tmpdir(), 'todo-sync-state-'))
+  })
+
+  afterEach(async () => {
+    await rm(todoDir, { recursive: true, force: true })
+  })
+
+  const issue: TodoIssue = {
+    id: 'task-1',
+    title: 'Synced task',
+    status: 'open',
+    type: 'task',
+    priority: 2,
+  }
+
+  it('should return an empty state when no file exists', async () => {
+    const state = await loadSyncState(todoDir)
+    expect(state.issues).toEqual({})
+  })
+
+  it('should round-trip issues through .sync-state.json', async () => {
+    const path = await saveSyncState(todoDir, { 'task-1': issue })
+
+    expect(path).toBe(join(todoDir, SYNC_STATE_FILE))
+    const state = await loadSyncState(todoDir)
+    expect(state.issues).toEqual({ 'task-1': issue })
+    expect(state.syncedAt).toBeDefined()
+  })
+
+  it('should create the todo directory if needed', async () => {
+    const nested = join(todoDir, 'nested', '.todo')
+    await saveSyncState(nested, {})
+
+    const content = JSON.parse(await readFile(join(nested, SYNC_STATE_FILE), 'utf-8'))
+    expect(content.issues).toEqual({})
+  })
+
+  it('should ignore an invalid state file', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    await writeFile(join(todoDir, SYNC_STATE_FILE), '{ not json')
+
+    const state = await loadSyncState(todoDir)
+
+    expect(state.issues).toEqual({})
+    expect(warn).toHaveBeenCalled()
+    warn.mockRestore()
+  })
+})
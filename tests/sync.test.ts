@@ -2,7 +2,8 @@
  * Tests for sync.ts - bi-directional sync between beads and .todo/*.md files
  */
 import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest'
-import { sync, detectChanges } from '../src/sync.js'
+import { sync, planSync, detectChanges, mergeIssue } from '../src/sync.js'
+import { diffDependencies } from '../src/issue-changes.js'
 import type { TodoIssue, SyncResult, SyncConflict } from '../src/types.js'
 
 // Mock beads-workflows functions
@@ -16,22 +17,43 @@ vi.mock('beads-workflows', () => ({
 
 // Mock file system operations
 vi.mock('../src/beads.js', () => ({
+  isBdAvailable: vi.fn(async () => true),
   loadBeadsIssues: vi.fn(),
   hasBeadsDirectory: vi.fn(),
+  addDependency: vi.fn(async () => ({ success: true })),
+  removeDependency: vi.fn(async () => ({ success: true })),
+  reopenIssue: vi.fn(async () => ({ success: true })),
+  updateSkippedFields: vi.fn(async () => ({ success: true })),
 }))
 
 vi.mock('../src/parser.js', () => ({
   loadTodoFiles: vi.fn(),
+  findConflictedFiles: vi.fn(async () => []),
 }))
 
 vi.mock('../src/generator.js', () => ({
   writeTodoFiles: vi.fn(),
+  writeConflictFiles: vi.fn(),
+  planTodoFiles: vi.fn(async () => ({ written: [], moved: [], deleted: [] })),
+  deleteTodoFile: vi.fn(async () => true),
+}))
+
+vi.mock('../src/sync-state.js', () => ({
+  loadSyncState: vi.fn(async () => ({ version: 1, issues: {} })),
+  saveSyncState: vi.fn(),
+}))
+
+vi.mock('../src/journal.js', () => ({
+  readFileContents: vi.fn(async () => ({})),
+  appendJournalEntry: vi.fn(),
 }))
 
 import { createIssue, updateIssue, closeIssue } from 'beads-workflows'
-import { loadBeadsIssues } from '../src/beads.js'
-import { loadTodoFiles } from '../src/parser.js'
-import { writeTodoFiles } from '../src/generator.js'
+import { loadBeadsIssues, addDependency, removeDependency, reopenIssue } from '../src/beads.js'
+import { writeTodoFiles, writeConflictFiles, planTodoFiles } from '../src/generator.js'
+import { loadTodoFiles, findConflictedFiles } from '../src/parser.js'
+import { loadSyncState, saveSyncState } from '../src/sync-state.js'
+import { appendJournalEntry } from '../src/journal.js'
 
 describe('detectChanges', () => {
   it('should detect new issues in files that need to be created in beads', () => {
@@ -353,7 +375,8 @@ describe('sync', () => {
     expect(createIssue).not.toHaveBeenCalled()
     expect(updateIssue).not.toHaveBeenCalled()
     expect(writeTodoFiles).not.toHaveBeenCalled()
-    expect(result.created).toHaveLength(0)
+    // Dry runs report what would be done
+    expect(result.created).toEqual(['task-1'])
   })
 
   it('should handle beads-to-files direction', async () => {
@@ -592,6 +615,9 @@ describe('sync', () => {
     expect(createIssue).toHaveBeenCalledTimes(2)
     expect(result.created).toContain('task-2')
     expect(result.created).not.toContain('task-1')
+    expect(result.errors).toEqual([
+      { issueId: 'task-1', message: expect.stringContaining('Failed to sync issue task-1 to beads') },
+    ])
   })
 
   it('should handle labels and dependencies in sync', async () => {
@@ -951,3 +977,684 @@ describe('sync issue ID preservation', () => {
   })
 })
 
+
+describe('three-way merge', () => {
+  const base: TodoIssue = {
+    id: 'task-1',
+    title: 'Original title',
+    status: 'open',
+    type: 'task',
+    priority: 2,
+    labels: ['backend'],
+  }
+
+  describe('mergeIssue', () => {
+    it('should merge edits to different fields', () => {
+      const beadsIssue: TodoIssue = { ...base, title: 'Renamed in beads', source: 'beads' }
+      const fileIssue: TodoIssue = { ...base, priority: 0, source: 'file' }
+
+      const { merged, conflicts } = mergeIssue(base, beadsIssue, fileIssue)
+
+      expect(conflicts).toEqual([])
+      expect(merged.title).toBe('Renamed in beads')
+      expect(merged.priority).toBe(0)
+    })
+
+    it('should not treat identical edits on both sides as a conflict', () => {
+      const beadsIssue: TodoIssue = { ...base, status: 'closed' }
+      const fileIssue: TodoIssue = { ...base, status: 'closed' }
+
+      const { merged, conflicts } = mergeIssue(base, beadsIssue, fileIssue)
+
+      expect(conflicts).toEqual([])
+      expect(merged.status).toBe('closed')
+    })
+
+    it('should list every field changed differently on both sides', () => {
+      const beadsIssue: TodoIssue = { ...base, title: 'Beads title', priority: 1, labels: ['api'] }
+      const fileIssue: TodoIssue = { ...base, title: 'File title', priority: 3, assignee: 'alice' }
+
+      const { merged, conflicts } = mergeIssue(base, beadsIssue, fileIssue)
+
+      expect(conflicts).toEqual([
+        { field: 'title', baseValue: 'Original title', beadsValue: 'Beads title', fileValue: 'File title' },
+        { field: 'priority', baseValue: 2, beadsValue: 1, fileValue: 3 },
+      ])
+      expect(merged.labels).toEqual(['api'])
+      expect(merged.assignee).toBe('alice')
+    })
+
+    it('should keep custom fields from the file', () => {
+      const fileIssue: TodoIssue = { ...base, custom: { estimate: 3 } }
+
+      const { merged } = mergeIssue(base, base, fileIssue)
+
+      expect(merged.custom).toEqual({ estimate: 3 })
+    })
+  })
+
+  describe('detectChanges with a base', () => {
+    it('should push a merged issue to both sides for non-overlapping edits', () => {
+      const beadsIssues: TodoIssue[] = [
+        { ...base, title: 'Renamed in beads', source: 'beads', updatedAt: '2024-01-01T10:00:00Z' },
+      ]
+      const fileIssues: TodoIssue[] = [
+        { ...base, priority: 0, source: 'file', updatedAt: '2024-01-01T11:00:00Z' },
+      ]
+
+      const result = detectChanges(beadsIssues, fileIssues, { 'task-1': base })
+
+      expect(result.conflicts).toHaveLength(0)
+      expect(result.toBeads).toEqual([
+        expect.objectContaining({ title: 'Renamed in beads', priority: 0 }),
+      ])
+      expect(result.toFiles).toEqual([
+        expect.objectContaining({ title: 'Renamed in beads', priority: 0 }),
+      ])
+    })
+
+    it('should only update the side that is behind', () => {
+      const beadsIssues: TodoIssue[] = [{ ...base, source: 'beads' }]
+      const fileIssues: TodoIssue[] = [{ ...base, status: 'in_progress', source: 'file' }]
+
+      const result = detectChanges(beadsIssues, fileIssues, { 'task-1': base })
+
+      expect(result.toBeads).toEqual([expect.objectContaining({ status: 'in_progress' })])
+      expect(result.toFiles).toHaveLength(0)
+    })
+
+    it('should report same-field conflicts regardless of timestamps', () => {
+      const beadsIssues: TodoIssue[] = [
+        { ...base, title: 'Beads title', source: 'beads', updatedAt: '2024-01-01T00:00:00Z' },
+      ]
+      const fileIssues: TodoIssue[] = [
+        { ...base, title: 'File title', priority: 4, source: 'file', updatedAt: '2024-03-01T00:00:00Z' },
+      ]
+
+      const result = detectChanges(beadsIssues, fileIssues, { 'task-1': base })
+
+      expect(result.conflicts).toHaveLength(1)
+      expect(result.conflicts[0].fields.map((f) => f.field)).toEqual(['title'])
+      expect(result.toBeads).toHaveLength(0)
+      expect(result.toFiles).toHaveLength(0)
+    })
+  })
+
+  describe('sync with persisted state', () => {
+    beforeEach(() => {
+      vi.clearAllMocks()
+      vi.mocked(writeTodoFiles).mockResolvedValue(['.todo/task-1.md'])
+      vi.mocked(updateIssue).mockResolvedValue({ success: true })
+      vi.mocked(loadSyncState).mockResolvedValue({ version: 1, issues: { 'task-1': base } })
+    })
+
+    afterEach(() => {
+      vi.mocked(loadSyncState).mockResolvedValue({ version: 1, issues: {} })
+    })
+
+    it('should keep non-conflicting edits when resolving with beads-wins', async () => {
+      vi.mocked(loadBeadsIssues).mockResolvedValue([{ ...base, title: 'Beads title', source: 'beads' }])
+      vi.mocked(loadTodoFiles).mockResolvedValue([
+        { ...base, title: 'File title', priority: 0, source: 'file' },
+      ])
+
+      const result = await sync({ todoDir: '.todo', conflictStrategy: 'beads-wins' })
+
+      expect(result.conflicts[0].resolution).toBe('beads-wins')
+      expect(updateIssue).toHaveBeenCalledWith(
+        'task-1',
+        expect.objectContaining({ title: 'Beads title', priority: 0 }),
+        expect.any(Object)
+      )
+      expect(writeTodoFiles).toHaveBeenCalledWith(
+        [expect.objectContaining({ title: 'Beads title', priority: 0 })],
+        '.todo',
+        expect.any(Object)
+      )
+    })
+
+    it('should take file values for conflicting fields with file-wins', async () => {
+      vi.mocked(loadBeadsIssues).mockResolvedValue([{ ...base, title: 'Beads title', source: 'beads' }])
+      vi.mocked(loadTodoFiles).mockResolvedValue([{ ...base, title: 'File title', source: 'file' }])
+
+      await sync({ todoDir: '.todo', conflictStrategy: 'file-wins' })
+
+      expect(updateIssue).toHaveBeenCalledWith(
+        'task-1',
+        expect.objectContaining({ title: 'File title' }),
+        expect.any(Object)
+      )
+      expect(writeTodoFiles).not.toHaveBeenCalled()
+    })
+
+    it('should save the merged issue as the next base', async () => {
+      vi.mocked(loadBeadsIssues)
+        .mockResolvedValueOnce([{ ...base, title: 'Renamed', source: 'beads' }])
+        .mockResolvedValue([{ ...base, title: 'Renamed', priority: 1, source: 'beads' }])
+      vi.mocked(loadTodoFiles).mockResolvedValue([{ ...base, priority: 1, source: 'file' }])
+
+      await sync({ todoDir: '.todo' })
+
+      expect(saveSyncState).toHaveBeenCalledWith('.todo', {
+        'task-1': expect.objectContaining({ title: 'Renamed', priority: 1 }),
+      })
+    })
+
+    it('should keep the previous base when beads does not apply an update', async () => {
+      vi.mocked(loadBeadsIssues).mockResolvedValue([{ ...base, assignee: 'alice', source: 'beads' }])
+      vi.mocked(loadSyncState).mockResolvedValueOnce({ version: 1, issues: { 'task-1': { ...base, assignee: 'alice' } } })
+      vi.mocked(loadTodoFiles).mockResolvedValue([{ ...base, source: 'file' }])
+
+      const result = await sync({ todoDir: '.todo' })
+
+      expect(result.updated).toEqual(['task-1'])
+      expect(updateIssue).toHaveBeenCalledWith('task-1', expect.objectContaining({ assignee: '' }), expect.any(Object))
+      expect(saveSyncState).toHaveBeenCalledWith('.todo', { 'task-1': { ...base, assignee: 'alice' } })
+    })
+
+    it('should keep the previous base for unresolved conflicts', async () => {
+      vi.mocked(loadBeadsIssues).mockResolvedValue([{ ...base, title: 'Beads title', source: 'beads' }])
+      vi.mocked(loadTodoFiles).mockResolvedValue([{ ...base, title: 'File title', source: 'file' }])
+
+      const result = await sync({ todoDir: '.todo', conflictStrategy: 'newest-wins' })
+
+      expect(result.conflicts[0].resolution).toBe('manual')
+      expect(saveSyncState).toHaveBeenCalledWith('.todo', { 'task-1': base })
+    })
+
+    it('should apply values chosen by onConflict', async () => {
+      vi.mocked(loadBeadsIssues).mockResolvedValue([
+        { ...base, title: 'Beads title', priority: 1, source: 'beads' },
+      ])
+      vi.mocked(loadTodoFiles).mockResolvedValue([
+        { ...base, title: 'File title', priority: 3, source: 'file' },
+      ])
+      const onConflict = vi.fn().mockResolvedValue({ title: 'Typed title', priority: 3 })
+
+      const result = await sync({ todoDir: '.todo', conflictStrategy: 'beads-wins', onConflict })
+
+      expect(onConflict).toHaveBeenCalledWith(
+        expect.objectContaining({ issueId: 'task-1', fields: expect.any(Array) })
+      )
+      expect(result.conflicts[0].resolution).toBe('resolved')
+      expect(updateIssue).toHaveBeenCalledWith(
+        'task-1',
+        expect.objectContaining({ title: 'Typed title', priority: 3 }),
+        expect.any(Object)
+      )
+      expect(writeTodoFiles).toHaveBeenCalledWith(
+        [expect.objectContaining({ title: 'Typed title', priority: 3 })],
+        '.todo',
+        expect.any(Object)
+      )
+    })
+
+    it('should fall back to the strategy when onConflict skips', async () => {
+      vi.mocked(loadBeadsIssues).mockResolvedValue([{ ...base, title: 'Beads title', source: 'beads' }])
+      vi.mocked(loadTodoFiles).mockResolvedValue([{ ...base, title: 'File title', source: 'file' }])
+
+      const result = await sync({
+        todoDir: '.todo',
+        conflictStrategy: 'file-wins',
+        onConflict: () => null,
+      })
+
+      expect(result.conflicts[0].resolution).toBe('file-wins')
+    })
+
+    it('should write conflict markers with the markers strategy', async () => {
+      vi.mocked(writeConflictFiles).mockResolvedValue(['.todo/task-1.md'])
+      vi.mocked(loadBeadsIssues).mockResolvedValue([{ ...base, title: 'Beads title', source: 'beads' }])
+      vi.mocked(loadTodoFiles).mockResolvedValue([
+        { ...base, title: 'File title', priority: 0, source: 'file' },
+      ])
+
+      const result = await sync({ todoDir: '.todo', conflictStrategy: 'markers' })
+
+      expect(result.conflicts[0].resolution).toBe('markers')
+      expect(writeConflictFiles).toHaveBeenCalledWith(
+        [
+          {
+            beads: expect.objectContaining({ title: 'Beads title', priority: 0 }),
+            file: expect.objectContaining({ title: 'File title', priority: 0 }),
+          },
+        ],
+        '.todo',
+        expect.any(Object)
+      )
+      // The non-conflicting priority edit still reaches beads
+      expect(updateIssue).toHaveBeenCalledWith(
+        'task-1',
+        expect.objectContaining({ title: 'Beads title', priority: 0 }),
+        expect.any(Object)
+      )
+      // The beads side becomes the base, so keeping the file title later is a file edit
+      expect(saveSyncState).toHaveBeenCalledWith('.todo', {
+        'task-1': expect.objectContaining({ title: 'Beads title' }),
+      })
+      expect(result.filesWritten).toContain('.todo/task-1.md')
+    })
+
+    it('should skip issues whose files have unresolved conflict markers', async () => {
+      vi.mocked(findConflictedFiles).mockResolvedValueOnce([{ id: 'task-1', path: '.todo/task-1.md' }])
+      vi.mocked(loadBeadsIssues).mockResolvedValue([{ ...base, title: 'Beads title', source: 'beads' }])
+      vi.mocked(loadTodoFiles).mockResolvedValue([])
+
+      const result = await sync({ todoDir: '.todo' })
+
+      expect(result.unresolved).toEqual(['task-1'])
+      expect(writeTodoFiles).not.toHaveBeenCalled()
+      expect(saveSyncState).toHaveBeenCalledWith('.todo', { 'task-1': base })
+    })
+
+    it('should not save state on a dry run', async () => {
+      vi.mocked(loadBeadsIssues).mockResolvedValue([{ ...base, source: 'beads' }])
+      vi.mocked(loadTodoFiles).mockResolvedValue([{ ...base, source: 'file' }])
+
+      await sync({ todoDir: '.todo', dryRun: true })
+
+      expect(saveSyncState).not.toHaveBeenCalled()
+    })
+  })
+})
+
+describe('dependency sync', () => {
+  const issue = (fields: Partial<TodoIssue>): TodoIssue => ({
+    id: 'task-1',
+    title: 'Task',
+    status: 'open',
+    type: 'task',
+    priority: 2,
+    ...fields,
+  })
+
+  describe('diffDependencies', () => {
+    it('should add every edge for a new issue', () => {
+      const { add, remove } = diffDependencies(
+        issue({ dependsOn: ['task-a'], blocks: ['task-b'], parent: 'epic-1', children: ['task-c'] })
+      )
+
+      expect(add).toEqual([
+        { issueId: 'task-1', dependsOnId: 'task-a', type: 'blocks' },
+        { issueId: 'task-b', dependsOnId: 'task-1', type: 'blocks' },
+        { issueId: 'task-1', dependsOnId: 'epic-1', type: 'parent-child' },
+        { issueId: 'task-c', dependsOnId: 'task-1', type: 'parent-child' },
+      ])
+      expect(remove).toEqual([])
+    })
+
+    it('should add and remove only the edges that changed', () => {
+      const { add, remove } = diffDependencies(
+        issue({ dependsOn: ['task-a', 'task-c'] }),
+        issue({ dependsOn: ['task-a', 'task-b'] })
+      )
+
+      expect(add).toEqual([{ issueId: 'task-1', dependsOnId: 'task-c', type: 'blocks' }])
+      expect(remove).toEqual([{ issueId: 'task-1', dependsOnId: 'task-b', type: 'blocks' }])
+    })
+
+    it('should match a parent against the same edge reported in beads dependsOn', () => {
+      const { add, remove } = diffDependencies(
+        issue({ parent: 'epic-1' }),
+        issue({ dependsOn: ['epic-1'] })
+      )
+
+      expect(add).toEqual([])
+      expect(remove).toEqual([])
+    })
+  })
+
+  describe('sync', () => {
+    beforeEach(() => {
+      vi.clearAllMocks()
+      vi.mocked(writeTodoFiles).mockResolvedValue([])
+      vi.mocked(createIssue).mockResolvedValue({ success: true })
+      vi.mocked(updateIssue).mockResolvedValue({ success: true })
+    })
+
+    it('should push relationship edits from files to beads', async () => {
+      const base = issue({ dependsOn: ['task-a'], blocks: ['task-b'] })
+      vi.mocked(loadSyncState).mockResolvedValueOnce({ version: 1, issues: { 'task-1': base } })
+      vi.mocked(loadBeadsIssues).mockResolvedValue([{ ...base, source: 'beads' }])
+      vi.mocked(loadTodoFiles).mockResolvedValue([
+        issue({ dependsOn: ['task-c'], blocks: ['task-b'], parent: 'epic-1', source: 'file' }),
+      ])
+
+      await sync({ todoDir: '.todo', beadsDir: '/project' })
+
+      expect(removeDependency).toHaveBeenCalledTimes(1)
+      expect(removeDependency).toHaveBeenCalledWith('task-1', 'task-a', '/project')
+      expect(addDependency).toHaveBeenCalledTimes(2)
+      expect(addDependency).toHaveBeenCalledWith('task-1', 'task-c', 'blocks', '/project')
+      expect(addDependency).toHaveBeenCalledWith('task-1', 'epic-1', 'parent-child', '/project')
+    })
+
+    it('should add edges for new issues after creating them', async () => {
+      vi.mocked(loadBeadsIssues).mockResolvedValue([])
+      vi.mocked(loadTodoFiles).mockResolvedValue([
+        issue({ id: 'task-1', dependsOn: ['task-2'], source: 'file' }),
+        issue({ id: 'task-2', blocks: ['task-1'], source: 'file' }),
+      ])
+
+      await sync({ todoDir: '.todo' })
+
+      expect(createIssue).toHaveBeenCalledTimes(2)
+      // Both files describe the same edge; it is added once
+      expect(addDependency).toHaveBeenCalledTimes(1)
+      expect(addDependency).toHaveBeenCalledWith('task-1', 'task-2', 'blocks', undefined)
+    })
+
+    it('should not touch edges when the beads update fails', async () => {
+      vi.mocked(updateIssue).mockResolvedValue({ success: false, error: 'boom' })
+      vi.mocked(loadBeadsIssues).mockResolvedValue([issue({ source: 'beads' })])
+      vi.mocked(loadTodoFiles).mockResolvedValue([issue({ dependsOn: ['task-a'], source: 'file' })])
+      vi.mocked(loadSyncState).mockResolvedValueOnce({ version: 1, issues: { 'task-1': issue({}) } })
+
+      await sync({ todoDir: '.todo' })
+
+      expect(addDependency).not.toHaveBeenCalled()
+    })
+  })
+})
+
+describe('close and reopen sync', () => {
+  const issue = (fields: Partial<TodoIssue>): TodoIssue => ({
+    id: 'task-1',
+    title: 'Task',
+    status: 'open',
+    type: 'task',
+    priority: 2,
+    ...fields,
+  })
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(writeTodoFiles).mockResolvedValue([])
+    vi.mocked(createIssue).mockResolvedValue({ success: true })
+    vi.mocked(updateIssue).mockResolvedValue({ success: true })
+    vi.mocked(closeIssue).mockResolvedValue({
+      success: true,
+      data: { id: 'task-1', closed_at: '2025-01-02T10:00:00.000Z' },
+    })
+  })
+
+  it('should close through bd close with the close reason', async () => {
+    vi.mocked(loadSyncState).mockResolvedValueOnce({ version: 1, issues: { 'task-1': issue({}) } })
+    vi.mocked(loadBeadsIssues).mockResolvedValue([issue({ source: 'beads' })])
+    vi.mocked(loadTodoFiles).mockResolvedValue([
+      issue({ status: 'closed', closeReason: 'Fixed', source: 'file' }),
+    ])
+
+    await sync({ todoDir: '.todo', beadsDir: '/project' })
+
+    expect(updateIssue).toHaveBeenCalledWith(
+      'task-1',
+      expect.not.objectContaining({ status: 'closed' }),
+      { cwd: '/project' }
+    )
+    expect(closeIssue).toHaveBeenCalledWith('task-1', 'Fixed', { cwd: '/project' })
+  })
+
+  it('should report a close beads rejects as an error', async () => {
+    vi.mocked(closeIssue).mockResolvedValueOnce({ success: false, error: 'locked' })
+    vi.mocked(loadSyncState).mockResolvedValueOnce({ version: 1, issues: { 'task-1': issue({}) } })
+    vi.mocked(loadBeadsIssues).mockResolvedValue([issue({ source: 'beads' })])
+    vi.mocked(loadTodoFiles).mockResolvedValue([issue({ status: 'closed', source: 'file' })])
+
+    const result = await sync({ todoDir: '.todo' })
+
+    expect(result.updated).toEqual([])
+    expect(result.errors).toEqual([
+      expect.objectContaining({ issueId: 'task-1', message: expect.stringContaining('Failed to close issue task-1') }),
+    ])
+    expect(saveSyncState).toHaveBeenCalledWith('.todo', { 'task-1': issue({}) })
+  })
+
+  it('should rewrite the closed file with closedAt from beads', async () => {
+    vi.mocked(loadSyncState).mockResolvedValueOnce({ version: 1, issues: { 'task-1': issue({}) } })
+    vi.mocked(loadBeadsIssues)
+      .mockResolvedValueOnce([issue({ source: 'beads' })])
+      .mockResolvedValue([issue({ status: 'closed', closedAt: '2025-01-02T10:00:00.000Z', source: 'beads' })])
+    vi.mocked(loadTodoFiles).mockResolvedValue([issue({ status: 'closed', source: 'file' })])
+
+    await sync({ todoDir: '.todo', direction: 'files-to-beads' })
+
+    expect(writeTodoFiles).toHaveBeenCalledWith(
+      [expect.objectContaining({ id: 'task-1', status: 'closed', closedAt: '2025-01-02T10:00:00.000Z' })],
+      '.todo',
+      expect.any(Object)
+    )
+    expect(saveSyncState).toHaveBeenCalledWith(
+      '.todo',
+      expect.objectContaining({
+        'task-1': expect.objectContaining({ closedAt: '2025-01-02T10:00:00.000Z' }),
+      })
+    )
+  })
+
+  it('should close issues created from closed files', async () => {
+    vi.mocked(loadBeadsIssues).mockResolvedValue([])
+    vi.mocked(loadTodoFiles).mockResolvedValue([
+      issue({ status: 'closed', closeReason: 'Won\'t fix', source: 'file' }),
+    ])
+
+    await sync({ todoDir: '.todo' })
+
+    expect(createIssue).toHaveBeenCalledTimes(1)
+    expect(closeIssue).toHaveBeenCalledWith('task-1', 'Won\'t fix', { cwd: undefined })
+  })
+
+  it('should reopen through bd reopen and clear the close fields', async () => {
+    const closed = issue({ status: 'closed', closedAt: '2025-01-02T10:00:00.000Z', closeReason: 'Fixed' })
+    vi.mocked(loadSyncState).mockResolvedValueOnce({ version: 1, issues: { 'task-1': closed } })
+    vi.mocked(loadBeadsIssues)
+      .mockResolvedValueOnce([{ ...closed, source: 'beads' }])
+      .mockResolvedValue([issue({ status: 'in_progress', source: 'beads' })])
+    vi.mocked(loadTodoFiles).mockResolvedValue([{ ...closed, status: 'in_progress', source: 'file' }])
+
+    await sync({ todoDir: '.todo' })
+
+    expect(reopenIssue).toHaveBeenCalledWith('task-1', undefined)
+    expect(closeIssue).not.toHaveBeenCalled()
+    expect(updateIssue).toHaveBeenCalledWith(
+      'task-1',
+      expect.objectContaining({ status: 'in_progress' }),
+      expect.any(Object)
+    )
+
+    const written = vi.mocked(writeTodoFiles).mock.calls[0][0]
+    expect(written).toHaveLength(1)
+    expect(written[0].status).toBe('in_progress')
+    expect(written[0].closedAt).toBeUndefined()
+    expect(written[0].closeReason).toBeUndefined()
+  })
+
+  it('should skip the update when reopening fails', async () => {
+    vi.mocked(reopenIssue).mockResolvedValueOnce({ success: false, error: 'not closed' })
+    const closed = issue({ status: 'closed' })
+    vi.mocked(loadSyncState).mockResolvedValueOnce({ version: 1, issues: { 'task-1': closed } })
+    vi.mocked(loadBeadsIssues).mockResolvedValue([{ ...closed, source: 'beads' }])
+    vi.mocked(loadTodoFiles).mockResolvedValue([issue({ source: 'file' })])
+
+    const result = await sync({ todoDir: '.todo' })
+
+    expect(updateIssue).not.toHaveBeenCalled()
+    expect(result.updated).toEqual([])
+  })
+
+  it('should carry close reasons from beads to files', async () => {
+    vi.mocked(loadSyncState).mockResolvedValueOnce({ version: 1, issues: { 'task-1': issue({}) } })
+    vi.mocked(loadBeadsIssues).mockResolvedValue([
+      issue({ status: 'closed', closedAt: '2025-01-02T10:00:00.000Z', closeReason: 'Done', source: 'beads' }),
+    ])
+    vi.mocked(loadTodoFiles).mockResolvedValue([issue({ source: 'file' })])
+
+    await sync({ todoDir: '.todo' })
+
+    expect(closeIssue).not.toHaveBeenCalled()
+    expect(writeTodoFiles).toHaveBeenCalledWith(
+      [expect.objectContaining({ status: 'closed', closeReason: 'Done' })],
+      '.todo',
+      expect.any(Object)
+    )
+  })
+})
+
+describe('sync plan', () => {
+  const issue = (fields: Partial<TodoIssue>): TodoIssue => ({
+    id: 'task-1',
+    title: 'Task',
+    status: 'open',
+    type: 'task',
+    priority: 2,
+    ...fields,
+  })
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(writeTodoFiles).mockResolvedValue([])
+    vi.mocked(createIssue).mockResolvedValue({ success: true })
+    vi.mocked(updateIssue).mockResolvedValue({ success: true })
+  })
+
+  it('should list creates and updates with per-field before/after values', async () => {
+    vi.mocked(loadSyncState).mockResolvedValueOnce({ version: 1, issues: { 'task-1': issue({}) } })
+    vi.mocked(loadBeadsIssues).mockResolvedValue([issue({ source: 'beads' })])
+    vi.mocked(loadTodoFiles).mockResolvedValue([
+      issue({ priority: 1, source: 'file' }),
+      issue({ id: 'task-2', title: 'New', labels: ['api'], source: 'file' }),
+    ])
+
+    const plan = await planSync({ todoDir: '.todo' })
+
+    expect(plan.updates).toHaveLength(1)
+    expect(plan.updates[0].issueId).toBe('task-1')
+    expect(plan.updates[0].changes).toEqual([{ field: 'priority', before: 2, after: 1 }])
+
+    expect(plan.creates).toHaveLength(1)
+    expect(plan.creates[0].original).toBeUndefined()
+    expect(plan.creates[0].changes).toContainEqual({ field: 'title', before: undefined, after: 'New' })
+    expect(plan.creates[0].changes).toContainEqual({ field: 'labels', before: undefined, after: ['api'] })
+    expect(plan.creates[0].changes.map((c) => c.field)).not.toContain('source')
+
+    expect(createIssue).not.toHaveBeenCalled()
+    expect(updateIssue).not.toHaveBeenCalled()
+  })
+
+  it('should list file writes with their paths', async () => {
+    vi.mocked(loadSyncState).mockResolvedValueOnce({ version: 1, issues: { 'task-1': issue({}) } })
+    vi.mocked(loadBeadsIssues).mockResolvedValue([issue({ title: 'Renamed', source: 'beads' })])
+    vi.mocked(loadTodoFiles).mockResolvedValue([issue({ source: 'file' })])
+    vi.mocked(planTodoFiles).mockResolvedValueOnce({
+      written: [{ id: 'task-1', path: '/repo/.todo/Renamed.md' }],
+      moved: [{ id: 'task-1', from: '/repo/.todo/Task.md', to: '/repo/.todo/Renamed.md' }],
+      deleted: [],
+    })
+
+    const plan = await planSync({ todoDir: '.todo' })
+
+    expect(plan.fileWrites).toEqual([
+      expect.objectContaining({
+        issueId: 'task-1',
+        path: '/repo/.todo/Renamed.md',
+        changes: [{ field: 'title', before: 'Task', after: 'Renamed' }],
+      }),
+    ])
+    expect(plan.fileMoves).toHaveLength(1)
+  })
+
+  it('should report the plan on dry runs', async () => {
+    vi.mocked(loadBeadsIssues).mockResolvedValue([])
+    vi.mocked(loadTodoFiles).mockResolvedValue([issue({ source: 'file' })])
+
+    const result = await sync({ todoDir: '.todo', dryRun: true })
+
+    expect(result.created).toEqual(['task-1'])
+    expect(result.plan?.creates.map((c) => c.issueId)).toEqual(['task-1'])
+    expect(createIssue).not.toHaveBeenCalled()
+  })
+
+  it('should apply a previously computed plan without planning again', async () => {
+    vi.mocked(loadBeadsIssues).mockResolvedValue([])
+    vi.mocked(loadTodoFiles).mockResolvedValue([issue({ source: 'file' })])
+
+    const plan = await planSync({ todoDir: '.todo' })
+    vi.clearAllMocks()
+    vi.mocked(createIssue).mockResolvedValue({ success: true })
+
+    const result = await sync({ todoDir: '.todo', plan })
+
+    expect(planTodoFiles).not.toHaveBeenCalled()
+    expect(createIssue).toHaveBeenCalledTimes(1)
+    expect(result.created).toEqual(['task-1'])
+    expect(result.plan).toBe(plan)
+  })
+
+  it('should refuse a plan when beads changed since it was made', async () => {
+    vi.mocked(loadBeadsIssues).mockResolvedValue([])
+    vi.mocked(loadTodoFiles).mockResolvedValue([issue({ source: 'file' })])
+
+    const plan = await planSync({ todoDir: '.todo' })
+    vi.mocked(loadBeadsIssues).mockResolvedValue([issue({ source: 'beads' })])
+
+    await expect(sync({ todoDir: '.todo', plan })).rejects.toThrow(/out of date[\s\S]*beads issue task-1/)
+    expect(createIssue).not.toHaveBeenCalled()
+  })
+
+  it('should refuse a plan when a file or the merge base changed since it was made', async () => {
+    vi.mocked(loadBeadsIssues).mockResolvedValue([issue({ source: 'beads' })])
+    vi.mocked(loadTodoFiles).mockResolvedValue([issue({ priority: 1, source: 'file' })])
+    vi.mocked(loadSyncState).mockResolvedValue({ version: 1, issues: { 'task-1': issue({}) } })
+
+    const plan = await planSync({ todoDir: '.todo' })
+    vi.mocked(loadTodoFiles).mockResolvedValue([issue({ priority: 0, source: 'file' })])
+    vi.mocked(loadSyncState).mockResolvedValue({ version: 1, issues: { 'task-1': issue({ title: 'Base' }) } })
+
+    await expect(sync({ todoDir: '.todo', plan })).rejects.toThrow(/file for task-1[\s\S]*merge base of task-1/)
+    expect(updateIssue).not.toHaveBeenCalled()
+  })
+})
+
+describe('sync journal', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(loadSyncState).mockResolvedValue({ version: 1, issues: {} })
+  })
+
+  it('should journal the prior beads state of updated issues', async () => {
+    const beadsIssue: TodoIssue = {
+      id: 'task-1',
+      title: 'Old title',
+      status: 'open',
+      type: 'task',
+      priority: 2,
+      updatedAt: '2025-01-01T00:00:00Z',
+    }
+    const fileIssue: TodoIssue = { ...beadsIssue, title: 'New title', updatedAt: '2025-01-02T00:00:00Z' }
+
+    vi.mocked(loadBeadsIssues).mockResolvedValue([beadsIssue])
+    vi.mocked(loadTodoFiles).mockResolvedValue([fileIssue])
+    vi.mocked(updateIssue).mockResolvedValue({ success: true })
+
+    await sync({ todoDir: '.todo', direction: 'files-to-beads' })
+
+    expect(appendJournalEntry).toHaveBeenCalledTimes(1)
+    const [todoDir, entry] = vi.mocked(appendJournalEntry).mock.calls[0]
+    expect(todoDir).toBe('.todo')
+    expect(entry.issues).toHaveLength(1)
+    expect(entry.issues[0].issueId).toBe('task-1')
+    expect(entry.issues[0].before?.title).toBe('Old title')
+  })
+
+  it('should not journal dry runs or syncs with no changes', async () => {
+    const beadsIssue: TodoIssue = { id: 'task-1', title: 'Same', status: 'open', type: 'task', priority: 2 }
+    vi.mocked(loadBeadsIssues).mockResolvedValue([beadsIssue])
+    vi.mocked(loadTodoFiles).mockResolvedValue([{ ...beadsIssue, title: 'Changed' }])
+
+    await sync({ todoDir: '.todo', direction: 'files-to-beads', dryRun: true })
+    vi.mocked(loadTodoFiles).mockResolvedValue([beadsIssue])
+    await sync({ todoDir: '.todo', direction: 'files-to-beads' })
+
+    expect(appendJournalEntry).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest'
+import {
+  BUILTIN_FILTERS,
+  applyFilters,
+  parseSlotFilters,
+  resolveFilters,
+  reverseFilters,
+} from '../src/template-filters.js'
+
+describe('parseSlotFilters', () => {
+  it('should split the path from its filters and their arguments', () => {
+    expect(parseSlotFilters('issue.title')).toEqual({ path: 'issue.title', filters: [] })
+    expect(parseSlotFilters('issue.createdAt | date:"yyyy-mm-dd | HH" | upper')).toEqual({
+      path: 'issue.createdAt',
+      filters: [
+        { name: 'date', args: ['yyyy-mm-dd | HH'] },
+        { name: 'upper', args: [] },
+      ],
+    })
+    expect(parseSlotFilters("x | pad: 4, '\\', ' ").filters).toEqual([{ name: 'pad', args: ['4', "', "] }])
+  })
+})
+
+describe('built-in filters', () => {
+  const filters = resolveFilters()
+  const format = (value: unknown, expression: string) =>
+    applyFilters(value, parseSlotFilters(`value | ${expression}`).filters, filters)
+
+  it('should format dates in UTC', () => {
+    expect(format('2025-03-04T23:05:09-02:00', 'date')).toBe('2025-03-05')
+    expect(format('2025-03-04T23:05:09Z', 'date:"dd/mm/yyyy HH:MM:ss"')).toBe('04/03/2025 23:05:09')
+    expect(format(undefined, 'date')).toBe('')
+    expect(format('soon', 'date')).toBe('soon')
+  })
+
+  it('should format lists, priorities and text', () => {
+    expect(format(['bug', 'ui'], 'badges')).toBe('`bug` `ui`')
+    expect(format(['a-1', 'a-2'], 'links')).toBe('[a-1](./a-1.md), [a-2](./a-2.md)')
+    expect(format(undefined, 'links')).toBe('')
+    expect(format(0, 'priorityLabel')).toBe('Critical')
+    expect(format('Mixed Case', 'upper | truncate:8')).toBe('MIXED C…')
+    expect(format('short', 'truncate:8')).toBe('short')
+  })
+
+  it('should reverse the filters that can be reversed', () => {
+    const reverse = (text: string, expression: string) =>
+      reverseFilters(text, parseSlotFilters(`value | ${expression}`).filters, filters)
+
+    expect(reverse('`bug` `ui`', 'badges')).toEqual(['bug', 'ui'])
+    expect(reverse('[a-1](./a-1.md), [a-2](./a-2.md)', 'links')).toEqual(['a-1', 'a-2'])
+    expect(reverse('high', 'priorityLabel')).toBe('1')
+    expect(reverse('Urgent', 'priorityLabel')).toBeUndefined()
+    expect(reverse('short', 'truncate:8')).toBe('short')
+    expect(reverse('MIXED C…', 'truncate:8')).toBeUndefined()
+    expect(reverse('MIXED', 'upper')).toBeUndefined()
+    expect(reverse('2025-03-05', 'date')).toBeUndefined()
+  })
+})
+
+describe('resolveFilters', () => {
+  it('should add custom filters, wrapping plain functions', () => {
+    const filters = resolveFilters({
+      initials: (value) => String(value).split('-').map((word) => word[0]).join(''),
+      upper: { format: () => 'custom' },
+    })
+
+    expect(filters.initials.format('john-doe')).toBe('jd')
+    expect(filters.initials.parse).toBeUndefined()
+    expect(filters.upper.format('x')).toBe('custom')
+    expect(filters.badges).toBe(BUILTIN_FILTERS.badges)
+  })
+
+  it('should reject unknown filters', () => {
+    expect(() => applyFilters('x', [{ name: 'shout', args: [] }], resolveFilters())).toThrow(
+      'Unknown template filter "shout"'
+    )
+  })
+})
@@ -3,6 +3,9 @@
  */
 import { describe, it, expect } from 'vitest'
 import { getBuiltinPreset } from '../src/presets.js'
+import { generateTodoFile } from '../src/generator.js'
+import { parseTodoFile } from '../src/parser.js'
+import type { TodoIssue } from '../src/types.js'
 
 describe('getBuiltinPreset', () => {
   describe('minimal preset', () => {
@@ -171,4 +174,50 @@ describe('getBuiltinPreset', () => {
       })
     })
   })
+
+  describe('round-trip', () => {
+    const presets = ['minimal', 'detailed', 'github', 'linear']
+
+    // An open issue: no assignee, labels, closedAt, blocks or children
+    const issue: TodoIssue = {
+      id: 'p-1',
+      title: 'Fix login',
+      description: 'Users are logged out on refresh.',
+      status: 'open',
+      type: 'bug',
+      priority: 2,
+      dependsOn: ['p-2'],
+      createdAt: '2024-01-01T00:00:00.000Z',
+      updatedAt: '2024-01-02T00:00:00.000Z',
+    }
+
+    presets.forEach(preset => {
+      it(`${preset} preset reads back issues with optional fields left empty`, () => {
+        const template = getBuiltinPreset(preset)
+        const bare: TodoIssue = { id: 'p-2', title: 'Bare', status: 'open', type: 'task', priority: 3 }
+
+        for (const original of [issue, bare]) {
+          const parsed = parseTodoFile(generateTodoFile(original, template), { template })
+
+          expect(parsed.extraction?.applied).toBe(true)
+          expect(parsed.issue).toMatchObject({ ...original, source: 'file' })
+          expect(parsed.issue.assignee).toBeUndefined()
+          expect(parsed.issue.closedAt).toBeUndefined()
+        }
+      })
+
+      it(`${preset} preset picks up body edits when optional fields are empty`, () => {
+        const template = getBuiltinPreset(preset)
+        const content = generateTodoFile(issue, template).replace(
+          'Users are logged out on refresh.',
+          'Users are logged out on every refresh.'
+        )
+
+        const parsed = parseTodoFile(content, { template })
+
+        expect(parsed.extraction?.applied).toBe(true)
+        expect(parsed.issue.description).toBe('Users are logged out on every refresh.')
+      })
+    })
+  })
 })
@@ -1,5 +1,7 @@
 import { describe, it, expect } from 'vitest'
-import { renderTemplate, resolveTemplate } from '../src/templates.js'
+import { render, renderTemplate, resolveTemplate, parseTemplateFrontmatter } from '../src/templates.js'
+import { generateTodoFile } from '../src/generator.js'
+import { parseTodoFile } from '../src/parser.js'
 import type { TodoIssue } from '../src/types.js'
 
 describe('renderTemplate', () => {
@@ -173,6 +175,21 @@ describe('built-in templates with renderTemplate', () => {
     expect(result).not.toMatch(/\{\{issue\./)
   })
 
+  it('should leave empty sections out of the minimal preset and round-trip it', async () => {
+    // Without a template directory, so the project's own [Issue].mdx isn't picked up
+    const template = await resolveTemplate('issue', { templateDir: 'no-templates', preset: 'minimal' })
+    const bare: TodoIssue = { id: 'todo-457', title: 'Bare issue', status: 'open', type: 'bug', priority: 3 }
+
+    const result = renderTemplate(parseTemplateFrontmatter(template).body, { issue: bare })
+    expect(result).toBe('# Bare issue\n\n**Status:** open | **Priority:** 3 | **Type:** bug\n')
+
+    for (const issue of [bare, sampleIssue]) {
+      const parsed = parseTodoFile(generateTodoFile(issue, template), { template })
+      expect(parsed.extraction?.confidence).toBe(1)
+      expect(parsed.issue).toMatchObject({ ...issue, dependsOn: issue.dependsOn, blocks: issue.blocks })
+    }
+  })
+
   it('should render detailed preset without Handlebars syntax remaining', async () => {
     const template = await resolveTemplate('issue', { preset: 'detailed' })
     const result = renderTemplate(template, { issue: sampleIssue })
@@ -239,4 +256,158 @@ describe('built-in templates with renderTemplate', () => {
     // Should not render "undefined" as a string
     expect(result).not.toContain('undefined')
   })
+
+  it('should hide the assignee and labels of the default template when empty', async () => {
+    const unassigned: TodoIssue = { id: 'todo-bare', title: 'Bare', status: 'open', type: 'task', priority: 2 }
+
+    const template = await resolveTemplate('issue', { templateDir: '/nonexistent' })
+    const result = renderTemplate(template, { issue: unassigned })
+
+    expect(result).not.toContain('Assignee')
+    expect(result).not.toContain('## Labels')
+    expect(renderTemplate(template, { issue: sampleIssue })).toContain('## Labels')
+  })
+})
+
+describe('render with components', () => {
+  const Echo = {
+    render: (props: Record<string, unknown>) => JSON.stringify(props),
+  }
+
+  it('should render self-closing component tags with parsed props', () => {
+    const result = render(
+      '<Echo label="open" limit={10} columns={[\'id\', "title"]} compact />',
+      { components: { Echo } }
+    )
+    expect(JSON.parse(result)).toEqual({
+      label: 'open',
+      limit: 10,
+      columns: ['id', 'title'],
+      compact: true,
+    })
+  })
+
+  it('should resolve dotted component names', () => {
+    const result = render('<Board.Column name="todo" />', {
+      components: { Board: { Column: Echo } },
+    })
+    expect(JSON.parse(result)).toEqual({ name: 'todo' })
+  })
+
+  it('should resolve prop expressions against the data', () => {
+    const result = render('<Echo count={stats.total} />', {
+      stats: { total: 3 },
+      components: { Echo },
+    })
+    expect(JSON.parse(result)).toEqual({ count: 3 })
+  })
+
+  it('should leave unknown components untouched', () => {
+    const result = render('Before <Unknown limit={5} /> after {value}', { value: 'x' })
+    expect(result).toBe('Before <Unknown limit={5} /> after x')
+  })
+})
+
+describe('render with blocks', () => {
+  const template = `{#if issue.assignee}
+**Assignee:** @{issue.assignee}
+{:else}
+_Unassigned_
+{/if}
+## Depends on
+
+{#each issue.dependsOn as dep}
+- [{dep}](./{dep}.md)
+{:else}
+_None_
+{/each}
+`
+
+  it('should render the branch whose condition holds', () => {
+    expect(render(template, { issue: { assignee: 'sam', dependsOn: [] } })).toBe(
+      '**Assignee:** @sam\n## Depends on\n\n_None_\n'
+    )
+    expect(render(template, { issue: { assignee: '', dependsOn: [] } })).toMatch(/^_Unassigned_\n/)
+    expect(render('{#if !issue.labels}none{/if}', { issue: { labels: [] } })).toBe('none')
+    expect(render('{#if issue.priority}P{issue.priority}{/if}', { issue: { priority: 0 } })).toBe('P0')
+  })
+
+  it('should render a loop body per item, scoped to the item', () => {
+    expect(render(template, { issue: { dependsOn: ['a-1', 'a-2'] } })).toContain(
+      '## Depends on\n\n- [a-1](./a-1.md)\n- [a-2](./a-2.md)\n'
+    )
+    expect(
+      render('{#each issues as i}{i.id}{#if i.done} ✓{/if}; {/each}', {
+        issues: [{ id: 'a', done: true }, { id: 'b' }],
+      })
+    ).toBe('a ✓; b; ')
+  })
+
+  it('should leave escaped block tags alone', () => {
+    expect(render('{{#if x}}', { x: true })).toBe('{#if x}')
+  })
+
+  it('should reject unbalanced blocks', () => {
+    expect(() => render('{#if x}open', {})).toThrow('Unclosed {#if}')
+    expect(() => render('{#if x}{/each}', {})).toThrow('Unexpected {/each}')
+    expect(() => render('{#each items}{/each}', {})).toThrow('expected {#each path as name}')
+  })
+})
+
+describe('render with filters', () => {
+  const issue = {
+    title: 'Fix login',
+    priority: 1,
+    labels: ['bug', 'ui'],
+    dependsOn: ['a-1'],
+    createdAt: '2025-03-04T10:00:00Z',
+  }
+
+  it('should pipe slot values through filters', () => {
+    expect(
+      render(
+        '# {issue.title | upper} ({issue.priority | priorityLabel})\n{issue.labels | badges}\n' +
+          '{issue.dependsOn | links}\n{issue.createdAt | date:"dd/mm/yyyy"}\n{issue.title | truncate:5}',
+        { issue }
+      )
+    ).toBe('# FIX LOGIN (High)\n`bug` `ui`\n[a-1](./a-1.md)\n04/03/2025\nFix…')
+  })
+
+  it('should use custom filters from the context', () => {
+    const filters = { shout: (value: unknown, mark = '!') => `${value}${mark}` }
+    expect(render('{issue.title | shout:"!!"}', { issue, filters })).toBe('Fix login!!')
+    expect(() => render('{issue.title | shout}', { issue })).toThrow('Unknown template filter "shout"')
+  })
+})
+
+describe('parseTemplateFrontmatter', () => {
+  it('should return $-prefixed config keys and the body', () => {
+    const { config, body } = parseTemplateFrontmatter(
+      '---\n$pattern: "[id]-[title].md"\nid: {issue.id}\n---\n# {issue.title}\n'
+    )
+    expect(config).toEqual({ $pattern: '[id]-[title].md' })
+    expect(body).toBe('# {issue.title}\n')
+  })
+
+  it('should return the whole template when there is no frontmatter', () => {
+    const { config, body } = parseTemplateFrontmatter('# {issue.title}')
+    expect(config).toEqual({})
+    expect(body).toBe('# {issue.title}')
+  })
+})
+
+describe('renderTemplate with Issue components', () => {
+  it('should bind Issue.Labels and Issue.Dependencies to the issue', () => {
+    const issue: TodoIssue = {
+      id: 'todo-1',
+      title: 'T',
+      status: 'open',
+      type: 'task',
+      priority: 2,
+      labels: ['a', 'b'],
+      dependsOn: ['todo-0'],
+    }
+    const result = renderTemplate('<Issue.Labels />\n\n<Issue.Dependencies />', { issue })
+    expect(result).toBe('a, b\n\n- todo-0')
+  })
 })
@@ -0,0 +1,213 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { mkdtemp, rm, readFile, writeFile } from 'fs/promises'
+import { join } from 'path'
+import { tmpdir } from 'os'
+import { undo } from '../src/undo.js'
+import { appendJournalEntry, loadJournal, readFileContents } from '../src/journal.js'
+import { loadSyncState } from '../src/sync-state.js'
+import type { TodoIssue } from '../src/types.js'
+
+vi.mock('beads-workflows', () => ({
+  createIssue: vi.fn(),
+  updateIssue: vi.fn(async () => ({ success: true })),
+  closeIssue: vi.fn(async () => ({ success: true })),
+}))
+
+vi.mock('../src/beads.js', () => ({
+  isBdAvailable: vi.fn(async () => true),
+  loadBeadsIssues: vi.fn(async () => []),
+  addDependency: vi.fn(async () => ({ success: true })),
+  removeDependency: vi.fn(async () => ({ success: true })),
+  reopenIssue: vi.fn(async () => ({ success: true })),
+  updateSkippedFields: vi.fn(async () => ({ success: true })),
+  deleteIssue: vi.fn(async () => ({ success: true })),
+}))
+
+import { updateIssue, closeIssue } from 'beads-workflows'
+import { loadBeadsIssues, addDependency, reopenIssue, deleteIssue } from '../src/beads.js'
+
+describe('undo', () => {
+  let todoDir: string
+
+  const before: TodoIssue = {
+    id: 'task-1',
+    title: 'Old title',
+    status: 'open',
+    type: 'task',
+    priority: 2,
+  }
+  const after: TodoIssue = { ...before, title: 'New title' }
+
+  beforeEach(async () => {
+    vi.clearAllMocks()
+    todoDir = await mkdtemp(join(tmpdir(), 'todo-undo-'))
+  })
+
+  afterEach(async () => {
+    await rm(todoDir, { recursive: true, force: true })
+  })
+
+  it('should fail when the journal is empty', async () => {
+    await expect(undo({ todoDir })).rejects.toThrow('Nothing to undo')
+  })
+
+  it('should reject invalid steps', async () => {
+    await expect(undo({ todoDir, steps: 0 })).rejects.toThrow('Invalid steps')
+  })
+
+  it('should restore files, beads issues and the sync state', async () => {
+    const path = join(todoDir, 'task-1.md')
+    await writeFile(path, 'new content')
+    await appendJournalEntry(todoDir, {
+      issues: [{ issueId: 'task-1', before, after }],
+      files: [{ path, before: 'old content', after: 'new content' }],
+      syncState: { 'task-1': before },
+    })
+    vi.mocked(loadBeadsIssues).mockResolvedValueOnce([after]).mockResolvedValue([before])
+
+    const result = await undo({ todoDir })
+
+    expect(result.issues).toEqual(['task-1'])
+    expect(result.files).toEqual([path])
+    expect(await readFile(path, 'utf-8')).toBe('old content')
+    expect(updateIssue).toHaveBeenCalledWith(
+      'task-1',
+      expect.objectContaining({ title: 'Old title' }),
+      expect.anything()
+    )
+    expect((await loadSyncState(todoDir)).issues).toEqual({ 'task-1': before })
+    expect(await loadJournal(todoDir)).toEqual([])
+  })
+
+  it('should delete issues and files the sync created', async () => {
+    const path = join(todoDir, 'task-1.md')
+    await writeFile(path, 'created')
+    await appendJournalEntry(todoDir, {
+      issues: [{ issueId: 'task-1', after }],
+      files: [{ path, before: null, after: 'created' }],
+      syncState: {},
+    })
+    vi.mocked(loadBeadsIssues).mockResolvedValueOnce([after]).mockResolvedValue([])
+
+    await undo({ todoDir })
+
+    expect(deleteIssue).toHaveBeenCalledWith('task-1', undefined)
+    expect((await readFileContents([path]))[path]).toBeNull()
+  })
+
+  it('should reopen, close and restore dependencies as before the sync', async () => {
+    const closed: TodoIssue = { ...before, status: 'closed', closeReason: 'Done' }
+    const reopened: TodoIssue = { ...before, dependsOn: [] }
+    await appendJournalEntry(todoDir, {
+      issues: [
+        { issueId: 'task-1', before: { ...before, dependsOn: ['task-2'] }, after: { ...before, status: 'closed' } },
+        { issueId: 'task-3', before: { ...closed, id: 'task-3' }, after: { ...reopened, id: 'task-3' } },
+      ],
+      files: [],
+      syncState: {},
+    })
+    vi.mocked(loadBeadsIssues)
+      .mockResolvedValueOnce([
+        { ...before, status: 'closed' },
+        { ...reopened, id: 'task-3' },
+      ])
+      .mockResolvedValue([
+        { ...before, dependsOn: ['task-2'] },
+        { ...closed, id: 'task-3', closedAt: '2025-01-03T00:00:00.000Z' },
+      ])
+
+    await undo({ todoDir })
+
+    expect(reopenIssue).toHaveBeenCalledWith('task-1', undefined)
+    expect(addDependency).toHaveBeenCalledWith('task-1', 'task-2', 'blocks', undefined)
+    expect(closeIssue).toHaveBeenCalledWith('task-3', 'Done', expect.anything())
+  })
+
+  it('should clear fields that were empty before the sync', async () => {
+    await appendJournalEntry(todoDir, {
+      issues: [{ issueId: 'task-1', before, after: { ...before, assignee: 'bob', labels: ['ui'] } }],
+      files: [],
+      syncState: {},
+    })
+    vi.mocked(loadBeadsIssues)
+      .mockResolvedValueOnce([{ ...before, assignee: 'bob', labels: ['ui'] }])
+      .mockResolvedValue([before])
+
+    await undo({ todoDir })
+
+    expect(updateIssue).toHaveBeenCalledWith(
+      'task-1',
+      expect.objectContaining({ assignee: '', labels: [], description: '' }),
+      expect.anything()
+    )
+  })
+
+  it('should keep the journal entry when beads was not restored', async () => {
+    const path = join(todoDir, 'task-1.md')
+    await writeFile(path, 'new content')
+    await appendJournalEntry(todoDir, {
+      issues: [{ issueId: 'task-1', before, after }],
+      files: [{ path, before: 'old content', after: 'new content' }],
+      syncState: { 'task-1': before },
+    })
+    await writeFile(join(todoDir, '.sync-state.json'), JSON.stringify({ version: 1, issues: { 'task-1': after } }))
+    vi.mocked(loadBeadsIssues).mockResolvedValue([after])
+
+    await expect(undo({ todoDir })).rejects.toThrow('Could not fully undo')
+
+    expect(await loadJournal(todoDir)).toHaveLength(1)
+    expect((await loadSyncState(todoDir)).issues).toEqual({ 'task-1': after })
+  })
+
+  it('should refuse when an issue was modified after the sync', async () => {
+    const path = join(todoDir, 'task-1.md')
+    await writeFile(path, 'new content')
+    await appendJournalEntry(todoDir, {
+      issues: [{ issueId: 'task-1', before, after }],
+      files: [{ path, before: 'old content', after: 'new content' }],
+      syncState: {},
+    })
+    vi.mocked(loadBeadsIssues).mockResolvedValue([{ ...after, priority: 0 }])
+
+    await expect(undo({ todoDir })).rejects.toThrow('beads issue task-1')
+
+    expect(updateIssue).not.toHaveBeenCalled()
+    expect(await readFile(path, 'utf-8')).toBe('new content')
+    expect(await loadJournal(todoDir)).toHaveLength(1)
+  })
+
+  it('should refuse when a file was modified after the sync', async () => {
+    const path = join(todoDir, 'task-1.md')
+    await writeFile(path, 'edited by hand')
+    await appendJournalEntry(todoDir, {
+      issues: [],
+      files: [{ path, before: 'old content', after: 'new content' }],
+      syncState: {},
+    })
+
+    await expect(undo({ todoDir })).rejects.toThrow(path)
+    expect(await readFile(path, 'utf-8')).toBe('edited by hand')
+  })
+
+  it('should undo several syncs newest first', async () => {
+    const path = join(todoDir, 'task-1.md')
+    await writeFile(path, 'v3')
+    await appendJournalEntry(todoDir, {
+      issues: [],
+      files: [{ path, before: 'v1', after: 'v2' }],
+      syncState: {},
+    })
+    await appendJournalEntry(todoDir, {
+      issues: [],
+      files: [{ path, before: 'v2', after: 'v3' }],
+      syncState: {},
+    })
+
+    await expect(undo({ todoDir, steps: 3 })).rejects.toThrow('Cannot undo 3 syncs')
+
+    const result = await undo({ todoDir, steps: 2 })
+
+    expect(result.entries).toHaveLength(2)
+    expect(await readFile(path, 'utf-8')).toBe('v1')
+  })
+})
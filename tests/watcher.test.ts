@@ -174,6 +174,40 @@ describe('watch', () => {
     vi.useRealTimers()
   })
 
+  it('should pass the rest of the config to sync', async () => {
+    vi.useFakeTimers()
+    const filters = { slug: (value: unknown) => String(value) }
+
+    const watcher = await watch({
+      todoDir: '.todo',
+      debounceMs: 100,
+      filePattern: '[id].md',
+      closedSubdir: 'done',
+      preset: 'minimal',
+      templateDir: 'templates',
+      beadsBackend: 'jsonl',
+      filters,
+    })
+
+    beadsWatcher.emit('change', '/test/.beads/issues.jsonl')
+    await vi.runAllTimersAsync()
+
+    expect(sync).toHaveBeenCalledWith(
+      expect.objectContaining({
+        filePattern: '[id].md',
+        closedSubdir: 'done',
+        preset: 'minimal',
+        templateDir: 'templates',
+        beadsBackend: 'jsonl',
+        filters,
+      })
+    )
+    expect(sync).toHaveBeenCalledWith(expect.not.objectContaining({ debounceMs: 100 }))
+
+    await watcher.close()
+    vi.useRealTimers()
+  })
+
   it('should trigger sync on todo file add', async () => {
     vi.useFakeTimers()
 